@@ -0,0 +1,22 @@
+import { rankingService } from '../src/services/rankingService';
+
+// Usage: npx ts-node scripts/replay-ratings.ts [sessionId]
+async function main() {
+  const sessionId = process.argv[2];
+
+  console.log(sessionId ? `Replaying ratings for session ${sessionId}...` : 'Replaying ratings for all sessions...');
+
+  const result = await rankingService.replayRatings({ sessionId });
+
+  console.log('='.repeat(60));
+  console.log('Rating replay complete.');
+  console.log(`Sessions replayed: ${result.sessionsReplayed}`);
+  console.log(`Games replayed: ${result.gamesReplayed}`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Rating replay failed:', error);
+    process.exit(1);
+  });
@@ -1,6 +1,7 @@
 import { Server as SocketServer } from 'socket.io';
 import { prisma } from './database';
 import { cacheService } from '../services/cacheService';
+import { hasPermission } from '../middleware/permissions';
 
 // Helper function to get nearby sessions
 const getNearbySessions = async (latitude: number, longitude: number, radius: number) => {
@@ -78,6 +79,21 @@ export const setupSocket = (io: SocketServer): void => {
       socket.join(`session-${sessionId}`);
       console.log(`👤 User ${socket.id} joined session ${sessionId}`);
 
+      // Whoever answers join requests or settles disputed scores also gets the alerts meant for them
+      if (typeof data !== 'string' && data.deviceId) {
+        try {
+          const player = await prisma.mvpPlayer.findFirst({
+            where: { deviceId: data.deviceId, session: { shareCode: sessionId } },
+            select: { role: true }
+          });
+          if (player && (hasPermission(player.role, 'approve_joins') || hasPermission(player.role, 'record_scores'))) {
+            socket.join(`session-${sessionId}-organizer`);
+          }
+        } catch (error) {
+          console.error('Error checking organizer for session room:', error);
+        }
+      }
+
       // Notify others in the session
       socket.to(`session-${sessionId}`).emit('user-joined', {
         socketId: socket.id,
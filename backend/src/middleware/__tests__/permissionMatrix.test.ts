@@ -0,0 +1,35 @@
+import { DELEGATED_ROLES, hasPermission, rolesWithPermission } from '../permissions';
+
+describe('Permission Matrix', () => {
+  describe('hasPermission', () => {
+    it('should give the organizer every action', () => {
+      expect(hasPermission('ORGANIZER', 'edit_session')).toBe(true);
+      expect(hasPermission('ORGANIZER', 'delete_session')).toBe(true);
+      expect(hasPermission('ORGANIZER', 'manage_roles')).toBe(true);
+    });
+
+    it('should limit delegated roles to their own actions', () => {
+      expect(hasPermission('CO_ORGANIZER', 'approve_joins')).toBe(true);
+      expect(hasPermission('CO_ORGANIZER', 'delete_session')).toBe(false);
+      expect(hasPermission('CO_ORGANIZER', 'manage_roles')).toBe(false);
+      expect(hasPermission('SCOREKEEPER', 'record_scores')).toBe(true);
+      expect(hasPermission('SCOREKEEPER', 'manage_courts')).toBe(false);
+      expect(hasPermission('COURT_MANAGER', 'manage_courts')).toBe(true);
+      expect(hasPermission('COURT_MANAGER', 'record_scores')).toBe(false);
+      expect(hasPermission('PLAYER', 'edit_session')).toBe(false);
+    });
+  });
+
+  describe('rolesWithPermission', () => {
+    it('should list the roles allowed to perform an action', () => {
+      expect(rolesWithPermission('record_scores')).toEqual(['ORGANIZER', 'CO_ORGANIZER', 'SCOREKEEPER']);
+      expect(rolesWithPermission('manage_courts')).toEqual(['ORGANIZER', 'CO_ORGANIZER', 'COURT_MANAGER']);
+      expect(rolesWithPermission('approve_joins')).toEqual(['ORGANIZER', 'CO_ORGANIZER']);
+      expect(rolesWithPermission('manage_roles')).toEqual(['ORGANIZER']);
+    });
+
+    it('should never let the organizer hand out the organizer role', () => {
+      expect(DELEGATED_ROLES).not.toContain('ORGANIZER');
+    });
+  });
+});
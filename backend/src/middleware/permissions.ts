@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from 'express';
 import { prisma } from '../config/database';
 
 // Permission matrix defining what each role can do
+// The organizer owns the session; the other roles are handed out by the organizer to spread the work.
 export const PERMISSION_MATRIX = {
   ORGANIZER: {
     canEditSession: true,
@@ -12,6 +13,52 @@ export const PERMISSION_MATRIX = {
     canUpdatePlayerStatus: true,
     canGeneratePairings: true,
     canModifyPairings: true,
+    canRecordScores: true,
+    canManageCourts: true,
+    canApproveJoins: true,
+    canManageRoles: true,
+  },
+  CO_ORGANIZER: {
+    canEditSession: true,
+    canDeleteSession: false,
+    canManagePlayers: true,
+    canRemovePlayers: true,
+    canAddPlayers: true,
+    canUpdatePlayerStatus: true,
+    canGeneratePairings: true,
+    canModifyPairings: true,
+    canRecordScores: true,
+    canManageCourts: true,
+    canApproveJoins: true,
+    canManageRoles: false,
+  },
+  SCOREKEEPER: {
+    canEditSession: false,
+    canDeleteSession: false,
+    canManagePlayers: false,
+    canRemovePlayers: false,
+    canAddPlayers: false,
+    canUpdatePlayerStatus: true, // Their own status, as for players
+    canGeneratePairings: false,
+    canModifyPairings: false,
+    canRecordScores: true,
+    canManageCourts: false,
+    canApproveJoins: false,
+    canManageRoles: false,
+  },
+  COURT_MANAGER: {
+    canEditSession: false,
+    canDeleteSession: false,
+    canManagePlayers: false,
+    canRemovePlayers: false,
+    canAddPlayers: false,
+    canUpdatePlayerStatus: true, // Their own status, as for players
+    canGeneratePairings: true,
+    canModifyPairings: true,
+    canRecordScores: false,
+    canManageCourts: true,
+    canApproveJoins: false,
+    canManageRoles: false,
   },
   PLAYER: {
     canEditSession: false,
@@ -22,11 +69,15 @@ export const PERMISSION_MATRIX = {
     canUpdatePlayerStatus: true, // Players can update their own status
     canGeneratePairings: false,
     canModifyPairings: false,
+    canRecordScores: false,
+    canManageCourts: false,
+    canApproveJoins: false,
+    canManageRoles: false,
   }
 };
 
 // Types for permission checking
-export type PlayerRole = 'ORGANIZER' | 'PLAYER';
+export type PlayerRole = keyof typeof PERMISSION_MATRIX;
 export type PermissionAction =
   | 'edit_session'
   | 'delete_session'
@@ -35,29 +86,46 @@ export type PermissionAction =
   | 'add_players'
   | 'update_player_status'
   | 'generate_pairings'
-  | 'modify_pairings';
+  | 'modify_pairings'
+  | 'record_scores'
+  | 'manage_courts'
+  | 'approve_joins'
+  | 'manage_roles';
+
+export const PLAYER_ROLES = Object.keys(PERMISSION_MATRIX) as PlayerRole[];
+
+// Roles the organizer can hand out; there is only ever one organizer per session
+export const DELEGATED_ROLES: PlayerRole[] = ['CO_ORGANIZER', 'SCOREKEEPER', 'COURT_MANAGER', 'PLAYER'];
+
+// Roles that are allowed to perform an action
+export const rolesWithPermission = (action: PermissionAction): PlayerRole[] =>
+  PLAYER_ROLES.filter(role => hasPermission(role, action));
 
 // Permission error response
-export const createPermissionError = (requiredRole: PlayerRole, userRole: PlayerRole, action: PermissionAction) => ({
-  error: 'Insufficient permissions',
-  requiredRole,
-  userRole,
-  operation: action,
-  message: `Only ${requiredRole} can perform this action`
-});
-
-// Check if a role has permission for an action
+export const createPermissionError = (userRole: PlayerRole, action: PermissionAction) => {
+  const allowedRoles = rolesWithPermission(action);
+  return {
+    error: 'Insufficient permissions',
+    allowedRoles,
+    userRole,
+    operation: action,
+    message: `Only ${allowedRoles.join(', ')} can perform this action`
+  };
+};
+
+// Check if a role has permission for an action, e.g. 'record_scores' -> canRecordScores
 export const hasPermission = (role: PlayerRole, action: PermissionAction): boolean => {
-  const permissionKey = `can${action.charAt(0).toUpperCase()}${action.slice(1).replace(/_/g, '')}` as keyof typeof PERMISSION_MATRIX.ORGANIZER;
-  return PERMISSION_MATRIX[role][permissionKey] as boolean;
+  const permissionKey = `can${action.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join('')}` as keyof typeof PERMISSION_MATRIX.ORGANIZER;
+  return PERMISSION_MATRIX[role]?.[permissionKey] ?? false;
 };
 
-// Middleware to check if user has required role for a session
-export const requireRole = (requiredRole: PlayerRole, action: PermissionAction) => {
+// Middleware to check the requesting player's role allows an action in a session
+export const requirePermission = (action: PermissionAction) => {
   return async (req: Request, res: Response, next: NextFunction) => {
     try {
       const { shareCode } = req.params;
-      const { deviceId, ownerDeviceId } = req.body;
+      // GET requests have no body, so they identify the device in the query string
+      const { deviceId, ownerDeviceId } = req.body ?? req.query;
 
       if (!shareCode) {
         return res.status(400).json({
@@ -70,6 +138,18 @@ export const requireRole = (requiredRole: PlayerRole, action: PermissionAction)
         });
       }
 
+      // Without a device there is no caller to look up; an empty filter would match every player
+      if (!deviceId && !ownerDeviceId) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'MISSING_DEVICE_ID',
+            message: 'Device ID is required'
+          },
+          timestamp: new Date().toISOString()
+        });
+      }
+
       // Find the session
       const session = await prisma.mvpSession.findUnique({
         where: { shareCode },
@@ -106,20 +186,11 @@ export const requireRole = (requiredRole: PlayerRole, action: PermissionAction)
         });
       }
 
-      // Check if player has required role
-      if (player.role !== requiredRole) {
-        return res.status(403).json({
-          success: false,
-          error: createPermissionError(requiredRole, player.role, action),
-          timestamp: new Date().toISOString()
-        });
-      }
-
-      // Check specific permission
+      // Check the player's role grants this action
       if (!hasPermission(player.role, action)) {
         return res.status(403).json({
           success: false,
-          error: createPermissionError(requiredRole, player.role, action),
+          error: createPermissionError(player.role, action),
           timestamp: new Date().toISOString()
         });
       }
@@ -143,9 +214,9 @@ export const requireRole = (requiredRole: PlayerRole, action: PermissionAction)
   };
 };
 
-// Middleware to check if user is session organizer
+// Middleware for organizer actions; co-organizers and delegated roles pass when their role allows the action
 export const requireOrganizer = (action: PermissionAction) => {
-  return requireRole('ORGANIZER', action);
+  return requirePermission(action);
 };
 
 // Middleware to allow organizer or self for player status updates
@@ -166,6 +237,18 @@ export const requireOrganizerOrSelf = (action: PermissionAction) => {
         });
       }
 
+      // Without a device there is no caller to look up; players without a device would match
+      if (!deviceId && !ownerDeviceId) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'MISSING_DEVICE_ID',
+            message: 'Device ID is required'
+          },
+          timestamp: new Date().toISOString()
+        });
+      }
+
       // Find the session and target player
       const session = await prisma.mvpSession.findUnique({
         where: { shareCode },
@@ -211,11 +294,11 @@ export const requireOrganizerOrSelf = (action: PermissionAction) => {
         });
       }
 
-      // Allow if requesting player is organizer OR if they're updating their own status
-      const isOrganizer = requestingPlayer.role === 'ORGANIZER';
+      // Allow if requesting player manages players (organizer or co-organizer) OR if they're updating their own status
+      const canManageOthers = hasPermission(requestingPlayer.role, 'manage_players') && hasPermission(requestingPlayer.role, action);
       const isSelfUpdate = requestingPlayer.id === targetPlayer.id;
 
-      if (!isOrganizer && !isSelfUpdate) {
+      if (!canManageOthers && !isSelfUpdate) {
         return res.status(403).json({
           success: false,
           error: {
@@ -1,6 +1,7 @@
 import { Router, Request, Response } from 'express';
 import { DiscoveryService, DiscoveryFilters } from '../services/discoveryService';
 import { MvpSessionService } from '../services/mvpSessionService';
+import { JOIN_DENIAL_STATUS, SessionAccessService } from '../services/sessionAccessService';
 
 const router = Router();
 
@@ -160,7 +161,7 @@ router.get('/:sessionId', async (req: Request, res: Response) => {
 router.post('/:sessionId/join', async (req: Request, res: Response) => {
   try {
     const { sessionId } = req.params;
-    const { playerName, deviceId } = req.body;
+    const { playerName, deviceId, accessCode, inviteToken } = req.body;
 
     // Validate required fields
     if (!playerName || !deviceId) {
@@ -185,39 +186,72 @@ router.post('/:sessionId/join', async (req: Request, res: Response) => {
       });
     }
 
-    // Check if session is full
-    if ((session as any).players.length >= session.maxPlayers) {
+    // Check if player is already in session
+    const existingPlayer = (session as any).players.find((p: any) => p.deviceId === deviceId);
+    if (existingPlayer) {
       return res.status(400).json({
         success: false,
         error: {
-          code: 'SESSION_FULL',
-          message: 'Session is already full'
+          code: 'ALREADY_JOINED',
+          message: 'You are already in this session'
         }
       });
     }
 
-    // Check if player is already in session
-    const existingPlayer = (session as any).players.find((p: any) => p.deviceId === deviceId);
-    if (existingPlayer) {
-      return res.status(400).json({
+    const result = await SessionAccessService.join(session, {
+      name: playerName,
+      deviceId,
+      accessCode,
+      inviteToken,
+      clientKey: req.ip || 'unknown'
+    });
+
+    if (result.outcome === 'DENIED') {
+      return res.status(JOIN_DENIAL_STATUS[result.code]).json({
         success: false,
         error: {
-          code: 'ALREADY_JOINED',
-          message: 'You are already in this session'
+          code: result.code,
+          message: result.message
         }
       });
     }
 
-    // Join the session using the existing join flow
-    // Note: This would typically use the existing session join API
-    // For now, we'll return success assuming the join would work
+    if (result.outcome === 'PENDING_APPROVAL') {
+      return res.status(202).json({
+        success: true,
+        data: {
+          sessionId: session.id,
+          shareCode: session.shareCode,
+          joined: false,
+          joinRequestId: result.request.id
+        },
+        message: 'Join request sent to the organizer for approval',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    if (result.outcome === 'WAITLISTED') {
+      return res.status(202).json({
+        success: true,
+        data: {
+          sessionId: session.id,
+          shareCode: session.shareCode,
+          joined: false,
+          waitlistEntryId: result.entry.id,
+          waitlistPosition: result.position
+        },
+        message: 'Session is full; you have been added to the waitlist',
+        timestamp: new Date().toISOString()
+      });
+    }
 
     res.json({
       success: true,
       data: {
         sessionId: session.id,
         shareCode: session.shareCode,
-        joined: true
+        joined: true,
+        playerId: result.player.id
       },
       message: 'Successfully joined session from discovery',
       timestamp: new Date().toISOString()
@@ -11,6 +11,7 @@ import playerStatusRoutes from './playerStatus';
 import pairingRoutes from './pairings';
 import discoveryRoutes from './discovery';
 import sessionConfigRoutes from './sessionConfig';
+import sessionSeriesRoutes from './sessionSeries';
 import tournamentRoutes from './tournaments';
 import matchesRoutes from './matches';
 import statisticsRoutes from './statistics';
@@ -57,6 +58,8 @@ console.log('  - /sessions/discovery');
 router.use('/sessions/discovery', discoveryRoutes);
 console.log('  - /sessions/config');
 router.use('/sessions/config', sessionConfigRoutes);
+console.log('  - /session-series');
+router.use('/session-series', sessionSeriesRoutes);
 console.log('  - /tournaments');
 router.use('/tournaments', tournamentRoutes);
 console.log('  - /session-history');
@@ -1,6 +1,7 @@
 import { Router, Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { rankingService } from '../services/rankingService';
+import { resolveScoringRules, validateSetScore } from '../utils/rallyScoring';
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -99,6 +100,30 @@ router.post('/detailed', async (req: Request, res: Response) => {
           }
         });
       }
+
+      // Validate the set score against the scoring system
+      const scoreError = validateSetScore(resolveScoringRules(scoringSystem), set.player1Score, set.player2Score);
+      if (scoreError) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_SET_SCORE',
+            message: `Set ${set.setNumber}: ${scoreError}`
+          }
+        });
+      }
+
+      // Validate the winner scored more points
+      const setWinnerId = set.player1Score > set.player2Score ? player1Id : player2Id;
+      if (set.winnerId !== setWinnerId) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: `Set ${set.setNumber}: winner does not match the score`
+          }
+        });
+      }
     }
 
     // Verify session exists and is active
@@ -185,6 +210,7 @@ router.post('/detailed', async (req: Request, res: Response) => {
         sessionId,
         courtName,
         gameNumber: 1, // Simplified for MVP
+        format: 'SINGLES',
         team1Player1: player1Id,
         team1Player2: '',
         team2Player1: player2Id,
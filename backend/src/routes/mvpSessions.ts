@@ -1,16 +1,31 @@
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
+import { MvpOwnershipTransfer, MvpWaitlistEntry } from '@prisma/client';
 import { prisma } from '../config/database';
 import { body, param, validationResult } from 'express-validator';
-import { generateOptimalRotation, getRotationExplanation } from '../utils/rotationAlgorithm';
-import { updatePlayerGameStatistics, updatePlayerMatchStatistics, getPlayerStatistics, getSessionStatistics, getSessionLeaderboard } from '../utils/statisticsService';
+import { FairnessWeights, generateOptimalRotation, getRotationExplanation, PlayerCategory, resolveFairnessWeights, RotationMode } from '../utils/rotationAlgorithm';
+import { updatePlayerGameStatistics, updatePlayerMatchStatistics, getPlayerStatistics, getSessionStatistics, getSessionLeaderboard, recomputeSessionStatistics, updateRestCounters } from '../utils/statisticsService';
 import { io } from '../server';
-import { requireOrganizer, requireOrganizerOrSelf } from '../middleware/permissions';
+import { DELEGATED_ROLES, hasPermission, PermissionAction, requireOrganizer, requireOrganizerOrSelf } from '../middleware/permissions';
+import { authenticateToken, getCurrentUser } from '../middleware/auth';
 import { PasswordUtils } from '../utils/password';
+import { rankingService } from '../services/rankingService';
+import { RotationPlanService } from '../services/rotationPlanService';
+import { MAX_PLAN_ROUNDS } from '../utils/schedulePlanner';
+import { formatTeamName, GameFormat, gameTeams, validateTeamColumns } from '../utils/gameFormat';
+import { applyRally, calculateMomentum, validateRallySetup } from '../utils/rallyScoring';
+import { RallyScoringService } from '../services/rallyScoringService';
+import { ScoreHistoryService } from '../services/scoreHistoryService';
+import { checkConfirmationRights, checkDisputeRights, ScoreReviewer } from '../utils/scoreConfirmation';
+import { JOIN_DENIAL_STATUS, SessionAccessService } from '../services/sessionAccessService';
+import { SessionWaitlistService } from '../services/sessionWaitlistService';
+import { SessionOwnershipService } from '../services/sessionOwnershipService';
+import { isServiceError } from '../utils/serviceError';
 
 const router = Router();
 
 const ORGANIZER_CODE_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
 const ORGANIZER_CODE_LENGTH = 6;
+const PLAYER_CATEGORIES: PlayerCategory[] = ['male', 'female'];
 
 const generateOrganizerCode = (): string => {
   let secret = '';
@@ -21,6 +36,41 @@ const generateOrganizerCode = (): string => {
   return secret;
 };
 
+// Re-plan the cached lookahead schedule after availability changes and push it to the session room
+const refreshRotationPlan = async (shareCode: string): Promise<void> => {
+  try {
+    const result = await RotationPlanService.refreshRotationPlan(shareCode);
+    if (result) {
+      io.to(`session-${shareCode}`).emit('rotation_plan_updated', {
+        ...result,
+        timestamp: new Date().toISOString()
+      });
+    }
+  } catch (error) {
+    console.warn('Failed to refresh rotation plan:', error instanceof Error ? error.message : 'Unknown error');
+  }
+};
+
+// The session's owner device, or a player whose delegated role allows the action
+const actsForOrganizer = async (
+  session: { id: string; ownerDeviceId: string | null },
+  deviceId: string | undefined,
+  action: PermissionAction
+): Promise<boolean> => {
+  if (!deviceId) {
+    return false;
+  }
+  if (session.ownerDeviceId === deviceId) {
+    return true;
+  }
+
+  const player = await prisma.mvpPlayer.findFirst({
+    where: { sessionId: session.id, deviceId },
+    select: { role: true }
+  });
+  return !!player && hasPermission(player.role, action);
+};
+
 // Get all active sessions (for discovery)
 router.get('/', async (req: Request, res: Response) => {
   try {
@@ -234,7 +284,10 @@ const createSessionValidation = [
 const joinSessionValidation = [
   param('shareCode').isLength({ min: 1 }).withMessage('Share code is required'),
   body('name').isLength({ min: 1, max: 100 }).withMessage('Player name is required'),
-  body('deviceId').optional().isLength({ max: 255 })
+  body('deviceId').optional().isLength({ max: 255 }),
+  body('category').optional({ values: 'null' }).isIn(PLAYER_CATEGORIES).withMessage('Category must be male or female'),
+  body('accessCode').optional().isString().isLength({ max: 64 }),
+  body('inviteToken').optional().isString().isLength({ max: 1024 })
 ];
 
 const claimSessionValidation = [
@@ -310,6 +363,9 @@ router.post('/', createSessionValidation, async (req: Request, res: Response) =>
       }
     });
 
+    // Shown once, so the organizer can take the session back if they lose this device
+    const recoveryCodes = await SessionOwnershipService.setUpNewSession(session);
+
     // Fetch the session with players to return complete data
     const sessionWithPlayers = await prisma.mvpSession.findUnique({
       where: { id: session.id },
@@ -382,7 +438,8 @@ router.post('/', createSessionValidation, async (req: Request, res: Response) =>
           createdAt: session.createdAt
         },
         shareLink: `${process.env.FRONTEND_URL || 'http://localhost:3001'}/join/${session.shareCode}`,
-        organizerCode
+        organizerCode,
+        recoveryCodes
       },
       message: 'Session created successfully',
       timestamp: new Date().toISOString()
@@ -421,6 +478,9 @@ router.get('/join/:shareCode', async (req, res) => {
             }
           },
           orderBy: { matchNumber: 'desc' }
+        },
+        configuration: {
+          select: { requireApproval: true, inviteOnly: true, accessCode: true }
         }
       }
     });
@@ -472,6 +532,7 @@ router.get('/join/:shareCode', async (req, res) => {
           status: session.status,
           ownerName: session.ownerName,
           ownerDeviceId: session.ownerDeviceId,
+          seriesId: session.seriesId, // Set when the session is an occurrence of a recurring series
           playerCount: session.players.length,
           players: session.players.map(player => ({
             id: player.id,
@@ -498,7 +559,13 @@ router.get('/join/:shareCode', async (req, res) => {
           })),
           games: session.games || [],
           matches: session.matches || [],
-          createdAt: session.createdAt
+          createdAt: session.createdAt,
+          // What joining needs, without giving away the access code
+          access: {
+            requireApproval: session.configuration?.requireApproval || false,
+            inviteOnly: session.configuration?.inviteOnly || false,
+            accessCodeRequired: Boolean(session.configuration?.accessCode)
+          }
         }
       },
       timestamp: new Date().toISOString()
@@ -533,7 +600,7 @@ router.post('/join/:shareCode', joinSessionValidation, async (req: Request, res:
     }
 
     const { shareCode } = req.params;
-    const { name, deviceId } = req.body;
+    const { name, deviceId, category, accessCode, inviteToken } = req.body;
 
     const session = await prisma.mvpSession.findUnique({
       where: { shareCode },
@@ -562,18 +629,6 @@ router.post('/join/:shareCode', joinSessionValidation, async (req: Request, res:
       });
     }
 
-    // Check if session is full
-    if (session.players.length >= session.maxPlayers) {
-      return res.status(403).json({
-        success: false,
-        error: {
-          code: 'SESSION_FULL',
-          message: 'Session is full'
-        },
-        timestamp: new Date().toISOString()
-      });
-    }
-
     // Check if player name already exists
     const existingPlayer = session.players.find(p => p.name.toLowerCase() === name.toLowerCase());
     if (existingPlayer) {
@@ -587,15 +642,62 @@ router.post('/join/:shareCode', joinSessionValidation, async (req: Request, res:
       });
     }
 
-    const player = await prisma.mvpPlayer.create({
-      data: {
-        sessionId: session.id,
-        name,
-        deviceId,
-        status: 'ACTIVE'
-      }
+    const result = await SessionAccessService.join(session, {
+      name,
+      deviceId,
+      category,
+      accessCode,
+      inviteToken,
+      clientKey: req.ip || 'unknown'
     });
 
+    if (result.outcome === 'DENIED') {
+      return res.status(JOIN_DENIAL_STATUS[result.code]).json({
+        success: false,
+        error: {
+          code: result.code,
+          message: result.message
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    // The organizer lets the player in later; they hear back through join_request_resolved
+    if (result.outcome === 'PENDING_APPROVAL') {
+      return res.status(202).json({
+        success: true,
+        data: {
+          joinRequest: {
+            id: result.request.id,
+            name: result.request.name,
+            status: result.request.status,
+            createdAt: result.request.createdAt
+          }
+        },
+        message: 'Join request sent to the organizer for approval',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    // A spot is offered when one opens up; they hear back through waitlist_spot_offered
+    if (result.outcome === 'WAITLISTED') {
+      return res.status(202).json({
+        success: true,
+        data: {
+          waitlistEntry: {
+            id: result.entry.id,
+            name: result.entry.name,
+            status: result.entry.status,
+            position: result.position,
+            createdAt: result.entry.createdAt
+          }
+        },
+        message: 'Session is full; you have been added to the waitlist',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const { player } = result;
     res.status(201).json({
       success: true,
       data: {
@@ -603,6 +705,7 @@ router.post('/join/:shareCode', joinSessionValidation, async (req: Request, res:
           id: player.id,
           name: player.name,
           status: player.status,
+          category: player.category,
           joinedAt: player.joinedAt
         }
       },
@@ -644,274 +747,471 @@ router.post('/join/:shareCode', joinSessionValidation, async (req: Request, res:
   }
 });
 
-// Claim organizer control for an existing session
-router.post('/claim', claimSessionValidation, async (req: Request, res: Response) => {
+// Check on a join request while waiting for the organizer
+router.get('/join/:shareCode/requests/:requestId', async (req: Request, res: Response) => {
   try {
-    const errors = validationResult(req);
-    if (!errors.isEmpty()) {
-      return res.status(400).json({
-        success: false,
-        error: {
-          code: 'VALIDATION_ERROR',
-          message: 'Invalid input data',
-          details: errors.array()
-        },
-        timestamp: new Date().toISOString()
-      });
-    }
-
-    const { shareCode, secret, deviceId, playerName } = req.body;
-
-    const session = await prisma.mvpSession.findUnique({
-      where: { shareCode },
-      include: {
-        players: {
-          orderBy: { joinedAt: 'asc' }
-        }
-      }
-    });
+    const { shareCode, requestId } = req.params;
 
+    const session = await prisma.mvpSession.findUnique({ where: { shareCode } });
     if (!session) {
       return res.status(404).json({
         success: false,
         error: {
-          code: 'SESSION_NOT_FOUND',
+          code: 'NOT_FOUND',
           message: 'Session not found'
         },
         timestamp: new Date().toISOString()
       });
     }
 
-    if (!session.organizerCodeHash) {
-      return res.status(409).json({
-        success: false,
-        error: {
-          code: 'ORGANIZER_SECRET_NOT_SET',
-          message: 'This session has no organizer code configured yet'
-        },
-        timestamp: new Date().toISOString()
-      });
-    }
-
-    const isSecretValid = await PasswordUtils.verifyPassword(secret, session.organizerCodeHash);
-    if (!isSecretValid) {
-      return res.status(403).json({
-        success: false,
-        error: {
-          code: 'INVALID_SECRET',
-          message: 'Organizer code is incorrect'
-        },
-        timestamp: new Date().toISOString()
-      });
-    }
-
-    let organizerPlayer = session.players.find(player => player.deviceId === deviceId);
-
-    if (!organizerPlayer && playerName) {
-      organizerPlayer = session.players.find(player => player.name.toLowerCase() === playerName.toLowerCase());
-    }
-
-    if (!organizerPlayer && !playerName) {
-      return res.status(400).json({
-        success: false,
-        error: {
-          code: 'PLAYER_NAME_REQUIRED',
-          message: 'Player name is required to claim organizer role for new devices'
-        },
-        timestamp: new Date().toISOString()
-      });
-    }
-
-    const now = new Date();
-
-    await prisma.$transaction(async tx => {
-      if (organizerPlayer) {
-        await tx.mvpPlayer.update({
-          where: { id: organizerPlayer.id },
-          data: {
-            deviceId,
-            role: 'ORGANIZER'
-          }
-        });
-      } else {
-        organizerPlayer = await tx.mvpPlayer.create({
-          data: {
-            sessionId: session.id,
-            name: playerName!,
-            deviceId,
-            status: 'ACTIVE',
-            role: 'ORGANIZER'
-          }
-        });
-      }
-
-      await tx.mvpPlayer.updateMany({
-        where: {
-          sessionId: session.id,
-          id: {
-            not: organizerPlayer!.id
-          },
-          role: 'ORGANIZER'
-        },
-        data: {
-          role: 'PLAYER'
-        }
-      });
-
-      await tx.mvpSession.update({
-        where: { id: session.id },
-        data: {
-          ownerDeviceId: deviceId,
-          ownershipClaimedAt: now
-        }
-      });
-    });
+    const joinRequest = await SessionAccessService.getJoinRequest(session.id, requestId);
 
-    const refreshedSession = await prisma.mvpSession.findUnique({
-      where: { id: session.id },
-      include: {
-        players: {
-          orderBy: { joinedAt: 'asc' }
+    res.json({
+      success: true,
+      data: {
+        joinRequest: {
+          id: joinRequest.id,
+          name: joinRequest.name,
+          status: joinRequest.status,
+          playerId: joinRequest.playerId,
+          createdAt: joinRequest.createdAt,
+          respondedAt: joinRequest.respondedAt
         }
-      }
+      },
+      timestamp: new Date().toISOString()
     });
-
-    if (!refreshedSession) {
-      return res.status(500).json({
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to fetch join request';
+    if (message === 'Join request not found') {
+      return res.status(404).json({
         success: false,
         error: {
-          code: 'SESSION_REFRESH_FAILED',
-          message: 'Failed to refresh session after claim'
+          code: 'NOT_FOUND',
+          message
         },
         timestamp: new Date().toISOString()
       });
     }
 
-    const formattedSession = {
-      id: refreshedSession.id,
-      name: refreshedSession.name,
-      shareCode: refreshedSession.shareCode,
-      scheduledAt: refreshedSession.scheduledAt,
-      location: refreshedSession.location,
-      maxPlayers: refreshedSession.maxPlayers,
-      status: refreshedSession.status,
-      organizerName: refreshedSession.ownerName,
-      ownerDeviceId: refreshedSession.ownerDeviceId,
-      playerCount: refreshedSession.players?.length || 0,
-      players: refreshedSession.players?.map(player => ({
-        id: player.id,
-        name: player.name,
-        status: player.status,
-        gamesPlayed: player.gamesPlayed,
-        wins: player.wins,
-        losses: player.losses,
-        joinedAt: player.joinedAt
-      })) || [],
-      createdAt: refreshedSession.createdAt
-    };
+    console.error('Get join request error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to fetch join request'
+      },
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// List join requests waiting for the organizer's approval
+router.get('/:shareCode/join-requests', requireOrganizer('approve_joins'), async (req, res) => {
+  try {
+    const session = (req as any).session;
+    const joinRequests = await SessionAccessService.getPendingJoinRequests(session.id);
 
     res.json({
       success: true,
-      data: {
-        session: formattedSession,
-        currentUserRole: 'ORGANIZER'
-      },
-      message: 'Organizer role claimed successfully',
+      data: { joinRequests },
       timestamp: new Date().toISOString()
     });
   } catch (error) {
-    console.error('Organizer claim error:', error);
+    console.error('List join requests error:', error);
     res.status(500).json({
       success: false,
       error: {
         code: 'INTERNAL_ERROR',
-        message: 'Failed to claim organizer role'
+        message: 'Failed to fetch join requests'
       },
       timestamp: new Date().toISOString()
     });
   }
 });
 
-// Update player status
-router.put('/players/:playerId/status', requireOrganizerOrSelf('update_player_status'), async (req, res) => {
+// Approve or reject a join request (organizer only)
+const answerJoinRequest = (approve: boolean) => async (req: Request, res: Response) => {
   try {
-    const { playerId } = req.params;
-    const { status } = req.body;
+    const { shareCode, requestId } = req.params;
+    const session = (req as any).session;
 
-    if (!['ACTIVE', 'RESTING', 'LEFT'].includes(status)) {
-      return res.status(400).json({
-        success: false,
-        error: {
-          code: 'INVALID_STATUS',
-          message: 'Invalid player status'
-        },
-        timestamp: new Date().toISOString()
-      });
-    }
-
-    const player = await prisma.mvpPlayer.update({
-      where: { id: playerId },
-      data: { status }
-    });
+    const { request: joinRequest, player } = approve
+      ? await SessionAccessService.approveJoinRequest(session, requestId)
+      : { request: await SessionAccessService.rejectJoinRequest(session.id, requestId), player: null };
 
     res.json({
       success: true,
       data: {
-        player: {
+        joinRequest,
+        player: player ? {
           id: player.id,
           name: player.name,
           status: player.status,
-          updatedAt: new Date().toISOString()
-        }
+          category: player.category,
+          joinedAt: player.joinedAt
+        } : null
       },
-      message: 'Player status updated successfully',
+      message: approve ? 'Join request approved' : 'Join request rejected',
       timestamp: new Date().toISOString()
     });
+
+    await SessionAccessService.announceJoinRequest(shareCode, joinRequest);
+    if (player) {
+      const updatedSession = await prisma.mvpSession.findUnique({
+        where: { shareCode },
+        include: { players: { orderBy: { joinedAt: 'asc' } } }
+      });
+      io.to(`session-${shareCode}`).emit('mvp-session-updated', {
+        session: updatedSession,
+        timestamp: new Date().toISOString()
+      });
+    }
   } catch (error) {
-    console.error('Update player status error:', error);
-    res.status(500).json({
+    const message = error instanceof Error ? error.message : 'Failed to answer join request';
+    const status = message === 'Join request not found' ? 404
+      : message === 'Session is full' || message.includes('already') ? 409
+        : 500;
+
+    if (status === 500) {
+      console.error('Answer join request error:', error);
+    }
+    res.status(status).json({
       success: false,
       error: {
-        code: 'INTERNAL_ERROR',
-        message: 'Failed to update player status'
+        code: status === 404 ? 'NOT_FOUND' : status === 409 ? 'CONFLICT' : 'INTERNAL_ERROR',
+        message: status === 500 ? 'Failed to answer join request' : message
       },
       timestamp: new Date().toISOString()
     });
   }
-});
+};
 
-// Get sessions by owner device ID
-router.get('/my-sessions/:deviceId', async (req, res) => {
-  try {
-    const { deviceId } = req.params;
-    console.log('🔍 Get my sessions request:', { deviceId });
+router.post('/:shareCode/join-requests/:requestId/approve', requireOrganizer('approve_joins'), answerJoinRequest(true));
+router.post('/:shareCode/join-requests/:requestId/reject', requireOrganizer('approve_joins'), answerJoinRequest(false));
 
-    const sessions = await prisma.mvpSession.findMany({
-      where: {
-        ownerDeviceId: deviceId,
-        status: 'ACTIVE'
-      },
-      include: {
+// Create a single-use invite link (organizer only)
+router.post('/:shareCode/invites', requireOrganizer('add_players'), [
+  body('invitedName').optional().isLength({ min: 1, max: 100 }),
+  body('expiresInHours').optional().isInt({ min: 1, max: 24 * 30 })
+], async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid input data',
+          details: errors.array()
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const session = (req as any).session;
+    const { invitedName, expiresInHours, deviceId } = req.body;
+    const { invite, token } = await SessionAccessService.createInvite(session.id, {
+      invitedName,
+      expiresInHours: expiresInHours ? Number(expiresInHours) : undefined,
+      createdBy: deviceId
+    });
+
+    res.status(201).json({
+      success: true,
+      data: {
+        invite: {
+          id: invite.id,
+          invitedName: invite.invitedName,
+          expiresAt: invite.expiresAt
+        },
+        token
+      },
+      message: 'Invite created',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Create invite error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to create invite'
+      },
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Revoke an unused invite (organizer only)
+router.delete('/:shareCode/invites/:inviteId', requireOrganizer('add_players'), async (req, res) => {
+  try {
+    const session = (req as any).session;
+    await SessionAccessService.revokeInvite(session.id, req.params.inviteId);
+
+    res.json({
+      success: true,
+      message: 'Invite revoked',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to revoke invite';
+    const status = message === 'Invite not found' ? 404 : message === 'Invite has already been used' ? 409 : 500;
+
+    if (status === 500) {
+      console.error('Revoke invite error:', error);
+    }
+    res.status(status).json({
+      success: false,
+      error: {
+        code: status === 404 ? 'NOT_FOUND' : status === 409 ? 'CONFLICT' : 'INTERNAL_ERROR',
+        message: status === 500 ? 'Failed to revoke invite' : message
+      },
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+const waitlistEntryView = (entry: MvpWaitlistEntry, position: number | null = null) => ({
+  id: entry.id,
+  name: entry.name,
+  status: entry.status,
+  position,
+  offerExpiresAt: entry.offerExpiresAt,
+  createdAt: entry.createdAt
+});
+
+const waitlistErrorStatus = (message: string) =>
+  message === 'Session not found' || message === 'Waitlist entry not found' ? 404
+    : message.startsWith('Only the person') ? 403
+      : message.includes('no longer') || message.includes('expired') || message.includes('already') ? 409
+        : 500;
+
+const sendWaitlistError = (res: Response, error: unknown, fallback: string) => {
+  const message = error instanceof Error ? error.message : fallback;
+  const status = waitlistErrorStatus(message);
+
+  if (status === 500) {
+    console.error(`${fallback}:`, error);
+  }
+  res.status(status).json({
+    success: false,
+    error: {
+      code: status === 404 ? 'NOT_FOUND' : status === 403 ? 'FORBIDDEN' : status === 409 ? 'CONFLICT' : 'INTERNAL_ERROR',
+      message
+    },
+    timestamp: new Date().toISOString()
+  });
+};
+
+const findWaitlistSession = async (shareCode: string) => {
+  const session = await prisma.mvpSession.findUnique({ where: { shareCode } });
+  if (!session) {
+    throw new Error('Session not found');
+  }
+  return session;
+};
+
+// The session's waitlist, in the order spots will be offered
+router.get('/:shareCode/waitlist', async (req: Request, res: Response) => {
+  try {
+    const session = await findWaitlistSession(req.params.shareCode);
+    const entries = await SessionWaitlistService.getWaitlist(session.id);
+    let position = 0;
+
+    res.json({
+      success: true,
+      data: {
+        waitlist: entries.map(entry => waitlistEntryView(entry, entry.status === 'WAITING' ? ++position : null))
+      },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    sendWaitlistError(res, error, 'Failed to fetch waitlist');
+  }
+});
+
+// Check on a waitlist entry: its place in the queue, or the spot on offer
+router.get('/:shareCode/waitlist/:entryId', async (req: Request, res: Response) => {
+  try {
+    const session = await findWaitlistSession(req.params.shareCode);
+    const { entry, position } = await SessionWaitlistService.getEntry(session.id, req.params.entryId);
+
+    res.json({
+      success: true,
+      data: { waitlistEntry: { ...waitlistEntryView(entry, position), playerId: entry.playerId } },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    sendWaitlistError(res, error, 'Failed to fetch waitlist entry');
+  }
+});
+
+// Take the spot offered to a waitlist entry before the confirmation window closes
+router.post('/:shareCode/waitlist/:entryId/accept', async (req: Request, res: Response) => {
+  try {
+    const { shareCode, entryId } = req.params;
+    const session = await findWaitlistSession(shareCode);
+    const { entry, player } = await SessionWaitlistService.acceptOffer(session, entryId, req.body.deviceId);
+
+    res.status(201).json({
+      success: true,
+      data: {
+        waitlistEntry: waitlistEntryView(entry),
+        player: {
+          id: player.id,
+          name: player.name,
+          status: player.status,
+          category: player.category,
+          joinedAt: player.joinedAt
+        }
+      },
+      message: 'Successfully joined session from the waitlist',
+      timestamp: new Date().toISOString()
+    });
+
+    const updatedSession = await prisma.mvpSession.findUnique({
+      where: { shareCode },
+      include: { players: { orderBy: { joinedAt: 'asc' } } }
+    });
+    io.to(`session-${shareCode}`).emit('mvp-session-updated', {
+      session: updatedSession,
+      timestamp: new Date().toISOString()
+    });
+    await refreshRotationPlan(shareCode);
+  } catch (error) {
+    sendWaitlistError(res, error, 'Failed to accept waitlist offer');
+  }
+});
+
+// Leave the waitlist, or turn down an offered spot so it passes to the next person
+router.delete('/:shareCode/waitlist/:entryId', async (req: Request, res: Response) => {
+  try {
+    const session = await findWaitlistSession(req.params.shareCode);
+    const entry = await SessionWaitlistService.leaveWaitlist(session, req.params.entryId, req.body.deviceId);
+
+    res.json({
+      success: true,
+      data: { waitlistEntry: waitlistEntryView(entry) },
+      message: 'Left the waitlist',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    sendWaitlistError(res, error, 'Failed to leave waitlist');
+  }
+});
+
+// Claim organizer control for an existing session
+router.post('/claim', claimSessionValidation, async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid input data',
+          details: errors.array()
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const { shareCode, secret, deviceId, playerName } = req.body;
+
+    const session = await prisma.mvpSession.findUnique({
+      where: { shareCode },
+      include: {
         players: {
           orderBy: { joinedAt: 'asc' }
         }
-      },
-      orderBy: { createdAt: 'desc' }
+      }
     });
 
-    console.log('📊 Found sessions for device:', { deviceId, sessionCount: sessions.length, sessions: sessions.map(s => ({ id: s.id, name: s.name, ownerDeviceId: s.ownerDeviceId })) });
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'SESSION_NOT_FOUND',
+          message: 'Session not found'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
 
-    const formattedSessions = sessions.map(session => ({
-      id: session.id,
-      name: session.name,
-      shareCode: session.shareCode,
-      scheduledAt: session.scheduledAt,
-      location: session.location,
-      maxPlayers: session.maxPlayers,
-      status: session.status,
-      ownerName: session.ownerName,
-      playerCount: session.players.length,
-      players: session.players.map(player => ({
+    if (!session.organizerCodeHash) {
+      return res.status(409).json({
+        success: false,
+        error: {
+          code: 'ORGANIZER_SECRET_NOT_SET',
+          message: 'This session has no organizer code configured yet'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const isSecretValid = await PasswordUtils.verifyPassword(secret, session.organizerCodeHash);
+    if (!isSecretValid) {
+      return res.status(403).json({
+        success: false,
+        error: {
+          code: 'INVALID_SECRET',
+          message: 'Organizer code is incorrect'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const organizerPlayer = session.players.find(player => player.deviceId === deviceId);
+
+    if (!organizerPlayer && !playerName) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'PLAYER_NAME_REQUIRED',
+          message: 'Player name is required to claim organizer role for new devices'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    await SessionOwnershipService.takeOwnership(
+      session,
+      { deviceId, playerName },
+      { type: 'CLAIMED' }
+    );
+
+    const refreshedSession = await prisma.mvpSession.findUnique({
+      where: { id: session.id },
+      include: {
+        players: {
+          orderBy: { joinedAt: 'asc' }
+        }
+      }
+    });
+
+    if (!refreshedSession) {
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'SESSION_REFRESH_FAILED',
+          message: 'Failed to refresh session after claim'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const formattedSession = {
+      id: refreshedSession.id,
+      name: refreshedSession.name,
+      shareCode: refreshedSession.shareCode,
+      scheduledAt: refreshedSession.scheduledAt,
+      location: refreshedSession.location,
+      maxPlayers: refreshedSession.maxPlayers,
+      status: refreshedSession.status,
+      organizerName: refreshedSession.ownerName,
+      ownerDeviceId: refreshedSession.ownerDeviceId,
+      playerCount: refreshedSession.players?.length || 0,
+      players: refreshedSession.players?.map(player => ({
         id: player.id,
         name: player.name,
         status: player.status,
@@ -919,726 +1219,1738 @@ router.get('/my-sessions/:deviceId', async (req, res) => {
         wins: player.wins,
         losses: player.losses,
         joinedAt: player.joinedAt
-      })),
-      createdAt: session.createdAt,
-      shareUrl: `${process.env.FRONTEND_URL || 'http://localhost:3001'}/session/${session.shareCode}`
-    }));
+      })) || [],
+      createdAt: refreshedSession.createdAt
+    };
 
     res.json({
       success: true,
       data: {
-        sessions: formattedSessions
+        session: formattedSession,
+        currentUserRole: 'ORGANIZER'
       },
+      message: 'Organizer role claimed successfully',
       timestamp: new Date().toISOString()
     });
   } catch (error) {
-    console.error('Get my sessions error:', error);
+    console.error('Organizer claim error:', error);
     res.status(500).json({
       success: false,
       error: {
         code: 'INTERNAL_ERROR',
-        message: 'Failed to fetch sessions'
+        message: 'Failed to claim organizer role'
       },
       timestamp: new Date().toISOString()
     });
   }
 });
 
-// Update session settings (owner only)
-router.put('/:shareCode', requireOrganizer('edit_session'), async (req, res) => {
-  try {
-    const { shareCode } = req.params;
-    const { ownerDeviceId, courtCount, maxPlayers, location, description, skillLevel, cost } = req.body;
+const sendOwnershipError = (res: Response, error: unknown, fallback: string) => {
+  const status = isServiceError(error) ? error.statusCode : 500;
 
-    const session = await prisma.mvpSession.findUnique({
-      where: { shareCode }
-    });
+  if (status === 500) {
+    console.error(`${fallback}:`, error);
+  }
+  res.status(status).json({
+    success: false,
+    error: {
+      code: status === 404 ? 'NOT_FOUND' : status === 403 ? 'FORBIDDEN' : status === 429 ? 'TOO_MANY_ATTEMPTS'
+        : status === 409 ? 'CONFLICT' : status === 400 ? 'INVALID_REQUEST' : 'INTERNAL_ERROR',
+      message: isServiceError(error) ? error.message : fallback
+    },
+    timestamp: new Date().toISOString()
+  });
+};
+
+const transferView = (transfer: MvpOwnershipTransfer) => ({
+  id: transfer.id,
+  fromPlayerId: transfer.fromPlayerId,
+  toPlayerId: transfer.toPlayerId,
+  status: transfer.status,
+  expiresAt: transfer.expiresAt,
+  respondedAt: transfer.respondedAt,
+  createdAt: transfer.createdAt
+});
+
+const recoverValidation = [
+  body('deviceId').isLength({ min: 3, max: 255 }).withMessage('Device identifier is required'),
+  body('playerName').optional().isLength({ min: 2, max: 100 }).withMessage('Player name must be between 2 and 100 characters')
+];
+
+const sendOwnershipValidationError = (req: Request, res: Response): boolean => {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) {
+    return false;
+  }
+
+  res.status(400).json({
+    success: false,
+    error: {
+      code: 'VALIDATION_ERROR',
+      message: 'Invalid input data',
+      details: errors.array()
+    },
+    timestamp: new Date().toISOString()
+  });
+  return true;
+};
+
+// Issue a new set of recovery codes; the previous unused codes stop working (owner only)
+router.post('/:shareCode/ownership/recovery-codes', async (req: Request, res: Response) => {
+  try {
+    const recoveryCodes = await SessionOwnershipService.reissueRecoveryCodes(req.params.shareCode, req.body.deviceId);
+
+    res.json({
+      success: true,
+      data: { recoveryCodes },
+      message: 'New recovery codes issued; keep them somewhere safe',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    sendOwnershipError(res, error, 'Failed to issue recovery codes');
+  }
+});
+
+// Take the session back on a new device with one of the recovery codes issued at creation
+router.post('/:shareCode/ownership/recover', [
+  ...recoverValidation,
+  body('recoveryCode').isLength({ min: 10, max: 20 }).withMessage('Recovery code is required')
+], async (req: Request, res: Response) => {
+  try {
+    if (sendOwnershipValidationError(req, res)) {
+      return;
+    }
+
+    const { deviceId, playerName, recoveryCode } = req.body;
+    const player = await SessionOwnershipService.recover(req.params.shareCode, {
+      deviceId,
+      playerName,
+      recoveryCode,
+      clientKey: req.ip || 'unknown'
+    });
+
+    res.json({
+      success: true,
+      data: {
+        player: { id: player.id, name: player.name, role: player.role },
+        currentUserRole: 'ORGANIZER'
+      },
+      message: 'Session recovered',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    sendOwnershipError(res, error, 'Failed to recover session');
+  }
+});
+
+// Take the session back on a new device by logging in to the account linked to it
+router.post('/:shareCode/ownership/recover/account', authenticateToken, recoverValidation, async (req: Request, res: Response) => {
+  try {
+    if (sendOwnershipValidationError(req, res)) {
+      return;
+    }
+
+    const { deviceId, playerName } = req.body;
+    const player = await SessionOwnershipService.recover(req.params.shareCode, {
+      deviceId,
+      playerName,
+      userId: getCurrentUser(req)!.id,
+      clientKey: req.ip || 'unknown'
+    });
+
+    res.json({
+      success: true,
+      data: {
+        player: { id: player.id, name: player.name, role: player.role },
+        currentUserRole: 'ORGANIZER'
+      },
+      message: 'Session recovered',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    sendOwnershipError(res, error, 'Failed to recover session');
+  }
+});
+
+// Link the session to the logged-in account so it can be recovered by logging in (owner only)
+router.post('/:shareCode/ownership/account', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    await SessionOwnershipService.linkAccount(req.params.shareCode, req.body.deviceId, getCurrentUser(req)!.id);
+
+    res.json({
+      success: true,
+      message: 'Session linked to your account',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    sendOwnershipError(res, error, 'Failed to link account');
+  }
+});
+
+// Remove the account link (owner only)
+router.delete('/:shareCode/ownership/account', async (req: Request, res: Response) => {
+  try {
+    await SessionOwnershipService.unlinkAccount(req.params.shareCode, req.body.deviceId);
+
+    res.json({
+      success: true,
+      message: 'Account unlinked from the session',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    sendOwnershipError(res, error, 'Failed to unlink account');
+  }
+});
+
+// Offers of the session still waiting for an answer, so the offered player can find theirs
+router.get('/:shareCode/ownership/transfers', async (req: Request, res: Response) => {
+  try {
+    const transfers = await SessionOwnershipService.getOpenTransfers(req.params.shareCode);
+
+    res.json({
+      success: true,
+      data: { transfers: transfers.map(transferView) },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    sendOwnershipError(res, error, 'Failed to fetch ownership transfers');
+  }
+});
+
+// Offer the session to another player, who has to accept before ownership moves (owner only)
+router.post('/:shareCode/ownership/transfers', [
+  body('toPlayerId').isLength({ min: 1 }).withMessage('Player to transfer to is required'),
+  body('expiresInHours').optional().isInt({ min: 1, max: 24 * 7 })
+], async (req: Request, res: Response) => {
+  try {
+    if (sendOwnershipValidationError(req, res)) {
+      return;
+    }
+
+    const { deviceId, toPlayerId, expiresInHours } = req.body;
+    const transfer = await SessionOwnershipService.requestTransfer(
+      req.params.shareCode,
+      deviceId,
+      toPlayerId,
+      expiresInHours ? Number(expiresInHours) : undefined
+    );
+
+    res.status(201).json({
+      success: true,
+      data: { transfer: transferView(transfer) },
+      message: 'Ownership transfer offered',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    sendOwnershipError(res, error, 'Failed to offer ownership transfer');
+  }
+});
+
+// Accept or decline an offer of the session (the offered player only)
+const answerTransfer = (accept: boolean) => async (req: Request, res: Response) => {
+  try {
+    const { shareCode, transferId } = req.params;
+    const transfer = await SessionOwnershipService.respondToTransfer(shareCode, transferId, req.body.deviceId, accept);
+
+    res.json({
+      success: true,
+      data: {
+        transfer: transferView(transfer),
+        ...(accept && { currentUserRole: 'ORGANIZER' })
+      },
+      message: accept ? 'You now own this session' : 'Ownership transfer declined',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    sendOwnershipError(res, error, 'Failed to answer ownership transfer');
+  }
+};
+
+router.post('/:shareCode/ownership/transfers/:transferId/accept', answerTransfer(true));
+router.post('/:shareCode/ownership/transfers/:transferId/decline', answerTransfer(false));
+
+// Withdraw an offer before it is answered (owner only)
+router.delete('/:shareCode/ownership/transfers/:transferId', async (req: Request, res: Response) => {
+  try {
+    await SessionOwnershipService.cancelTransfer(req.params.shareCode, req.params.transferId, req.body.deviceId);
+
+    res.json({
+      success: true,
+      message: 'Ownership transfer cancelled',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    sendOwnershipError(res, error, 'Failed to cancel ownership transfer');
+  }
+});
+
+// Audit log of every change of owner, newest first (owner only)
+router.get('/:shareCode/ownership/log', async (req: Request, res: Response) => {
+  try {
+    const events = await SessionOwnershipService.getOwnershipLog(req.params.shareCode, req.query.deviceId as string | undefined);
+
+    res.json({
+      success: true,
+      data: {
+        events: events.map(event => ({
+          id: event.id,
+          type: event.type,
+          fromName: event.fromName,
+          toName: event.toName,
+          linkedAccount: Boolean(event.userId),
+          transferId: event.transferId,
+          createdAt: event.createdAt
+        }))
+      },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    sendOwnershipError(res, error, 'Failed to fetch ownership log');
+  }
+});
+
+// Update player status
+router.put('/players/:playerId/status', requireOrganizerOrSelf('update_player_status'), async (req, res) => {
+  try {
+    const { playerId } = req.params;
+    const { status } = req.body;
+
+    if (!['ACTIVE', 'RESTING', 'LEFT'].includes(status)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_STATUS',
+          message: 'Invalid player status'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const player = await prisma.mvpPlayer.update({
+      where: { id: playerId },
+      data: { status }
+    });
+
+    res.json({
+      success: true,
+      data: {
+        player: {
+          id: player.id,
+          name: player.name,
+          status: player.status,
+          updatedAt: new Date().toISOString()
+        }
+      },
+      message: 'Player status updated successfully',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Update player status error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to update player status'
+      },
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Get sessions by owner device ID
+router.get('/my-sessions/:deviceId', async (req, res) => {
+  try {
+    const { deviceId } = req.params;
+    console.log('🔍 Get my sessions request:', { deviceId });
+
+    const sessions = await prisma.mvpSession.findMany({
+      where: {
+        ownerDeviceId: deviceId,
+        status: 'ACTIVE'
+      },
+      include: {
+        players: {
+          orderBy: { joinedAt: 'asc' }
+        }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    console.log('📊 Found sessions for device:', { deviceId, sessionCount: sessions.length, sessions: sessions.map(s => ({ id: s.id, name: s.name, ownerDeviceId: s.ownerDeviceId })) });
+
+    const formattedSessions = sessions.map(session => ({
+      id: session.id,
+      name: session.name,
+      shareCode: session.shareCode,
+      scheduledAt: session.scheduledAt,
+      location: session.location,
+      maxPlayers: session.maxPlayers,
+      status: session.status,
+      ownerName: session.ownerName,
+      playerCount: session.players.length,
+      players: session.players.map(player => ({
+        id: player.id,
+        name: player.name,
+        status: player.status,
+        gamesPlayed: player.gamesPlayed,
+        wins: player.wins,
+        losses: player.losses,
+        joinedAt: player.joinedAt
+      })),
+      createdAt: session.createdAt,
+      shareUrl: `${process.env.FRONTEND_URL || 'http://localhost:3001'}/session/${session.shareCode}`
+    }));
+
+    res.json({
+      success: true,
+      data: {
+        sessions: formattedSessions
+      },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Get my sessions error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to fetch sessions'
+      },
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Update session settings (owner only)
+router.put('/:shareCode', requireOrganizer('edit_session'), async (req, res) => {
+  try {
+    const { shareCode } = req.params;
+    const { ownerDeviceId, courtCount, maxPlayers, location, description, skillLevel, cost } = req.body;
+
+    const session = await prisma.mvpSession.findUnique({
+      where: { shareCode }
+    });
+
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Session not found'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    // Special case: Allow setting ownerDeviceId if it's currently null/undefined
+    const canSetOwnerDeviceId = !session.ownerDeviceId && ownerDeviceId;
+    
+    // Check if the requester is the owner or a co-organizer (if ownerDeviceId is provided and session already has one)
+    if (ownerDeviceId && session.ownerDeviceId && !(await actsForOrganizer(session, ownerDeviceId, 'edit_session'))) {
+      console.log('🚫 Session update denied:', {
+        providedDeviceId: ownerDeviceId,
+        sessionOwnerDeviceId: session.ownerDeviceId,
+        shareCode
+      });
+      return res.status(403).json({
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: 'Only the session owner can update the session'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+    
+    // If no ownerDeviceId provided, allow update (for testing purposes)
+    if (!ownerDeviceId) {
+      console.log('⚠️ Session update without ownership check:', { shareCode });
+    }
+
+    // Build update data object with only provided fields
+    const updateData: any = {};
+    if (courtCount !== undefined) updateData.courtCount = courtCount;
+    if (maxPlayers !== undefined) updateData.maxPlayers = maxPlayers;
+    if (location !== undefined) updateData.location = location;
+    if (description !== undefined) updateData.description = description;
+    if (skillLevel !== undefined) updateData.skillLevel = skillLevel;
+    if (cost !== undefined) updateData.cost = cost;
+    
+    // Allow setting ownerDeviceId if it's currently null/undefined
+    if (canSetOwnerDeviceId) {
+      updateData.ownerDeviceId = ownerDeviceId;
+      console.log('✅ Setting ownerDeviceId for session:', { shareCode, ownerDeviceId });
+      
+      // Also update the owner player's deviceId if they don't have one
+      const ownerPlayer = await prisma.mvpPlayer.findFirst({
+        where: {
+          sessionId: session.id,
+          name: session.ownerName
+        }
+      });
+      
+      if (ownerPlayer && !ownerPlayer.deviceId) {
+        await prisma.mvpPlayer.update({
+          where: { id: ownerPlayer.id },
+          data: { deviceId: ownerDeviceId }
+        });
+        console.log('✅ Also updated owner player deviceId:', { 
+          playerId: ownerPlayer.id, 
+          playerName: ownerPlayer.name, 
+          deviceId: ownerDeviceId 
+        });
+      }
+    }
+
+    const updatedSession = await prisma.mvpSession.update({
+      where: { shareCode },
+      data: updateData,
+      include: {
+        players: {
+          orderBy: { joinedAt: 'asc' }
+        },
+        games: {
+          orderBy: { gameNumber: 'desc' }
+        },
+        matches: {
+          include: {
+            games: {
+              orderBy: { gameInMatch: 'asc' }
+            }
+          },
+          orderBy: { matchNumber: 'desc' }
+        }
+      }
+    });
+
+    // Emit real-time update to all clients in this session - ENSURE FRESH DATA
+    try {
+      const io = req.app.get('io');
+      if (io) {
+        // Force a fresh fetch to prevent stale data emission
+        const freshSession = await prisma.mvpSession.findUnique({
+          where: { shareCode },
+          include: {
+            players: {
+              select: {
+                id: true,
+                name: true,
+                deviceId: true,
+                status: true,
+                gamesPlayed: true,
+                wins: true,
+                losses: true,
+                joinedAt: true
+              },
+              orderBy: { joinedAt: 'asc' }
+            },
+            games: {
+              orderBy: { gameNumber: 'desc' }
+            },
+            matches: {
+              include: {
+                games: {
+                  orderBy: { gameInMatch: 'asc' }
+                }
+              },
+              orderBy: { matchNumber: 'desc' }
+            }
+          }
+        });
+        
+        if (freshSession) {
+          io.to(`session-${shareCode}`).emit('mvp-session-updated', {
+            session: {
+              id: freshSession.id,
+              name: freshSession.name,
+              scheduledAt: freshSession.scheduledAt,
+              location: freshSession.location,
+              maxPlayers: freshSession.maxPlayers,
+              courtCount: freshSession.courtCount, // Fresh court count from database
+              status: freshSession.status,
+              ownerName: freshSession.ownerName,
+              ownerDeviceId: freshSession.ownerDeviceId,
+              shareCode: freshSession.shareCode,
+              playerCount: freshSession.players.length,
+              players: updatedSession.players.map(player => ({
+                id: player.id,
+                name: player.name,
+                deviceId: player.deviceId,
+                status: player.status,
+                gamesPlayed: player.gamesPlayed,
+                wins: player.wins,
+                losses: player.losses,
+                joinedAt: player.joinedAt
+              })),
+              games: freshSession.games || [],
+              matches: freshSession.matches || [],
+              createdAt: freshSession.createdAt
+            },
+            timestamp: new Date().toISOString()
+          });
+          console.log(`📡 Socket.IO: Emitted fresh session update for ${shareCode} with courtCount=${freshSession.courtCount}`);
+        }
+      }
+    } catch (socketError) {
+      console.error('Failed to emit fresh socket update:', socketError);
+      // Don't fail the request if socket emission fails
+    }
+
+    res.json({
+      success: true,
+      data: {
+        session: {
+          id: updatedSession.id,
+          name: updatedSession.name,
+          scheduledAt: updatedSession.scheduledAt,
+          location: updatedSession.location,
+          maxPlayers: updatedSession.maxPlayers,
+          courtCount: updatedSession.courtCount, // Include fresh courtCount in response
+          status: updatedSession.status,
+          ownerName: updatedSession.ownerName,
+          ownerDeviceId: updatedSession.ownerDeviceId,
+          shareCode: updatedSession.shareCode,
+          playerCount: updatedSession.players.length,
+          players: updatedSession.players.map(player => ({
+            id: player.id,
+            name: player.name,
+            status: player.status,
+            gamesPlayed: player.gamesPlayed,
+            wins: player.wins,
+            losses: player.losses,
+            joinedAt: player.joinedAt
+          })),
+          games: updatedSession.games || [],
+          matches: updatedSession.matches || [],
+          createdAt: updatedSession.createdAt
+        }
+      },
+      message: 'Session updated successfully',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Update session error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to update session'
+      },
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Terminate session (owner only)
+router.put('/terminate/:shareCode', requireOrganizer('delete_session'), async (req, res) => {
+  try {
+    const { shareCode } = req.params;
+    const { ownerDeviceId } = req.body;
+
+    const session = await prisma.mvpSession.findUnique({
+      where: { shareCode }
+    });
+
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Session not found'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    // Check if the requester is the owner
+    if (session.ownerDeviceId !== ownerDeviceId) {
+      return res.status(403).json({
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: 'Only the session owner can terminate the session'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const updatedSession = await prisma.mvpSession.update({
+      where: { shareCode },
+      data: { status: 'CANCELLED' }
+    });
+
+    // Emit real-time discovery update for session termination
+    try {
+      const { io } = await import('../server');
+      if (io && (session as any).visibility === 'PUBLIC') {
+        // Broadcast session termination to all discovery rooms
+        io.emit('discovery:session-terminated', {
+          session: {
+            id: updatedSession.id,
+            shareCode: updatedSession.shareCode,
+            status: updatedSession.status
+          },
+          timestamp: new Date().toISOString()
+        });
+        console.log(`📡 Discovery: Session ${shareCode} terminated and broadcasted`);
+      }
+
+      // Also emit to session room for connected players
+      io.to(`session-${shareCode}`).emit('mvp-session-terminated', {
+        session: {
+          id: updatedSession.id,
+          shareCode: updatedSession.shareCode,
+          status: updatedSession.status
+        },
+        timestamp: new Date().toISOString()
+      });
+      console.log(`📡 Session: Session ${shareCode} terminated and notified players`);
+    } catch (socketError) {
+      console.error('Failed to emit session termination:', socketError);
+      // Don't fail the request if socket emission fails
+    }
+
+    res.json({
+      success: true,
+      data: {
+        session: {
+          id: updatedSession.id,
+          status: updatedSession.status,
+          updatedAt: updatedSession.updatedAt
+        }
+      },
+      message: 'Session terminated successfully',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Terminate session error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to terminate session'
+      },
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Reactivate session (owner only) - only if not past due and currently terminated
+router.put('/reactivate/:shareCode', requireOrganizer('edit_session'), async (req, res) => {
+  try {
+    const { shareCode } = req.params;
+    const { ownerDeviceId } = req.body;
+
+    const session = await prisma.mvpSession.findUnique({
+      where: { shareCode }
+    });
+
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Session not found'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    // Check if the requester is the owner or a co-organizer
+    if (!(await actsForOrganizer(session, ownerDeviceId, 'edit_session'))) {
+      return res.status(403).json({
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: 'Only the session owner can reactivate the session'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    // Check if session is terminated
+    if (session.status !== 'CANCELLED') {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_STATUS',
+          message: 'Only terminated sessions can be reactivated'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    // Check if session is not past due
+    const now = new Date();
+    const sessionTime = new Date(session.scheduledAt);
+    if (sessionTime < now) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'SESSION_PAST_DUE',
+          message: 'Cannot reactivate a session that is past its scheduled time'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const updatedSession = await prisma.mvpSession.update({
+      where: { shareCode },
+      data: { status: 'ACTIVE' }
+    });
+
+    // Emit real-time discovery update for session reactivation
+    try {
+      const { io } = await import('../server');
+      if (io && (session as any).visibility === 'PUBLIC') {
+        // Broadcast session reactivation to all discovery rooms
+        io.emit('discovery:session-reactivated', {
+          session: {
+            id: updatedSession.id,
+            name: updatedSession.name,
+            shareCode: updatedSession.shareCode,
+            scheduledAt: updatedSession.scheduledAt,
+            location: updatedSession.location,
+            maxPlayers: updatedSession.maxPlayers,
+            skillLevel: updatedSession.skillLevel,
+            cost: updatedSession.cost,
+            description: updatedSession.description,
+            ownerName: updatedSession.ownerName,
+            status: updatedSession.status,
+            playerCount: 0, // Will be updated when players join
+            players: [],
+            createdAt: updatedSession.createdAt
+          },
+          timestamp: new Date().toISOString()
+        });
+        console.log(`📡 Discovery: Session ${shareCode} reactivated and broadcasted`);
+      }
+    } catch (socketError) {
+      console.error('Failed to emit session reactivation:', socketError);
+      // Don't fail the request if socket emission fails
+    }
+
+    res.json({
+      success: true,
+      data: {
+        session: {
+          id: updatedSession.id,
+          status: updatedSession.status,
+          updatedAt: updatedSession.updatedAt
+        }
+      },
+      message: 'Session reactivated successfully',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Reactivate session error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to reactivate session'
+      },
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Remove player from session (owner only)
+router.delete('/:shareCode/players/:playerId', async (req, res) => {
+  try {
+    const { shareCode, playerId } = req.params;
+    const { deviceId: ownerDeviceId } = req.body;
+
+    const session = await prisma.mvpSession.findUnique({
+      where: { shareCode }
+    });
+
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Session not found'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    // Check if the requester is the owner
+    console.log('🔍 Remove player ownership check:', {
+      sessionOwnerDeviceId: session.ownerDeviceId,
+      requestOwnerDeviceId: ownerDeviceId,
+      match: session.ownerDeviceId === ownerDeviceId,
+      sessionOwnerDeviceIdType: typeof session.ownerDeviceId,
+      requestOwnerDeviceIdType: typeof ownerDeviceId
+    });
+    
+    if (!(await actsForOrganizer(session, ownerDeviceId, 'remove_players'))) {
+      return res.status(403).json({
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: 'Only the session owner can remove players'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const player = await prisma.mvpPlayer.findUnique({
+      where: { id: playerId }
+    });
+
+    if (!player) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Player not found'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    // Don't allow owner to remove themselves
+    if (player.name === session.ownerName) {
+      return res.status(403).json({
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: 'Cannot remove the session organizer'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    await prisma.mvpPlayer.delete({
+      where: { id: playerId }
+    });
+
+    await refreshRotationPlan(shareCode);
+    await SessionWaitlistService.promoteNext(session);
+
+    res.json({
+      success: true,
+      message: 'Player removed successfully',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Remove player error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to remove player'
+      },
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Add player to session (owner only)
+router.post('/:shareCode/add-player', requireOrganizer('add_players'), async (req, res) => {
+  try {
+    const { shareCode } = req.params;
+    const { playerName, deviceId: ownerDeviceId, category } = req.body;
+
+    if (category && !PLAYER_CATEGORIES.includes(category)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Category must be male or female'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const session = await prisma.mvpSession.findUnique({
+      where: { shareCode },
+      include: { players: true }
+    });
+
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Session not found'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    // Check if the requester is the owner
+    console.log('🔍 Add player ownership check:', {
+      sessionOwnerDeviceId: session.ownerDeviceId,
+      requestOwnerDeviceId: ownerDeviceId,
+      match: session.ownerDeviceId === ownerDeviceId,
+      sessionOwnerDeviceIdType: typeof session.ownerDeviceId,
+      requestOwnerDeviceIdType: typeof ownerDeviceId
+    });
+    
+    if (!(await actsForOrganizer(session, ownerDeviceId, 'add_players'))) {
+      return res.status(403).json({
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: 'Only the session owner can add players'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    if (session.status !== 'ACTIVE') {
+      return res.status(403).json({
+        success: false,
+        error: {
+          code: 'SESSION_INACTIVE',
+          message: 'Cannot add players to inactive session'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    // Check if session is full
+    if (session.players.length >= session.maxPlayers) {
+      return res.status(403).json({
+        success: false,
+        error: {
+          code: 'SESSION_FULL',
+          message: 'Session is full'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    // Check if player name already exists
+    const existingPlayer = session.players.find(p => p.name.toLowerCase() === playerName.toLowerCase());
+    if (existingPlayer) {
+      return res.status(409).json({
+        success: false,
+        error: {
+          code: 'NAME_EXISTS',
+          message: 'A player with this name already exists in the session'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const player = await prisma.mvpPlayer.create({
+      data: {
+        sessionId: session.id,
+        name: playerName.trim(),
+        deviceId: 'manual_' + Math.random().toString(36).substr(2, 9),
+        category: category || null,
+        status: 'ACTIVE'
+      }
+    });
+
+    res.status(201).json({
+      success: true,
+      data: {
+        player: {
+          id: player.id,
+          name: player.name,
+          status: player.status,
+          category: player.category,
+          joinedAt: player.joinedAt
+        }
+      },
+      message: 'Player added successfully',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Add player error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to add player'
+      },
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Update a player's mixed doubles category (organizer or self)
+router.put('/:shareCode/players/:playerId/category', requireOrganizerOrSelf('update_player_status'), async (req, res) => {
+  try {
+    const { shareCode, playerId } = req.params;
+    const { category } = req.body;
+
+    if (category !== null && !PLAYER_CATEGORIES.includes(category)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Category must be male, female or null'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const player = await prisma.mvpPlayer.update({
+      where: { id: playerId },
+      data: { category }
+    });
+
+    try {
+      const { io } = await import('../server');
+      io.to(`session-${shareCode}`).emit('player_category_changed', {
+        playerId: player.id,
+        playerName: player.name,
+        category: player.category,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      console.warn('Failed to emit socket update:', error instanceof Error ? error.message : 'Unknown error');
+    }
+
+    res.json({
+      success: true,
+      data: {
+        player: {
+          id: player.id,
+          name: player.name,
+          category: player.category
+        }
+      },
+      message: 'Player category updated successfully',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Update player category error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to update player category'
+      },
+      timestamp: new Date().toISOString()
+    });
+  }
+});
 
-    if (!session) {
-      return res.status(404).json({
+// Promote a player to a delegated role, or demote them back to player (organizer only)
+router.put('/:shareCode/players/:playerId/role', requireOrganizer('manage_roles'), async (req, res) => {
+  try {
+    const { shareCode, playerId } = req.params;
+    const { role } = req.body;
+    const session = (req as any).session;
+
+    if (!DELEGATED_ROLES.includes(role)) {
+      return res.status(400).json({
         success: false,
         error: {
-          code: 'NOT_FOUND',
-          message: 'Session not found'
+          code: 'VALIDATION_ERROR',
+          message: `Role must be one of ${DELEGATED_ROLES.join(', ')}`
         },
         timestamp: new Date().toISOString()
       });
     }
 
-    // Special case: Allow setting ownerDeviceId if it's currently null/undefined
-    const canSetOwnerDeviceId = !session.ownerDeviceId && ownerDeviceId;
-    
-    // Check if the requester is the owner (if ownerDeviceId is provided and session already has one)
-    if (ownerDeviceId && session.ownerDeviceId && session.ownerDeviceId !== ownerDeviceId) {
-      console.log('🚫 Session update denied:', {
-        providedDeviceId: ownerDeviceId,
-        sessionOwnerDeviceId: session.ownerDeviceId,
-        shareCode
-      });
-      return res.status(403).json({
+    const target = await prisma.mvpPlayer.findFirst({
+      where: { id: playerId, sessionId: session.id }
+    });
+
+    if (!target) {
+      return res.status(404).json({
         success: false,
         error: {
-          code: 'FORBIDDEN',
-          message: 'Only the session owner can update the session'
+          code: 'PLAYER_NOT_FOUND',
+          message: 'Player not found in session'
         },
         timestamp: new Date().toISOString()
       });
     }
-    
-    // If no ownerDeviceId provided, allow update (for testing purposes)
-    if (!ownerDeviceId) {
-      console.log('⚠️ Session update without ownership check:', { shareCode });
-    }
 
-    // Build update data object with only provided fields
-    const updateData: any = {};
-    if (courtCount !== undefined) updateData.courtCount = courtCount;
-    if (maxPlayers !== undefined) updateData.maxPlayers = maxPlayers;
-    if (location !== undefined) updateData.location = location;
-    if (description !== undefined) updateData.description = description;
-    if (skillLevel !== undefined) updateData.skillLevel = skillLevel;
-    if (cost !== undefined) updateData.cost = cost;
-    
-    // Allow setting ownerDeviceId if it's currently null/undefined
-    if (canSetOwnerDeviceId) {
-      updateData.ownerDeviceId = ownerDeviceId;
-      console.log('✅ Setting ownerDeviceId for session:', { shareCode, ownerDeviceId });
-      
-      // Also update the owner player's deviceId if they don't have one
-      const ownerPlayer = await prisma.mvpPlayer.findFirst({
-        where: {
-          sessionId: session.id,
-          name: session.ownerName
-        }
+    // Handing over the session itself is a transfer of ownership, not a role change
+    if (target.role === 'ORGANIZER') {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_REQUEST',
+          message: "The organizer's role cannot be changed"
+        },
+        timestamp: new Date().toISOString()
       });
-      
-      if (ownerPlayer && !ownerPlayer.deviceId) {
-        await prisma.mvpPlayer.update({
-          where: { id: ownerPlayer.id },
-          data: { deviceId: ownerDeviceId }
-        });
-        console.log('✅ Also updated owner player deviceId:', { 
-          playerId: ownerPlayer.id, 
-          playerName: ownerPlayer.name, 
-          deviceId: ownerDeviceId 
-        });
-      }
     }
 
-    const updatedSession = await prisma.mvpSession.update({
-      where: { shareCode },
-      data: updateData,
-      include: {
-        players: {
-          orderBy: { joinedAt: 'asc' }
-        },
-        games: {
-          orderBy: { gameNumber: 'desc' }
-        },
-        matches: {
-          include: {
-            games: {
-              orderBy: { gameInMatch: 'asc' }
-            }
-          },
-          orderBy: { matchNumber: 'desc' }
-        }
-      }
+    const previousRole = target.role;
+    const player = await prisma.mvpPlayer.update({
+      where: { id: playerId },
+      data: { role }
     });
 
-    // Emit real-time update to all clients in this session - ENSURE FRESH DATA
     try {
-      const io = req.app.get('io');
-      if (io) {
-        // Force a fresh fetch to prevent stale data emission
-        const freshSession = await prisma.mvpSession.findUnique({
-          where: { shareCode },
-          include: {
-            players: {
-              select: {
-                id: true,
-                name: true,
-                deviceId: true,
-                status: true,
-                gamesPlayed: true,
-                wins: true,
-                losses: true,
-                joinedAt: true
-              },
-              orderBy: { joinedAt: 'asc' }
-            },
-            games: {
-              orderBy: { gameNumber: 'desc' }
-            },
-            matches: {
-              include: {
-                games: {
-                  orderBy: { gameInMatch: 'asc' }
-                }
-              },
-              orderBy: { matchNumber: 'desc' }
-            }
-          }
-        });
-        
-        if (freshSession) {
-          io.to(`session-${shareCode}`).emit('mvp-session-updated', {
-            session: {
-              id: freshSession.id,
-              name: freshSession.name,
-              scheduledAt: freshSession.scheduledAt,
-              location: freshSession.location,
-              maxPlayers: freshSession.maxPlayers,
-              courtCount: freshSession.courtCount, // Fresh court count from database
-              status: freshSession.status,
-              ownerName: freshSession.ownerName,
-              ownerDeviceId: freshSession.ownerDeviceId,
-              shareCode: freshSession.shareCode,
-              playerCount: freshSession.players.length,
-              players: updatedSession.players.map(player => ({
-                id: player.id,
-                name: player.name,
-                deviceId: player.deviceId,
-                status: player.status,
-                gamesPlayed: player.gamesPlayed,
-                wins: player.wins,
-                losses: player.losses,
-                joinedAt: player.joinedAt
-              })),
-              games: freshSession.games || [],
-              matches: freshSession.matches || [],
-              createdAt: freshSession.createdAt
-            },
-            timestamp: new Date().toISOString()
-          });
-          console.log(`📡 Socket.IO: Emitted fresh session update for ${shareCode} with courtCount=${freshSession.courtCount}`);
-        }
-      }
-    } catch (socketError) {
-      console.error('Failed to emit fresh socket update:', socketError);
-      // Don't fail the request if socket emission fails
+      const { io } = await import('../server');
+      io.to(`session-${shareCode}`).emit('player_role_changed', {
+        playerId: player.id,
+        playerName: player.name,
+        role: player.role,
+        previousRole,
+        changedBy: (req as any).player.name,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      console.warn('Failed to emit socket update:', error instanceof Error ? error.message : 'Unknown error');
     }
 
     res.json({
       success: true,
       data: {
-        session: {
-          id: updatedSession.id,
-          name: updatedSession.name,
-          scheduledAt: updatedSession.scheduledAt,
-          location: updatedSession.location,
-          maxPlayers: updatedSession.maxPlayers,
-          courtCount: updatedSession.courtCount, // Include fresh courtCount in response
-          status: updatedSession.status,
-          ownerName: updatedSession.ownerName,
-          ownerDeviceId: updatedSession.ownerDeviceId,
-          shareCode: updatedSession.shareCode,
-          playerCount: updatedSession.players.length,
-          players: updatedSession.players.map(player => ({
-            id: player.id,
-            name: player.name,
-            status: player.status,
-            gamesPlayed: player.gamesPlayed,
-            wins: player.wins,
-            losses: player.losses,
-            joinedAt: player.joinedAt
-          })),
-          games: updatedSession.games || [],
-          matches: updatedSession.matches || [],
-          createdAt: updatedSession.createdAt
+        player: {
+          id: player.id,
+          name: player.name,
+          role: player.role
         }
       },
-      message: 'Session updated successfully',
+      message: 'Player role updated successfully',
       timestamp: new Date().toISOString()
     });
   } catch (error) {
-    console.error('Update session error:', error);
+    console.error('Update player role error:', error);
     res.status(500).json({
       success: false,
       error: {
         code: 'INTERNAL_ERROR',
-        message: 'Failed to update session'
+        message: 'Failed to update player role'
       },
       timestamp: new Date().toISOString()
     });
   }
 });
 
-// Terminate session (owner only)
-router.put('/terminate/:shareCode', requireOrganizer('delete_session'), async (req, res) => {
+// Game Management Routes
+
+// Create a new game
+router.post('/:shareCode/games', async (req, res) => {
   try {
     const { shareCode } = req.params;
-    const { ownerDeviceId } = req.body;
-
-    const session = await prisma.mvpSession.findUnique({
-      where: { shareCode }
-    });
-
-    if (!session) {
-      return res.status(404).json({
-        success: false,
-        error: {
-          code: 'NOT_FOUND',
-          message: 'Session not found'
-        },
-        timestamp: new Date().toISOString()
-      });
-    }
+    const { team1Player1, team1Player2, team2Player1, team2Player2, courtName, format = 'DOUBLES' } = req.body;
 
-    // Check if the requester is the owner
-    if (session.ownerDeviceId !== ownerDeviceId) {
-      return res.status(403).json({
+    // Validate required fields for the format
+    const teamError = validateTeamColumns(format, { team1Player1, team1Player2, team2Player1, team2Player2 });
+    if (teamError) {
+      return res.status(400).json({
         success: false,
-        error: {
-          code: 'FORBIDDEN',
-          message: 'Only the session owner can terminate the session'
-        },
+        message: teamError,
         timestamp: new Date().toISOString()
       });
     }
 
-    const updatedSession = await prisma.mvpSession.update({
+    // Find session
+    const session = await prisma.mvpSession.findFirst({
       where: { shareCode },
-      data: { status: 'CANCELLED' }
+      include: { games: true }
     });
 
-    // Emit real-time discovery update for session termination
-    try {
-      const { io } = await import('../server');
-      if (io && (session as any).visibility === 'PUBLIC') {
-        // Broadcast session termination to all discovery rooms
-        io.emit('discovery:session-terminated', {
-          session: {
-            id: updatedSession.id,
-            shareCode: updatedSession.shareCode,
-            status: updatedSession.status
-          },
-          timestamp: new Date().toISOString()
-        });
-        console.log(`📡 Discovery: Session ${shareCode} terminated and broadcasted`);
-      }
-
-      // Also emit to session room for connected players
-      io.to(`session-${shareCode}`).emit('mvp-session-terminated', {
-        session: {
-          id: updatedSession.id,
-          shareCode: updatedSession.shareCode,
-          status: updatedSession.status
-        },
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        message: 'Session not found',
         timestamp: new Date().toISOString()
       });
-      console.log(`📡 Session: Session ${shareCode} terminated and notified players`);
-    } catch (socketError) {
-      console.error('Failed to emit session termination:', socketError);
-      // Don't fail the request if socket emission fails
     }
 
-    res.json({
-      success: true,
+    // Calculate next game number
+    const gameNumber = (session.games.length || 0) + 1;
+
+    // Create game
+    const game = await prisma.mvpGame.create({
       data: {
-        session: {
-          id: updatedSession.id,
-          status: updatedSession.status,
-          updatedAt: updatedSession.updatedAt
-        }
-      },
-      message: 'Session terminated successfully',
+        sessionId: session.id,
+        gameNumber,
+        format,
+        team1Player1,
+        team1Player2: team1Player2 || '',
+        team2Player1,
+        team2Player2: team2Player2 || '',
+        courtName,
+        startTime: new Date(),
+        status: 'IN_PROGRESS'
+      }
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { game },
+      message: 'Game created successfully',
       timestamp: new Date().toISOString()
     });
+
   } catch (error) {
-    console.error('Terminate session error:', error);
+    console.error('Error creating game:', error);
     res.status(500).json({
       success: false,
-      error: {
-        code: 'INTERNAL_ERROR',
-        message: 'Failed to terminate session'
-      },
+      message: 'Internal server error',
       timestamp: new Date().toISOString()
     });
   }
 });
 
-// Reactivate session (owner only) - only if not past due and currently terminated
-router.put('/reactivate/:shareCode', requireOrganizer('edit_session'), async (req, res) => {
+// Scorekeeping roles enter scores; when scores wait for the other side to confirm, the players in a standalone game can too
+const requireScoreEntry = async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { shareCode } = req.params;
-    const { ownerDeviceId } = req.body;
+    const { shareCode, gameId } = req.params;
+    const { deviceId } = req.body ?? {};
 
-    const session = await prisma.mvpSession.findUnique({
-      where: { shareCode }
-    });
+    const session = deviceId
+      ? await prisma.mvpSession.findFirst({
+        where: { shareCode },
+        include: { configuration: { select: { requireScoreConfirmation: true } } }
+      })
+      : null;
+
+    if (session?.configuration?.requireScoreConfirmation) {
+      const [player, game] = await Promise.all([
+        prisma.mvpPlayer.findFirst({ where: { sessionId: session.id, deviceId }, select: { name: true } }),
+        prisma.mvpGame.findFirst({ where: { id: gameId, sessionId: session.id } })
+      ]);
+      if (player && game && !game.matchId && gameTeams(game).flat().includes(player.name)) {
+        return next();
+      }
+    }
+  } catch (error) {
+    console.error('Error checking score entry rights:', error);
+  }
 
-    if (!session) {
-      return res.status(404).json({
+  return requireOrganizer('record_scores')(req, res, next);
+};
+
+// Update game score (finish game)
+router.put('/:shareCode/games/:gameId/score', requireScoreEntry, async (req, res) => {
+  try {
+    const { shareCode, gameId } = req.params;
+    const { team1FinalScore, team2FinalScore, deviceId } = req.body;
+
+    // Validate scores
+    if (typeof team1FinalScore !== 'number' || typeof team2FinalScore !== 'number') {
+      return res.status(400).json({
         success: false,
-        error: {
-          code: 'NOT_FOUND',
-          message: 'Session not found'
-        },
+        message: 'Valid scores are required (0-2)',
         timestamp: new Date().toISOString()
       });
     }
 
-    // Check if the requester is the owner
-    if (session.ownerDeviceId !== ownerDeviceId) {
-      return res.status(403).json({
+    if (team1FinalScore < 0 || team1FinalScore > 2 || team2FinalScore < 0 || team2FinalScore > 2) {
+      return res.status(400).json({
         success: false,
-        error: {
-          code: 'FORBIDDEN',
-          message: 'Only the session owner can reactivate the session'
-        },
+        message: 'Scores must be between 0 and 2',
         timestamp: new Date().toISOString()
       });
     }
 
-    // Check if session is terminated
-    if (session.status !== 'CANCELLED') {
+    if (team1FinalScore === team2FinalScore) {
       return res.status(400).json({
         success: false,
-        error: {
-          code: 'INVALID_STATUS',
-          message: 'Only terminated sessions can be reactivated'
-        },
+        message: 'Game cannot end in a tie',
         timestamp: new Date().toISOString()
       });
     }
 
-    // Check if session is not past due
-    const now = new Date();
-    const sessionTime = new Date(session.scheduledAt);
-    if (sessionTime < now) {
-      return res.status(400).json({
+    // Find session and game
+    const session = await prisma.mvpSession.findFirst({
+      where: { shareCode },
+      include: { configuration: { select: { requireScoreConfirmation: true } } }
+    });
+
+    if (!session) {
+      return res.status(404).json({
         success: false,
-        error: {
-          code: 'SESSION_PAST_DUE',
-          message: 'Cannot reactivate a session that is past its scheduled time'
-        },
+        message: 'Session not found',
         timestamp: new Date().toISOString()
       });
     }
 
-    const updatedSession = await prisma.mvpSession.update({
-      where: { shareCode },
-      data: { status: 'ACTIVE' }
+    const game = await prisma.mvpGame.findFirst({
+      where: { id: gameId, sessionId: session.id }
     });
 
-    // Emit real-time discovery update for session reactivation
+    if (!game) {
+      return res.status(404).json({
+        success: false,
+        message: 'Game not found',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    // Determine winner
+    const winnerTeam = team1FinalScore > team2FinalScore ? 1 : 2;
+
+    // Log the edit before overwriting so it can be audited and undone
+    const actor = await ScoreHistoryService.resolveActor(session.id, deviceId);
+    await ScoreHistoryService.recordScore(game, { team1FinalScore, team2FinalScore, winnerTeam, status: 'COMPLETED' }, actor);
+
+    // Scores wait for the other side when the session asks for confirmation
+    const needsConfirmation = session.configuration?.requireScoreConfirmation ?? false;
+
+    // Update game
+    const updatedGame = await prisma.mvpGame.update({
+      where: { id: gameId },
+      data: {
+        team1FinalScore,
+        team2FinalScore,
+        winnerTeam,
+        status: 'COMPLETED',
+        endTime: new Date(),
+        duration: game.startTime ? Math.round((new Date().getTime() - game.startTime.getTime()) / (1000 * 60)) : null,
+        confirmationStatus: needsConfirmation ? 'PENDING' : 'CONFIRMED',
+        submittedBy: actor.name || actor.deviceId || null,
+        confirmedBy: null,
+        confirmedAt: null,
+        disputedBy: null,
+        disputeReason: null
+      }
+    });
+
+    if (needsConfirmation) {
+      // Nothing counts until the score is confirmed, including a result this edit replaces
+      if (game.status !== 'COMPLETED') {
+        await updateRestCounters(session.id);
+      } else if (game.confirmationStatus === 'CONFIRMED') {
+        await recomputeSessionStatistics(session.id);
+        try {
+          await rankingService.replayRatings({ sessionId: session.id });
+        } catch (rankingError) {
+          console.error('Error replaying rankings after score edit:', rankingError);
+        }
+      }
+    } else if (game.status === 'COMPLETED') {
+      // Corrections rebuild statistics and ratings so the old result isn't counted twice
+      await recomputeSessionStatistics(session.id);
+      try {
+        await rankingService.replayRatings({ sessionId: session.id });
+      } catch (rankingError) {
+        console.error('Error replaying rankings after score edit:', rankingError);
+      }
+    } else {
+      await updatePlayerGameStatistics(session.id, {
+        format: game.format as GameFormat,
+        team1Player1: game.team1Player1,
+        team1Player2: game.team1Player2,
+        team2Player1: game.team2Player1,
+        team2Player2: game.team2Player2,
+        winnerTeam,
+        duration: updatedGame.duration || undefined,
+        team1FinalScore,
+        team2FinalScore
+      });
+
+      // Update doubles ratings from the completed game
+      try {
+        await rankingService.updateRatingsAfterGame(gameId);
+      } catch (rankingError) {
+        console.error('Error updating rankings after game:', rankingError);
+        // Don't fail the score update if ranking update fails
+      }
+    }
+
+    // Emit Socket.IO update
     try {
       const { io } = await import('../server');
-      if (io && (session as any).visibility === 'PUBLIC') {
-        // Broadcast session reactivation to all discovery rooms
-        io.emit('discovery:session-reactivated', {
-          session: {
-            id: updatedSession.id,
-            name: updatedSession.name,
-            shareCode: updatedSession.shareCode,
-            scheduledAt: updatedSession.scheduledAt,
-            location: updatedSession.location,
-            maxPlayers: updatedSession.maxPlayers,
-            skillLevel: updatedSession.skillLevel,
-            cost: updatedSession.cost,
-            description: updatedSession.description,
-            ownerName: updatedSession.ownerName,
-            status: updatedSession.status,
-            playerCount: 0, // Will be updated when players join
-            players: [],
-            createdAt: updatedSession.createdAt
+      const updatedSession = await prisma.mvpSession.findFirst({
+        where: { shareCode },
+        include: {
+          players: {
+            select: {
+              id: true,
+              name: true,
+              status: true,
+              joinedAt: true,
+              gamesPlayed: true,
+              wins: true,
+              losses: true
+            }
           },
+          games: {
+            orderBy: { gameNumber: 'desc' }
+          }
+        }
+      });
+
+      if (updatedSession) {
+        io.to(`session-${shareCode}`).emit('mvp-session-updated', {
+          session: updatedSession,
           timestamp: new Date().toISOString()
         });
-        console.log(`📡 Discovery: Session ${shareCode} reactivated and broadcasted`);
+        if (needsConfirmation) {
+          io.to(`session-${shareCode}`).emit('score_pending_confirmation', {
+            gameId,
+            team1FinalScore,
+            team2FinalScore,
+            submittedBy: updatedGame.submittedBy,
+            timestamp: new Date().toISOString()
+          });
+        }
+        const winners = winnerTeam === 1
+          ? formatTeamName(game.team1Player1, game.team1Player2)
+          : formatTeamName(game.team2Player1, game.team2Player2);
+        console.log(`📡 Socket.IO: Game completed for ${shareCode} - ${winners} beat opponents ${team1FinalScore}-${team2FinalScore}`);
       }
-    } catch (socketError) {
-      console.error('Failed to emit session reactivation:', socketError);
-      // Don't fail the request if socket emission fails
+    } catch (error) {
+      console.warn('Failed to emit socket update:', error instanceof Error ? error.message : 'Unknown error');
     }
 
     res.json({
       success: true,
-      data: {
-        session: {
-          id: updatedSession.id,
-          status: updatedSession.status,
-          updatedAt: updatedSession.updatedAt
-        }
-      },
-      message: 'Session reactivated successfully',
+      data: { game: updatedGame },
+      message: 'Game score updated successfully',
       timestamp: new Date().toISOString()
     });
+
   } catch (error) {
-    console.error('Reactivate session error:', error);
+    console.error('Error updating game score:', error);
     res.status(500).json({
       success: false,
-      error: {
-        code: 'INTERNAL_ERROR',
-        message: 'Failed to reactivate session'
-      },
+      message: 'Internal server error',
       timestamp: new Date().toISOString()
     });
   }
 });
 
-// Remove player from session (owner only)
-router.delete('/:shareCode/players/:playerId', async (req, res) => {
+// Get every score edit for a game, including undone ones, for resolving disputes
+router.get('/:shareCode/games/:gameId/score/history', async (req, res) => {
   try {
-    const { shareCode, playerId } = req.params;
-    const { deviceId: ownerDeviceId } = req.body;
-
-    const session = await prisma.mvpSession.findUnique({
-      where: { shareCode }
-    });
-
-    if (!session) {
-      return res.status(404).json({
-        success: false,
-        error: {
-          code: 'NOT_FOUND',
-          message: 'Session not found'
-        },
-        timestamp: new Date().toISOString()
-      });
-    }
-
-    // Check if the requester is the owner
-    console.log('🔍 Remove player ownership check:', {
-      sessionOwnerDeviceId: session.ownerDeviceId,
-      requestOwnerDeviceId: ownerDeviceId,
-      match: session.ownerDeviceId === ownerDeviceId,
-      sessionOwnerDeviceIdType: typeof session.ownerDeviceId,
-      requestOwnerDeviceIdType: typeof ownerDeviceId
-    });
-    
-    if (session.ownerDeviceId !== ownerDeviceId) {
-      return res.status(403).json({
-        success: false,
-        error: {
-          code: 'FORBIDDEN',
-          message: 'Only the session owner can remove players'
-        },
-        timestamp: new Date().toISOString()
-      });
-    }
+    const { shareCode, gameId } = req.params;
 
-    const player = await prisma.mvpPlayer.findUnique({
-      where: { id: playerId }
+    const session = await prisma.mvpSession.findFirst({
+      where: { shareCode }
     });
 
-    if (!player) {
+    if (!session) {
       return res.status(404).json({
         success: false,
-        error: {
-          code: 'NOT_FOUND',
-          message: 'Player not found'
-        },
+        message: 'Session not found',
         timestamp: new Date().toISOString()
       });
     }
 
-    // Don't allow owner to remove themselves
-    if (player.name === session.ownerName) {
-      return res.status(403).json({
+    const game = await prisma.mvpGame.findFirst({
+      where: { id: gameId, sessionId: session.id }
+    });
+
+    if (!game) {
+      return res.status(404).json({
         success: false,
-        error: {
-          code: 'FORBIDDEN',
-          message: 'Cannot remove the session organizer'
-        },
+        message: 'Game not found',
         timestamp: new Date().toISOString()
       });
     }
 
-    await prisma.mvpPlayer.delete({
-      where: { id: playerId }
-    });
+    const history = await ScoreHistoryService.getHistory(gameId);
 
     res.json({
       success: true,
-      message: 'Player removed successfully',
+      data: {
+        game,
+        history: history.timeline,
+        canUndo: history.undoTarget !== null,
+        canRedo: history.redoTarget !== null
+      },
+      message: 'Score history retrieved successfully',
       timestamp: new Date().toISOString()
     });
+
   } catch (error) {
-    console.error('Remove player error:', error);
+    console.error('Error getting score history:', error);
     res.status(500).json({
       success: false,
-      error: {
-        code: 'INTERNAL_ERROR',
-        message: 'Failed to remove player'
-      },
+      message: 'Internal server error',
       timestamp: new Date().toISOString()
     });
   }
 });
 
-// Add player to session (owner only)
-router.post('/:shareCode/add-player', requireOrganizer('add_players'), async (req, res) => {
+// Undo or redo the latest score edit for a game
+const revertScore = (type: 'UNDO' | 'REDO') => async (req: Request, res: Response) => {
   try {
-    const { shareCode } = req.params;
-    const { playerName, deviceId: ownerDeviceId } = req.body;
+    const { shareCode, gameId } = req.params;
+    const { deviceId } = req.body;
 
-    const session = await prisma.mvpSession.findUnique({
-      where: { shareCode },
-      include: { players: true }
+    const session = await prisma.mvpSession.findFirst({
+      where: { shareCode }
     });
 
     if (!session) {
       return res.status(404).json({
         success: false,
-        error: {
-          code: 'NOT_FOUND',
-          message: 'Session not found'
-        },
+        message: 'Session not found',
         timestamp: new Date().toISOString()
       });
     }
 
-    // Check if the requester is the owner
-    console.log('🔍 Add player ownership check:', {
-      sessionOwnerDeviceId: session.ownerDeviceId,
-      requestOwnerDeviceId: ownerDeviceId,
-      match: session.ownerDeviceId === ownerDeviceId,
-      sessionOwnerDeviceIdType: typeof session.ownerDeviceId,
-      requestOwnerDeviceIdType: typeof ownerDeviceId
+    const game = await prisma.mvpGame.findFirst({
+      where: { id: gameId, sessionId: session.id }
     });
-    
-    if (session.ownerDeviceId !== ownerDeviceId) {
-      return res.status(403).json({
-        success: false,
-        error: {
-          code: 'FORBIDDEN',
-          message: 'Only the session owner can add players'
-        },
-        timestamp: new Date().toISOString()
-      });
-    }
 
-    if (session.status !== 'ACTIVE') {
-      return res.status(403).json({
+    if (!game) {
+      return res.status(404).json({
         success: false,
-        error: {
-          code: 'SESSION_INACTIVE',
-          message: 'Cannot add players to inactive session'
-        },
+        message: 'Game not found',
         timestamp: new Date().toISOString()
       });
     }
 
-    // Check if session is full
-    if (session.players.length >= session.maxPlayers) {
-      return res.status(403).json({
+    const actor = await ScoreHistoryService.resolveActor(session.id, deviceId);
+    const result = await ScoreHistoryService.revertScore(game, type, actor);
+
+    if (!result) {
+      return res.status(400).json({
         success: false,
-        error: {
-          code: 'SESSION_FULL',
-          message: 'Session is full'
-        },
+        message: type === 'UNDO' ? 'Nothing to undo' : 'Nothing to redo',
         timestamp: new Date().toISOString()
       });
     }
 
-    // Check if player name already exists
-    const existingPlayer = session.players.find(p => p.name.toLowerCase() === playerName.toLowerCase());
-    if (existingPlayer) {
-      return res.status(409).json({
-        success: false,
-        error: {
-          code: 'NAME_EXISTS',
-          message: 'A player with this name already exists in the session'
-        },
+    try {
+      const { io } = await import('../server');
+      io.to(`session-${shareCode}`).emit('game_score_reverted', {
+        gameId,
+        type,
+        game: result.game,
+        actor: actor.name || actor.deviceId || null,
         timestamp: new Date().toISOString()
       });
+    } catch (error) {
+      console.warn('Failed to emit socket update:', error instanceof Error ? error.message : 'Unknown error');
     }
 
-    const player = await prisma.mvpPlayer.create({
-      data: {
-        sessionId: session.id,
-        name: playerName.trim(),
-        deviceId: 'manual_' + Math.random().toString(36).substr(2, 9),
-        status: 'ACTIVE'
-      }
-    });
-
-    res.status(201).json({
+    res.json({
       success: true,
       data: {
-        player: {
-          id: player.id,
-          name: player.name,
-          status: player.status,
-          joinedAt: player.joinedAt
-        }
+        game: result.game,
+        history: result.history.timeline,
+        canUndo: result.history.undoTarget !== null,
+        canRedo: result.history.redoTarget !== null
       },
-      message: 'Player added successfully',
+      message: type === 'UNDO' ? 'Score edit undone' : 'Score edit redone',
       timestamp: new Date().toISOString()
     });
+
   } catch (error) {
-    console.error('Add player error:', error);
+    console.error(`Error during score ${type.toLowerCase()}:`, error);
     res.status(500).json({
       success: false,
-      error: {
-        code: 'INTERNAL_ERROR',
-        message: 'Failed to add player'
-      },
+      message: 'Internal server error',
       timestamp: new Date().toISOString()
     });
   }
-});
+};
 
-// Game Management Routes
+router.post('/:shareCode/games/:gameId/score/undo', requireScoreEntry, revertScore('UNDO'));
+router.post('/:shareCode/games/:gameId/score/redo', requireScoreEntry, revertScore('REDO'));
 
-// Create a new game
-router.post('/:shareCode/games', async (req, res) => {
+// Work out whether a device may review a pending score, and under which player name
+const resolveReviewer = async (session: { id: string; ownerDeviceId: string | null }, deviceId?: string): Promise<ScoreReviewer | null> => {
+  if (!deviceId) {
+    return null;
+  }
+
+  const player = await prisma.mvpPlayer.findFirst({
+    where: { sessionId: session.id, deviceId },
+    select: { name: true, role: true }
+  });
+  // Scorekeepers and co-organizers settle scores on the organizer's behalf
+  const isOrganizer = session.ownerDeviceId === deviceId || (!!player && hasPermission(player.role, 'record_scores'));
+
+  if (!player && !isOrganizer) {
+    return null;
+  }
+  return { name: player?.name || '', deviceId, isOrganizer };
+};
+
+// Confirm a score submitted by the other side, or approve it as the organizer
+router.post('/:shareCode/games/:gameId/confirm', async (req, res) => {
   try {
-    const { shareCode } = req.params;
-    const { team1Player1, team1Player2, team2Player1, team2Player2, courtName } = req.body;
+    const { shareCode, gameId } = req.params;
+    const { deviceId } = req.body;
 
-    // Validate required fields
-    if (!team1Player1 || !team1Player2 || !team2Player1 || !team2Player2) {
-      return res.status(400).json({
+    const session = await prisma.mvpSession.findFirst({
+      where: { shareCode }
+    });
+
+    if (!session) {
+      return res.status(404).json({
         success: false,
-        message: 'All four players are required',
+        message: 'Session not found',
         timestamp: new Date().toISOString()
       });
     }
 
-    // Find session
-    const session = await prisma.mvpSession.findFirst({
-      where: { shareCode },
-      include: { games: true }
+    const game = await prisma.mvpGame.findFirst({
+      where: { id: gameId, sessionId: session.id }
     });
 
-    if (!session) {
+    if (!game) {
       return res.status(404).json({
         success: false,
-        message: 'Session not found',
+        message: 'Game not found',
         timestamp: new Date().toISOString()
       });
     }
 
-    // Calculate next game number
-    const gameNumber = (session.games.length || 0) + 1;
+    if (game.status !== 'COMPLETED' || game.confirmationStatus === 'CONFIRMED') {
+      return res.status(400).json({
+        success: false,
+        message: 'This game has no score waiting for confirmation',
+        timestamp: new Date().toISOString()
+      });
+    }
 
-    // Create game
-    const game = await prisma.mvpGame.create({
+    const reviewer = await resolveReviewer(session, deviceId);
+    const rightsError = reviewer
+      ? checkConfirmationRights(game, game.submittedBy, reviewer)
+      : 'Only players in this game or the organizer can confirm the score';
+
+    if (rightsError) {
+      return res.status(403).json({
+        success: false,
+        message: rightsError,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const updatedGame = await prisma.mvpGame.update({
+      where: { id: gameId },
       data: {
-        sessionId: session.id,
-        gameNumber,
-        team1Player1,
-        team1Player2,
-        team2Player1,
-        team2Player2,
-        courtName,
-        startTime: new Date(),
-        status: 'IN_PROGRESS'
+        confirmationStatus: 'CONFIRMED',
+        confirmedBy: reviewer!.name || deviceId,
+        confirmedAt: new Date()
       }
     });
 
-    res.status(201).json({
+    // Confirmations can land after later games, so rebuild rather than increment
+    await recomputeSessionStatistics(session.id);
+    try {
+      await rankingService.replayRatings({ sessionId: session.id });
+    } catch (rankingError) {
+      console.error('Error replaying rankings after score confirmation:', rankingError);
+    }
+
+    try {
+      const { io } = await import('../server');
+      io.to(`session-${shareCode}`).emit('score_confirmed', {
+        gameId,
+        game: updatedGame,
+        confirmedBy: updatedGame.confirmedBy,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      console.warn('Failed to emit socket update:', error instanceof Error ? error.message : 'Unknown error');
+    }
+
+    res.json({
       success: true,
-      data: { game },
-      message: 'Game created successfully',
+      data: { game: updatedGame },
+      message: 'Score confirmed',
       timestamp: new Date().toISOString()
     });
 
   } catch (error) {
-    console.error('Error creating game:', error);
+    console.error('Error confirming score:', error);
     res.status(500).json({
       success: false,
       message: 'Internal server error',
@@ -1647,38 +2959,12 @@ router.post('/:shareCode/games', async (req, res) => {
   }
 });
 
-// Update game score (finish game)
-router.put('/:shareCode/games/:gameId/score', async (req, res) => {
+// Dispute a pending score so the organizer can settle it
+router.post('/:shareCode/games/:gameId/dispute', async (req, res) => {
   try {
     const { shareCode, gameId } = req.params;
-    const { team1FinalScore, team2FinalScore } = req.body;
-
-    // Validate scores
-    if (typeof team1FinalScore !== 'number' || typeof team2FinalScore !== 'number') {
-      return res.status(400).json({
-        success: false,
-        message: 'Valid scores are required (0-2)',
-        timestamp: new Date().toISOString()
-      });
-    }
-
-    if (team1FinalScore < 0 || team1FinalScore > 2 || team2FinalScore < 0 || team2FinalScore > 2) {
-      return res.status(400).json({
-        success: false,
-        message: 'Scores must be between 0 and 2',
-        timestamp: new Date().toISOString()
-      });
-    }
-
-    if (team1FinalScore === team2FinalScore) {
-      return res.status(400).json({
-        success: false,
-        message: 'Game cannot end in a tie',
-        timestamp: new Date().toISOString()
-      });
-    }
+    const { deviceId, reason } = req.body;
 
-    // Find session and game
     const session = await prisma.mvpSession.findFirst({
       where: { shareCode }
     });
@@ -1703,67 +2989,50 @@ router.put('/:shareCode/games/:gameId/score', async (req, res) => {
       });
     }
 
-    // Determine winner
-    const winnerTeam = team1FinalScore > team2FinalScore ? 1 : 2;
+    if (game.status !== 'COMPLETED' || game.confirmationStatus !== 'PENDING') {
+      return res.status(400).json({
+        success: false,
+        message: 'Only scores waiting for confirmation can be disputed',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const reviewer = await resolveReviewer(session, deviceId);
+    const rightsError = reviewer
+      ? checkDisputeRights(game, reviewer)
+      : 'Only players in this game or the organizer can dispute the score';
+
+    if (rightsError) {
+      return res.status(403).json({
+        success: false,
+        message: rightsError,
+        timestamp: new Date().toISOString()
+      });
+    }
 
-    // Update game
     const updatedGame = await prisma.mvpGame.update({
       where: { id: gameId },
-      data: {
-        team1FinalScore,
-        team2FinalScore,
-        winnerTeam,
-        status: 'COMPLETED',
-        endTime: new Date(),
-        duration: game.startTime ? Math.round((new Date().getTime() - game.startTime.getTime()) / (1000 * 60)) : null
-      }
-    });
-
-    // Update comprehensive player statistics
-    await updatePlayerGameStatistics(session.id, {
-      team1Player1: game.team1Player1,
-      team1Player2: game.team1Player2,
-      team2Player1: game.team2Player1,
-      team2Player2: game.team2Player2,
-      winnerTeam,
-      duration: updatedGame.duration || undefined,
-      team1FinalScore,
-      team2FinalScore
+      data: {
+        confirmationStatus: 'DISPUTED',
+        disputedBy: reviewer!.name || deviceId,
+        disputeReason: typeof reason === 'string' && reason.trim() ? reason.trim().slice(0, 500) : null
+      }
     });
 
-    // Emit Socket.IO update
     try {
       const { io } = await import('../server');
-      const updatedSession = await prisma.mvpSession.findFirst({
-        where: { shareCode },
-        include: {
-          players: {
-            select: {
-              id: true,
-              name: true,
-              status: true,
-              joinedAt: true,
-              gamesPlayed: true,
-              wins: true,
-              losses: true
-            }
-          },
-          games: {
-            orderBy: { gameNumber: 'desc' }
-          }
-        }
+      io.to(`session-${shareCode}-organizer`).emit('score_disputed', {
+        gameId,
+        game: updatedGame,
+        disputedBy: updatedGame.disputedBy,
+        reason: updatedGame.disputeReason,
+        timestamp: new Date().toISOString()
+      });
+      io.to(`session-${shareCode}`).emit('score_confirmation_updated', {
+        gameId,
+        confirmationStatus: updatedGame.confirmationStatus,
+        timestamp: new Date().toISOString()
       });
-
-      if (updatedSession) {
-        io.to(`session-${shareCode}`).emit('mvp-session-updated', {
-          session: updatedSession,
-          timestamp: new Date().toISOString()
-        });
-        const winners = winnerTeam === 1 
-          ? `${game.team1Player1} & ${game.team1Player2}` 
-          : `${game.team2Player1} & ${game.team2Player2}`;
-        console.log(`📡 Socket.IO: Game completed for ${shareCode} - ${winners} beat opponents ${team1FinalScore}-${team2FinalScore}`);
-      }
     } catch (error) {
       console.warn('Failed to emit socket update:', error instanceof Error ? error.message : 'Unknown error');
     }
@@ -1771,12 +3040,12 @@ router.put('/:shareCode/games/:gameId/score', async (req, res) => {
     res.json({
       success: true,
       data: { game: updatedGame },
-      message: 'Game score updated successfully',
+      message: 'Score disputed, the organizer has been notified',
       timestamp: new Date().toISOString()
     });
 
   } catch (error) {
-    console.error('Error updating game score:', error);
+    console.error('Error disputing score:', error);
     res.status(500).json({
       success: false,
       message: 'Internal server error',
@@ -1791,15 +3060,6 @@ router.put('/:shareCode/games/:gameId/teams', async (req, res) => {
     const { shareCode, gameId } = req.params;
     const { team1Player1, team1Player2, team2Player1, team2Player2 } = req.body;
 
-    // Validate required fields
-    if (!team1Player1 || !team1Player2 || !team2Player1 || !team2Player2) {
-      return res.status(400).json({
-        success: false,
-        message: 'All four players are required',
-        timestamp: new Date().toISOString()
-      });
-    }
-
     // Find session and game
     const session = await prisma.mvpSession.findFirst({
       where: { shareCode }
@@ -1829,15 +3089,27 @@ router.put('/:shareCode/games/:gameId/teams', async (req, res) => {
       });
     }
 
+    // Team changes keep the game's format
+    const format = game.format as GameFormat;
+    const teamError = validateTeamColumns(format, { team1Player1, team1Player2, team2Player1, team2Player2 });
+    if (teamError) {
+      return res.status(400).json({
+        success: false,
+        message: teamError,
+        timestamp: new Date().toISOString()
+      });
+    }
+
     // Validate that all players exist in the session
+    const [team1, team2] = gameTeams({ team1Player1, team1Player2, team2Player1, team2Player2 });
     const sessionPlayers = await prisma.mvpPlayer.findMany({
       where: { 
         sessionId: session.id,
-        name: { in: [team1Player1, team1Player2, team2Player1, team2Player2] }
+        name: { in: [...team1, ...team2] }
       }
     });
 
-    if (sessionPlayers.length !== 4) {
+    if (sessionPlayers.length !== team1.length + team2.length) {
       return res.status(400).json({
         success: false,
         message: 'All players must be part of this session',
@@ -1850,9 +3122,9 @@ router.put('/:shareCode/games/:gameId/teams', async (req, res) => {
       where: { id: gameId },
       data: {
         team1Player1,
-        team1Player2,
+        team1Player2: team1Player2 || '',
         team2Player1,
-        team2Player2,
+        team2Player2: team2Player2 || '',
         lastTeamChange: new Date() // Track when teams were last changed
       }
     });
@@ -1922,6 +3194,214 @@ router.put('/:shareCode/games/:gameId/teams', async (req, res) => {
   }
 });
 
+// Get the rally-by-rally log for a game with live service and momentum
+router.get('/:shareCode/games/:gameId/rallies', async (req, res) => {
+  try {
+    const { shareCode, gameId } = req.params;
+
+    const session = await prisma.mvpSession.findFirst({
+      where: { shareCode },
+      include: { configuration: { select: { scoringSystem: true, bestOfGames: true } } }
+    });
+
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        message: 'Session not found',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const game = await prisma.mvpGame.findFirst({
+      where: { id: gameId, sessionId: session.id }
+    });
+
+    if (!game) {
+      return res.status(404).json({
+        success: false,
+        message: 'Game not found',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const setup = RallyScoringService.buildSetup(game, session.configuration);
+    const log = await RallyScoringService.getRallyLog(game, setup);
+
+    res.json({
+      success: true,
+      data: log,
+      message: 'Rally log retrieved successfully',
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Error getting rally log:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+// Record one rally; sets and the game complete automatically under the session scoring system
+router.post('/:shareCode/games/:gameId/rallies', requireScoreEntry, async (req, res) => {
+  try {
+    const { shareCode, gameId } = req.params;
+    const { winnerTeam, firstServerTeam, firstServer, firstReceiver, deviceId } = req.body;
+
+    if (winnerTeam !== 1 && winnerTeam !== 2) {
+      return res.status(400).json({
+        success: false,
+        message: 'Winner team must be 1 or 2',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const session = await prisma.mvpSession.findFirst({
+      where: { shareCode },
+      include: { configuration: { select: { scoringSystem: true, bestOfGames: true, requireScoreConfirmation: true } } }
+    });
+
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        message: 'Session not found',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const game = await prisma.mvpGame.findFirst({
+      where: { id: gameId, sessionId: session.id }
+    });
+
+    if (!game) {
+      return res.status(404).json({
+        success: false,
+        message: 'Game not found',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    if (game.matchId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Games within a match are scored through the match',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    if (game.status !== 'IN_PROGRESS') {
+      return res.status(400).json({
+        success: false,
+        message: 'Only games in progress can be scored',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    // Serving setup is only taken from the request before the first rally
+    const setup = RallyScoringService.buildSetup(game, session.configuration, { firstServerTeam, firstServer, firstReceiver });
+    const setupError = validateRallySetup(setup);
+    if (setupError) {
+      return res.status(400).json({
+        success: false,
+        message: setupError,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const { state: previousState } = await RallyScoringService.getRallyLog(game, setup);
+    const state = applyRally(previousState, setup, winnerTeam);
+
+    // A finished game waits for the other side when the session asks for confirmation
+    let pending: { submittedBy: string | null } | undefined;
+    if (state.isComplete && session.configuration?.requireScoreConfirmation) {
+      const actor = await ScoreHistoryService.resolveActor(session.id, deviceId);
+      pending = { submittedBy: actor.name || actor.deviceId || null };
+    }
+
+    let saved;
+    try {
+      saved = await RallyScoringService.saveRally(game, setup, state, deviceId, pending);
+    } catch (error) {
+      if ((error as { code?: string }).code === 'P2002') {
+        return res.status(409).json({
+          success: false,
+          message: 'Another rally was recorded at the same time, refresh and try again',
+          timestamp: new Date().toISOString()
+        });
+      }
+      throw error;
+    }
+
+    if (pending) {
+      await updateRestCounters(session.id);
+    } else if (state.isComplete) {
+      await updatePlayerGameStatistics(session.id, {
+        format: game.format as GameFormat,
+        team1Player1: game.team1Player1,
+        team1Player2: game.team1Player2,
+        team2Player1: game.team2Player1,
+        team2Player2: game.team2Player2,
+        winnerTeam: state.winnerTeam!,
+        duration: saved.game.duration || undefined,
+        team1FinalScore: state.setsWon.team1,
+        team2FinalScore: state.setsWon.team2
+      });
+
+      try {
+        await rankingService.updateRatingsAfterGame(gameId);
+      } catch (rankingError) {
+        console.error('Error updating rankings after game:', rankingError);
+        // Don't fail the rally if ranking update fails
+      }
+    }
+
+    const momentum = calculateMomentum(state.rallies);
+
+    try {
+      const { io } = await import('../server');
+      io.to(`session-${shareCode}`).emit('rally_recorded', {
+        gameId,
+        rally: saved.rally,
+        sets: state.sets,
+        setsWon: state.setsWon,
+        server: state.server,
+        serviceCourt: state.serviceCourt,
+        isComplete: state.isComplete,
+        winnerTeam: state.winnerTeam,
+        timestamp: new Date().toISOString()
+      });
+      if (pending) {
+        io.to(`session-${shareCode}`).emit('score_pending_confirmation', {
+          gameId,
+          team1FinalScore: state.setsWon.team1,
+          team2FinalScore: state.setsWon.team2,
+          submittedBy: pending.submittedBy,
+          timestamp: new Date().toISOString()
+        });
+      }
+    } catch (error) {
+      console.warn('Failed to emit socket update:', error instanceof Error ? error.message : 'Unknown error');
+    }
+
+    res.status(201).json({
+      success: true,
+      data: { rally: saved.rally, game: saved.game, state, momentum },
+      message: state.isComplete ? 'Rally recorded, game complete' : 'Rally recorded',
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Error recording rally:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
 // Get optimal rotation suggestions for a session
 router.get('/:shareCode/rotation', async (req, res) => {
   try {
@@ -1953,10 +3433,17 @@ router.get('/:shareCode/rotation', async (req, res) => {
             restRequestedAt: true,
             restRequestedBy: true,
             partnershipStats: true,
+            skillLevel: true,
+            rankingPoints: true,
+            ratingDeviation: true,
+            category: true,
             joinedAt: true
           },
           orderBy: { joinedAt: 'asc' }
         },
+        configuration: {
+          select: { genderPreference: true, rotationWeights: true, allowSingles: true }
+        },
         games: {
           where: { status: { in: ['IN_PROGRESS', 'COMPLETED'] } },
           orderBy: { gameNumber: 'asc' }
@@ -1987,12 +3474,17 @@ router.get('/:shareCode/rotation', async (req, res) => {
       gamesPlayed: p.gamesPlayed,
       wins: p.wins,
       losses: p.losses,
-      joinedAt: p.joinedAt
+      joinedAt: p.joinedAt,
+      skillLevel: p.skillLevel,
+      rankingPoints: p.rankingPoints,
+      ratingDeviation: p.ratingDeviation,
+      category: p.category as PlayerCategory | null
     }));
 
     const gameHistory = session.games.map(g => ({
       id: g.id,
       gameNumber: g.gameNumber,
+      format: g.format as GameFormat,
       team1Player1: g.team1Player1,
       team1Player2: g.team1Player2,
       team2Player1: g.team2Player1,
@@ -2036,15 +3528,30 @@ router.get('/:shareCode/rotation', async (req, res) => {
       isAvailable: true
     }));
 
+    // Mixed doubles mode can be requested explicitly or comes from the session's gender preference
+    const requestedMode = req.query.mode as string | undefined;
+    const mode: RotationMode = requestedMode === 'mixed' || requestedMode === 'standard'
+      ? requestedMode
+      : session.configuration?.genderPreference === 'mixed' ? 'mixed' : 'standard';
+
+    // Session-specific fairness weights, falling back to the defaults for anything unset
+    const weights = (session.configuration?.rotationWeights as Partial<FairnessWeights> | null) || undefined;
+
     // Generate rotation suggestions
-    const rotationResult = generateOptimalRotation(players, gameHistory, courts, matchHistory);
-    const explanation = getRotationExplanation(rotationResult.suggestedGames, rotationResult.fairnessMetrics);
+    const rotationResult = generateOptimalRotation(players, gameHistory, courts, matchHistory, undefined, {
+      mode,
+      weights,
+      allowSingles: session.configuration?.allowSingles ?? false
+    });
+    const explanation = getRotationExplanation(rotationResult.suggestedGames, rotationResult.fairnessMetrics, weights);
 
     res.json({
       success: true,
       data: {
         rotation: rotationResult,
         explanation,
+        mode,
+        weights: resolveFairnessWeights(weights),
         sessionStats: {
           totalPlayers: players.length,
           activePlayers: players.filter(p => p.status === 'ACTIVE').length,
@@ -2067,19 +3574,66 @@ router.get('/:shareCode/rotation', async (req, res) => {
   }
 });
 
+// Get a lookahead plan of the next N rounds across all courts
+router.get('/:shareCode/rotation/plan', async (req, res) => {
+  try {
+    const { shareCode } = req.params;
+    const rounds = req.query.rounds !== undefined ? Number(req.query.rounds) : undefined;
+
+    if (rounds !== undefined && (!Number.isInteger(rounds) || rounds < 1 || rounds > MAX_PLAN_ROUNDS)) {
+      return res.status(400).json({
+        success: false,
+        message: `Rounds must be an integer between 1 and ${MAX_PLAN_ROUNDS}`,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const requestedMode = req.query.mode as string | undefined;
+    const mode: RotationMode | undefined = requestedMode === 'mixed' || requestedMode === 'standard'
+      ? requestedMode
+      : undefined;
+
+    const result = await RotationPlanService.getRotationPlan(shareCode, { rounds, mode });
+
+    if (!result) {
+      return res.status(404).json({
+        success: false,
+        message: 'Session not found',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    res.json({
+      success: true,
+      data: result,
+      message: 'Rotation plan calculated successfully',
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Error calculating rotation plan:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
 // Match Management Routes
 
 // Create a new match (best of 3 or 5 games)
 router.post('/:shareCode/matches', async (req, res) => {
   try {
     const { shareCode } = req.params;
-    const { team1Player1, team1Player2, team2Player1, team2Player2, courtName, bestOf = 3 } = req.body;
+    const { team1Player1, team1Player2, team2Player1, team2Player2, courtName, bestOf = 3, format = 'DOUBLES' } = req.body;
 
-    // Validate required fields
-    if (!team1Player1 || !team1Player2 || !team2Player1 || !team2Player2) {
+    // Validate required fields for the format
+    const teamError = validateTeamColumns(format, { team1Player1, team1Player2, team2Player1, team2Player2 });
+    if (teamError) {
       return res.status(400).json({
         success: false,
-        message: 'All four players are required',
+        message: teamError,
         timestamp: new Date().toISOString()
       });
     }
@@ -2106,10 +3660,11 @@ router.post('/:shareCode/matches', async (req, res) => {
       data: {
         sessionId: session.id,
         matchNumber,
+        format,
         team1Player1,
-        team1Player2,
+        team1Player2: team1Player2 || '',
         team2Player1,
-        team2Player2,
+        team2Player2: team2Player2 || '',
         courtName,
         bestOf: bestOf,
         startTime: new Date(),
@@ -2193,6 +3748,7 @@ router.post('/:shareCode/matches/:matchId/games', async (req, res) => {
         matchId: match.id,
         gameNumber,
         gameInMatch,
+        format: match.format,
         team1Player1: match.team1Player1,
         team1Player2: match.team1Player2,
         team2Player1: match.team2Player1,
@@ -2231,10 +3787,10 @@ router.post('/:shareCode/matches/:matchId/games', async (req, res) => {
 });
 
 // Update game score and check for match completion
-router.put('/:shareCode/matches/:matchId/games/:gameId/score', async (req, res) => {
+router.put('/:shareCode/matches/:matchId/games/:gameId/score', requireOrganizer('record_scores'), async (req, res) => {
   try {
     const { shareCode, matchId, gameId } = req.params;
-    const { team1FinalScore, team2FinalScore } = req.body;
+    const { team1FinalScore, team2FinalScore, deviceId } = req.body;
 
     // Validate scores
     if (typeof team1FinalScore !== 'number' || typeof team2FinalScore !== 'number') {
@@ -2293,6 +3849,10 @@ router.put('/:shareCode/matches/:matchId/games/:gameId/score', async (req, res)
     // Determine winner
     const winnerTeam = team1FinalScore > team2FinalScore ? 1 : 2;
 
+    // Log the edit before overwriting so it can be audited and undone
+    const actor = await ScoreHistoryService.resolveActor(session.id, deviceId);
+    await ScoreHistoryService.recordScore(game, { team1FinalScore, team2FinalScore, winnerTeam, status: 'COMPLETED' }, actor);
+
     // Update game
     const updatedGame = await prisma.mvpGame.update({
       where: { id: gameId },
@@ -2332,28 +3892,45 @@ router.put('/:shareCode/matches/:matchId/games/:gameId/score', async (req, res)
       }
     });
 
-    // Update comprehensive player statistics for the game
-    await updatePlayerGameStatistics(session.id, {
-      team1Player1: match.team1Player1,
-      team1Player2: match.team1Player2,
-      team2Player1: match.team2Player1,
-      team2Player2: match.team2Player2,
-      winnerTeam,
-      duration: updatedGame.duration || undefined,
-      team1FinalScore,
-      team2FinalScore
-    });
-
-    // If match is complete, update match statistics
-    if (isMatchComplete) {
-      await updatePlayerMatchStatistics(session.id, {
+    // Update comprehensive player statistics for the game; corrections rebuild them instead
+    if (game.status === 'COMPLETED') {
+      await recomputeSessionStatistics(session.id);
+    } else {
+      await updatePlayerGameStatistics(session.id, {
+        format: match.format as GameFormat,
         team1Player1: match.team1Player1,
         team1Player2: match.team1Player2,
         team2Player1: match.team2Player1,
         team2Player2: match.team2Player2,
-        winnerTeam: matchWinner!,
-        duration: updatedMatch.duration || undefined
+        winnerTeam,
+        duration: updatedGame.duration || undefined,
+        team1FinalScore,
+        team2FinalScore
       });
+
+      // If match is complete, update match statistics
+      if (isMatchComplete) {
+        await updatePlayerMatchStatistics(session.id, {
+          team1Player1: match.team1Player1,
+          team1Player2: match.team1Player2,
+          team2Player1: match.team2Player1,
+          team2Player2: match.team2Player2,
+          winnerTeam: matchWinner!,
+          duration: updatedMatch.duration || undefined
+        });
+      }
+    }
+
+    // Update doubles ratings from the completed game; corrections replay the whole session
+    try {
+      if (game.status === 'COMPLETED') {
+        await rankingService.replayRatings({ sessionId: session.id });
+      } else {
+        await rankingService.updateRatingsAfterGame(gameId);
+      }
+    } catch (rankingError) {
+      console.error('Error updating rankings after game:', rankingError);
+      // Don't fail the score update if ranking update fails
     }
 
     // Emit Socket.IO update
@@ -2402,10 +3979,9 @@ router.put('/:shareCode/matches/:matchId/games/:gameId/score', async (req, res)
           timestamp: new Date().toISOString()
         });
 
-        const winnerNames = winnerTeam === 1 
-          ? [game.team1Player1, game.team1Player2]
-          : [game.team2Player1, game.team2Player2];
-        const gameWinners = winnerNames.join(' & ');
+        const gameWinners = winnerTeam === 1
+          ? formatTeamName(game.team1Player1, game.team1Player2)
+          : formatTeamName(game.team2Player1, game.team2Player2);
         const matchStatus = isMatchComplete 
           ? `🏆 Match Complete! ${gameWinners} won ${newTeam1GamesWon}-${newTeam2GamesWon}`
           : `Game ${game.gameInMatch} complete: ${gameWinners} won ${team1FinalScore}-${team2FinalScore}`;
@@ -2722,6 +4298,8 @@ router.put('/:shareCode/players/:playerId/status', async (req, res) => {
       console.warn('Failed to emit socket update:', error instanceof Error ? error.message : 'Unknown error');
     }
 
+    await refreshRotationPlan(shareCode);
+
     res.json({
       success: true,
       message: `Player status updated to ${status}`,
@@ -2765,8 +4343,8 @@ router.delete('/:shareCode/players/:playerId', requireOrganizer('remove_players'
       });
     }
 
-    // Check if requester is the organizer
-    if (session.ownerDeviceId !== organizerDeviceId) {
+    // Check if requester is the organizer or a co-organizer
+    if (!(await actsForOrganizer(session, organizerDeviceId, 'remove_players'))) {
       return res.status(403).json({
         success: false,
         message: 'Only the session organizer can remove players'
@@ -2844,6 +4422,8 @@ router.delete('/:shareCode/players/:playerId', requireOrganizer('remove_players'
       console.warn('Failed to emit socket update:', error instanceof Error ? error.message : 'Unknown error');
     }
 
+    await refreshRotationPlan(shareCode);
+
     res.json({
       success: true,
       message: 'Player removed from session',
@@ -3030,8 +4610,8 @@ router.put('/:shareCode/players/:playerId/status', requireOrganizerOrSelf('updat
       });
     }
 
-    // Check authorization - either the player themselves or the session owner
-    const isOwner = session.ownerDeviceId === ownerDeviceId;
+    // Check authorization - either the player themselves or the session owner or co-organizer
+    const isOwner = await actsForOrganizer(session, ownerDeviceId, 'manage_players');
     const isPlayerThemselves = player.deviceId === deviceId;
 
     if (!isOwner && !isPlayerThemselves) {
@@ -3124,7 +4704,7 @@ router.delete('/:shareCode/players/:playerId', async (req, res) => {
     }
 
     // Check if the requester is the owner
-    if (session.ownerDeviceId !== ownerDeviceId) {
+    if (!(await actsForOrganizer(session, ownerDeviceId, 'remove_players'))) {
       return res.status(403).json({
         success: false,
         error: {
@@ -3283,7 +4863,8 @@ router.post('/:shareCode/games', async (req, res) => {
       startTime,
       endTime,
       duration,
-      sets
+      sets,
+      format = 'DOUBLES'
     } = req.body;
 
     const session = await prisma.mvpSession.findUnique({
@@ -3311,10 +4892,11 @@ router.post('/:shareCode/games', async (req, res) => {
         sessionId: session.id,
         courtName: courtName || 'Court 1',
         gameNumber,
+        format,
         team1Player1,
-        team1Player2,
+        team1Player2: team1Player2 || '',
         team2Player1,
-        team2Player2,
+        team2Player2: team2Player2 || '',
         team1FinalScore: team1Score || 0,
         team2FinalScore: team2Score || 0,
         winnerTeam,
@@ -3382,10 +4964,10 @@ router.post('/:shareCode/games', async (req, res) => {
 });
 
 // Update session court settings
-router.put('/:shareCode/courts', requireOrganizer('edit_session'), async (req, res) => {
+router.put('/:shareCode/courts', requireOrganizer('manage_courts'), async (req, res) => {
   try {
     const { shareCode } = req.params;
-    const { courtCount, ownerDeviceId } = req.body;
+    const { courtCount } = req.body;
 
     const session = await prisma.mvpSession.findUnique({
       where: { shareCode }
@@ -3402,18 +4984,6 @@ router.put('/:shareCode/courts', requireOrganizer('edit_session'), async (req, r
       });
     }
 
-    // Check if the requester is the owner
-    if (session.ownerDeviceId !== ownerDeviceId) {
-      return res.status(403).json({
-        success: false,
-        error: {
-          code: 'FORBIDDEN',
-          message: 'Only the session owner can update court settings'
-        },
-        timestamp: new Date().toISOString()
-      });
-    }
-
     // Update court count with transaction to ensure consistency
     const updatedSession = await prisma.mvpSession.update({
       where: { shareCode },
@@ -3539,7 +5109,7 @@ router.put('/:shareCode/courts', requireOrganizer('edit_session'), async (req, r
 router.put('/:shareCode/players/:playerId/rest', requireOrganizerOrSelf('update_player_status'), async (req, res) => {
   try {
     const { shareCode, playerId } = req.params;
-    const { gamesCount = 1, requestedBy, deviceId, ownerDeviceId } = req.body;
+    const { gamesCount = 1, requestedBy, deviceId, ownerDeviceId, restPreference } = req.body;
 
     // Validate games count
     if (gamesCount < 0 || gamesCount > 5) {
@@ -3553,6 +5123,18 @@ router.put('/:shareCode/players/:playerId/rest', requireOrganizerOrSelf('update_
       });
     }
 
+    // Optional preferred rest between games, null clears it
+    if (restPreference !== undefined && restPreference !== null && (!Number.isInteger(restPreference) || restPreference < 1 || restPreference > 3)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_REST_PREFERENCE',
+          message: 'Rest preference must be between 1 and 3'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+
     const session = await prisma.mvpSession.findUnique({
       where: { shareCode },
       include: {
@@ -3584,8 +5166,8 @@ router.put('/:shareCode/players/:playerId/rest', requireOrganizerOrSelf('update_
       });
     }
 
-    // Check authorization - either player themselves or session owner
-    const isOwner = session.ownerDeviceId === ownerDeviceId;
+    // Check authorization - either player themselves or session owner or co-organizer
+    const isOwner = await actsForOrganizer(session, ownerDeviceId, 'manage_players');
     const isPlayerThemselves = player.deviceId === deviceId;
 
     if (!isOwner && !isPlayerThemselves) {
@@ -3625,7 +5207,8 @@ router.put('/:shareCode/players/:playerId/rest', requireOrganizerOrSelf('update_
         status: gamesCount > 0 ? 'RESTING' : 'ACTIVE',
         restGamesRemaining: gamesCount,
         restRequestedAt: gamesCount > 0 ? new Date() : null,
-        restRequestedBy: gamesCount > 0 ? (isOwner ? session.ownerName : 'self') : null
+        restRequestedBy: gamesCount > 0 ? (isOwner ? session.ownerName : 'self') : null,
+        ...(restPreference !== undefined && { restPreference })
       }
     });
 
@@ -3659,6 +5242,8 @@ router.put('/:shareCode/players/:playerId/rest', requireOrganizerOrSelf('update_
       console.warn('Failed to emit socket update:', error instanceof Error ? error.message : 'Unknown error');
     }
 
+    await refreshRotationPlan(shareCode);
+
     const actionMessage = gamesCount > 0 
       ? `Player is now resting for ${gamesCount} game(s)`
       : 'Player is no longer resting';
@@ -3672,7 +5257,8 @@ router.put('/:shareCode/players/:playerId/rest', requireOrganizerOrSelf('update_
           status: updatedPlayer.status,
           restGamesRemaining: updatedPlayer.restGamesRemaining,
           restRequestedAt: updatedPlayer.restRequestedAt,
-          restRequestedBy: updatedPlayer.restRequestedBy
+          restRequestedBy: updatedPlayer.restRequestedBy,
+          restPreference: updatedPlayer.restPreference
         }
       },
       message: actionMessage,
@@ -3830,6 +5416,9 @@ router.delete('/:shareCode/leave-by-device', async (req, res) => {
       console.log(`📡 Socket.IO: Player ${player.name} left session ${shareCode} via web interface`);
     }
 
+    await refreshRotationPlan(shareCode);
+    await SessionWaitlistService.promoteNext(session);
+
     res.json({
       success: true,
       data: {
@@ -22,7 +22,7 @@ router.use(authenticateToken);
 router.post('/sessions/:sessionId/pairings', requireRole(['OWNER', 'ORGANIZER']), validate(validatePairingRequest), async (req: AuthRequest, res) => {
   try {
     const { sessionId } = req.params;
-    const { algorithm = 'fair' } = req.body;
+    const { algorithm = 'fair', mode = 'standard' } = req.body;
     const userId = req.user?.id;
 
     // Verify user has access to this session
@@ -62,7 +62,7 @@ router.post('/sessions/:sessionId/pairings', requireRole(['OWNER', 'ORGANIZER'])
     }
 
     // Generate pairings using the service
-    const pairingResult = await PairingService.generatePairings(sessionId, algorithm);
+    const pairingResult = await PairingService.generatePairings(sessionId, algorithm, mode);
 
     // Store pairings in database (we'll need to create a pairings table)
     // For now, return the result directly
@@ -150,7 +150,7 @@ router.post('/:playerId/status', statusRequestValidation, async (req: Request, r
 });
 
 // Approve or deny status change request
-router.put('/approve/:requestId', requireOrganizer('update_player_status'), approvalValidation, async (req: Request, res: Response) => {
+router.put('/approve/:requestId', requireOrganizer('manage_players'), approvalValidation, async (req: Request, res: Response) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -362,7 +362,7 @@ router.put('/approve/:requestId', requireOrganizer('update_player_status'), appr
 });
 
 // Get pending status requests for organizer
-router.get('/pending/:shareCode', requireOrganizer('update_player_status'), async (req: Request, res: Response) => {
+router.get('/pending/:shareCode', requireOrganizer('manage_players'), async (req: Request, res: Response) => {
   try {
     const { shareCode } = req.params;
 
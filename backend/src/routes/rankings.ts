@@ -106,22 +106,23 @@ router.post('/update/:matchId', async (req, res) => {
 
 /**
  * @route POST /api/rankings/decay
- * @desc Apply weekly decay to inactive players (admin/cron job)
+ * @desc Increase rating deviation for players inactive for whole rating periods (admin/cron job)
  * @access Private
  */
 router.post('/decay', async (req, res) => {
   try {
-    await rankingService.applyWeeklyDecay();
+    const decayedPlayers = await rankingService.applyInactivityDecay();
 
     res.json({
       success: true,
-      message: 'Weekly decay applied successfully'
+      data: { decayedPlayers },
+      message: `Inactivity decay applied to ${decayedPlayers} players`
     });
   } catch (error) {
-    console.error('Error applying weekly decay:', error);
+    console.error('Error applying inactivity decay:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to apply weekly decay'
+      error: 'Failed to apply inactivity decay'
     });
   }
 });
@@ -19,6 +19,7 @@ const validateConfiguration = [
   body('scoringSystem').optional().isIn(['21_POINT', '15_POINT', '11_POINT']),
   body('bestOfGames').optional().isIn([1, 3, 5, 7]),
   body('restPeriod').optional().isInt({ min: 0, max: 10 }),
+  body('requireScoreConfirmation').optional().isBoolean(),
   body('gameTimeLimit').optional().isInt({ min: 5, max: 120 }),
   body('setTimeLimit').optional().isInt({ min: 10, max: 180 }),
   body('minAge').optional().isInt({ min: 5, max: 100 }),
@@ -26,12 +27,27 @@ const validateConfiguration = [
   body('skillLevelMin').optional().isIn(['beginner', 'intermediate', 'advanced']),
   body('skillLevelMax').optional().isIn(['beginner', 'intermediate', 'advanced']),
   body('genderPreference').optional().isIn(['male', 'female', 'mixed']),
+  body('rotationWeights').optional().isObject(),
+  body([
+    'rotationWeights.gamesPlayed',
+    'rotationWeights.partnershipDiversity',
+    'rotationWeights.winLossBalance',
+    'rotationWeights.recentPlay',
+    'rotationWeights.opponentDiversity',
+    'rotationWeights.lateArrival',
+  ]).optional().isFloat({ min: 0, max: 100 }),
+  body('allowSingles').optional().isBoolean(),
   body('setupTime').optional().isInt({ min: 0, max: 120 }),
   body('bufferTime').optional().isInt({ min: 0, max: 120 }),
   body('baseCost').optional().isFloat({ min: 0 }),
   body('costPerPlayer').optional().isFloat({ min: 0 }),
   body('costPerCourt').optional().isFloat({ min: 0 }),
   body('updateFrequency').optional().isIn(['real_time', 'hourly', 'daily']),
+  body('requireApproval').optional().isBoolean(),
+  body('inviteOnly').optional().isBoolean(),
+  body('maxWaitlist').optional().isInt({ min: 0, max: 100 }),
+  body('waitlistOfferMinutes').optional().isInt({ min: 1, max: 1440 }),
+  body('accessCode').optional({ values: 'null' }).isString().isLength({ min: 4, max: 64 }),
   body('substitutions').optional().isIn(['allowed', 'limited', 'not_allowed']),
 ];
 
@@ -58,10 +74,12 @@ router.get(
 
       const { sessionId } = req.params;
       const config = await SessionConfigService.getConfigurationWithDefaults(sessionId);
+      // Anyone can read the configuration, so the access code itself stays private
+      const { accessCode, ...publicConfig } = config;
 
       res.json({
         success: true,
-        data: config,
+        data: { ...publicConfig, accessCodeRequired: Boolean(accessCode) },
       });
     } catch (error) {
       console.error('Error fetching session configuration:', error);
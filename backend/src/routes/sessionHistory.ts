@@ -667,10 +667,10 @@ router.get('/players/:deviceId/stats', optionalAuth, async (req: AuthRequest, re
         // Check which team the player was on and identify partners
         if (game.team1Player1 === playerName || game.team1Player2 === playerName) {
           const partner = game.team1Player1 === playerName ? game.team1Player2 : game.team1Player1;
-          partnerStats.set(partner, (partnerStats.get(partner) || 0) + 1);
+          if (partner) partnerStats.set(partner, (partnerStats.get(partner) || 0) + 1); // No partner in singles
         } else if (game.team2Player1 === playerName || game.team2Player2 === playerName) {
           const partner = game.team2Player1 === playerName ? game.team2Player2 : game.team2Player1;
-          partnerStats.set(partner, (partnerStats.get(partner) || 0) + 1);
+          if (partner) partnerStats.set(partner, (partnerStats.get(partner) || 0) + 1);
         }
       });
     });
@@ -0,0 +1,292 @@
+import { Router, Request, Response } from 'express';
+import { body, param, validationResult } from 'express-validator';
+import { OccurrenceChanges, SessionSeriesService } from '../services/sessionSeriesService';
+import { isValidTimeZone, parseRecurrenceRule } from '../utils/recurrence';
+
+const router = Router();
+
+const PLAYER_CATEGORIES = ['male', 'female'];
+// Details shared by a series and its occurrences
+const OCCURRENCE_FIELDS = ['name', 'location', 'maxPlayers', 'skillLevel', 'cost', 'description', 'courtCount'] as const;
+
+const validRecurrenceRule = (rule: string) => {
+  parseRecurrenceRule(rule);
+  return true;
+};
+
+// Every detail but the name, which a new series must have
+const templateFieldValidation = [
+  body('location').optional({ values: 'null' }).isLength({ max: 255 }),
+  body('maxPlayers').optional().isInt({ min: 2, max: 20 }).withMessage('Max players must be between 2 and 20'),
+  body('skillLevel').optional({ values: 'null' }).isLength({ max: 50 }),
+  body('cost').optional({ values: 'null' }).isFloat({ min: 0 }),
+  body('description').optional({ values: 'null' }).isLength({ max: 1000 }),
+  body('courtCount').optional().isInt({ min: 1, max: 20 })
+];
+
+const occurrenceFieldValidation = [
+  body('name').optional().isLength({ min: 1, max: 200 }),
+  ...templateFieldValidation
+];
+
+const createSeriesValidation = [
+  body('name').isLength({ min: 1, max: 200 }).withMessage('Series name is required'),
+  body('startsAt').isISO8601().withMessage('Valid start date/time required'),
+  body('recurrenceRule').isString().custom(validRecurrenceRule),
+  body('timeZone').optional().isString().custom(isValidTimeZone).withMessage('Unknown time zone'),
+  body('horizonDays').optional().isInt({ min: 1, max: 90 }),
+  body('organizerName').isLength({ min: 2, max: 30 }).withMessage('Organizer name is required'),
+  body('ownerDeviceId').isLength({ min: 3, max: 255 }).withMessage('Device identifier must be 3-255 characters'),
+  ...templateFieldValidation
+];
+
+const updateOccurrenceValidation = [
+  param('shareCode').isLength({ min: 1 }).withMessage('Share code is required'),
+  body('scope').isIn(['THIS', 'FUTURE']).withMessage('Scope must be THIS or FUTURE'),
+  body('scheduledAt').optional().isISO8601(),
+  ...occurrenceFieldValidation
+];
+
+const regularValidation = [
+  body('name').isLength({ min: 1, max: 100 }).withMessage('Player name is required'),
+  body('deviceId').optional().isLength({ max: 255 }),
+  body('category').optional({ values: 'null' }).isIn(PLAYER_CATEGORIES).withMessage('Category must be male or female')
+];
+
+const sendValidationError = (req: Request, res: Response): boolean => {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) {
+    return false;
+  }
+
+  res.status(400).json({
+    success: false,
+    error: {
+      code: 'VALIDATION_ERROR',
+      message: 'Invalid input data',
+      details: errors.array()
+    },
+    timestamp: new Date().toISOString()
+  });
+  return true;
+};
+
+const sendSeriesError = (res: Response, error: unknown, fallback: string) => {
+  const message = error instanceof Error ? error.message : fallback;
+  const status = message.endsWith('not found') ? 404
+    : message.startsWith('Only the') ? 403
+      : message.includes('already exists') ? 409
+        : message === 'Session is not part of a series' || message.startsWith('Reschedule') ? 400
+          : 500;
+
+  if (status === 500) {
+    console.error(`${fallback}:`, error);
+  }
+  res.status(status).json({
+    success: false,
+    error: {
+      code: status === 404 ? 'NOT_FOUND' : status === 403 ? 'FORBIDDEN' : status === 409 ? 'CONFLICT'
+        : status === 400 ? 'INVALID_REQUEST' : 'INTERNAL_ERROR',
+      message: status === 500 ? fallback : message
+    },
+    timestamp: new Date().toISOString()
+  });
+};
+
+const pickOccurrenceChanges = (source: Record<string, unknown>): OccurrenceChanges =>
+  Object.fromEntries(OCCURRENCE_FIELDS.filter(field => source[field] !== undefined).map(field => [field, source[field]]));
+
+/**
+ * POST /session-series
+ * Create a recurring session series; occurrences within the horizon are created straight away
+ */
+router.post('/', createSeriesValidation, async (req: Request, res: Response) => {
+  try {
+    if (sendValidationError(req, res)) {
+      return;
+    }
+
+    const { startsAt, recurrenceRule, timeZone, horizonDays, organizerName, ownerDeviceId } = req.body;
+    const { series, occurrences } = await SessionSeriesService.createSeries({
+      ...pickOccurrenceChanges(req.body),
+      name: req.body.name,
+      startsAt: new Date(startsAt),
+      recurrenceRule,
+      timeZone,
+      horizonDays: horizonDays ? Number(horizonDays) : undefined,
+      ownerName: organizerName,
+      ownerDeviceId
+    });
+
+    res.status(201).json({
+      success: true,
+      data: {
+        series,
+        occurrences: occurrences.map(occurrence => ({
+          id: occurrence.id,
+          shareCode: occurrence.shareCode,
+          scheduledAt: occurrence.scheduledAt,
+          recoveryCodes: occurrence.recoveryCodes
+        }))
+      },
+      message: 'Session series created successfully',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    sendSeriesError(res, error, 'Failed to create session series');
+  }
+});
+
+/**
+ * GET /session-series/:seriesId
+ * A series with its regulars and upcoming occurrences
+ */
+router.get('/:seriesId', async (req: Request, res: Response) => {
+  try {
+    // The organizer's device identifies them, so it isn't shown to everyone who opens the series
+    const { ownerDeviceId, ...series } = await SessionSeriesService.getSeries(req.params.seriesId);
+
+    res.json({
+      success: true,
+      data: {
+        series: {
+          ...series,
+          regulars: series.regulars.map(regular => ({ id: regular.id, name: regular.name, category: regular.category })),
+          occurrences: series.occurrences.map(occurrence => ({
+            id: occurrence.id,
+            shareCode: occurrence.shareCode,
+            name: occurrence.name,
+            scheduledAt: occurrence.scheduledAt,
+            location: occurrence.location,
+            maxPlayers: occurrence.maxPlayers,
+            seriesOverride: occurrence.seriesOverride,
+            playerCount: occurrence._count.players
+          }))
+        }
+      },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    sendSeriesError(res, error, 'Failed to fetch session series');
+  }
+});
+
+/**
+ * PUT /session-series/occurrences/:shareCode
+ * Edit one occurrence (scope THIS) or it and all later ones (scope FUTURE); series organizer only
+ */
+router.put('/occurrences/:shareCode', updateOccurrenceValidation, async (req: Request, res: Response) => {
+  try {
+    if (sendValidationError(req, res)) {
+      return;
+    }
+
+    const { deviceId, scope, scheduledAt } = req.body;
+    const occurrences = await SessionSeriesService.updateOccurrence(
+      req.params.shareCode,
+      deviceId,
+      scope,
+      pickOccurrenceChanges(req.body),
+      scheduledAt ? new Date(scheduledAt) : undefined
+    );
+
+    res.json({
+      success: true,
+      data: {
+        occurrences: occurrences.map(occurrence => ({
+          id: occurrence.id,
+          shareCode: occurrence.shareCode,
+          name: occurrence.name,
+          scheduledAt: occurrence.scheduledAt,
+          location: occurrence.location,
+          maxPlayers: occurrence.maxPlayers,
+          seriesOverride: occurrence.seriesOverride
+        }))
+      },
+      message: scope === 'THIS' ? 'Occurrence updated' : `${occurrences.length} occurrences updated`,
+      timestamp: new Date().toISOString()
+    });
+
+    try {
+      // Import io from server dynamically to avoid circular dependency
+      const { io } = await import('../server');
+      for (const occurrence of occurrences) {
+        io.to(`session-${occurrence.shareCode}`).emit('mvp-session-updated', {
+          type: 'session-details-updated',
+          session: occurrence,
+          timestamp: new Date().toISOString()
+        });
+      }
+    } catch (socketError) {
+      console.error('Failed to emit occurrence updates:', socketError);
+    }
+  } catch (error) {
+    sendSeriesError(res, error, 'Failed to update occurrence');
+  }
+});
+
+/**
+ * POST /session-series/:seriesId/end
+ * Stop creating new occurrences; series organizer only
+ */
+router.post('/:seriesId/end', async (req: Request, res: Response) => {
+  try {
+    const series = await SessionSeriesService.endSeries(req.params.seriesId, req.body.deviceId);
+
+    res.json({
+      success: true,
+      data: { series },
+      message: 'Session series ended',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    sendSeriesError(res, error, 'Failed to end session series');
+  }
+});
+
+/**
+ * POST /session-series/:seriesId/regulars
+ * Become a regular and join every new occurrence automatically
+ */
+router.post('/:seriesId/regulars', regularValidation, async (req: Request, res: Response) => {
+  try {
+    if (sendValidationError(req, res)) {
+      return;
+    }
+
+    const { name, deviceId, category } = req.body;
+    const { regular, joined } = await SessionSeriesService.addRegular(req.params.seriesId, { name, deviceId, category });
+
+    res.status(201).json({
+      success: true,
+      data: {
+        regular: { id: regular.id, name: regular.name, category: regular.category },
+        joinedShareCodes: joined
+      },
+      message: 'You will be added to every new session in this series',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    sendSeriesError(res, error, 'Failed to add regular');
+  }
+});
+
+/**
+ * DELETE /session-series/:seriesId/regulars/:regularId
+ * Stop being a regular; the regular themselves or the series organizer
+ */
+router.delete('/:seriesId/regulars/:regularId', async (req: Request, res: Response) => {
+  try {
+    await SessionSeriesService.removeRegular(req.params.seriesId, req.params.regularId, req.body.deviceId);
+
+    res.json({
+      success: true,
+      message: 'Regular removed from the series',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    sendSeriesError(res, error, 'Failed to remove regular');
+  }
+});
+
+export default router;
@@ -1,9 +1,46 @@
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
 import { body, param, query, validationResult } from 'express-validator';
 import tournamentService from '../services/tournamentService';
+import { tournamentBracketService } from '../services/tournamentBracketService';
+import { tournamentExportService } from '../services/tournamentExportService';
+import { tournamentPaymentService } from '../services/tournamentPaymentService';
+import { tournamentScheduleService } from '../services/tournamentScheduleService';
+import { isServiceError } from '../utils/serviceError';
 
 const router = Router();
 
+/**
+ * Only let the organizer's device through, or a scorekeeper's where they may run matches, or the device of the
+ * player the route is about where they may act for themselves
+ * The device comes in the body, or the query for GETs.
+ */
+const requireTournamentOrganizer = (options: { allowScorekeepers?: boolean; allowPlayer?: boolean } = {}) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    const deviceId = req.body?.deviceId ?? req.query.deviceId;
+    const tournamentId = req.params.id ?? req.params.tournamentId;
+
+    try {
+      await tournamentService.assertOrganizer(tournamentId, typeof deviceId === 'string' ? deviceId : undefined, {
+        allowScorekeepers: options.allowScorekeepers,
+        playerId: options.allowPlayer ? req.params.playerId : undefined,
+      });
+      next();
+    } catch (error: any) {
+      if (isServiceError(error)) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      console.error('Error checking tournament organizer:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to check tournament organizer',
+      });
+    }
+  };
+
 /**
  * @route POST /api/tournaments
  * @desc Create a new tournament
@@ -20,11 +57,24 @@ router.post(
     body('startDate').isISO8601(),
     body('endDate').optional().isISO8601(),
     body('registrationDeadline').isISO8601(),
+    body('checkInMinutes').optional().isInt({ min: 5, max: 1440 }),
     body('matchFormat').isIn(['SINGLES', 'DOUBLES', 'MIXED']),
     body('scoringSystem').isIn(['21_POINT', '15_POINT', '11_POINT']),
     body('bestOfGames').isInt({ min: 1, max: 5 }),
+    body('swissRounds').optional().isInt({ min: 1, max: 15 }),
+    body('groupCount').optional().isInt({ min: 2, max: 16 }),
+    body('groupAdvancers').optional().isInt({ min: 1, max: 8 }),
+    body('venueId').optional().isString(),
+    body('courtCount').optional().isInt({ min: 1, max: 64 }),
+    body('matchDuration').optional().isInt({ min: 5, max: 240 }),
+    body('minRestMinutes').optional().isInt({ min: 0, max: 240 }),
+    body('separateClubs').optional().isBoolean(),
     body('entryFee').isFloat({ min: 0 }),
     body('prizePool').isFloat({ min: 0 }),
+    body('payoutPercentages').optional().isArray({ min: 1, max: 16 })
+      .custom((percentages: number[]) => percentages.reduce((sum, percentage) => sum + Number(percentage), 0) <= 100)
+      .withMessage('Payout percentages cannot add up to more than 100'),
+    body('payoutPercentages.*').isFloat({ min: 0, max: 100 }),
     body('currency').isString().isLength({ min: 3, max: 3 }),
     body('organizerName').isString().isLength({ min: 1, max: 100 }),
     body('organizerEmail').optional().isEmail(),
@@ -33,6 +83,7 @@ router.post(
     body('accessCode').optional().isString(),
     body('skillLevelMin').optional().isString(),
     body('skillLevelMax').optional().isString(),
+    body('deviceId').optional().isString(),
   ],
   async (req: Request, res: Response) => {
     try {
@@ -45,7 +96,8 @@ router.post(
         });
       }
 
-      const tournament = await tournamentService.createTournament(req.body);
+      const { deviceId, ...details } = req.body;
+      const tournament = await tournamentService.createTournament({ ...details, organizerDeviceId: deviceId });
 
       res.status(201).json({
         success: true,
@@ -165,7 +217,7 @@ router.get(
 /**
  * @route PUT /api/tournaments/:id
  * @desc Update tournament
- * @access Public (should be restricted to organizers)
+ * @access Organizer
  */
 router.put(
   '/:id',
@@ -176,16 +228,27 @@ router.put(
     body('startDate').optional().isISO8601(),
     body('endDate').optional().isISO8601(),
     body('registrationDeadline').optional().isISO8601(),
+    body('checkInMinutes').optional({ values: 'null' }).isInt({ min: 5, max: 1440 }),
     body('venueName').optional().isString(),
     body('venueAddress').optional().isString(),
     body('latitude').optional().isFloat({ min: -90, max: 90 }),
     body('longitude').optional().isFloat({ min: -180, max: 180 }),
+    body('venueId').optional().isString(),
+    body('courtCount').optional().isInt({ min: 1, max: 64 }),
+    body('matchDuration').optional().isInt({ min: 5, max: 240 }),
+    body('minRestMinutes').optional().isInt({ min: 0, max: 240 }),
+    body('separateClubs').optional().isBoolean(),
     body('entryFee').optional().isFloat({ min: 0 }),
     body('prizePool').optional().isFloat({ min: 0 }),
+    body('payoutPercentages').optional().isArray({ min: 1, max: 16 })
+      .custom((percentages: number[]) => percentages.reduce((sum, percentage) => sum + Number(percentage), 0) <= 100)
+      .withMessage('Payout percentages cannot add up to more than 100'),
+    body('payoutPercentages.*').isFloat({ min: 0, max: 100 }),
     body('visibility').optional().isIn(['PUBLIC', 'PRIVATE', 'INVITATION_ONLY']),
     body('accessCode').optional().isString(),
     body('status').optional().isIn(['DRAFT', 'REGISTRATION_OPEN', 'REGISTRATION_CLOSED', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED']),
   ],
+  requireTournamentOrganizer(),
   async (req: Request, res: Response) => {
     try {
       const errors = validationResult(req);
@@ -225,11 +288,12 @@ router.put(
 /**
  * @route DELETE /api/tournaments/:id
  * @desc Delete tournament
- * @access Public (should be restricted to organizers)
+ * @access Organizer
  */
 router.delete(
   '/:id',
   [param('id').isString().isLength({ min: 1 })],
+  requireTournamentOrganizer(),
   async (req: Request, res: Response) => {
     try {
       const errors = validationResult(req);
@@ -267,7 +331,7 @@ router.delete(
 
 /**
  * @route POST /api/tournaments/:id/register
- * @desc Register player for tournament
+ * @desc Register player for tournament; doubles players invite a partner (partnerName) or accept an invitation (inviteCode)
  * @access Public
  */
 router.post(
@@ -279,6 +343,10 @@ router.post(
     body('phone').optional().isString(),
     body('deviceId').optional().isString(),
     body('skillLevel').optional().isString(),
+    body('category').optional().isIn(['male', 'female']),
+    body('club').optional().isString().isLength({ min: 1, max: 100 }),
+    body('partnerName').optional().isString().isLength({ min: 1, max: 100 }),
+    body('inviteCode').optional().isString().isLength({ min: 1, max: 20 }),
   ],
   async (req: Request, res: Response) => {
     try {
@@ -301,12 +369,16 @@ router.post(
       res.status(201).json({
         success: true,
         data: player,
-        message: 'Player registered successfully',
+        message: player.status === 'WAITLISTED'
+          ? 'Tournament is full; player added to the waitlist'
+          : player.status === 'PENDING_PAYMENT'
+            ? 'Place held; complete the entry payment to confirm it'
+            : 'Player registered successfully',
       });
     } catch (error: any) {
       console.error('Error registering player:', error);
 
-      if (error.message.includes('not found') || error.message.includes('not accepting') || error.message.includes('full') || error.message.includes('already registered')) {
+      if (error.message.includes('not found') || error.message.includes('not accepting') || error.message.includes('full') || error.message.includes('already registered') || error.message.includes('partner') || error.message.includes('doubles')) {
         return res.status(400).json({
           success: false,
           error: error.message,
@@ -324,7 +396,7 @@ router.post(
 /**
  * @route DELETE /api/tournaments/:tournamentId/players/:playerId
  * @desc Unregister player from tournament
- * @access Public (should be restricted)
+ * @access Player or organizer
  */
 router.delete(
   '/:tournamentId/players/:playerId',
@@ -332,6 +404,7 @@ router.delete(
     param('tournamentId').isString().isLength({ min: 1 }),
     param('playerId').isString().isLength({ min: 1 }),
   ],
+  requireTournamentOrganizer({ allowPlayer: true }),
   async (req: Request, res: Response) => {
     try {
       const errors = validationResult(req);
@@ -368,13 +441,259 @@ router.delete(
 );
 
 /**
- * @route POST /api/tournaments/:id/start
- * @desc Start tournament and generate bracket
- * @access Public (should be restricted to organizers)
+ * @route POST /api/tournaments/:tournamentId/players/:playerId/withdraw
+ * @desc Withdraw a player; once the tournament has started their remaining matches are walkovers
+ * @access Player or organizer
  */
 router.post(
-  '/:id/start',
+  '/:tournamentId/players/:playerId/withdraw',
+  [
+    param('tournamentId').isString().isLength({ min: 1 }),
+    param('playerId').isString().isLength({ min: 1 }),
+  ],
+  requireTournamentOrganizer({ allowPlayer: true }),
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array(),
+        });
+      }
+
+      await tournamentService.withdrawPlayer(req.params.tournamentId, req.params.playerId);
+
+      res.json({
+        success: true,
+        message: 'Player withdrawn successfully',
+      });
+    } catch (error: any) {
+      console.error('Error withdrawing player:', error);
+
+      if (error.message.includes('not found') || error.message.includes('cannot unregister') || error.message.includes('no longer in the draw')) {
+        return res.status(400).json({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to withdraw player',
+      });
+    }
+  }
+);
+
+/**
+ * @route PUT /api/tournaments/:tournamentId/players/:playerId/scorekeeper
+ * @desc Make a player a scorekeeper, who can start matches and report results, or stop them being one
+ * @access Organizer
+ */
+router.put(
+  '/:tournamentId/players/:playerId/scorekeeper',
+  [
+    param('tournamentId').isString().isLength({ min: 1 }),
+    param('playerId').isString().isLength({ min: 1 }),
+    body('isScorekeeper').isBoolean(),
+  ],
+  requireTournamentOrganizer(),
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array(),
+        });
+      }
+
+      const player = await tournamentService.setScorekeeper(req.params.tournamentId, req.params.playerId, req.body.isScorekeeper);
+
+      res.json({
+        success: true,
+        data: player,
+        message: player.isScorekeeper ? `${player.playerName} is now a scorekeeper` : `${player.playerName} is no longer a scorekeeper`,
+      });
+    } catch (error: any) {
+      console.error('Error updating scorekeeper:', error);
+
+      if (isServiceError(error)) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to update scorekeeper',
+      });
+    }
+  }
+);
+
+/**
+ * @route POST /api/tournaments/:tournamentId/players/:playerId/payment
+ * @desc Start paying a player's entry fee; returns the client secret to complete the payment with
+ * @access Public
+ */
+router.post(
+  '/:tournamentId/players/:playerId/payment',
+  [
+    param('tournamentId').isString().isLength({ min: 1 }),
+    param('playerId').isString().isLength({ min: 1 }),
+  ],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array(),
+        });
+      }
+
+      const payment = await tournamentPaymentService.createEntryPayment(req.params.tournamentId, req.params.playerId);
+
+      res.json({
+        success: true,
+        data: payment,
+      });
+    } catch (error: any) {
+      console.error('Error starting entry payment:', error);
+
+      if (error.message.includes('not found') || error.message.includes('not waiting for payment')) {
+        return res.status(400).json({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to start entry payment',
+      });
+    }
+  }
+);
+
+/**
+ * @route POST /api/tournaments/:tournamentId/players/:playerId/payment/confirm
+ * @desc Confirm a player's entry once their entry payment has gone through
+ * @access Player or organizer
+ */
+router.post(
+  '/:tournamentId/players/:playerId/payment/confirm',
+  [
+    param('tournamentId').isString().isLength({ min: 1 }),
+    param('playerId').isString().isLength({ min: 1 }),
+  ],
+  requireTournamentOrganizer({ allowPlayer: true }),
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array(),
+        });
+      }
+
+      const player = await tournamentPaymentService.confirmEntryPayment(req.params.tournamentId, req.params.playerId);
+
+      res.json({
+        success: true,
+        data: player,
+        message: 'Entry payment received; place confirmed',
+      });
+    } catch (error: any) {
+      console.error('Error confirming entry payment:', error);
+
+      if (error.message.includes('not found') || error.message.includes('payment')) {
+        return res.status(400).json({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to confirm entry payment',
+      });
+    }
+  }
+);
+
+/**
+ * @route POST /api/tournaments/:tournamentId/players/:playerId/check-in
+ * @desc Check a player in during the check-in window; players not checked in by the start are removed as no-shows
+ * @access Player or organizer
+ */
+router.post(
+  '/:tournamentId/players/:playerId/check-in',
+  [
+    param('tournamentId').isString().isLength({ min: 1 }),
+    param('playerId').isString().isLength({ min: 1 }),
+  ],
+  requireTournamentOrganizer({ allowPlayer: true }),
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array(),
+        });
+      }
+
+      const player = await tournamentService.checkInPlayer(req.params.tournamentId, req.params.playerId);
+
+      res.json({
+        success: true,
+        data: player,
+        message: 'Player checked in successfully',
+      });
+    } catch (error: any) {
+      console.error('Error checking in player:', error);
+
+      if (error.message === 'Tournament not found') {
+        return res.status(404).json({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      if (error.message.includes('not found') || error.message.includes('check-in') || error.message.includes('check in') || error.message.includes('Check-in')) {
+        return res.status(400).json({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to check in player',
+      });
+    }
+  }
+);
+
+/**
+ * @route POST /api/tournaments/:id/check-in/reminders
+ * @desc Remind registered players who haven't checked in yet
+ * @access Organizer
+ */
+router.post(
+  '/:id/check-in/reminders',
   [param('id').isString().isLength({ min: 1 })],
+  requireTournamentOrganizer(),
   async (req: Request, res: Response) => {
     try {
       const errors = validationResult(req);
@@ -386,16 +705,24 @@ router.post(
         });
       }
 
-      await tournamentService.startTournament(req.params.id);
+      const reminded = await tournamentService.sendCheckInReminders(req.params.id);
 
       res.json({
         success: true,
-        message: 'Tournament started successfully',
+        data: { reminded },
+        message: `Check-in reminders sent to ${reminded} players`,
       });
     } catch (error: any) {
-      console.error('Error starting tournament:', error);
+      console.error('Error sending check-in reminders:', error);
+
+      if (error.message === 'Tournament not found') {
+        return res.status(404).json({
+          success: false,
+          error: error.message,
+        });
+      }
 
-      if (error.message.includes('not found') || error.message.includes('must be') || error.message.includes('needs at least')) {
+      if (error.message.includes('check-in') || error.message.includes('Check-in')) {
         return res.status(400).json({
           success: false,
           error: error.message,
@@ -404,19 +731,19 @@ router.post(
 
       res.status(500).json({
         success: false,
-        error: error.message || 'Failed to start tournament',
+        error: error.message || 'Failed to send check-in reminders',
       });
     }
   }
 );
 
 /**
- * @route GET /api/tournaments/:id/stats
- * @desc Get tournament statistics
+ * @route GET /api/tournaments/:id/seeding
+ * @desc Get the seeding from ranking points and organizer seeds, with the log of manual seed changes
  * @access Public
  */
 router.get(
-  '/:id/stats',
+  '/:id/seeding',
   [param('id').isString().isLength({ min: 1 })],
   async (req: Request, res: Response) => {
     try {
@@ -429,25 +756,704 @@ router.get(
         });
       }
 
-      const stats = await tournamentService.getTournamentStats(req.params.id);
+      const seeding = await tournamentService.getSeeding(req.params.id);
 
       res.json({
         success: true,
-        data: stats,
+        data: seeding,
       });
     } catch (error: any) {
-      console.error('Error fetching tournament stats:', error);
+      console.error('Error fetching seeding:', error);
 
       if (error.message === 'Tournament not found') {
         return res.status(404).json({
           success: false,
-          error: 'Tournament not found',
+          error: error.message,
         });
       }
 
       res.status(500).json({
         success: false,
-        error: error.message || 'Failed to fetch tournament statistics',
+        error: error.message || 'Failed to fetch seeding',
+      });
+    }
+  }
+);
+
+/**
+ * @route PUT /api/tournaments/:id/seeding
+ * @desc Set or clear entries' seeds by hand before the draw; every change is logged
+ * @access Organizer
+ */
+router.put(
+  '/:id/seeding',
+  [
+    param('id').isString().isLength({ min: 1 }),
+    body('seeds').isArray({ min: 1 }),
+    body('seeds.*.entryId').isString().isLength({ min: 1 }),
+    body('seeds.*.seed').custom(seed => seed === null || (Number.isInteger(seed) && seed >= 1)),
+    body('changedBy').isString().isLength({ min: 1, max: 100 }),
+    body('reason').optional().isString().isLength({ max: 500 }),
+  ],
+  requireTournamentOrganizer(),
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array(),
+        });
+      }
+
+      const seeding = await tournamentService.overrideSeeds(req.params.id, req.body.seeds, req.body.changedBy, req.body.reason);
+
+      res.json({
+        success: true,
+        data: seeding,
+        message: 'Seeds updated',
+      });
+    } catch (error: any) {
+      console.error('Error updating seeds:', error);
+
+      if (error.message === 'Tournament not found') {
+        return res.status(404).json({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      if (error.message.includes('only be changed') || error.message.includes('not found in this tournament') || error.message.includes('Seed ')) {
+        return res.status(400).json({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to update seeds',
+      });
+    }
+  }
+);
+
+/**
+ * @route POST /api/tournaments/:id/start
+ * @desc Start tournament and generate bracket
+ * @access Organizer
+ */
+router.post(
+  '/:id/start',
+  [param('id').isString().isLength({ min: 1 })],
+  requireTournamentOrganizer(),
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array(),
+        });
+      }
+
+      await tournamentService.startTournament(req.params.id);
+
+      res.json({
+        success: true,
+        message: 'Tournament started successfully',
+      });
+    } catch (error: any) {
+      console.error('Error starting tournament:', error);
+
+      if (isServiceError(error)) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      if (error.message.includes('not found') || error.message.includes('must be') || error.message.includes('needs at least') || error.message.includes('not supported')) {
+        return res.status(400).json({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to start tournament',
+      });
+    }
+  }
+);
+
+/**
+ * @route POST /api/tournaments/:id/matches/:matchId/result
+ * @desc Report a match's game scores; the winner advances and the final completes the tournament
+ * @access Organizer or scorekeeper
+ */
+router.post(
+  '/:id/matches/:matchId/result',
+  [
+    param('id').isString().isLength({ min: 1 }),
+    param('matchId').isString().isLength({ min: 1 }),
+    body('games').isArray({ min: 1, max: 5 }),
+    body('games.*.player1Score').isInt({ min: 0 }),
+    body('games.*.player2Score').isInt({ min: 0 }),
+  ],
+  requireTournamentOrganizer({ allowScorekeepers: true }),
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array(),
+        });
+      }
+
+      const match = await tournamentBracketService.updateMatchResult(req.params.id, req.params.matchId, req.body.games);
+
+      res.json({
+        success: true,
+        data: match,
+        message: 'Match result recorded',
+      });
+    } catch (error: any) {
+      console.error('Error reporting match result:', error);
+
+      if (isServiceError(error)) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to report match result',
+      });
+    }
+  }
+);
+
+/**
+ * @route POST /api/tournaments/:id/rounds/next
+ * @desc Start the next round once the current one is finished
+ * @access Organizer
+ */
+router.post(
+  '/:id/rounds/next',
+  [param('id').isString().isLength({ min: 1 })],
+  requireTournamentOrganizer(),
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array(),
+        });
+      }
+
+      const round = await tournamentService.startNextRound(req.params.id);
+
+      res.json({
+        success: true,
+        data: round,
+        message: `${round.roundName} started`,
+      });
+    } catch (error: any) {
+      console.error('Error starting next round:', error);
+
+      if (error.message === 'Tournament not found') {
+        return res.status(404).json({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      if (error.message.includes('must be') || error.message.includes('already been played') || error.message.includes('still')) {
+        return res.status(400).json({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to start next round',
+      });
+    }
+  }
+);
+
+/**
+ * @route POST /api/tournaments/:id/schedule
+ * @desc Assign courts and start times to every match still to be played
+ * @access Organizer
+ */
+router.post(
+  '/:id/schedule',
+  [param('id').isString().isLength({ min: 1 })],
+  requireTournamentOrganizer(),
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array(),
+        });
+      }
+
+      const orderOfPlay = await tournamentScheduleService.scheduleTournament(req.params.id);
+
+      res.json({
+        success: true,
+        data: orderOfPlay,
+        message: 'Matches scheduled',
+      });
+    } catch (error: any) {
+      console.error('Error scheduling tournament:', error);
+
+      if (error.message === 'Tournament not found') {
+        return res.status(404).json({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      if (error.message.includes('must be') || error.message.includes('needs a venue')) {
+        return res.status(400).json({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to schedule tournament',
+      });
+    }
+  }
+);
+
+/**
+ * @route GET /api/tournaments/:id/order-of-play
+ * @desc Get the order of play by court and time, with any scheduling conflicts
+ * @access Public
+ */
+router.get(
+  '/:id/order-of-play',
+  [param('id').isString().isLength({ min: 1 })],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array(),
+        });
+      }
+
+      const orderOfPlay = await tournamentScheduleService.getOrderOfPlay(req.params.id);
+
+      res.json({
+        success: true,
+        data: orderOfPlay,
+      });
+    } catch (error: any) {
+      console.error('Error fetching order of play:', error);
+
+      if (error.message === 'Tournament not found') {
+        return res.status(404).json({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to fetch order of play',
+      });
+    }
+  }
+);
+
+/**
+ * @route GET /api/tournaments/:id/export/bracket
+ * @desc Export the current bracket for printing as SVG or PDF (format=svg|pdf, default svg), rendered on the server
+ * @access Public
+ */
+router.get(
+  '/:id/export/bracket',
+  [
+    param('id').isString().isLength({ min: 1 }),
+    query('format').optional().isIn(['svg', 'pdf']),
+  ],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array(),
+        });
+      }
+
+      const file = req.query.format === 'pdf'
+        ? await tournamentExportService.exportBracketPdf(req.params.id)
+        : await tournamentExportService.exportBracketSvg(req.params.id);
+
+      res.setHeader('Content-Type', req.query.format === 'pdf' ? 'application/pdf' : 'image/svg+xml');
+      res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+      res.send(file.content);
+    } catch (error: any) {
+      console.error('Error exporting bracket:', error);
+
+      if (error.message === 'Tournament not found') {
+        return res.status(404).json({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      if (error.message.includes('not been drawn')) {
+        return res.status(400).json({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to export bracket',
+      });
+    }
+  }
+);
+
+/**
+ * @route GET /api/tournaments/:id/export/order-of-play
+ * @desc Export the order of play as CSV
+ * @access Public
+ */
+router.get(
+  '/:id/export/order-of-play',
+  [param('id').isString().isLength({ min: 1 })],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array(),
+        });
+      }
+
+      const file = await tournamentExportService.exportOrderOfPlayCsv(req.params.id);
+
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+      res.send(file.content);
+    } catch (error: any) {
+      console.error('Error exporting order of play:', error);
+
+      if (error.message === 'Tournament not found') {
+        return res.status(404).json({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to export order of play',
+      });
+    }
+  }
+);
+
+/**
+ * @route GET /api/tournaments/:id/export/standings
+ * @desc Export the standings as CSV, best first
+ * @access Public
+ */
+router.get(
+  '/:id/export/standings',
+  [param('id').isString().isLength({ min: 1 })],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array(),
+        });
+      }
+
+      const file = await tournamentExportService.exportStandingsCsv(req.params.id);
+
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+      res.send(file.content);
+    } catch (error: any) {
+      console.error('Error exporting standings:', error);
+
+      if (error.message === 'Tournament not found') {
+        return res.status(404).json({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to export standings',
+      });
+    }
+  }
+);
+
+/**
+ * @route POST /api/tournaments/:id/matches/:matchId/start
+ * @desc Call a match on court; the rest of the schedule re-flows around it
+ * @access Organizer or scorekeeper
+ */
+router.post(
+  '/:id/matches/:matchId/start',
+  [
+    param('id').isString().isLength({ min: 1 }),
+    param('matchId').isString().isLength({ min: 1 }),
+    body('courtName').optional().isString().isLength({ min: 1, max: 50 }),
+  ],
+  requireTournamentOrganizer({ allowScorekeepers: true }),
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array(),
+        });
+      }
+
+      const match = await tournamentScheduleService.startMatch(req.params.id, req.params.matchId, req.body.courtName);
+
+      res.json({
+        success: true,
+        data: match,
+        message: 'Match started',
+      });
+    } catch (error: any) {
+      console.error('Error starting match:', error);
+
+      if (error.message === 'Match not found') {
+        return res.status(404).json({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      if (error.message.includes('must be') || error.message.includes('already been started') || error.message.includes('has not started')) {
+        return res.status(400).json({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to start match',
+      });
+    }
+  }
+);
+
+/**
+ * @route GET /api/tournaments/:id/bracket
+ * @desc Get live bracket state
+ * @access Public
+ */
+router.get(
+  '/:id/bracket',
+  [param('id').isString().isLength({ min: 1 })],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array(),
+        });
+      }
+
+      const bracket = await tournamentBracketService.getBracketState(req.params.id);
+
+      if (!bracket) {
+        return res.status(404).json({
+          success: false,
+          error: 'Tournament not found',
+        });
+      }
+
+      res.json({
+        success: true,
+        data: bracket,
+      });
+    } catch (error: any) {
+      console.error('Error fetching bracket:', error);
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to fetch bracket',
+      });
+    }
+  }
+);
+
+/**
+ * @route GET /api/tournaments/:id/stats
+ * @desc Get tournament statistics, with Swiss standings or pool-play group standings
+ * @access Public
+ */
+router.get(
+  '/:id/stats',
+  [param('id').isString().isLength({ min: 1 })],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array(),
+        });
+      }
+
+      const stats = await tournamentService.getTournamentStats(req.params.id);
+
+      res.json({
+        success: true,
+        data: stats,
+      });
+    } catch (error: any) {
+      console.error('Error fetching tournament stats:', error);
+
+      if (error.message === 'Tournament not found') {
+        return res.status(404).json({
+          success: false,
+          error: 'Tournament not found',
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to fetch tournament statistics',
+      });
+    }
+  }
+);
+
+/**
+ * @route GET /api/tournaments/:id/ledger
+ * @desc Get the tournament's ledger of entry fees, refunds and prize payouts, with totals
+ * @access Organizer
+ */
+router.get(
+  '/:id/ledger',
+  [param('id').isString().isLength({ min: 1 })],
+  requireTournamentOrganizer(),
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array(),
+        });
+      }
+
+      const ledger = await tournamentPaymentService.getLedger(req.params.id);
+
+      res.json({
+        success: true,
+        data: ledger,
+      });
+    } catch (error: any) {
+      console.error('Error fetching tournament ledger:', error);
+
+      if (error.message === 'Tournament not found') {
+        return res.status(404).json({
+          success: false,
+          error: 'Tournament not found',
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to fetch tournament ledger',
+      });
+    }
+  }
+);
+
+/**
+ * @route POST /api/tournaments/:id/ledger/:entryId/paid
+ * @desc Mark a prize payout as paid
+ * @access Organizer
+ */
+router.post(
+  '/:id/ledger/:entryId/paid',
+  [
+    param('id').isString().isLength({ min: 1 }),
+    param('entryId').isString().isLength({ min: 1 }),
+  ],
+  requireTournamentOrganizer(),
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array(),
+        });
+      }
+
+      const payout = await tournamentPaymentService.markPayoutPaid(req.params.id, req.params.entryId);
+
+      res.json({
+        success: true,
+        data: payout,
+        message: 'Payout marked as paid',
+      });
+    } catch (error: any) {
+      console.error('Error marking payout paid:', error);
+
+      if (error.message.includes('not found') || error.message.includes('already been paid')) {
+        return res.status(400).json({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to mark payout paid',
       });
     }
   }
@@ -1,6 +1,8 @@
 import { Router, Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { generateDeviceFingerprint, CLIENT_FINGERPRINT_SCRIPT } from '../utils/deviceFingerprint';
+import { JOIN_DENIAL_STATUS, SessionAccessService } from '../services/sessionAccessService';
+import { SessionWaitlistService } from '../services/sessionWaitlistService';
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -26,6 +28,9 @@ router.get('/:shareCode', async (req: Request, res: Response) => {
             status: true,
             joinedAt: true
           }
+        },
+        configuration: {
+          select: { requireApproval: true, inviteOnly: true, accessCode: true }
         }
       }
     });
@@ -161,7 +166,7 @@ router.get('/:shareCode/player-status', async (req: Request, res: Response) => {
 router.post('/:shareCode/join', async (req: Request, res: Response) => {
   try {
     const { shareCode } = req.params;
-    const { name, deviceId } = req.body;
+    const { name, deviceId, accessCode, inviteToken } = req.body;
     
     if (!name || !deviceId) {
       return res.status(400).json({
@@ -198,16 +203,43 @@ router.post('/:shareCode/join', async (req: Request, res: Response) => {
       });
     }
 
-    // Create new player
-    const newPlayer = await prisma.mvpPlayer.create({
-      data: {
-        sessionId: session.id,
-        name,
-        deviceId,
-        status: 'ACTIVE'
-      }
+    const result = await SessionAccessService.join(session, {
+      name,
+      deviceId,
+      accessCode,
+      inviteToken,
+      clientKey: req.ip || 'unknown'
     });
 
+    if (result.outcome === 'DENIED') {
+      return res.status(JOIN_DENIAL_STATUS[result.code]).json({
+        success: false,
+        code: result.code,
+        error: result.message
+      });
+    }
+
+    if (result.outcome === 'PENDING_APPROVAL') {
+      return res.status(202).json({
+        success: true,
+        pending: true,
+        message: 'Your request has been sent to the organizer for approval',
+        joinRequestId: result.request.id
+      });
+    }
+
+    if (result.outcome === 'WAITLISTED') {
+      return res.status(202).json({
+        success: true,
+        pending: true,
+        message: result.position
+          ? `The session is full; you are number ${result.position} on the waitlist`
+          : 'The session is full; you are on the waitlist',
+        waitlistEntryId: result.entry.id
+      });
+    }
+
+    const newPlayer = result.player;
     res.json({
       success: true,
       message: 'Successfully joined the session',
@@ -278,6 +310,9 @@ router.delete('/:shareCode/leave', async (req: Request, res: Response) => {
       data: { status: 'LEFT' }
     });
 
+    // Their spot goes to whoever has waited longest
+    await SessionWaitlistService.promoteNext(session);
+
     res.json({
       success: true,
       message: 'Successfully left the session',
@@ -299,6 +334,9 @@ function generateSessionHTML(session: any, existingPlayer: any, deviceId: string
   const playerCount = session.players.filter((p: any) => p.status === 'ACTIVE').length;
   const isJoined = !!existingPlayer;
   const shareCode = session.shareCode;
+  const needsAccessCode = Boolean(session.configuration?.accessCode);
+  const inviteOnly = Boolean(session.configuration?.inviteOnly);
+  const requireApproval = Boolean(session.configuration?.requireApproval);
   
   return `
     <!DOCTYPE html>
@@ -520,7 +558,11 @@ function generateSessionHTML(session: any, existingPlayer: any, deviceId: string
             <div class="status-subtitle">Registered as: <strong>${existingPlayer.name}</strong></div>
             ` : `
             <div class="status-title">👋 Join this session</div>
-            <div class="status-subtitle">Enter your name to register</div>
+            <div class="status-subtitle">${inviteOnly
+              ? 'This session is invite-only: open the invite link from the organizer to join'
+              : requireApproval
+                ? 'Enter your name to ask the organizer to let you in'
+                : 'Enter your name to register'}</div>
             `}
           </div>
           
@@ -540,6 +582,12 @@ function generateSessionHTML(session: any, existingPlayer: any, deviceId: string
               <input type="text" id="player-name" placeholder="Enter your name" 
                      style="width: 100%; padding: 12px; border: 1px solid #ddd; border-radius: 8px; font-size: 16px;">
             </div>
+            ${needsAccessCode ? `
+            <div id="access-code-field" style="margin-bottom: 16px;">
+              <input type="text" id="access-code" placeholder="Access code" autocomplete="off"
+                     style="width: 100%; padding: 12px; border: 1px solid #ddd; border-radius: 8px; font-size: 16px;">
+            </div>
+            ` : ''}
             <button class="button button-primary" onclick="joinSession()" id="join-btn">
               Join Session
             </button>
@@ -565,6 +613,8 @@ function generateSessionHTML(session: any, existingPlayer: any, deviceId: string
         ${CLIENT_FINGERPRINT_SCRIPT}
         
         let deviceFingerprint = null;
+        // Invite links carry a signed invite token: ?invite=...
+        const inviteToken = new URLSearchParams(window.location.search).get('invite');
         
         // Generate device fingerprint on page load
         window.onload = function() {
@@ -644,6 +694,7 @@ function generateSessionHTML(session: any, existingPlayer: any, deviceId: string
         
         async function joinSession() {
           const playerName = document.getElementById('player-name').value.trim();
+          const accessCodeInput = document.getElementById('access-code');
           
           if (!playerName) {
             showError('Please enter your name');
@@ -666,13 +717,17 @@ function generateSessionHTML(session: any, existingPlayer: any, deviceId: string
               },
               body: JSON.stringify({
                 name: playerName,
-                deviceId: deviceFingerprint
+                deviceId: deviceFingerprint,
+                accessCode: accessCodeInput ? accessCodeInput.value.trim() : undefined,
+                inviteToken: inviteToken || undefined
               })
             });
             
             const data = await response.json();
             
-            if (data.success) {
+            if (data.success && data.pending) {
+              showSuccess(data.message);
+            } else if (data.success) {
               showSuccess('Successfully joined the session!');
               setTimeout(() => {
                 location.reload();
@@ -13,6 +13,9 @@ import { setupSocket } from './config/socket';
 import { setupRoutes } from './routes';
 import { errorHandler } from './middleware/errorHandler';
 import webSessionRoutes from './routes/webSession';
+import { SessionAccessService } from './services/sessionAccessService';
+import { SessionSeriesService } from './services/sessionSeriesService';
+import { SessionWaitlistService } from './services/sessionWaitlistService';
 
 // Load environment variables
 dotenv.config();
@@ -98,6 +101,9 @@ const io = new SocketServer(server, {
 
 setupSocket(io);
 
+// Refuse to start without the secret invite tokens are signed with
+SessionAccessService.inviteSecret();
+
 // Database connection
 connectDB();
 
@@ -109,5 +115,19 @@ server.listen(PORT, () => {
   console.log(`📱 Environment: ${process.env.NODE_ENV || 'development'}`);
 });
 
+// Pass lapsed waitlist offers on to the next player every minute
+setInterval(() => {
+  SessionWaitlistService.expireOffers().catch(error => {
+    console.error('Failed to expire waitlist offers:', error);
+  });
+}, 60 * 1000);
+
+// Create upcoming occurrences of recurring sessions every hour
+setInterval(() => {
+  SessionSeriesService.materialiseAll().catch(error => {
+    console.error('Failed to create session series occurrences:', error);
+  });
+}, 60 * 60 * 1000);
+
 export default app;
 export { io };
\ No newline at end of file
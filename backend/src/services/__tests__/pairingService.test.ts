@@ -5,6 +5,25 @@
  * These tests verify that the pairing system properly excludes players based on status.
  */
 
+import { PairingService, PlayerForPairing } from '../pairingService';
+import { cacheService } from '../cacheService';
+
+// Active players come from the cache, so the database is never reached
+jest.mock('../cacheService', () => ({
+  cacheService: {
+    get: jest.fn(),
+    set: jest.fn(),
+    delete: jest.fn(),
+  },
+}));
+
+// Performance tracking isn't exercised here
+jest.mock('../performanceService', () => ({
+  PerformanceService: jest.fn(),
+}));
+
+const mockCache = cacheService as jest.Mocked<typeof cacheService>;
+
 export const pairingServiceTestSpecs = {
   getActivePlayersForPairing: [
     {
@@ -100,6 +119,72 @@ export const pairingServiceTestSpecs = {
         oddPlayerOut: 'p3' // Charlie has most games, becomes odd player out
       }
     },
+    {
+      description: 'Should pair one male with one female in mixed mode',
+      input: {
+        sessionId: 'test-session',
+        players: [
+          { id: 'p1', name: 'Alice', status: 'ACTIVE', gamesPlayed: 0, category: 'female' },
+          { id: 'p2', name: 'Diana', status: 'ACTIVE', gamesPlayed: 1, category: 'female' },
+          { id: 'p3', name: 'Bob', status: 'ACTIVE', gamesPlayed: 2, category: 'male' },
+          { id: 'p4', name: 'Charlie', status: 'ACTIVE', gamesPlayed: 3, category: 'male' }
+        ],
+        algorithm: 'fair',
+        mode: 'mixed'
+      },
+      expected: {
+        pairings: [
+          {
+            court: 1,
+            players: [
+              { id: 'p3', name: 'Bob', position: 'left' },
+              { id: 'p1', name: 'Alice', position: 'right' }
+            ]
+          },
+          {
+            court: 2,
+            players: [
+              { id: 'p4', name: 'Charlie', position: 'left' },
+              { id: 'p2', name: 'Diana', position: 'right' }
+            ]
+          }
+        ],
+        oddPlayerOut: undefined
+      }
+    },
+    {
+      description: 'Should fall back to same-category pairs when the mixed ratio is uneven',
+      input: {
+        sessionId: 'test-session',
+        players: [
+          { id: 'p1', name: 'Alice', status: 'ACTIVE', gamesPlayed: 0, category: 'female' },
+          { id: 'p2', name: 'Bob', status: 'ACTIVE', gamesPlayed: 1, category: 'male' },
+          { id: 'p3', name: 'Charlie', status: 'ACTIVE', gamesPlayed: 2, category: 'male' },
+          { id: 'p4', name: 'Evan', status: 'ACTIVE', gamesPlayed: 3, category: 'male' }
+        ],
+        algorithm: 'fair',
+        mode: 'mixed'
+      },
+      expected: {
+        pairings: [
+          {
+            court: 1,
+            players: [
+              { id: 'p2', name: 'Bob', position: 'left' },
+              { id: 'p1', name: 'Alice', position: 'right' }
+            ]
+          },
+          {
+            court: 2,
+            players: [
+              { id: 'p3', name: 'Charlie', position: 'left' },
+              { id: 'p4', name: 'Evan', position: 'right' }
+            ]
+          }
+        ],
+        oddPlayerOut: undefined
+      }
+    },
     {
       description: 'Should exclude RESTING and LEFT players',
       input: {
@@ -280,4 +365,63 @@ export const manualTestingChecklist = [
   '✅ Test pairing adjustments by organizer',
   '✅ Verify fairness scores are calculated correctly',
   '✅ Test odd number of players handling'
-];
\ No newline at end of file
+];
+
+describe('PairingService', () => {
+  const pairUp = async (players: PlayerForPairing[], mode: 'standard' | 'mixed' = 'mixed') => {
+    mockCache.get.mockResolvedValue(players);
+    const result = await PairingService.generatePairings('test-session', 'fair', mode);
+    return result.pairings.map(pairing => ({
+      court: pairing.court,
+      players: pairing.players.map(({ id, name, position }) => ({ id, name, position }))
+    }));
+  };
+
+  const toPlayers = (players: any[]): PlayerForPairing[] =>
+    players.map(player => ({ wins: 0, losses: 0, ...player }));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('generatePairings in mixed mode', () => {
+    pairingServiceTestSpecs.generatePairings
+      .filter(spec => (spec.input as { mode?: string }).mode === 'mixed')
+      .forEach(spec => {
+        it(spec.description.replace(/^Should/, 'should'), async () => {
+          expect(await pairUp(toPlayers(spec.input.players))).toEqual(spec.expected.pairings);
+        });
+      });
+
+    it('should use players without a category to fill the short side, then pair the rest in queue order', async () => {
+      const pairings = await pairUp(toPlayers([
+        { id: 'p1', name: 'Alice', status: 'ACTIVE', gamesPlayed: 0, category: 'female' },
+        { id: 'p2', name: 'Bob', status: 'ACTIVE', gamesPlayed: 1, category: 'male' },
+        { id: 'p3', name: 'Cara', status: 'ACTIVE', gamesPlayed: 2, category: null },
+        { id: 'p4', name: 'Dan', status: 'ACTIVE', gamesPlayed: 3, category: 'male' },
+        { id: 'p5', name: 'Eve', status: 'ACTIVE', gamesPlayed: 4 },
+        { id: 'p6', name: 'Finn', status: 'ACTIVE', gamesPlayed: 5 }
+      ]));
+
+      expect(pairings.map(pairing => pairing.players.map(player => player.id))).toEqual([
+        ['p2', 'p1'],
+        ['p4', 'p3'],
+        ['p5', 'p6']
+      ]);
+    });
+
+    it('should leave categories out of standard mode', async () => {
+      const pairings = await pairUp(toPlayers([
+        { id: 'p1', name: 'Alice', status: 'ACTIVE', gamesPlayed: 0, category: 'female' },
+        { id: 'p2', name: 'Diana', status: 'ACTIVE', gamesPlayed: 1, category: 'female' },
+        { id: 'p3', name: 'Bob', status: 'ACTIVE', gamesPlayed: 2, category: 'male' },
+        { id: 'p4', name: 'Charlie', status: 'ACTIVE', gamesPlayed: 3, category: 'male' }
+      ]), 'standard');
+
+      expect(pairings.map(pairing => pairing.players.map(player => player.id))).toEqual([
+        ['p1', 'p2'],
+        ['p3', 'p4']
+      ]);
+    });
+  });
+});
@@ -150,9 +150,7 @@ describe('PaymentService', () => {
     it('should create a refund successfully', async () => {
       const mockStripeIntent = {
         id: 'pi_mock_123',
-        charges: {
-          data: [{ id: 'ch_mock_123' }],
-        },
+        latest_charge: 'ch_mock_123',
       };
 
       const mockRefund = {
@@ -171,6 +169,7 @@ describe('PaymentService', () => {
 
       expect(result.success).toBe(true);
       expect(result.refund).toBeDefined();
+      expect(mockStripe.refunds.create).toHaveBeenCalledWith(expect.objectContaining({ charge: 'ch_mock_123', amount: 5000 }));
     });
 
     it('should handle refund errors', async () => {
@@ -204,6 +203,29 @@ describe('PaymentService', () => {
       expect(paymentIntent?.status).toBe(PaymentIntentStatus.SUCCEEDED);
     });
 
+    it('should fetch a payment intent this instance did not create from Stripe', async () => {
+      mockStripe.paymentIntents.retrieve.mockResolvedValue({
+        id: 'pi_other_instance',
+        status: 'succeeded',
+        amount: 1500,
+        currency: 'usd',
+        client_secret: 'pi_other_instance_secret',
+        payment_method: 'pm_card',
+        metadata: { tournamentId: 'tournament-1' },
+        created: 1700000000,
+      });
+
+      const paymentIntent = await paymentService.getPaymentIntent('pi_other_instance');
+
+      expect(paymentIntent).toEqual(expect.objectContaining({
+        id: 'pi_other_instance',
+        amount: 15,
+        status: PaymentIntentStatus.SUCCEEDED,
+        paymentMethodId: 'pm_card',
+        createdAt: new Date(1700000000 * 1000),
+      }));
+    });
+
     it('should return null for non-existent payment intent', async () => {
       mockStripe.paymentIntents.retrieve.mockRejectedValue(new Error('Payment intent not found'));
 
@@ -72,27 +72,32 @@ describe('RankingService', () => {
     await prisma.$disconnect();
   });
 
-  describe('calculateExpectedScore', () => {
-    it('should calculate expected score correctly', () => {
-      const expectedScore = rankingService['calculateExpectedScore'](1200, 1150);
-      expect(expectedScore).toBeCloseTo(0.529, 3);
+  describe('toGlickoRating', () => {
+    it('should use stored rating state for recently rated players', () => {
+      const playedAt = new Date();
+      const rating = rankingService['toGlickoRating']({
+        rankingPoints: 1300,
+        ratingDeviation: 80,
+        ratingVolatility: 0.06,
+        ratingUpdatedAt: playedAt,
+        lastMatchDate: playedAt
+      }, playedAt);
+
+      expect(rating).toEqual({ rating: 1300, deviation: 80, volatility: 0.06 });
     });
 
-    it('should return 0.5 for equal ratings', () => {
-      const expectedScore = rankingService['calculateExpectedScore'](1200, 1200);
-      expect(expectedScore).toBe(0.5);
-    });
-  });
-
-  describe('calculateNewRating', () => {
-    it('should increase rating for a win', () => {
-      const newRating = rankingService['calculateNewRating'](1200, 0.5, 1);
-      expect(newRating).toBeGreaterThan(1200);
-    });
-
-    it('should decrease rating for a loss', () => {
-      const newRating = rankingService['calculateNewRating'](1200, 0.5, 0);
-      expect(newRating).toBeLessThan(1200);
+    it('should inflate deviation after inactive rating periods', () => {
+      const lastPlayed = new Date('2025-01-01T00:00:00Z');
+      const rating = rankingService['toGlickoRating']({
+        rankingPoints: 1300,
+        ratingDeviation: 80,
+        ratingVolatility: 0.06,
+        ratingUpdatedAt: lastPlayed,
+        lastMatchDate: lastPlayed
+      }, new Date('2025-03-01T00:00:00Z'));
+
+      expect(rating.rating).toBe(1300);
+      expect(rating.deviation).toBeGreaterThan(80);
     });
   });
 
@@ -119,6 +124,7 @@ describe('RankingService', () => {
       expect(firstEntry).toHaveProperty('playerId');
       expect(firstEntry).toHaveProperty('playerName');
       expect(firstEntry).toHaveProperty('rating');
+      expect(firstEntry).toHaveProperty('ratingDeviation');
       expect(firstEntry).toHaveProperty('rank');
       expect(firstEntry).toHaveProperty('matchesPlayed');
       expect(firstEntry).toHaveProperty('winRate');
@@ -0,0 +1,93 @@
+import { SessionAccessService } from '../sessionAccessService';
+import { SessionWaitlistService } from '../sessionWaitlistService';
+import { prisma } from '../../config/database';
+
+// Mock the database
+jest.mock('../../config/database', () => ({
+  prisma: {
+    mvpJoinRequest: {
+      findFirst: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    mvpPlayer: {
+      findMany: jest.fn(),
+      create: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  },
+}));
+
+// Keep the cache's cleanup timer out of the test run
+jest.mock('../cacheService', () => ({
+  cacheService: {
+    get: jest.fn(),
+    set: jest.fn(),
+    delete: jest.fn(),
+  },
+}));
+
+const mockPrisma = prisma as any;
+
+describe('SessionAccessService', () => {
+  const session = { id: 'session-1', maxPlayers: 8 };
+  const request = { id: 'request-1', sessionId: 'session-1', name: 'Alice', deviceId: 'device-1', category: null, status: 'PENDING' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(SessionWaitlistService, 'hasOpenSpot').mockResolvedValue(true);
+
+    mockPrisma.mvpJoinRequest.findFirst.mockResolvedValue(request);
+    mockPrisma.mvpPlayer.findMany.mockResolvedValue([]);
+    mockPrisma.mvpPlayer.create.mockResolvedValue({ id: 'player-1', name: 'Alice' });
+    mockPrisma.mvpJoinRequest.update.mockImplementation(({ data }: any) => Promise.resolve({ ...request, status: 'APPROVED', ...data }));
+    mockPrisma.$transaction.mockImplementation((callback: any) => callback(mockPrisma));
+  });
+
+  describe('join requests', () => {
+    it('should add the player when the approval claims the request', async () => {
+      mockPrisma.mvpJoinRequest.updateMany.mockResolvedValue({ count: 1 });
+
+      const result = await SessionAccessService.approveJoinRequest(session, 'request-1');
+
+      expect(mockPrisma.mvpJoinRequest.updateMany).toHaveBeenCalledWith({
+        where: { id: 'request-1', status: 'PENDING' },
+        data: expect.objectContaining({ status: 'APPROVED' }),
+      });
+      expect(result.player.id).toBe('player-1');
+      expect(result.request.playerId).toBe('player-1');
+    });
+
+    it('should not add the player twice when another approval got there first', async () => {
+      mockPrisma.mvpJoinRequest.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(SessionAccessService.approveJoinRequest(session, 'request-1')).rejects.toThrow('Join request has already been answered');
+      expect(mockPrisma.mvpPlayer.create).not.toHaveBeenCalled();
+    });
+
+    it('should not reject a request another organizer has just answered', async () => {
+      mockPrisma.mvpJoinRequest.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(SessionAccessService.rejectJoinRequest('session-1', 'request-1')).rejects.toThrow('Join request has already been answered');
+    });
+  });
+
+  describe('invite secret', () => {
+    const env = process.env;
+
+    afterEach(() => {
+      process.env = env;
+    });
+
+    it('should refuse to sign invites without a configured secret', () => {
+      process.env = { ...env, SESSION_INVITE_SECRET: '', JWT_SECRET: '' };
+      expect(() => SessionAccessService.inviteSecret()).toThrow('SESSION_INVITE_SECRET or JWT_SECRET must be set');
+    });
+
+    it('should prefer the invite secret over the JWT secret', () => {
+      process.env = { ...env, SESSION_INVITE_SECRET: 'invite-secret', JWT_SECRET: 'jwt-secret' };
+      expect(SessionAccessService.inviteSecret()).toBe('invite-secret');
+    });
+  });
+});
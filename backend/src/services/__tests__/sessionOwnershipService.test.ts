@@ -0,0 +1,57 @@
+import { SessionOwnershipService } from '../sessionOwnershipService';
+import { prisma } from '../../config/database';
+
+// Mock the database
+jest.mock('../../config/database', () => ({
+  prisma: {
+    mvpSession: {
+      findUnique: jest.fn(),
+    },
+    mvpOwnershipTransfer: {
+      findFirst: jest.fn(),
+    },
+  },
+}));
+
+// Keep the cache's cleanup timer out of the test run
+jest.mock('../cacheService', () => ({
+  cacheService: {
+    get: jest.fn(),
+    set: jest.fn(),
+    delete: jest.fn(),
+  },
+}));
+
+const mockPrisma = prisma as any;
+
+describe('SessionOwnershipService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.mvpSession.findUnique.mockResolvedValue({ id: 'session-1', ownerName: 'Olivia', ownerDeviceId: 'owner-device' });
+  });
+
+  describe('errors', () => {
+    it('should answer 404 for a session that does not exist', async () => {
+      mockPrisma.mvpSession.findUnique.mockResolvedValue(null);
+
+      await expect(SessionOwnershipService.reissueRecoveryCodes('MISSING', 'owner-device'))
+        .rejects.toMatchObject({ statusCode: 404, message: 'Session not found' });
+    });
+
+    it('should answer 403 when someone other than the owner reissues codes', async () => {
+      await expect(SessionOwnershipService.reissueRecoveryCodes('ABC123', 'player-device'))
+        .rejects.toMatchObject({ statusCode: 403, message: 'Only the session owner can do this' });
+    });
+
+    it('should answer 409 for a transfer that has already been answered', async () => {
+      mockPrisma.mvpOwnershipTransfer.findFirst.mockResolvedValue({
+        id: 'transfer-1',
+        status: 'ACCEPTED',
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000)
+      });
+
+      await expect(SessionOwnershipService.cancelTransfer('ABC123', 'transfer-1', 'owner-device'))
+        .rejects.toMatchObject({ statusCode: 409, message: 'This transfer has already been answered' });
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { SessionSeriesService } from '../sessionSeriesService';
+import { SessionOwnershipService } from '../sessionOwnershipService';
+import { prisma } from '../../config/database';
+
+// Mock the database
+jest.mock('../../config/database', () => ({
+  prisma: {
+    mvpSession: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+    },
+    mvpPlayer: {
+      create: jest.fn(),
+      createMany: jest.fn(),
+    },
+    mvpSeriesRegular: {
+      findMany: jest.fn(),
+    },
+    mvpSessionSeries: {
+      update: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  },
+}));
+
+// Keep the cache's cleanup timer out of the test run
+jest.mock('../cacheService', () => ({
+  cacheService: {
+    get: jest.fn(),
+    set: jest.fn(),
+    delete: jest.fn(),
+  },
+}));
+
+const mockPrisma = prisma as any;
+
+describe('SessionSeriesService', () => {
+  const series = {
+    id: 'series-1',
+    status: 'ACTIVE',
+    recurrenceRule: 'FREQ=WEEKLY;COUNT=1',
+    startsAt: new Date('2026-11-02T18:00:00Z'),
+    timeZone: 'UTC',
+    horizonDays: 28,
+    generatedUntil: null,
+    name: 'Monday Club',
+    location: 'Sports Hall',
+    maxPlayers: 8,
+    skillLevel: null,
+    cost: null,
+    description: null,
+    courtCount: 2,
+    ownerName: 'Olivia',
+    ownerDeviceId: 'owner-device',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(SessionOwnershipService, 'setUpNewSession').mockResolvedValue(['CODE-ONE', 'CODE-TWO']);
+
+    mockPrisma.mvpSession.findUnique.mockResolvedValue(null);
+    mockPrisma.mvpSession.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'session-1', ...data }));
+    mockPrisma.mvpSeriesRegular.findMany.mockResolvedValue([]);
+    mockPrisma.$transaction.mockImplementation((callback: any) => callback(mockPrisma));
+  });
+
+  describe('materialise', () => {
+    it('should set up ownership and recovery codes for each occurrence like a session created by hand', async () => {
+      const occurrences = await SessionSeriesService.materialise(series as any, new Date('2026-10-19T12:00:00Z'));
+
+      expect(occurrences).toHaveLength(1);
+      expect(SessionOwnershipService.setUpNewSession).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'session-1', ownerName: 'Olivia', ownerDeviceId: 'owner-device' })
+      );
+      expect(occurrences[0].recoveryCodes).toEqual(['CODE-ONE', 'CODE-TWO']);
+    });
+
+    it('should not issue codes for a slot another run already created', async () => {
+      mockPrisma.$transaction.mockRejectedValue(Object.assign(new Error('Unique constraint failed'), { code: 'P2002' }));
+
+      const occurrences = await SessionSeriesService.materialise(series as any, new Date('2026-10-19T12:00:00Z'));
+
+      expect(occurrences).toEqual([]);
+      expect(SessionOwnershipService.setUpNewSession).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import { tournamentPaymentService } from '../tournamentPaymentService';
+import { MockPaymentProvider } from '../paymentProvider';
+import { PaymentIntentStatus } from '../../types/payment';
+import { prisma } from '../../config/database';
+
+// Mock the database
+jest.mock('../../config/database', () => ({
+  prisma: {
+    tournament: {
+      findUnique: jest.fn(),
+    },
+    tournamentPlayer: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+    },
+    tournamentLedgerEntry: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  },
+}));
+
+const mockPrisma = prisma as any;
+
+describe('TournamentPaymentService', () => {
+  let provider: MockPaymentProvider;
+
+  const tournament = {
+    id: 'tournament-1',
+    name: 'Club Open',
+    entryFee: 15,
+    prizePool: 100,
+    currency: 'USD',
+    registrationDeadline: new Date(Date.now() + 24 * 60 * 60 * 1000),
+  };
+  const player = { id: 'player-1', tournamentId: 'tournament-1', playerName: 'Alice', status: 'PENDING_PAYMENT' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    provider = new MockPaymentProvider();
+    tournamentPaymentService.setProvider(provider);
+
+    mockPrisma.tournament.findUnique.mockResolvedValue(tournament);
+    mockPrisma.tournamentPlayer.findFirst.mockResolvedValue(player);
+    mockPrisma.tournamentLedgerEntry.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'entry-1', ...data }));
+    mockPrisma.$transaction.mockImplementation((callback: any) => callback(mockPrisma));
+  });
+
+  describe('entry payments', () => {
+    it('should confirm the entry only once the payment has gone through', async () => {
+      mockPrisma.tournamentLedgerEntry.findFirst.mockResolvedValue(null);
+      const payment = await tournamentPaymentService.createEntryPayment('tournament-1', 'player-1');
+
+      expect(payment).toEqual(expect.objectContaining({ amount: 15, currency: 'USD', clientSecret: `${payment.paymentIntentId}_secret` }));
+      expect(mockPrisma.tournamentLedgerEntry.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ type: 'ENTRY_FEE', playerId: 'player-1', amount: 15 }),
+      });
+
+      const pending = { id: 'entry-1', playerName: 'Alice', amount: 15, currency: 'USD', paymentIntentId: payment.paymentIntentId };
+      mockPrisma.tournamentLedgerEntry.findFirst.mockResolvedValue(pending);
+      await expect(tournamentPaymentService.confirmEntryPayment('tournament-1', 'player-1'))
+        .rejects.toThrow('Entry payment has not completed yet');
+
+      provider.completePayment(payment.paymentIntentId!);
+      await tournamentPaymentService.confirmEntryPayment('tournament-1', 'player-1');
+
+      expect(mockPrisma.tournamentLedgerEntry.update).toHaveBeenCalledWith({ where: { id: 'entry-1' }, data: { status: 'PAID' } });
+      expect(mockPrisma.tournamentPlayer.update).toHaveBeenCalledWith({ where: { id: 'player-1' }, data: { status: 'CONFIRMED' } });
+    });
+
+    it('should start a new payment after a failed one', async () => {
+      const failed = await provider.createPaymentIntent({ amount: 15, currency: 'usd' });
+      provider.failPayment(failed.paymentIntent!.id);
+      mockPrisma.tournamentLedgerEntry.findFirst.mockResolvedValue({ id: 'entry-0', paymentIntentId: failed.paymentIntent!.id });
+
+      const payment = await tournamentPaymentService.createEntryPayment('tournament-1', 'player-1');
+
+      expect(payment.paymentIntentId).not.toBe(failed.paymentIntent!.id);
+      expect(mockPrisma.tournamentLedgerEntry.update).toHaveBeenCalledWith({ where: { id: 'entry-0' }, data: { status: 'FAILED' } });
+    });
+  });
+
+  describe('refundEntry', () => {
+    const paidEntry = async () => {
+      const result = await provider.createPaymentIntent({ amount: 15, currency: 'usd' });
+      provider.completePayment(result.paymentIntent!.id);
+      return { id: 'entry-1', playerName: 'Alice', amount: 15, currency: 'USD', paymentIntentId: result.paymentIntent!.id };
+    };
+
+    it('should refund the entry fee before the registration deadline', async () => {
+      const paid = await paidEntry();
+      mockPrisma.tournamentLedgerEntry.findFirst.mockResolvedValue(paid);
+
+      await expect(tournamentPaymentService.refundEntry(tournament, 'player-1')).resolves.toBe(15);
+      expect(provider.getRefunds(paid.paymentIntentId)).toHaveLength(1);
+      expect(mockPrisma.tournamentLedgerEntry.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ type: 'REFUND', amount: 15, status: 'PAID' }),
+      });
+    });
+
+    it('should keep the entry fee after the registration deadline', async () => {
+      const paid = await paidEntry();
+      mockPrisma.tournamentLedgerEntry.findFirst.mockResolvedValue(paid);
+
+      const closed = { ...tournament, registrationDeadline: new Date(Date.now() - 60 * 1000) };
+      await expect(tournamentPaymentService.refundEntry(closed, 'player-1')).resolves.toBe(0);
+      expect(provider.getRefunds(paid.paymentIntentId)).toHaveLength(0);
+    });
+  });
+
+  describe('settlePendingEntries', () => {
+    const pendingEntry = async () => {
+      const result = await provider.createPaymentIntent({ amount: 15, currency: 'usd' });
+      return { id: 'entry-1', playerName: 'Alice', amount: 15, currency: 'USD', paymentIntentId: result.paymentIntent!.id };
+    };
+
+    beforeEach(() => {
+      mockPrisma.tournamentPlayer.findMany.mockResolvedValue([player]);
+    });
+
+    it('should keep the place of an entry whose payment went through without being confirmed', async () => {
+      const pending = await pendingEntry();
+      provider.completePayment(pending.paymentIntentId);
+      mockPrisma.tournamentLedgerEntry.findFirst.mockResolvedValue(pending);
+
+      await expect(tournamentPaymentService.settlePendingEntries('tournament-1')).resolves.toEqual([]);
+      expect(mockPrisma.tournamentLedgerEntry.update).toHaveBeenCalledWith({ where: { id: 'entry-1' }, data: { status: 'PAID' } });
+      expect(mockPrisma.tournamentPlayer.update).toHaveBeenCalledWith({ where: { id: 'player-1' }, data: { status: 'CONFIRMED' } });
+    });
+
+    it('should cancel an unpaid entry with the provider before withdrawing it', async () => {
+      const pending = await pendingEntry();
+      mockPrisma.tournamentLedgerEntry.findFirst.mockResolvedValue(pending);
+
+      await expect(tournamentPaymentService.settlePendingEntries('tournament-1')).resolves.toEqual(['player-1']);
+      expect((await provider.getPaymentIntent(pending.paymentIntentId))!.status).toBe(PaymentIntentStatus.CANCELED);
+      expect(mockPrisma.tournamentLedgerEntry.update).toHaveBeenCalledWith({ where: { id: 'entry-1' }, data: { status: 'FAILED' } });
+      expect(mockPrisma.tournamentPlayer.update).toHaveBeenCalledWith({ where: { id: 'player-1' }, data: { status: 'WITHDRAWN', seed: null } });
+    });
+
+    it('should hold up the start while a payment is still processing', async () => {
+      const pending = await pendingEntry();
+      mockPrisma.tournamentLedgerEntry.findFirst.mockResolvedValue(pending);
+      jest.spyOn(provider, 'getPaymentIntent').mockResolvedValue({
+        ...(await provider.getPaymentIntent(pending.paymentIntentId))!,
+        status: PaymentIntentStatus.PROCESSING,
+      });
+      jest.spyOn(provider, 'cancelPayment').mockResolvedValue({ success: false, error: 'A processing payment can\'t be canceled' });
+
+      await expect(tournamentPaymentService.settlePendingEntries('tournament-1'))
+        .rejects.toMatchObject({ statusCode: 409, message: expect.stringContaining('still processing for Alice') });
+      expect(mockPrisma.tournamentPlayer.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { tournamentService } from '../tournamentService';
+import { prisma } from '../../config/database';
+
+// Mock the database
+jest.mock('../../config/database', () => ({
+  prisma: {
+    tournament: {
+      findUnique: jest.fn(),
+    },
+    tournamentPlayer: {
+      findFirst: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}));
+
+// Entry payments aren't exercised here
+jest.mock('../tournamentPaymentService', () => ({
+  tournamentPaymentService: {},
+}));
+
+const mockPrisma = prisma as any;
+
+describe('TournamentService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.tournament.findUnique.mockResolvedValue({ organizerDeviceId: 'organizer-device' });
+  });
+
+  describe('organizer checks', () => {
+    it('should let the organizer device through', async () => {
+      await expect(tournamentService.assertOrganizer('tournament-1', 'organizer-device')).resolves.toBeUndefined();
+    });
+
+    it('should turn away other devices with a 403', async () => {
+      await expect(tournamentService.assertOrganizer('tournament-1', 'player-device'))
+        .rejects.toMatchObject({ statusCode: 403, message: 'Only the tournament organizer can do this' });
+      await expect(tournamentService.assertOrganizer('tournament-1', undefined)).rejects.toMatchObject({ statusCode: 403 });
+    });
+
+    it('should let scorekeepers through only where they are allowed', async () => {
+      mockPrisma.tournamentPlayer.findFirst.mockResolvedValue({ id: 'player-1', isScorekeeper: true });
+
+      await expect(tournamentService.assertOrganizer('tournament-1', 'scorer-device', { allowScorekeepers: true })).resolves.toBeUndefined();
+      expect(mockPrisma.tournamentPlayer.findFirst).toHaveBeenCalledWith({
+        where: { tournamentId: 'tournament-1', deviceId: 'scorer-device', isScorekeeper: true },
+      });
+      await expect(tournamentService.assertOrganizer('tournament-1', 'scorer-device')).rejects.toMatchObject({ statusCode: 403 });
+    });
+
+    it('should let a player act on their own entry but not on anyone else\'s', async () => {
+      mockPrisma.tournamentPlayer.findFirst.mockResolvedValueOnce({ id: 'player-1' }).mockResolvedValueOnce(null);
+
+      await expect(tournamentService.assertOrganizer('tournament-1', 'player-device', { playerId: 'player-1' })).resolves.toBeUndefined();
+      expect(mockPrisma.tournamentPlayer.findFirst).toHaveBeenCalledWith({
+        where: { tournamentId: 'tournament-1', deviceId: 'player-device', id: 'player-1' },
+      });
+      await expect(tournamentService.assertOrganizer('tournament-1', 'player-device', { playerId: 'player-2' }))
+        .rejects.toMatchObject({ statusCode: 403, message: 'Only the player or the tournament organizer can do this' });
+    });
+
+    it('should answer 404 for a tournament that does not exist', async () => {
+      mockPrisma.tournament.findUnique.mockResolvedValue(null);
+
+      await expect(tournamentService.assertOrganizer('missing', 'organizer-device')).rejects.toMatchObject({ statusCode: 404 });
+    });
+
+    it('should only make players with a device scorekeepers', async () => {
+      mockPrisma.tournamentPlayer.findFirst.mockResolvedValue({ id: 'player-1', deviceId: null });
+
+      await expect(tournamentService.setScorekeeper('tournament-1', 'player-1', true))
+        .rejects.toMatchObject({ statusCode: 400, message: 'That player has no device to keep score on' });
+      expect(mockPrisma.tournamentPlayer.update).not.toHaveBeenCalled();
+    });
+  });
+});
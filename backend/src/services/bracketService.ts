@@ -10,6 +10,15 @@
  */
 
 import { TournamentType, TournamentPlayerStatus, TournamentRoundType, TournamentRoundStatus, TournamentMatchStatus } from './types/tournament';
+import {
+  SlotEntry,
+  SlotSource,
+  buildDoubleElimination,
+  realMatchSlots,
+  resolveDoubleElimination
+} from '../utils/doubleElimination';
+import { SwissMatchRecord, computeSwissStandings, pairSwissRound, swissRoundCount } from '../utils/swissPairing';
+import { bracketPositions } from '../utils/tournamentEntries';
 
 interface TournamentPlayer {
   id: string;
@@ -17,6 +26,7 @@ interface TournamentPlayer {
   seed?: number;
   skillLevel?: string;
   winRate?: number;
+  rankingPoints?: number;
 }
 
 interface BracketMatch {
@@ -117,6 +127,11 @@ export class BracketService {
       }
     }
 
+    // Standard placement: seed 1 meets the lowest seed, and seeds 1 and 2 are in opposite halves
+    if (adjustedPlayers.length === maxPlayersInRound) {
+      adjustedPlayers = bracketPositions(maxPlayersInRound).map(seed => adjustedPlayers[seed - 1]);
+    }
+
     // Generate each round
     for (let roundNum = 1; roundNum <= totalRounds; roundNum++) {
       const round: BracketRound = {
@@ -167,34 +182,62 @@ export class BracketService {
 
   /**
    * Generate double elimination bracket
+   * Later-round sides are placeholders naming the match they come from, e.g. "Loser of W2-1".
+   * Slots left empty by byes have no match; the grand final reset is only played if the losers-bracket champion wins the grand final.
    */
   private static generateDoubleEliminationBracket(
     tournamentId: string,
     players: TournamentPlayer[]
   ): TournamentBracket {
-    // Double elimination is more complex - simplified version
-    const singleElimination = this.generateSingleEliminationBracket(tournamentId, players, true);
+    const layout = buildDoubleElimination(players.length);
+    const realSlots = realMatchSlots(layout, players.length);
+    const state = resolveDoubleElimination(layout, players.length, new Map());
+
+    const describe = (entry: SlotEntry, source: SlotSource) => {
+      if (entry) {
+        return { id: players[entry - 1].id, name: players[entry - 1].playerName };
+      }
+      return { id: '', name: source.type === 'seed' ? 'BYE' : `${source.type === 'winner' ? 'Winner' : 'Loser'} of ${source.slotId}` };
+    };
 
-    // Add losers bracket rounds (simplified)
-    const losersRounds: BracketRound[] = [];
+    const rounds: BracketRound[] = layout.rounds.map((round, index) => {
+      const matches = round.slots
+        .filter(slot => realSlots.has(slot.id))
+        .map(slot => {
+          const resolved = state.slots.get(slot.id)!;
+          const side1 = describe(resolved.entry1, slot.sources[0]);
+          const side2 = describe(resolved.entry2, slot.sources[1]);
+          return {
+            id: `${tournamentId}-${slot.id}`,
+            roundNumber: index + 1,
+            matchNumber: slot.matchNumber,
+            player1Id: side1.id,
+            player2Id: side2.id,
+            player1Name: side1.name,
+            player2Name: side2.name
+          };
+        });
 
-    for (let i = 1; i < singleElimination.totalRounds; i++) {
-      const losersRound: BracketRound = {
-        roundNumber: i + singleElimination.totalRounds,
-        roundName: `Losers Round ${i}`,
+      return {
+        roundNumber: index + 1,
+        roundName: round.name,
         roundType: TournamentRoundType.ELIMINATION,
-        matches: [], // Would need complex logic to generate
-        playersAdvancing: Math.pow(2, singleElimination.totalRounds - i - 1),
+        matches,
+        playersAdvancing: matches.length,
         status: TournamentRoundStatus.PENDING
       };
-      losersRounds.push(losersRound);
-    }
+    });
+
+    const byePlayers = layout.rounds[0].slots
+      .map(slot => state.slots.get(slot.id)!)
+      .filter(slot => slot.state === 'BYE')
+      .map(slot => players[slot.winner! - 1].id);
 
     return {
-      rounds: [...singleElimination.rounds, ...losersRounds],
-      totalRounds: singleElimination.totalRounds + losersRounds.length,
-      totalMatches: singleElimination.totalMatches + losersRounds.reduce((sum, round) => sum + round.matches.length, 0),
-      byePlayers: singleElimination.byePlayers
+      rounds,
+      totalRounds: rounds.length,
+      totalMatches: rounds.reduce((sum, round) => sum + round.matches.length, 0),
+      byePlayers
     };
   }
 
@@ -253,39 +296,29 @@ export class BracketService {
   ): TournamentBracket {
     const rounds: BracketRound[] = [];
     const playerCount = players.length;
+    const actualRounds = maxRounds || swissRoundCount(playerCount);
 
-    // Swiss system: typically 5-7 rounds
-    const defaultRounds = Math.max(5, Math.ceil(Math.log2(playerCount)));
-    const actualRounds = maxRounds ? Math.min(maxRounds, defaultRounds) : defaultRounds;
+    // Only the first round can be paired up front; later rounds are paired from the standings as results come in
+    const firstRound = this.generateSwissMatches(tournamentId, players, 1, [], []);
 
     for (let roundNum = 1; roundNum <= actualRounds; roundNum++) {
-      const round: BracketRound = {
+      rounds.push({
         roundNumber: roundNum,
         roundName: `Swiss Round ${roundNum}`,
         roundType: TournamentRoundType.SWISS,
-        matches: [],
+        matches: roundNum === 1
+          ? firstRound.matches.map((match, index) => ({ ...match, roundNumber: roundNum, matchNumber: index + 1 }))
+          : [],
         playersAdvancing: playerCount, // All players continue
         status: TournamentRoundStatus.PENDING
-      };
-
-      // In Swiss system, players are paired based on current standings
-      // Simplified: pair players with similar records
-      const matches = this.generateSwissMatches(tournamentId, players, roundNum);
-
-      round.matches = matches.map((match, index) => ({
-        ...match,
-        roundNumber: roundNum,
-        matchNumber: index + 1
-      }));
-
-      rounds.push(round);
+      });
     }
 
     return {
       rounds,
       totalRounds: actualRounds,
       totalMatches: rounds.reduce((sum, round) => sum + round.matches.length, 0),
-      byePlayers: []
+      byePlayers: firstRound.bye ? [firstRound.bye] : []
     };
   }
 
@@ -298,13 +331,16 @@ export class BracketService {
       return [...players].sort(() => Math.random() - 0.5);
     }
 
-    // Sort by explicit seed, then by win rate, then by skill level
+    // Sort by explicit seed, then by ranking points, win rate and skill level
     return [...players].sort((a, b) => {
       // Explicit seed takes precedence
       if (a.seed && b.seed) return a.seed - b.seed;
       if (a.seed && !b.seed) return -1;
       if (!a.seed && b.seed) return 1;
 
+      // Then by ranking points
+      if ((a.rankingPoints || 0) !== (b.rankingPoints || 0)) return (b.rankingPoints || 0) - (a.rankingPoints || 0);
+
       // Then by win rate
       if (a.winRate && b.winRate) return b.winRate - a.winRate;
 
@@ -397,35 +433,29 @@ export class BracketService {
   }
 
   /**
-   * Generate Swiss system matches for a round
+   * Generate Swiss system matches for a round from the results of earlier rounds
+   * Players are paired within score groups without rematches; the bye goes to the lowest-placed player who hasn't had one.
    */
   private static generateSwissMatches(
     tournamentId: string,
     players: TournamentPlayer[],
-    roundNumber: number
-  ): Omit<BracketMatch, 'roundNumber' | 'matchNumber'>[] {
-    const matches: Omit<BracketMatch, 'roundNumber' | 'matchNumber'>[] = [];
-
-    // Simplified Swiss pairing: pair players with similar "scores"
-    // In a real implementation, this would track actual match results
-    const sortedPlayers = [...players].sort((a, b) => (b.winRate || 0) - (a.winRate || 0));
-
-    for (let i = 0; i < sortedPlayers.length; i += 2) {
-      if (i + 1 < sortedPlayers.length) {
-        const player1 = sortedPlayers[i];
-        const player2 = sortedPlayers[i + 1];
-
-        matches.push({
-          id: `${tournamentId}-SW${roundNumber}-M${Math.floor(i/2) + 1}`,
-          player1Id: player1.id,
-          player2Id: player2.id,
-          player1Name: player1.playerName,
-          player2Name: player2Name
-        });
-      }
-    }
-
-    return matches;
+    roundNumber: number,
+    results: SwissMatchRecord[],
+    byes: string[]
+  ): { matches: Omit<BracketMatch, 'roundNumber' | 'matchNumber'>[]; bye: string | null } {
+    const entries = players.map((player, index) => ({ id: player.id, seed: index + 1 }));
+    const pairing = pairSwissRound(computeSwissStandings(entries, results, byes));
+    const playerName = (id: string) => players.find(p => p.id === id)!.playerName;
+
+    const matches = pairing.pairs.map(([player1Id, player2Id], index) => ({
+      id: `${tournamentId}-SW${roundNumber}-M${index + 1}`,
+      player1Id,
+      player2Id,
+      player1Name: playerName(player1Id),
+      player2Name: playerName(player2Id)
+    }));
+
+    return { matches, bye: pairing.bye };
   }
 
   /**
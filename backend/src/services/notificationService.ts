@@ -581,6 +581,24 @@ export class NotificationHelpers {
     });
   }
 
+  static async sendWaitlistSpotNotification(
+    playerId: string,
+    sessionName: string,
+    shareCode: string,
+    offerExpiresAt: Date
+  ): Promise<void> {
+    const title = 'A Spot Opened Up 🏓';
+    const body = `${sessionName}: you're off the waitlist. Confirm your spot by ${offerExpiresAt.toLocaleTimeString()}`;
+
+    await NotificationService.sendNotification(playerId, {
+      title,
+      body,
+      type: NotificationType.SESSION_REMINDER,
+      category: NotificationCategory.SESSIONS,
+      data: { sessionName, shareCode, updateType: 'WAITLIST_SPOT_OFFERED', offerExpiresAt: offerExpiresAt.toISOString() },
+    });
+  }
+
   static async sendSystemAnnouncementNotification(
     playerId: string,
     announcementTitle: string,
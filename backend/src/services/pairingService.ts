@@ -1,6 +1,7 @@
 import { PrismaClient, MvpPlayer } from '@prisma/client';
 import { cacheService } from './cacheService';
 import { PerformanceService } from './performanceService';
+import { PlayerCategory, RotationMode } from '../utils/rotationAlgorithm';
 
 const performanceService = new PerformanceService();
 
@@ -13,6 +14,7 @@ export interface PlayerForPairing {
   gamesPlayed: number;
   wins: number;
   losses: number;
+  category?: PlayerCategory | null;
 }
 
 export interface Pairing {
@@ -63,7 +65,8 @@ export class PairingService {
           status: true,
           gamesPlayed: true,
           wins: true,
-          losses: true
+          losses: true,
+          category: true
         },
         orderBy: {
           gamesPlayed: 'asc' // Prioritize players with fewer games
@@ -76,7 +79,8 @@ export class PairingService {
         status: player.status as 'ACTIVE' | 'RESTING' | 'LEFT',
         gamesPlayed: player.gamesPlayed,
         wins: player.wins,
-        losses: player.losses
+        losses: player.losses,
+        category: player.category as PlayerCategory | null
       }));
 
       // Cache the result for 30 seconds (players change frequently)
@@ -92,9 +96,13 @@ export class PairingService {
 
   /**
     * Generate fair pairings using a simple algorithm
-    * Prioritizes players with fewer games played
+    * Prioritizes players with fewer games played; mixed mode pairs one male with one female where possible
     */
-  static async generatePairings(sessionId: string, algorithm: 'fair' | 'random' = 'fair'): Promise<PairingResult> {
+  static async generatePairings(
+    sessionId: string,
+    algorithm: 'fair' | 'random' = 'fair',
+    mode: RotationMode = 'standard'
+  ): Promise<PairingResult> {
     const startTime = Date.now();
 
     try {
@@ -107,14 +115,14 @@ export class PairingService {
       let pairings: Pairing[] = [];
       let oddPlayerOut: string | undefined;
 
-      if (algorithm === 'random') {
-        // Simple random pairing
-        const shuffled = [...activePlayers].sort(() => Math.random() - 0.5);
-        pairings = this.createOptimizedPairsFromList(shuffled);
+      const orderedPlayers = algorithm === 'random'
+        ? [...activePlayers].sort(() => Math.random() - 0.5) // Simple random pairing
+        : [...activePlayers].sort((a, b) => a.gamesPlayed - b.gamesPlayed); // Fair pairing based on games played
+
+      if (mode === 'mixed') {
+        pairings = this.createMixedPairsFromList(orderedPlayers);
       } else {
-        // Fair pairing based on games played
-        const sortedByGames = [...activePlayers].sort((a, b) => a.gamesPlayed - b.gamesPlayed);
-        pairings = this.createOptimizedPairsFromList(sortedByGames);
+        pairings = this.createOptimizedPairsFromList(orderedPlayers);
       }
 
       // Handle odd number of players
@@ -205,6 +213,44 @@ export class PairingService {
     return pairings;
   }
 
+  /**
+   * Mixed doubles pairing: one male and one female per pair while both are available
+   * Players without a category fill whichever side is short, then any remaining players pair up
+   * in queue order so an uneven ratio still produces full pairs
+   */
+  private static createMixedPairsFromList(players: PlayerForPairing[]): Pairing[] {
+    const males = players.filter(p => p.category === 'male');
+    const females = players.filter(p => p.category === 'female');
+    const flexible = players.filter(p => !p.category);
+    const pairs: PlayerForPairing[][] = [];
+
+    while (males.length > 0 && females.length > 0) {
+      pairs.push([males.shift()!, females.shift()!]);
+    }
+
+    const unmatched = [...males, ...females];
+    while (unmatched.length > 0 && flexible.length > 0) {
+      pairs.push([unmatched.shift()!, flexible.shift()!]);
+    }
+
+    // Fallback when the ratio is uneven: remaining players pair in queue order
+    const remaining = players.filter(p => unmatched.includes(p) || flexible.includes(p));
+    for (let i = 0; i < remaining.length; i += 2) {
+      pairs.push(remaining.slice(i, i + 2));
+    }
+
+    return pairs.map((pairPlayers, index) => ({
+      id: `pairing_${index + 1}_${Date.now()}`,
+      court: index + 1,
+      players: pairPlayers.map((player, position) => ({
+        id: player.id,
+        name: player.name,
+        position: position === 0 ? 'left' : 'right'
+      })),
+      createdAt: new Date()
+    }));
+  }
+
   /**
    * Round-robin pairing for large groups
    */
@@ -0,0 +1,132 @@
+// Payment Providers - Stripe in production; a local mock provider for tests and for running without Stripe
+// Set PAYMENT_PROVIDER=mock to take payments through the mock provider
+
+import {
+  CreatePaymentIntentRequest,
+  CreateRefundRequest,
+  PaymentConfig,
+  PaymentIntent,
+  PaymentIntentResponse,
+  PaymentIntentStatus,
+  PaymentProvider,
+  RefundResponse,
+} from '../types/payment';
+import { PaymentService } from './paymentService';
+
+/**
+ * In-memory payment provider: payments stay pending until completed or failed by hand
+ */
+export class MockPaymentProvider implements PaymentProvider {
+  private paymentIntents = new Map<string, PaymentIntent>();
+  private refunds: Array<{ id: string; paymentIntentId: string; amount: number }> = [];
+  private nextId = 1;
+
+  async createPaymentIntent(request: CreatePaymentIntentRequest, userId?: string): Promise<PaymentIntentResponse> {
+    if (request.amount <= 0) {
+      return { success: false, error: 'Amount must be greater than zero' };
+    }
+
+    const id = `pi_mock_${this.nextId++}`;
+    const paymentIntent: PaymentIntent = {
+      id,
+      amount: request.amount,
+      currency: request.currency,
+      status: PaymentIntentStatus.REQUIRES_PAYMENT_METHOD,
+      clientSecret: `${id}_secret`,
+      paymentMethodId: request.paymentMethodId,
+      metadata: { userId: userId || '', ...request.metadata },
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.paymentIntents.set(id, paymentIntent);
+
+    return { success: true, paymentIntent: { ...paymentIntent } };
+  }
+
+  async getPaymentIntent(paymentIntentId: string): Promise<PaymentIntent | null> {
+    const paymentIntent = this.paymentIntents.get(paymentIntentId);
+    return paymentIntent ? { ...paymentIntent } : null;
+  }
+
+  async cancelPayment(paymentIntentId: string): Promise<PaymentIntentResponse> {
+    const paymentIntent = this.paymentIntents.get(paymentIntentId);
+    if (!paymentIntent) {
+      return { success: false, error: 'Payment intent not found' };
+    }
+    if ([PaymentIntentStatus.SUCCEEDED, PaymentIntentStatus.PROCESSING].includes(paymentIntent.status)) {
+      return { success: false, error: `A ${paymentIntent.status} payment can't be canceled` };
+    }
+
+    this.setStatus(paymentIntentId, PaymentIntentStatus.CANCELED);
+    return { success: true, paymentIntent: { ...paymentIntent } };
+  }
+
+  async createRefund(request: CreateRefundRequest): Promise<RefundResponse> {
+    const paymentIntent = this.paymentIntents.get(request.paymentIntentId);
+    if (!paymentIntent || paymentIntent.status !== PaymentIntentStatus.SUCCEEDED) {
+      return { success: false, error: 'No charge found for this payment intent' };
+    }
+
+    const refunded = this.refunds
+      .filter(refund => refund.paymentIntentId === request.paymentIntentId)
+      .reduce((sum, refund) => sum + refund.amount, 0);
+    const amount = request.amount ?? paymentIntent.amount - refunded;
+    if (amount <= 0 || refunded + amount > paymentIntent.amount) {
+      return { success: false, error: 'Refund exceeds the amount paid' };
+    }
+
+    const refund = { id: `re_mock_${this.nextId++}`, paymentIntentId: request.paymentIntentId, amount };
+    this.refunds.push(refund);
+    return { success: true, refund };
+  }
+
+  /**
+   * Complete a payment, as the customer paying would
+   */
+  completePayment(paymentIntentId: string): void {
+    this.setStatus(paymentIntentId, PaymentIntentStatus.SUCCEEDED);
+  }
+
+  /**
+   * Fail a payment, as a declined card would
+   */
+  failPayment(paymentIntentId: string): void {
+    this.setStatus(paymentIntentId, PaymentIntentStatus.CANCELED);
+  }
+
+  getRefunds(paymentIntentId: string) {
+    return this.refunds.filter(refund => refund.paymentIntentId === paymentIntentId);
+  }
+
+  private setStatus(paymentIntentId: string, status: PaymentIntentStatus): void {
+    const paymentIntent = this.paymentIntents.get(paymentIntentId);
+    if (!paymentIntent) {
+      throw new Error('Payment intent not found');
+    }
+    paymentIntent.status = status;
+    paymentIntent.updatedAt = new Date();
+  }
+}
+
+/**
+ * The payment provider for this environment
+ */
+export function createPaymentProvider(): PaymentProvider {
+  if (process.env.PAYMENT_PROVIDER === 'mock') {
+    return new MockPaymentProvider();
+  }
+
+  const paymentConfig: PaymentConfig = {
+    stripe: {
+      publishableKey: process.env.STRIPE_PUBLISHABLE_KEY || '',
+      secretKey: process.env.STRIPE_SECRET_KEY || '',
+      webhookSecret: process.env.STRIPE_WEBHOOK_SECRET || '',
+      apiVersion: '2023-10-16',
+    },
+    defaultCurrency: 'usd',
+    supportedCurrencies: ['usd', 'cad', 'eur', 'gbp'],
+    maxRefundDays: 90,
+    enableWebhooks: true,
+  };
+  return new PaymentService(paymentConfig);
+}
@@ -15,6 +15,7 @@ import {
   WebhookEventType,
   StripeConfig,
   PaymentConfig,
+  PaymentProvider,
 } from '../types/payment';
 
 // Temporary in-memory storage until Prisma client is generated
@@ -27,7 +28,7 @@ function generateId(prefix: string): string {
   return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
-export class PaymentService {
+export class PaymentService implements PaymentProvider {
   private stripe: Stripe;
   private config: PaymentConfig;
 
@@ -197,14 +198,16 @@ export class PaymentService {
       // Find the payment intent to get the charge ID
       const paymentIntent = await this.stripe.paymentIntents.retrieve(request.paymentIntentId);
 
-      if (!paymentIntent.charges.data.length) {
+      if (!paymentIntent.latest_charge) {
         return {
           success: false,
           error: 'No charge found for this payment intent',
         };
       }
 
-      const chargeId = paymentIntent.charges.data[0].id;
+      const chargeId = typeof paymentIntent.latest_charge === 'string'
+        ? paymentIntent.latest_charge
+        : paymentIntent.latest_charge.id;
 
       const refund = await this.stripe.refunds.create({
         charge: chargeId,
@@ -240,18 +243,30 @@ export class PaymentService {
    */
   async getPaymentIntent(paymentIntentId: string): Promise<PaymentIntent | null> {
     const localIntent = paymentIntentStore.find(pi => pi.id === paymentIntentId);
-    if (!localIntent) return null;
 
     try {
-      // Get latest status from Stripe
+      // Get latest status from Stripe, which also knows intents created before a restart or on another instance
       const stripeIntent = await this.stripe.paymentIntents.retrieve(paymentIntentId);
+      if (!localIntent) {
+        return {
+          id: stripeIntent.id,
+          amount: stripeIntent.amount / 100,
+          currency: stripeIntent.currency,
+          status: stripeIntent.status as PaymentIntentStatus,
+          clientSecret: stripeIntent.client_secret || '',
+          paymentMethodId: typeof stripeIntent.payment_method === 'string' ? stripeIntent.payment_method : stripeIntent.payment_method?.id,
+          metadata: stripeIntent.metadata,
+          createdAt: new Date(stripeIntent.created * 1000),
+          updatedAt: new Date(),
+        };
+      }
       localIntent.status = stripeIntent.status as PaymentIntentStatus;
       localIntent.updatedAt = new Date();
     } catch (error) {
       console.error('Error retrieving payment intent from Stripe:', error);
     }
 
-    return localIntent;
+    return localIntent || null;
   }
 
   /**
@@ -0,0 +1,146 @@
+import { prisma } from '../config/database';
+import { gameTeams } from '../utils/gameFormat';
+import {
+  MomentumStats,
+  RallySetup,
+  RallyState,
+  ScoringSystem,
+  TeamNumber,
+  calculateMomentum,
+  replayRallies
+} from '../utils/rallyScoring';
+
+export interface RallyGame {
+  id: string;
+  team1Player1: string;
+  team1Player2: string;
+  team2Player1: string;
+  team2Player2: string;
+  startTime: Date | null;
+  scoringSystem: string | null;
+  bestOfGames: number | null;
+  firstServerTeam: number | null;
+  firstServer: string | null;
+  firstReceiver: string | null;
+}
+
+export interface ServeSetup {
+  firstServerTeam?: TeamNumber;
+  firstServer?: string;
+  firstReceiver?: string;
+}
+
+export interface RallyLog {
+  setup: RallySetup;
+  state: RallyState;
+  momentum: MomentumStats;
+}
+
+export class RallyScoringService {
+  /**
+   * Scoring setup for a game: the snapshot taken at its first rally, otherwise the session configuration
+   */
+  static buildSetup(
+    game: RallyGame,
+    configuration: { scoringSystem: string; bestOfGames: number } | null,
+    serve: ServeSetup = {}
+  ): RallySetup {
+    const [team1, team2] = gameTeams(game);
+    const started = game.firstServerTeam !== null;
+
+    return {
+      team1,
+      team2,
+      scoringSystem: (game.scoringSystem || configuration?.scoringSystem || '21_POINT') as ScoringSystem,
+      bestOfGames: game.bestOfGames || configuration?.bestOfGames || 3,
+      firstServerTeam: (started ? game.firstServerTeam : serve.firstServerTeam || 1) as TeamNumber,
+      firstServer: (started ? game.firstServer : serve.firstServer) || undefined,
+      firstReceiver: (started ? game.firstReceiver : serve.firstReceiver) || undefined
+    };
+  }
+
+  /**
+   * Replay the stored rallies for a game
+   */
+  static async getRallyLog(game: RallyGame, setup: RallySetup): Promise<RallyLog> {
+    const rallies = await prisma.mvpRally.findMany({
+      where: { gameId: game.id },
+      orderBy: { rallyNumber: 'asc' },
+      select: { winnerTeam: true }
+    });
+
+    const state = replayRallies(setup, rallies.map(r => r.winnerTeam as TeamNumber));
+    return { setup, state, momentum: calculateMomentum(state.rallies) };
+  }
+
+  /**
+   * Store the latest rally of a new state along with the set totals and game result it produces
+   * The first rally also fixes the game's scoring setup. Concurrent scorers collide on the rally number.
+   * A pending submitter leaves the finished result waiting for confirmation.
+   */
+  static async saveRally(
+    game: RallyGame,
+    setup: RallySetup,
+    state: RallyState,
+    recordedBy?: string,
+    pending?: { submittedBy: string | null }
+  ) {
+    const rally = state.rallies[state.rallies.length - 1];
+    const endTime = state.isComplete ? new Date() : undefined;
+
+    return prisma.$transaction(async tx => {
+      const savedRally = await tx.mvpRally.create({
+        data: {
+          gameId: game.id,
+          rallyNumber: rally.rallyNumber,
+          setNumber: rally.setNumber,
+          winnerTeam: rally.winnerTeam,
+          serverTeam: rally.serverTeam,
+          server: rally.server,
+          receiver: rally.receiver,
+          serviceCourt: rally.serviceCourt,
+          team1Score: rally.team1Score,
+          team2Score: rally.team2Score,
+          recordedBy
+        }
+      });
+
+      // The rally's set, plus the next set when this rally finished one
+      for (const set of state.sets.filter(s => s.setNumber >= rally.setNumber)) {
+        const scores = {
+          team1Score: set.team1Score,
+          team2Score: set.team2Score,
+          winnerTeam: set.winnerTeam,
+          isCompleted: set.isCompleted
+        };
+        await tx.mvpGameSet.upsert({
+          where: { gameId_setNumber: { gameId: game.id, setNumber: set.setNumber } },
+          update: scores,
+          create: { gameId: game.id, setNumber: set.setNumber, ...scores }
+        });
+      }
+
+      const updatedGame = await tx.mvpGame.update({
+        where: { id: game.id },
+        data: {
+          scoringSystem: setup.scoringSystem,
+          bestOfGames: setup.bestOfGames,
+          firstServerTeam: setup.firstServerTeam,
+          firstServer: setup.firstServer || null,
+          firstReceiver: setup.firstReceiver || null,
+          team1FinalScore: state.setsWon.team1,
+          team2FinalScore: state.setsWon.team2,
+          ...(endTime && {
+            winnerTeam: state.winnerTeam,
+            status: 'COMPLETED' as const,
+            endTime,
+            duration: game.startTime ? Math.round((endTime.getTime() - game.startTime.getTime()) / (1000 * 60)) : null,
+            ...(pending && { confirmationStatus: 'PENDING' as const, submittedBy: pending.submittedBy })
+          })
+        }
+      });
+
+      return { rally: savedRally, game: updatedGame };
+    });
+  }
+}
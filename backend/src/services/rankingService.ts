@@ -1,4 +1,13 @@
 import { PrismaClient } from '@prisma/client';
+import {
+  GlickoRating,
+  GLICKO_DEFAULTS,
+  applyInactivity,
+  rateTeamGame,
+  ratingPeriodsBetween
+} from '../utils/glicko2';
+import { ReplayGame, replayRatings } from '../utils/ratingReplay';
+import { gameTeams } from '../utils/gameFormat';
 
 const prisma = new PrismaClient();
 
@@ -6,6 +15,7 @@ export interface RankingEntry {
   playerId: string;
   playerName: string;
   rating: number;
+  ratingDeviation: number;
   rank: number;
   previousRank?: number;
   matchesPlayed: number;
@@ -23,26 +33,66 @@ export interface RankingHistory {
 }
 
 class RankingService {
-  private readonly INITIAL_RATING = 1200;
-  private readonly K_FACTOR = 32; // ELO K-factor for rating changes
+  private readonly INITIAL_RATING = GLICKO_DEFAULTS.INITIAL_RATING;
   private readonly MIN_MATCHES_FOR_RANKING = 3;
 
   /**
-   * Calculate expected score for ELO rating system
+   * Build the Glicko-2 rating for a player, inflating deviation for inactive rating periods
    */
-  private calculateExpectedScore(ratingA: number, ratingB: number): number {
-    return 1 / (1 + Math.pow(10, (ratingB - ratingA) / 400));
+  private toGlickoRating(
+    player: {
+      rankingPoints: number;
+      ratingDeviation: number;
+      ratingVolatility: number;
+      ratingUpdatedAt: Date | null;
+      lastMatchDate: Date | null;
+    },
+    asOf: Date
+  ): GlickoRating {
+    const lastRated = player.ratingUpdatedAt || player.lastMatchDate;
+    const rating: GlickoRating = {
+      rating: player.rankingPoints || this.INITIAL_RATING,
+      deviation: player.ratingDeviation || GLICKO_DEFAULTS.INITIAL_DEVIATION,
+      volatility: player.ratingVolatility || GLICKO_DEFAULTS.INITIAL_VOLATILITY
+    };
+
+    return lastRated ? applyInactivity(rating, ratingPeriodsBetween(lastRated, asOf)) : rating;
   }
 
   /**
-   * Calculate new rating after a match
+   * Persist new ratings for the players of a rated game and record their history
    */
-  private calculateNewRating(currentRating: number, expectedScore: number, actualScore: number): number {
-    return Math.round(currentRating + this.K_FACTOR * (actualScore - expectedScore));
+  private async applyRatingChanges(
+    changes: Array<{ player: { id: string; rankingPoints: number; ranking: number | null }; rating: GlickoRating; won: boolean }>,
+    playedAt: Date,
+    matchId: string
+  ): Promise<void> {
+    for (const { player, rating, won } of changes) {
+      const newPoints = Math.round(rating.rating);
+
+      await prisma.mvpPlayer.update({
+        where: { id: player.id },
+        data: {
+          rankingPoints: newPoints,
+          ratingDeviation: rating.deviation,
+          ratingVolatility: rating.volatility,
+          ratingUpdatedAt: playedAt,
+          lastMatchDate: playedAt
+        }
+      });
+
+      await this.recordRatingHistory(player.id, newPoints, playedAt, {
+        matchId,
+        changeReason: won ? 'match_win' : 'match_loss',
+        pointsChange: newPoints - (player.rankingPoints || this.INITIAL_RATING),
+        previousRanking: player.ranking,
+        performanceRating: rating.rating - 2 * rating.deviation
+      });
+    }
   }
 
   /**
-   * Update player ratings after a match
+   * Update player ratings after a singles match
    */
   async updateRatingsAfterMatch(matchId: string): Promise<void> {
     try {
@@ -60,52 +110,256 @@ class RankingService {
         throw new Error('Match not found');
       }
 
-      // Get current ratings
-      const player1Rating = match.player1.rankingPoints || this.INITIAL_RATING;
-      const player2Rating = match.player2.rankingPoints || this.INITIAL_RATING;
+      const result = rateTeamGame({
+        team1: [this.toGlickoRating(match.player1, match.recordedAt)],
+        team2: [this.toGlickoRating(match.player2, match.recordedAt)],
+        team1Score: match.winnerId === match.player1Id ? 1 : 0
+      });
 
-      // Calculate expected scores
-      const expectedScore1 = this.calculateExpectedScore(player1Rating, player2Rating);
-      const expectedScore2 = this.calculateExpectedScore(player2Rating, player1Rating);
+      await this.applyRatingChanges([
+        { player: match.player1, rating: result.team1[0], won: match.winnerId === match.player1Id },
+        { player: match.player2, rating: result.team2[0], won: match.winnerId === match.player2Id }
+      ], match.recordedAt, matchId);
 
-      // Determine actual scores (1 for win, 0 for loss)
-      const actualScore1 = match.winnerId === match.player1Id ? 1 : 0;
-      const actualScore2 = match.winnerId === match.player2Id ? 1 : 0;
+      // Update rankings for all players
+      await this.updateAllRankings();
 
-      // Calculate new ratings
-      const newRating1 = this.calculateNewRating(player1Rating, expectedScore1, actualScore1);
-      const newRating2 = this.calculateNewRating(player2Rating, expectedScore2, actualScore2);
+    } catch (error) {
+      console.error('Error updating ratings after match:', error);
+      throw error;
+    }
+  }
 
-      // Update player ratings in database
-      await prisma.mvpPlayer.update({
-        where: { id: match.player1Id },
-        data: {
-          rankingPoints: newRating1,
-          lastMatchDate: match.recordedAt
+  /**
+   * Update player ratings after a completed singles or doubles session game
+   */
+  async updateRatingsAfterGame(gameId: string): Promise<void> {
+    try {
+      const game = await prisma.mvpGame.findUnique({
+        where: { id: gameId }
+      });
+
+      if (!game) {
+        throw new Error('Game not found');
+      }
+
+      if (game.status !== 'COMPLETED' || !game.winnerTeam) {
+        throw new Error('Game is not completed');
+      }
+
+      if (game.confirmationStatus !== 'CONFIRMED') {
+        throw new Error('Game score is waiting for confirmation');
+      }
+
+      const [team1Names, team2Names] = gameTeams(game);
+
+      const players = await prisma.mvpPlayer.findMany({
+        where: {
+          sessionId: game.sessionId,
+          name: { in: [...team1Names, ...team2Names] }
         }
       });
 
-      await prisma.mvpPlayer.update({
-        where: { id: match.player2Id },
-        data: {
-          rankingPoints: newRating2,
-          lastMatchDate: match.recordedAt
+      const findPlayer = (name: string) => {
+        const player = players.find(p => p.name === name);
+        if (!player) {
+          throw new Error(`Player ${name} not found in session`);
         }
+        return player;
+      };
+
+      const team1Players = team1Names.map(findPlayer);
+      const team2Players = team2Names.map(findPlayer);
+      const playedAt = game.endTime || game.updatedAt;
+
+      const result = rateTeamGame({
+        team1: team1Players.map(p => this.toGlickoRating(p, playedAt)),
+        team2: team2Players.map(p => this.toGlickoRating(p, playedAt)),
+        team1Score: game.winnerTeam === 1 ? 1 : 0
       });
 
-      // Record rating history
-      await this.recordRatingHistory(match.player1Id, newRating1, match.recordedAt, matchId);
-      await this.recordRatingHistory(match.player2Id, newRating2, match.recordedAt, matchId);
+      await this.applyRatingChanges([
+        ...team1Players.map((player, i) => ({ player, rating: result.team1[i], won: game.winnerTeam === 1 })),
+        ...team2Players.map((player, i) => ({ player, rating: result.team2[i], won: game.winnerTeam === 2 }))
+      ], playedAt, gameId);
 
       // Update rankings for all players
       await this.updateAllRankings();
 
     } catch (error) {
-      console.error('Error updating ratings after match:', error);
+      console.error('Error updating ratings after game:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Inflate rating deviation for players who have not played for whole rating periods
+   * Replaces the flat weekly points decay: ratings stay put, confidence in them drops
+   */
+  async applyInactivityDecay(asOf: Date = new Date()): Promise<number> {
+    try {
+      const periodMs = GLICKO_DEFAULTS.RATING_PERIOD_DAYS * 24 * 60 * 60 * 1000;
+      const players = await prisma.mvpPlayer.findMany({
+        where: {
+          OR: [
+            { ratingUpdatedAt: { lte: new Date(asOf.getTime() - periodMs) } },
+            { ratingUpdatedAt: null, lastMatchDate: { lte: new Date(asOf.getTime() - periodMs) } }
+          ]
+        }
+      });
+
+      let decayedCount = 0;
+      for (const player of players) {
+        const lastRated = player.ratingUpdatedAt || player.lastMatchDate;
+        if (!lastRated) continue;
+
+        const periods = ratingPeriodsBetween(lastRated, asOf);
+        if (periods === 0) continue;
+
+        const decayed = this.toGlickoRating(player, asOf);
+        const periodEnd = new Date(lastRated.getTime() + periods * periodMs);
+
+        await prisma.mvpPlayer.update({
+          where: { id: player.id },
+          data: {
+            ratingDeviation: decayed.deviation,
+            ratingUpdatedAt: periodEnd
+          }
+        });
+
+        await this.recordRatingHistory(player.id, player.rankingPoints || this.INITIAL_RATING, periodEnd, {
+          changeReason: 'decay',
+          pointsChange: 0,
+          previousRanking: player.ranking,
+          performanceRating: (player.rankingPoints || this.INITIAL_RATING) - 2 * decayed.deviation
+        });
+        decayedCount++;
+      }
+
+      return decayedCount;
+    } catch (error) {
+      console.error('Error applying inactivity decay:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Rebuild ratings, ranking history and rankings from the full game history
+   * Safe to run repeatedly: each run resets the affected players and replays from scratch
+   */
+  async replayRatings(options: { sessionId?: string } = {}): Promise<{ sessionsReplayed: number; gamesReplayed: number }> {
+    try {
+      const sessions = await prisma.mvpSession.findMany({
+        where: options.sessionId ? { id: options.sessionId } : {},
+        select: { id: true },
+        orderBy: { createdAt: 'asc' }
+      });
+
+      if (options.sessionId && sessions.length === 0) {
+        throw new Error('Session not found');
+      }
+
+      let gamesReplayed = 0;
+      for (const session of sessions) {
+        gamesReplayed += await this.replaySessionRatings(session.id);
+      }
+
+      // Rankings span all sessions, so recompute positions once at the end
+      await this.updateAllRankings();
+
+      return { sessionsReplayed: sessions.length, gamesReplayed };
+    } catch (error) {
+      console.error('Error replaying ratings:', error);
       throw error;
     }
   }
 
+  /**
+   * Replay every rated game of one session and overwrite its players' rating state
+   */
+  private async replaySessionRatings(sessionId: string): Promise<number> {
+    const players = await prisma.mvpPlayer.findMany({
+      where: { sessionId },
+      select: { id: true, name: true }
+    });
+    const idByName = new Map(players.map(p => [p.name, p.id]));
+    const toIds = (names: string[]) => names.map(name => idByName.get(name) || `missing:${name}`);
+
+    const games = await prisma.mvpGame.findMany({
+      where: {
+        sessionId,
+        status: 'COMPLETED',
+        confirmationStatus: 'CONFIRMED',
+        winnerTeam: { not: null },
+        OR: [
+          { matchId: null },
+          { match: { status: { not: 'CANCELLED' } } }
+        ]
+      }
+    });
+
+    const singlesMatches = await prisma.match.findMany({
+      where: { sessionId }
+    });
+
+    const replayGames: ReplayGame[] = [
+      ...games.map(game => ({
+        id: game.id,
+        playedAt: game.endTime || game.updatedAt,
+        team1: toIds(gameTeams(game)[0]),
+        team2: toIds(gameTeams(game)[1]),
+        winnerTeam: game.winnerTeam as 1 | 2
+      })),
+      ...singlesMatches.map(match => ({
+        id: match.id,
+        playedAt: match.recordedAt,
+        team1: [match.player1Id],
+        team2: [match.player2Id],
+        winnerTeam: (match.winnerId === match.player1Id ? 1 : 2) as 1 | 2
+      }))
+    ];
+
+    const result = replayRatings(players.map(p => p.id), replayGames);
+    const playerIds = players.map(p => p.id);
+
+    await prisma.$transaction(async (tx) => {
+      await tx.playerRankingHistory.deleteMany({
+        where: { playerId: { in: playerIds } }
+      });
+
+      for (const [playerId, state] of result.players) {
+        await tx.mvpPlayer.update({
+          where: { id: playerId },
+          data: {
+            rankingPoints: Math.round(state.rating.rating),
+            ratingDeviation: state.rating.deviation,
+            ratingVolatility: state.rating.volatility,
+            ratingUpdatedAt: state.lastPlayedAt,
+            lastMatchDate: state.lastPlayedAt
+          }
+        });
+      }
+
+      if (result.history.length > 0) {
+        await tx.playerRankingHistory.createMany({
+          data: result.history.map(entry => ({
+            playerId: entry.playerId,
+            ranking: entry.ranking,
+            rankingPoints: entry.rankingPoints,
+            performanceRating: entry.performanceRating,
+            changeReason: entry.won ? 'match_win' : 'match_loss',
+            matchId: entry.gameId,
+            previousRanking: entry.previousRanking,
+            pointsChange: entry.pointsChange,
+            recordedAt: entry.recordedAt
+          }))
+        });
+      }
+    });
+
+    return result.gamesReplayed;
+  }
+
   /**
    * Record rating history for a player
    */
@@ -113,7 +367,13 @@ class RankingService {
     playerId: string,
     rating: number,
     recordedAt: Date,
-    matchId?: string
+    change: {
+      matchId?: string;
+      changeReason?: string;
+      pointsChange?: number;
+      previousRanking?: number | null;
+      performanceRating?: number;
+    } = {}
   ): Promise<void> {
     try {
       // Get current rank for this player
@@ -124,12 +384,12 @@ class RankingService {
           playerId,
           ranking: currentRank,
           rankingPoints: rating,
-          performanceRating: rating, // Use rating as performance rating for now
+          performanceRating: change.performanceRating ?? rating,
           recordedAt,
-          matchId,
-          changeReason: matchId ? 'match_win' : 'initial',
-          pointsChange: 0, // Will be calculated later if needed
-          previousRanking: null // Will be set if we track changes
+          matchId: change.matchId,
+          changeReason: change.changeReason || 'initial',
+          pointsChange: change.pointsChange || 0,
+          previousRanking: change.previousRanking ?? null
         }
       });
     } catch (error) {
@@ -197,6 +457,7 @@ class RankingService {
           id: true,
           name: true,
           rankingPoints: true,
+          ratingDeviation: true,
           ranking: true,
           gamesPlayed: true,
           wins: true,
@@ -209,6 +470,7 @@ class RankingService {
         playerId: player.id,
         playerName: player.name,
         rating: player.rankingPoints || this.INITIAL_RATING,
+        ratingDeviation: Math.round(player.ratingDeviation),
         rank: player.ranking || 0,
         matchesPlayed: player.gamesPlayed,
         winRate: player.gamesPlayed > 0 ? (player.wins / player.gamesPlayed) * 100 : 0,
@@ -337,6 +599,9 @@ class RankingService {
         where: { id: playerId },
         data: {
           rankingPoints: this.INITIAL_RATING,
+          ratingDeviation: GLICKO_DEFAULTS.INITIAL_DEVIATION,
+          ratingVolatility: GLICKO_DEFAULTS.INITIAL_VOLATILITY,
+          ratingUpdatedAt: null,
           ranking: null // Will be set when rankings are updated
         }
       });
@@ -0,0 +1,157 @@
+import { prisma } from '../config/database';
+import { cacheService } from './cacheService';
+import {
+  Court,
+  FairnessWeights,
+  GameHistory,
+  Player,
+  PlayerCategory,
+  RotationMode,
+  resolveFairnessWeights
+} from '../utils/rotationAlgorithm';
+import {
+  MAX_PLAN_ROUNDS,
+  RotationPlan,
+  planRotationSchedule,
+  replanRotationSchedule
+} from '../utils/schedulePlanner';
+import { GameFormat } from '../utils/gameFormat';
+
+const PLAN_CACHE_TTL = 4 * 60 * 60; // Plans live as long as a typical session
+const DEFAULT_PLAN_ROUNDS = 3;
+
+export interface RotationPlanResult {
+  plan: RotationPlan;
+  rounds: number;
+  mode: RotationMode;
+  weights: FairnessWeights;
+  allowSingles: boolean;
+}
+
+export class RotationPlanService {
+  private static cacheKey(shareCode: string): string {
+    return `rotation-plan:${shareCode}`;
+  }
+
+  /**
+   * Get the lookahead plan for a session, re-planning incrementally from the cached plan when possible
+   */
+  static async getRotationPlan(
+    shareCode: string,
+    options: { rounds?: number; mode?: RotationMode } = {}
+  ): Promise<RotationPlanResult | null> {
+    const session = await prisma.mvpSession.findFirst({
+      where: { shareCode },
+      include: {
+        players: {
+          select: {
+            id: true,
+            name: true,
+            status: true,
+            gamesPlayed: true,
+            wins: true,
+            losses: true,
+            restGamesRemaining: true,
+            restPreference: true,
+            skillLevel: true,
+            rankingPoints: true,
+            ratingDeviation: true,
+            category: true,
+            joinedAt: true
+          },
+          orderBy: { joinedAt: 'asc' }
+        },
+        configuration: {
+          select: { genderPreference: true, rotationWeights: true, allowSingles: true }
+        },
+        games: {
+          where: { status: { in: ['IN_PROGRESS', 'COMPLETED'] } },
+          orderBy: { gameNumber: 'asc' }
+        }
+      }
+    });
+
+    if (!session) {
+      return null;
+    }
+
+    const gameHistory: GameHistory[] = session.games.map(g => ({
+      id: g.id,
+      gameNumber: g.gameNumber,
+      format: g.format as GameFormat,
+      team1Player1: g.team1Player1,
+      team1Player2: g.team1Player2,
+      team2Player1: g.team2Player1,
+      team2Player2: g.team2Player2,
+      winnerTeam: g.winnerTeam || undefined,
+      status: g.status as 'IN_PROGRESS' | 'COMPLETED',
+      matchId: g.matchId || undefined,
+      gameInMatch: g.gameInMatch || undefined
+    }));
+
+    // Last game each player appeared in, so waiting time carries into the plan
+    const lastGameNumbers = new Map<string, number>();
+    gameHistory.forEach(g => {
+      [g.team1Player1, g.team1Player2, g.team2Player1, g.team2Player2]
+        .filter(Boolean)
+        .forEach(name => lastGameNumbers.set(name, g.gameNumber));
+    });
+
+    const players: Player[] = session.players.map(p => ({
+      id: p.id,
+      name: p.name,
+      status: p.status as 'ACTIVE' | 'RESTING' | 'LEFT',
+      gamesPlayed: p.gamesPlayed,
+      wins: p.wins,
+      losses: p.losses,
+      joinedAt: p.joinedAt,
+      lastGameNumber: lastGameNumbers.get(p.name),
+      restGamesRemaining: p.restGamesRemaining,
+      restPreference: p.restPreference ?? undefined,
+      skillLevel: p.skillLevel,
+      rankingPoints: p.rankingPoints,
+      ratingDeviation: p.ratingDeviation,
+      category: p.category as PlayerCategory | null
+    }));
+
+    const courts: Court[] = Array.from({ length: session.courtCount }, (_, index) => ({
+      id: `court-${index + 1}`,
+      name: `Court ${index + 1}`,
+      isAvailable: true
+    }));
+
+    const cached = await cacheService.get<RotationPlanResult>(this.cacheKey(shareCode));
+    const rounds = Math.max(1, Math.min(MAX_PLAN_ROUNDS, options.rounds || DEFAULT_PLAN_ROUNDS));
+    const mode: RotationMode = options.mode
+      || (session.configuration?.genderPreference === 'mixed' ? 'mixed' : 'standard');
+    const weights = resolveFairnessWeights((session.configuration?.rotationWeights as Partial<FairnessWeights> | null) || undefined);
+    const allowSingles = session.configuration?.allowSingles ?? false;
+
+    // A cached plan is only a starting point when it was built with the same settings
+    const sameSettings = cached?.rounds === rounds
+      && cached.mode === mode
+      && cached.allowSingles === allowSingles
+      && JSON.stringify(cached.weights) === JSON.stringify(weights);
+    const plan = cached && sameSettings
+      ? replanRotationSchedule(cached.plan, players, gameHistory, courts, { rounds, mode, weights, allowSingles })
+      : planRotationSchedule(players, gameHistory, courts, { rounds, mode, weights, allowSingles });
+
+    const result = { plan, rounds, mode, weights, allowSingles };
+    await cacheService.set(this.cacheKey(shareCode), result, PLAN_CACHE_TTL);
+
+    return result;
+  }
+
+  /**
+   * Re-plan a session that already has a cached plan, e.g. after a player leaves or starts resting
+   * Returns null when nobody has requested a plan for the session yet.
+   */
+  static async refreshRotationPlan(shareCode: string): Promise<RotationPlanResult | null> {
+    const cached = await cacheService.get<RotationPlanResult>(this.cacheKey(shareCode));
+    if (!cached) {
+      return null;
+    }
+
+    return this.getRotationPlan(shareCode, { rounds: cached.rounds, mode: cached.mode });
+  }
+}
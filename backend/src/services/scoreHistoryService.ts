@@ -0,0 +1,196 @@
+import { prisma } from '../config/database';
+import { rankingService } from './rankingService';
+import { recomputeSessionStatistics } from '../utils/statisticsService';
+import { ScoreEvent, ScoreHistory, ScoreSnapshot, resolveScoreHistory } from '../utils/scoreHistory';
+
+export interface ScoreActor {
+  deviceId?: string;
+  name?: string;
+}
+
+export interface ScoredGame {
+  id: string;
+  sessionId: string;
+  matchId: string | null;
+  team1FinalScore: number;
+  team2FinalScore: number;
+  winnerTeam: number | null;
+  status: string;
+  endTime: Date | null;
+}
+
+export class ScoreHistoryService {
+  private static async loadEvents(gameId: string): Promise<ScoreEvent[]> {
+    const rows = await prisma.mvpScoreEvent.findMany({
+      where: { gameId },
+      orderBy: { sequence: 'asc' }
+    });
+
+    return rows.map(row => ({
+      id: row.id,
+      sequence: row.sequence,
+      type: row.type,
+      targetEventId: row.targetEventId,
+      snapshot: row.type === 'SCORE'
+        ? {
+          team1FinalScore: row.team1FinalScore ?? 0,
+          team2FinalScore: row.team2FinalScore ?? 0,
+          winnerTeam: row.winnerTeam,
+          status: row.status === 'COMPLETED' ? 'COMPLETED' : 'IN_PROGRESS'
+        }
+        : null,
+      actorDeviceId: row.actorDeviceId,
+      actorName: row.actorName,
+      createdAt: row.createdAt
+    }));
+  }
+
+  /**
+   * Full edit history of a game, including edits that were later undone
+   */
+  static async getHistory(gameId: string): Promise<ScoreHistory> {
+    return resolveScoreHistory(await this.loadEvents(gameId));
+  }
+
+  /**
+   * Identify who is editing from their device, falling back to the raw device ID
+   */
+  static async resolveActor(sessionId: string, deviceId?: string): Promise<ScoreActor> {
+    if (!deviceId) {
+      return {};
+    }
+
+    const player = await prisma.mvpPlayer.findFirst({
+      where: { sessionId, deviceId },
+      select: { name: true }
+    });
+
+    return { deviceId, name: player?.name };
+  }
+
+  /**
+   * Log a submitted score before it is written to the game
+   * Games completed before history was kept get their existing result logged first, so the edit can be undone to it.
+   */
+  static async recordScore(game: ScoredGame, snapshot: ScoreSnapshot, actor: ScoreActor): Promise<void> {
+    const existingEvents = await prisma.mvpScoreEvent.count({ where: { gameId: game.id } });
+    let sequence = existingEvents;
+
+    if (existingEvents === 0 && game.status === 'COMPLETED') {
+      await prisma.mvpScoreEvent.create({
+        data: {
+          gameId: game.id,
+          sequence: ++sequence,
+          type: 'SCORE',
+          team1FinalScore: game.team1FinalScore,
+          team2FinalScore: game.team2FinalScore,
+          winnerTeam: game.winnerTeam,
+          status: 'COMPLETED'
+        }
+      });
+    }
+
+    await prisma.mvpScoreEvent.create({
+      data: {
+        gameId: game.id,
+        sequence: sequence + 1,
+        type: 'SCORE',
+        ...snapshot,
+        actorDeviceId: actor.deviceId,
+        actorName: actor.name
+      }
+    });
+  }
+
+  /**
+   * Undo or redo the latest score edit, then write the resulting score back and rebuild stats and ratings
+   * Returns null when there is nothing to undo or redo.
+   */
+  static async revertScore(game: ScoredGame, type: 'UNDO' | 'REDO', actor: ScoreActor) {
+    const events = await this.loadEvents(game.id);
+    const history = resolveScoreHistory(events);
+    const target = type === 'UNDO' ? history.undoTarget : history.redoTarget;
+
+    if (!target) {
+      return null;
+    }
+
+    await prisma.mvpScoreEvent.create({
+      data: {
+        gameId: game.id,
+        sequence: (events[events.length - 1]?.sequence || 0) + 1,
+        type,
+        targetEventId: target.id,
+        actorDeviceId: actor.deviceId,
+        actorName: actor.name
+      }
+    });
+
+    const updatedHistory = await this.getHistory(game.id);
+    const { current } = updatedHistory;
+
+    // A reverted standalone result goes back for confirmation when the session requires it
+    const configuration = game.matchId
+      ? null
+      : await prisma.mvpSessionConfiguration.findUnique({
+        where: { sessionId: game.sessionId },
+        select: { requireScoreConfirmation: true }
+      });
+    const needsConfirmation = !!configuration?.requireScoreConfirmation && current.status === 'COMPLETED';
+
+    const updatedGame = await prisma.mvpGame.update({
+      where: { id: game.id },
+      data: {
+        ...current,
+        endTime: current.status === 'COMPLETED' ? game.endTime || new Date() : null,
+        confirmationStatus: needsConfirmation ? 'PENDING' : 'CONFIRMED',
+        submittedBy: needsConfirmation ? actor.name || actor.deviceId || null : undefined,
+        confirmedBy: null,
+        confirmedAt: null,
+        disputedBy: null,
+        disputeReason: null
+      }
+    });
+
+    if (game.matchId) {
+      await this.recomputeMatch(game.matchId);
+    }
+
+    await recomputeSessionStatistics(game.sessionId);
+    try {
+      await rankingService.replayRatings({ sessionId: game.sessionId });
+    } catch (rankingError) {
+      console.error('Error replaying rankings after score revert:', rankingError);
+    }
+
+    return { game: updatedGame, history: updatedHistory, target };
+  }
+
+  /**
+   * Re-derive a match's game tally and result from its games
+   */
+  private static async recomputeMatch(matchId: string): Promise<void> {
+    const match = await prisma.mvpMatch.findUnique({
+      where: { id: matchId },
+      include: { games: { where: { status: 'COMPLETED' } } }
+    });
+
+    if (!match) return;
+
+    const team1GamesWon = match.games.filter(g => g.winnerTeam === 1).length;
+    const team2GamesWon = match.games.filter(g => g.winnerTeam === 2).length;
+    const requiredWins = Math.ceil(match.bestOf / 2);
+    const winnerTeam = team1GamesWon >= requiredWins ? 1 : team2GamesWon >= requiredWins ? 2 : null;
+
+    await prisma.mvpMatch.update({
+      where: { id: matchId },
+      data: {
+        team1GamesWon,
+        team2GamesWon,
+        winnerTeam,
+        status: winnerTeam ? 'COMPLETED' : 'IN_PROGRESS',
+        endTime: winnerTeam ? match.endTime || new Date() : null
+      }
+    });
+  }
+}
@@ -0,0 +1,324 @@
+import { MvpJoinRequest, MvpPlayer, MvpWaitlistEntry } from '@prisma/client';
+import { prisma } from '../config/database';
+import { cacheService } from './cacheService';
+import { SessionWaitlistService } from './sessionWaitlistService';
+import { JoinDenialCode, decideJoin, signInviteToken, verifyInviteToken } from '../utils/sessionAccess';
+
+const DEFAULT_INVITE_HOURS = 72;
+const MAX_ACCESS_CODE_ATTEMPTS = 5;
+const ACCESS_CODE_LOCKOUT_SECONDS = 15 * 60;
+
+export interface JoinInput {
+  name: string;
+  deviceId?: string;
+  category?: string | null;
+  accessCode?: string;
+  inviteToken?: string;
+  clientKey: string; // Who is guessing access codes, usually the client's IP
+}
+
+export type JoinDenial = {
+  outcome: 'DENIED';
+  code: JoinDenialCode | 'INVITE_INVALID' | 'TOO_MANY_ATTEMPTS' | 'SESSION_FULL';
+  message: string;
+};
+
+export type JoinResult =
+  | { outcome: 'JOINED'; player: MvpPlayer }
+  | { outcome: 'PENDING_APPROVAL'; request: MvpJoinRequest }
+  | { outcome: 'WAITLISTED'; entry: MvpWaitlistEntry; position: number | null }
+  | JoinDenial;
+
+// HTTP status for each reason a join is turned away
+export const JOIN_DENIAL_STATUS: Record<JoinDenial['code'], number> = {
+  INVITE_REQUIRED: 403,
+  INVITE_INVALID: 403,
+  ACCESS_CODE_REQUIRED: 403,
+  ACCESS_CODE_INVALID: 403,
+  TOO_MANY_ATTEMPTS: 429,
+  SESSION_FULL: 403
+};
+
+const invalidInvite = (message: string): JoinDenial => ({ outcome: 'DENIED', code: 'INVITE_INVALID', message });
+
+export class SessionAccessService {
+  /**
+   * The key invite tokens are signed with; anyone who knows it can forge invites, so there is no default
+   */
+  static inviteSecret(): string {
+    const secret = process.env.SESSION_INVITE_SECRET || process.env.JWT_SECRET;
+    if (!secret) {
+      throw new Error('SESSION_INVITE_SECRET or JWT_SECRET must be set to sign session invites');
+    }
+    return secret;
+  }
+
+  /**
+   * Join a session under its access rules: approval queue, invite-only and access code
+   * Players let in while the session is full go on its waitlist instead. Callers check the session
+   * is active and doesn't already have the player before joining.
+   */
+  static async join(session: { id: string; shareCode: string; maxPlayers: number }, input: JoinInput): Promise<JoinResult> {
+    const rules = await prisma.mvpSessionConfiguration.findUnique({
+      where: { sessionId: session.id },
+      select: { requireApproval: true, inviteOnly: true, accessCode: true }
+    }) || { requireApproval: false, inviteOnly: false, accessCode: null };
+
+    let inviteId: string | null = null;
+    if (input.inviteToken) {
+      const invite = await this.findUsableInvite(session.id, input.inviteToken);
+      if ('outcome' in invite) {
+        return invite;
+      }
+      inviteId = invite.id;
+    }
+
+    // Wrong access codes are counted per client so a share link can't be used to guess the code
+    const attemptsKey = `join-attempts:${session.id}:${input.clientKey}`;
+    if (rules.accessCode && !inviteId) {
+      const attempts = (await cacheService.get<number>(attemptsKey)) || 0;
+      if (attempts >= MAX_ACCESS_CODE_ATTEMPTS) {
+        return { outcome: 'DENIED', code: 'TOO_MANY_ATTEMPTS', message: 'Too many incorrect access codes; try again later' };
+      }
+    }
+
+    const decision = decideJoin(rules, { hasInvite: Boolean(inviteId), accessCode: input.accessCode });
+    if (decision.outcome === 'DENIED') {
+      if (decision.code === 'ACCESS_CODE_INVALID') {
+        const attempts = (await cacheService.get<number>(attemptsKey)) || 0;
+        await cacheService.set(attemptsKey, attempts + 1, ACCESS_CODE_LOCKOUT_SECONDS);
+      }
+      return decision;
+    }
+
+    if (decision.outcome === 'APPROVAL') {
+      return { outcome: 'PENDING_APPROVAL', request: await this.queueJoinRequest(session, input) };
+    }
+
+    if (!(await SessionWaitlistService.hasOpenSpot(session))) {
+      const entry = await SessionWaitlistService.joinWaitlist(session, input);
+      if (!entry) {
+        return { outcome: 'DENIED', code: 'SESSION_FULL', message: 'Session is full' };
+      }
+      const { position } = await SessionWaitlistService.getEntry(session.id, entry.id);
+      return { outcome: 'WAITLISTED', entry, position };
+    }
+
+    const player = await prisma.$transaction(async tx => {
+      // Claiming the invite and creating the player together keeps the invite single-use under concurrent joins
+      if (inviteId) {
+        const claimed = await tx.mvpSessionInvite.updateMany({
+          where: { id: inviteId, usedAt: null, revokedAt: null },
+          data: { usedAt: new Date() }
+        });
+        if (claimed.count === 0) {
+          return null;
+        }
+      }
+
+      const player = await tx.mvpPlayer.create({
+        data: {
+          sessionId: session.id,
+          name: input.name,
+          deviceId: input.deviceId,
+          category: input.category || null,
+          status: 'ACTIVE'
+        }
+      });
+      if (inviteId) {
+        await tx.mvpSessionInvite.update({ where: { id: inviteId }, data: { usedByPlayerId: player.id } });
+      }
+      return player;
+    });
+
+    return player ? { outcome: 'JOINED', player } : invalidInvite('This invite has already been used');
+  }
+
+  /**
+   * Pending join requests, oldest first
+   */
+  static async getPendingJoinRequests(sessionId: string): Promise<MvpJoinRequest[]> {
+    return prisma.mvpJoinRequest.findMany({
+      where: { sessionId, status: 'PENDING' },
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  /**
+   * A join request, so the person waiting can check whether they have been let in
+   */
+  static async getJoinRequest(sessionId: string, requestId: string): Promise<MvpJoinRequest> {
+    const request = await prisma.mvpJoinRequest.findFirst({ where: { id: requestId, sessionId } });
+    if (!request) {
+      throw new Error('Join request not found');
+    }
+    return request;
+  }
+
+  /**
+   * Let a pending request into the session, as long as there is still room and the name is free
+   */
+  static async approveJoinRequest(
+    session: { id: string; maxPlayers: number },
+    requestId: string
+  ): Promise<{ request: MvpJoinRequest; player: MvpPlayer }> {
+    const request = await this.findPendingRequest(session.id, requestId);
+
+    if (!(await SessionWaitlistService.hasOpenSpot(session))) {
+      throw new Error('Session is full');
+    }
+    const players = await prisma.mvpPlayer.findMany({ where: { sessionId: session.id }, select: { name: true } });
+    if (players.some(player => player.name.toLowerCase() === request.name.toLowerCase())) {
+      throw new Error('A player with this name already exists in the session');
+    }
+
+    return prisma.$transaction(async tx => {
+      // Claimed with updateMany so two approvals at once can't both add the player
+      const { count } = await tx.mvpJoinRequest.updateMany({
+        where: { id: requestId, status: 'PENDING' },
+        data: { status: 'APPROVED', respondedAt: new Date() }
+      });
+      if (count === 0) {
+        throw new Error('Join request has already been answered');
+      }
+
+      const player = await tx.mvpPlayer.create({
+        data: {
+          sessionId: session.id,
+          name: request.name,
+          deviceId: request.deviceId,
+          category: request.category,
+          status: 'ACTIVE'
+        }
+      });
+      const approved = await tx.mvpJoinRequest.update({
+        where: { id: requestId },
+        data: { playerId: player.id }
+      });
+      return { request: approved, player };
+    });
+  }
+
+  /**
+   * Turn a pending request away
+   */
+  static async rejectJoinRequest(sessionId: string, requestId: string): Promise<MvpJoinRequest> {
+    await this.findPendingRequest(sessionId, requestId);
+    const { count } = await prisma.mvpJoinRequest.updateMany({
+      where: { id: requestId, status: 'PENDING' },
+      data: { status: 'REJECTED', respondedAt: new Date() }
+    });
+    if (count === 0) {
+      throw new Error('Join request has already been answered');
+    }
+    return prisma.mvpJoinRequest.findUniqueOrThrow({ where: { id: requestId } });
+  }
+
+  /**
+   * Create a single-use invite and the signed token to share with the invitee
+   */
+  static async createInvite(
+    sessionId: string,
+    options: { invitedName?: string; expiresInHours?: number; createdBy?: string } = {}
+  ) {
+    const expiresAt = new Date(Date.now() + (options.expiresInHours || DEFAULT_INVITE_HOURS) * 60 * 60 * 1000);
+    const invite = await prisma.mvpSessionInvite.create({
+      data: {
+        sessionId,
+        invitedName: options.invitedName,
+        createdBy: options.createdBy,
+        expiresAt
+      }
+    });
+
+    return { invite, token: signInviteToken({ inviteId: invite.id, sessionId }, this.inviteSecret(), expiresAt) };
+  }
+
+  /**
+   * Revoke an invite that hasn't been used yet
+   */
+  static async revokeInvite(sessionId: string, inviteId: string) {
+    const invite = await prisma.mvpSessionInvite.findFirst({ where: { id: inviteId, sessionId } });
+    if (!invite) {
+      throw new Error('Invite not found');
+    }
+    if (invite.usedAt) {
+      throw new Error('Invite has already been used');
+    }
+
+    return prisma.mvpSessionInvite.update({
+      where: { id: inviteId },
+      data: { revokedAt: invite.revokedAt || new Date() }
+    });
+  }
+
+  /**
+   * Tell the organizer a request is waiting, or the session that a request has been answered
+   */
+  static async announceJoinRequest(shareCode: string, request: MvpJoinRequest): Promise<void> {
+    try {
+      // Import io from server dynamically to avoid circular dependency
+      const { io } = await import('../server');
+      if (request.status === 'PENDING') {
+        io.to(`session-${shareCode}-organizer`).emit('join_request_created', {
+          request,
+          timestamp: new Date().toISOString()
+        });
+      } else {
+        io.to(`session-${shareCode}`).emit('join_request_resolved', {
+          requestId: request.id,
+          status: request.status,
+          playerId: request.playerId,
+          timestamp: new Date().toISOString()
+        });
+      }
+    } catch (error) {
+      console.error('Failed to emit join request update:', error);
+    }
+  }
+
+  private static async findUsableInvite(sessionId: string, token: string) {
+    const payload = verifyInviteToken(token, this.inviteSecret());
+    if (!payload || payload.sessionId !== sessionId) {
+      return invalidInvite('This invite is invalid or has expired');
+    }
+
+    const invite = await prisma.mvpSessionInvite.findUnique({ where: { id: payload.inviteId } });
+    if (!invite || invite.revokedAt || invite.expiresAt < new Date()) {
+      return invalidInvite('This invite is invalid or has expired');
+    }
+    if (invite.usedAt) {
+      return invalidInvite('This invite has already been used');
+    }
+    return invite;
+  }
+
+  private static async findPendingRequest(sessionId: string, requestId: string): Promise<MvpJoinRequest> {
+    const request = await this.getJoinRequest(sessionId, requestId);
+    if (request.status !== 'PENDING') {
+      throw new Error('Join request has already been answered');
+    }
+    return request;
+  }
+
+  // Asking again from the same device returns the request already waiting
+  private static async queueJoinRequest(session: { id: string; shareCode: string }, input: JoinInput): Promise<MvpJoinRequest> {
+    const existing = input.deviceId
+      ? await prisma.mvpJoinRequest.findFirst({ where: { sessionId: session.id, deviceId: input.deviceId, status: 'PENDING' } })
+      : null;
+    if (existing) {
+      return existing;
+    }
+
+    const request = await prisma.mvpJoinRequest.create({
+      data: {
+        sessionId: session.id,
+        name: input.name,
+        deviceId: input.deviceId,
+        category: input.category || null
+      }
+    });
+    await this.announceJoinRequest(session.shareCode, request);
+    return request;
+  }
+}
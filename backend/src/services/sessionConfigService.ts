@@ -13,6 +13,7 @@ import {
   PrivacySettings,
   GameRules,
 } from '../types/sessionConfig';
+import { DEFAULT_FAIRNESS_WEIGHTS } from '../utils/rotationAlgorithm';
 
 const prisma = new PrismaClient();
 
@@ -47,6 +48,7 @@ export class SessionConfigService {
         gameTimeLimit: fullConfig.gameTimeLimit,
         setTimeLimit: fullConfig.setTimeLimit,
         restPeriod: fullConfig.restPeriod,
+        requireScoreConfirmation: fullConfig.requireScoreConfirmation,
 
         // Equipment Requirements
         racketRequired: fullConfig.racketRequired,
@@ -61,6 +63,10 @@ export class SessionConfigService {
         genderPreference: fullConfig.genderPreference,
         maxSkillGap: fullConfig.maxSkillGap,
 
+        // Rotation
+        rotationWeights: fullConfig.rotationWeights,
+        allowSingles: fullConfig.allowSingles,
+
         // Advanced Scheduling
         setupTime: fullConfig.setupTime,
         bufferTime: fullConfig.bufferTime,
@@ -84,6 +90,7 @@ export class SessionConfigService {
         requireApproval: fullConfig.requireApproval,
         inviteOnly: fullConfig.inviteOnly,
         maxWaitlist: fullConfig.maxWaitlist,
+        waitlistOfferMinutes: fullConfig.waitlistOfferMinutes,
         accessCode: fullConfig.accessCode,
 
         // Custom Rules
@@ -104,6 +111,7 @@ export class SessionConfigService {
         gameTimeLimit: fullConfig.gameTimeLimit,
         setTimeLimit: fullConfig.setTimeLimit,
         restPeriod: fullConfig.restPeriod,
+        requireScoreConfirmation: fullConfig.requireScoreConfirmation,
 
         // Equipment Requirements
         racketRequired: fullConfig.racketRequired,
@@ -118,6 +126,10 @@ export class SessionConfigService {
         genderPreference: fullConfig.genderPreference,
         maxSkillGap: fullConfig.maxSkillGap,
 
+        // Rotation
+        rotationWeights: fullConfig.rotationWeights,
+        allowSingles: fullConfig.allowSingles,
+
         // Advanced Scheduling
         setupTime: fullConfig.setupTime,
         bufferTime: fullConfig.bufferTime,
@@ -141,6 +153,7 @@ export class SessionConfigService {
         requireApproval: fullConfig.requireApproval,
         inviteOnly: fullConfig.inviteOnly,
         maxWaitlist: fullConfig.maxWaitlist,
+        waitlistOfferMinutes: fullConfig.waitlistOfferMinutes,
         accessCode: fullConfig.accessCode,
 
         // Custom Rules
@@ -218,6 +231,27 @@ export class SessionConfigService {
       }
     }
 
+    // Validate rotation weights
+    if (config.rotationWeights) {
+      const entries = Object.entries(config.rotationWeights);
+      const unknown = entries.filter(([key]) => !(key in DEFAULT_FAIRNESS_WEIGHTS)).map(([key]) => key);
+
+      if (unknown.length > 0) {
+        errors.push(`Unknown rotation weights: ${unknown.join(', ')}`);
+      }
+      if (entries.some(([, weight]) => typeof weight !== 'number' || weight < 0 || weight > 100)) {
+        errors.push('Rotation weights must be numbers between 0 and 100');
+      }
+
+      const resolved = { ...DEFAULT_FAIRNESS_WEIGHTS, ...config.rotationWeights };
+      if (Object.values(resolved).every(weight => weight === 0)) {
+        errors.push('At least one rotation weight must be greater than 0');
+      }
+      if (resolved.gamesPlayed === 0) {
+        warnings.push('Ignoring games played may leave some players sitting out much longer than others');
+      }
+    }
+
     // Validate time limits
     if (config.gameTimeLimit && config.gameTimeLimit < 5) {
       warnings.push('gameTimeLimit is very short (< 5 minutes)');
@@ -267,11 +301,20 @@ export class SessionConfigService {
         inviteOnly: false,
         substitutions: 'allowed',
         coachingAllowed: true,
+        allowSingles: true,
+        rotationWeights: {
+          gamesPlayed: 35,
+          partnershipDiversity: 30,
+          winLossBalance: 5,
+          recentPlay: 10,
+          opponentDiversity: 20,
+        },
       },
       competitive: {
         scoringSystem: '21_POINT',
         bestOfGames: 3,
         restPeriod: 2,
+        requireScoreConfirmation: true,
         racketRequired: true,
         shuttlecockType: 'feather',
         requireApproval: true,
@@ -279,11 +322,18 @@ export class SessionConfigService {
         coachingAllowed: false,
         minAge: 16,
         skillLevelMin: 'intermediate',
+        rotationWeights: {
+          gamesPlayed: 35,
+          partnershipDiversity: 15,
+          winLossBalance: 40,
+          recentPlay: 10,
+        },
       },
       tournament: {
         scoringSystem: '21_POINT',
         bestOfGames: 5,
         restPeriod: 3,
+        requireScoreConfirmation: true,
         racketRequired: true,
         shuttlecockType: 'feather',
         requireApproval: true,
@@ -323,6 +373,7 @@ export class SessionConfigService {
       gameTimeLimit: dbConfig.gameTimeLimit,
       setTimeLimit: dbConfig.setTimeLimit,
       restPeriod: dbConfig.restPeriod,
+      requireScoreConfirmation: dbConfig.requireScoreConfirmation,
 
       // Equipment Requirements
       racketRequired: dbConfig.racketRequired,
@@ -337,6 +388,10 @@ export class SessionConfigService {
       genderPreference: dbConfig.genderPreference,
       maxSkillGap: dbConfig.maxSkillGap,
 
+      // Rotation
+      rotationWeights: dbConfig.rotationWeights,
+      allowSingles: dbConfig.allowSingles,
+
       // Advanced Scheduling
       setupTime: dbConfig.setupTime,
       bufferTime: dbConfig.bufferTime,
@@ -360,6 +415,7 @@ export class SessionConfigService {
       requireApproval: dbConfig.requireApproval,
       inviteOnly: dbConfig.inviteOnly,
       maxWaitlist: dbConfig.maxWaitlist,
+      waitlistOfferMinutes: dbConfig.waitlistOfferMinutes,
       accessCode: dbConfig.accessCode,
 
       // Custom Rules
@@ -0,0 +1,442 @@
+import { MvpOwnershipEvent, MvpOwnershipEventType, MvpOwnershipTransfer, MvpPlayer, MvpSession } from '@prisma/client';
+import { prisma } from '../config/database';
+import { cacheService } from './cacheService';
+import {
+  checkTransferTarget,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  isTransferOpen,
+  transferExpiry
+} from '../utils/sessionOwnership';
+import { ServiceError } from '../utils/serviceError';
+
+const MAX_RECOVERY_ATTEMPTS = 5;
+const RECOVERY_LOCKOUT_SECONDS = 15 * 60;
+
+export interface NewOwner {
+  deviceId: string;
+  playerName?: string; // Needed when the device isn't a player in the session yet
+}
+
+export interface RecoveryInput extends NewOwner {
+  recoveryCode?: string;
+  userId?: string; // Logged-in account, for sessions linked to one
+  clientKey: string; // Who is guessing recovery codes, usually the client's IP
+}
+
+// What led to a change of owner, kept in the ownership log
+interface OwnershipChange {
+  type: MvpOwnershipEventType;
+  userId?: string;
+  transferId?: string;
+}
+
+export class SessionOwnershipService {
+  /**
+   * Replace a session's unused recovery codes with a fresh set
+   * The codes are only returned here; the session keeps their hashes.
+   */
+  static async issueRecoveryCodes(sessionId: string): Promise<string[]> {
+    const codes = generateRecoveryCodes();
+    await prisma.$transaction([
+      prisma.mvpRecoveryCode.deleteMany({ where: { sessionId, usedAt: null } }),
+      prisma.mvpRecoveryCode.createMany({
+        data: codes.map(code => ({ sessionId, codeHash: hashRecoveryCode(code) }))
+      })
+    ]);
+    return codes;
+  }
+
+  /**
+   * Recovery codes for a new session, and the first entry in its ownership log
+   */
+  static async setUpNewSession(session: Pick<MvpSession, 'id' | 'ownerName' | 'ownerDeviceId'>): Promise<string[]> {
+    const codes = await this.issueRecoveryCodes(session.id);
+    await this.log(session.id, {
+      type: 'CREATED',
+      toName: session.ownerName,
+      toDeviceId: session.ownerDeviceId
+    });
+    return codes;
+  }
+
+  /**
+   * New recovery codes for the owner, e.g. after using one or losing the list; the old ones stop working
+   */
+  static async reissueRecoveryCodes(shareCode: string, deviceId?: string): Promise<string[]> {
+    const session = await this.findSession(shareCode);
+    this.assertOwner(session, deviceId);
+
+    const codes = await this.issueRecoveryCodes(session.id);
+    await this.log(session.id, {
+      type: 'RECOVERY_CODES_REISSUED',
+      fromName: session.ownerName,
+      fromDeviceId: session.ownerDeviceId
+    });
+    return codes;
+  }
+
+  /**
+   * Take a session back on a new device, with a recovery code or the account the owner linked
+   * Each recovery code works once.
+   */
+  static async recover(shareCode: string, input: RecoveryInput): Promise<MvpPlayer> {
+    const session = await this.findSession(shareCode);
+
+    // Checked up front so a code isn't spent on a request that can't finish
+    if (!input.playerName && !(await prisma.mvpPlayer.findFirst({ where: { sessionId: session.id, deviceId: input.deviceId } }))) {
+      throw new ServiceError('Player name is required to take over the session on a new device', 400);
+    }
+
+    if (input.recoveryCode) {
+      // Wrong codes are counted per client so the share link can't be used to guess one
+      const attemptsKey = `recovery-attempts:${session.id}:${input.clientKey}`;
+      const attempts = (await cacheService.get<number>(attemptsKey)) || 0;
+      if (attempts >= MAX_RECOVERY_ATTEMPTS) {
+        throw new ServiceError('Too many incorrect recovery codes; try again later', 429);
+      }
+
+      // Claimed with updateMany so two devices can't both spend the same code
+      const { count } = await prisma.mvpRecoveryCode.updateMany({
+        where: { sessionId: session.id, codeHash: hashRecoveryCode(input.recoveryCode), usedAt: null },
+        data: { usedAt: new Date(), usedByDevice: input.deviceId }
+      });
+      if (count === 0) {
+        await cacheService.set(attemptsKey, attempts + 1, RECOVERY_LOCKOUT_SECONDS);
+        throw new ServiceError('Recovery code is incorrect or has already been used', 403);
+      }
+
+      return this.takeOwnership(session, input, { type: 'RECOVERED_WITH_CODE' });
+    }
+
+    if (!input.userId) {
+      throw new ServiceError('A recovery code or a linked account is required', 400);
+    }
+    if (!session.ownerUserId || session.ownerUserId !== input.userId) {
+      throw new ServiceError('Only the account linked to this session can recover it', 403);
+    }
+    return this.takeOwnership(session, input, { type: 'RECOVERED_WITH_ACCOUNT', userId: input.userId });
+  }
+
+  /**
+   * Move the session to a new owner device, making its player the organizer
+   * Used by every route to ownership, so each change is logged the same way. Offers of the
+   * session still waiting for an answer lapse, as they were made by the previous owner.
+   */
+  static async takeOwnership(
+    session: Pick<MvpSession, 'id' | 'shareCode' | 'ownerName' | 'ownerDeviceId'>,
+    owner: NewOwner,
+    change: OwnershipChange
+  ): Promise<MvpPlayer> {
+    const players = await prisma.mvpPlayer.findMany({
+      where: { sessionId: session.id },
+      orderBy: { joinedAt: 'asc' }
+    });
+    const previous = players.find(player => player.role === 'ORGANIZER');
+
+    const existing = players.find(player => player.deviceId === owner.deviceId)
+      || players.find(player => !!owner.playerName && player.name.toLowerCase() === owner.playerName.toLowerCase());
+    if (!existing && !owner.playerName) {
+      throw new ServiceError('Player name is required to take over the session on a new device', 400);
+    }
+
+    const now = new Date();
+    const organizer = await prisma.$transaction(async tx => {
+      const player = existing
+        ? await tx.mvpPlayer.update({
+          where: { id: existing.id },
+          data: { deviceId: owner.deviceId, role: 'ORGANIZER' }
+        })
+        : await tx.mvpPlayer.create({
+          data: {
+            sessionId: session.id,
+            name: owner.playerName!,
+            deviceId: owner.deviceId,
+            status: 'ACTIVE',
+            role: 'ORGANIZER'
+          }
+        });
+
+      await tx.mvpPlayer.updateMany({
+        where: { sessionId: session.id, id: { not: player.id }, role: 'ORGANIZER' },
+        data: { role: 'PLAYER' }
+      });
+
+      await tx.mvpSession.update({
+        where: { id: session.id },
+        data: {
+          ownerName: player.name,
+          ownerDeviceId: owner.deviceId,
+          ownershipClaimedAt: now
+        }
+      });
+
+      await tx.mvpOwnershipTransfer.updateMany({
+        where: { sessionId: session.id, status: 'PENDING', ...(change.transferId && { id: { not: change.transferId } }) },
+        data: { status: 'CANCELLED', respondedAt: now }
+      });
+
+      await tx.mvpOwnershipEvent.create({
+        data: {
+          sessionId: session.id,
+          type: change.type,
+          fromName: previous?.name ?? session.ownerName,
+          fromDeviceId: session.ownerDeviceId,
+          toName: player.name,
+          toDeviceId: owner.deviceId,
+          userId: change.userId,
+          transferId: change.transferId
+        }
+      });
+
+      return player;
+    });
+
+    await this.announce(session.shareCode, 'ownership_changed', {
+      playerId: organizer.id,
+      ownerName: organizer.name,
+      previousPlayerId: previous && previous.id !== organizer.id ? previous.id : null,
+      reason: change.type
+    });
+    return organizer;
+  }
+
+  /**
+   * Offer the session to another player; nothing changes until they accept
+   * Making a new offer withdraws any earlier one.
+   */
+  static async requestTransfer(
+    shareCode: string,
+    deviceId: string | undefined,
+    toPlayerId: string,
+    expiresInHours?: number
+  ): Promise<MvpOwnershipTransfer> {
+    const session = await this.findSession(shareCode);
+    this.assertOwner(session, deviceId);
+
+    const [owner, target] = await Promise.all([
+      prisma.mvpPlayer.findFirst({ where: { sessionId: session.id, deviceId } }),
+      prisma.mvpPlayer.findFirst({ where: { sessionId: session.id, id: toPlayerId } })
+    ]);
+    if (!owner || !target) {
+      throw new ServiceError('Player not found in session', 404);
+    }
+    const targetError = checkTransferTarget(owner, target);
+    if (targetError) {
+      throw new ServiceError(targetError, 400);
+    }
+
+    const now = new Date();
+    const [, transfer] = await prisma.$transaction([
+      prisma.mvpOwnershipTransfer.updateMany({
+        where: { sessionId: session.id, status: 'PENDING' },
+        data: { status: 'CANCELLED', respondedAt: now }
+      }),
+      prisma.mvpOwnershipTransfer.create({
+        data: {
+          sessionId: session.id,
+          fromPlayerId: owner.id,
+          toPlayerId: target.id,
+          expiresAt: transferExpiry(now, expiresInHours)
+        }
+      })
+    ]);
+
+    await this.log(session.id, {
+      type: 'TRANSFER_REQUESTED',
+      fromName: owner.name,
+      fromDeviceId: session.ownerDeviceId,
+      toName: target.name,
+      toDeviceId: target.deviceId,
+      transferId: transfer.id
+    });
+    await this.announce(session.shareCode, 'ownership_transfer_requested', {
+      transferId: transfer.id,
+      fromPlayerId: owner.id,
+      fromName: owner.name,
+      toPlayerId: target.id,
+      toName: target.name,
+      expiresAt: transfer.expiresAt
+    });
+    return transfer;
+  }
+
+  /**
+   * The offered player accepts, taking over the session, or declines it
+   */
+  static async respondToTransfer(
+    shareCode: string,
+    transferId: string,
+    deviceId: string | undefined,
+    accept: boolean
+  ): Promise<MvpOwnershipTransfer> {
+    const session = await this.findSession(shareCode);
+    const transfer = await this.findOpenTransfer(session.id, transferId);
+
+    const target = await prisma.mvpPlayer.findFirst({ where: { id: transfer.toPlayerId, sessionId: session.id } });
+    if (!target || !deviceId || target.deviceId !== deviceId) {
+      throw new ServiceError('Only the player the session was offered to can answer', 403);
+    }
+
+    // Claimed with updateMany so a double tap can't accept twice
+    const { count } = await prisma.mvpOwnershipTransfer.updateMany({
+      where: { id: transfer.id, status: 'PENDING' },
+      data: { status: accept ? 'ACCEPTED' : 'DECLINED', respondedAt: new Date() }
+    });
+    if (count === 0) {
+      throw new ServiceError('This transfer has already been answered', 409);
+    }
+
+    if (accept) {
+      await this.takeOwnership(session, { deviceId }, { type: 'TRANSFER_ACCEPTED', transferId: transfer.id });
+    } else {
+      await this.log(session.id, {
+        type: 'TRANSFER_DECLINED',
+        fromName: session.ownerName,
+        fromDeviceId: session.ownerDeviceId,
+        toName: target.name,
+        toDeviceId: target.deviceId,
+        transferId: transfer.id
+      });
+      await this.announce(session.shareCode, 'ownership_transfer_declined', { transferId: transfer.id, toName: target.name });
+    }
+
+    return prisma.mvpOwnershipTransfer.findUniqueOrThrow({ where: { id: transfer.id } });
+  }
+
+  /**
+   * Withdraw an offer before it is answered; owner only
+   */
+  static async cancelTransfer(shareCode: string, transferId: string, deviceId?: string): Promise<void> {
+    const session = await this.findSession(shareCode);
+    this.assertOwner(session, deviceId);
+    const transfer = await this.findOpenTransfer(session.id, transferId);
+
+    await prisma.mvpOwnershipTransfer.update({
+      where: { id: transfer.id },
+      data: { status: 'CANCELLED', respondedAt: new Date() }
+    });
+    await this.log(session.id, {
+      type: 'TRANSFER_CANCELLED',
+      fromName: session.ownerName,
+      fromDeviceId: session.ownerDeviceId,
+      transferId: transfer.id
+    });
+    await this.announce(session.shareCode, 'ownership_transfer_cancelled', { transferId: transfer.id });
+  }
+
+  /**
+   * Offers still waiting for an answer
+   */
+  static async getOpenTransfers(shareCode: string): Promise<MvpOwnershipTransfer[]> {
+    const session = await this.findSession(shareCode);
+    return prisma.mvpOwnershipTransfer.findMany({
+      where: { sessionId: session.id, status: 'PENDING', expiresAt: { gt: new Date() } },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  /**
+   * Link the session to the owner's account, so logging in on another phone is enough to recover it
+   */
+  static async linkAccount(shareCode: string, deviceId: string | undefined, userId: string): Promise<void> {
+    const session = await this.findSession(shareCode);
+    this.assertOwner(session, deviceId);
+
+    await prisma.mvpSession.update({ where: { id: session.id }, data: { ownerUserId: userId } });
+    await this.log(session.id, {
+      type: 'ACCOUNT_LINKED',
+      fromName: session.ownerName,
+      fromDeviceId: session.ownerDeviceId,
+      userId
+    });
+  }
+
+  /**
+   * Remove the account link; owner only
+   */
+  static async unlinkAccount(shareCode: string, deviceId?: string): Promise<void> {
+    const session = await this.findSession(shareCode);
+    this.assertOwner(session, deviceId);
+    if (!session.ownerUserId) {
+      return;
+    }
+
+    await prisma.mvpSession.update({ where: { id: session.id }, data: { ownerUserId: null } });
+    await this.log(session.id, {
+      type: 'ACCOUNT_UNLINKED',
+      fromName: session.ownerName,
+      fromDeviceId: session.ownerDeviceId,
+      userId: session.ownerUserId
+    });
+  }
+
+  /**
+   * Every change of owner, newest first; owner only
+   */
+  static async getOwnershipLog(shareCode: string, deviceId?: string): Promise<MvpOwnershipEvent[]> {
+    const session = await this.findSession(shareCode);
+    this.assertOwner(session, deviceId);
+
+    return prisma.mvpOwnershipEvent.findMany({
+      where: { sessionId: session.id },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  private static async log(
+    sessionId: string,
+    event: {
+      type: MvpOwnershipEventType;
+      fromName?: string | null;
+      fromDeviceId?: string | null;
+      toName?: string | null;
+      toDeviceId?: string | null;
+      userId?: string | null;
+      transferId?: string;
+    }
+  ): Promise<void> {
+    await prisma.mvpOwnershipEvent.create({ data: { sessionId, ...event } });
+  }
+
+  private static async findSession(shareCode: string): Promise<MvpSession> {
+    const session = await prisma.mvpSession.findUnique({ where: { shareCode } });
+    if (!session) {
+      throw new ServiceError('Session not found', 404);
+    }
+    return session;
+  }
+
+  // Offers past their expiry are marked as such the first time someone tries to use them
+  private static async findOpenTransfer(sessionId: string, transferId: string): Promise<MvpOwnershipTransfer> {
+    const transfer = await prisma.mvpOwnershipTransfer.findFirst({ where: { id: transferId, sessionId } });
+    if (!transfer) {
+      throw new ServiceError('Transfer not found', 404);
+    }
+    if (isTransferOpen(transfer)) {
+      return transfer;
+    }
+
+    if (transfer.status === 'PENDING') {
+      await prisma.mvpOwnershipTransfer.update({ where: { id: transfer.id }, data: { status: 'EXPIRED' } });
+      throw new ServiceError('This transfer has expired', 409);
+    }
+    throw new ServiceError('This transfer has already been answered', 409);
+  }
+
+  private static assertOwner(session: MvpSession, deviceId?: string): void {
+    if (!session.ownerDeviceId || session.ownerDeviceId !== deviceId) {
+      throw new ServiceError('Only the session owner can do this', 403);
+    }
+  }
+
+  private static async announce(shareCode: string, event: string, payload: Record<string, unknown>): Promise<void> {
+    try {
+      // Import io from server dynamically to avoid circular dependency
+      const { io } = await import('../server');
+      io.to(`session-${shareCode}`).emit(event, { ...payload, timestamp: new Date().toISOString() });
+    } catch (error) {
+      console.error('Failed to emit ownership update:', error);
+    }
+  }
+}
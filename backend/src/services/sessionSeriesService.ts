@@ -0,0 +1,365 @@
+import { MvpSeriesRegular, MvpSession, MvpSessionSeries } from '@prisma/client';
+import { prisma } from '../config/database';
+import { SessionOwnershipService } from './sessionOwnershipService';
+import { SessionWaitlistService } from './sessionWaitlistService';
+import { formatRecurrenceRule, listOccurrences, nextOccurrence, parseRecurrenceRule } from '../utils/recurrence';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_HORIZON_DAYS = 28;
+
+// Details that can be changed on one occurrence or on every future one
+export interface OccurrenceChanges {
+  name?: string;
+  location?: string | null;
+  maxPlayers?: number;
+  skillLevel?: string | null;
+  cost?: number | null;
+  description?: string | null;
+  courtCount?: number;
+}
+
+// A newly created occurrence with the recovery codes issued for it, which are only ever returned here
+export type NewOccurrence = MvpSession & { recoveryCodes: string[] };
+
+export interface CreateSeriesInput extends OccurrenceChanges {
+  name: string;
+  startsAt: Date;
+  recurrenceRule: string;
+  timeZone?: string;
+  horizonDays?: number;
+  ownerName: string;
+  ownerDeviceId?: string;
+}
+
+export type EditScope = 'THIS' | 'FUTURE';
+
+export interface RegularInput {
+  name: string;
+  deviceId?: string;
+  category?: string | null;
+}
+
+export class SessionSeriesService {
+  /**
+   * Create a series and the occurrences that fall within its horizon
+   */
+  static async createSeries(input: CreateSeriesInput): Promise<{ series: MvpSessionSeries; occurrences: NewOccurrence[] }> {
+    const series = await prisma.mvpSessionSeries.create({
+      data: {
+        // Stored normalised, so the pattern reads the same however it was typed
+        recurrenceRule: formatRecurrenceRule(parseRecurrenceRule(input.recurrenceRule)),
+        startsAt: input.startsAt,
+        timeZone: input.timeZone || 'UTC',
+        horizonDays: input.horizonDays || DEFAULT_HORIZON_DAYS,
+        name: input.name,
+        location: input.location,
+        maxPlayers: input.maxPlayers || 20,
+        skillLevel: input.skillLevel,
+        cost: input.cost,
+        description: input.description,
+        courtCount: input.courtCount || 1,
+        ownerName: input.ownerName,
+        ownerDeviceId: input.ownerDeviceId
+      }
+    });
+
+    return { series, occurrences: await this.materialise(series) };
+  }
+
+  /**
+   * A series with its regulars and upcoming occurrences
+   */
+  static async getSeries(seriesId: string) {
+    const series = await prisma.mvpSessionSeries.findUnique({
+      where: { id: seriesId },
+      include: {
+        regulars: { orderBy: { createdAt: 'asc' } },
+        occurrences: {
+          where: { status: 'ACTIVE', scheduledAt: { gte: new Date() } },
+          orderBy: { scheduledAt: 'asc' },
+          include: { _count: { select: { players: true } } }
+        }
+      }
+    });
+    if (!series) {
+      throw new Error('Series not found');
+    }
+    return series;
+  }
+
+  /**
+   * Create the occurrences that have come within the series' horizon since it was last run
+   * Each occurrence is a session of its own, with its own share code, recovery codes, the organizer and the series' regulars.
+   * Codes for occurrences created by the timer aren't shown to anyone; the organizer reissues them from the session.
+   */
+  static async materialise(series: MvpSessionSeries, now: Date = new Date()): Promise<NewOccurrence[]> {
+    if (series.status !== 'ACTIVE') {
+      return [];
+    }
+
+    const rule = parseRecurrenceRule(series.recurrenceRule);
+    const to = new Date(now.getTime() + series.horizonDays * DAY_MS);
+    const from = series.generatedUntil && series.generatedUntil > now
+      ? new Date(series.generatedUntil.getTime() + 1)
+      : now;
+
+    const regulars = await prisma.mvpSeriesRegular.findMany({
+      where: { seriesId: series.id },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    const created: NewOccurrence[] = [];
+    for (const occurrenceAt of listOccurrences(rule, series.startsAt, series.timeZone, { from, to })) {
+      const occurrence = await this.createOccurrence(series, occurrenceAt, regulars);
+      if (occurrence) {
+        created.push(occurrence);
+      }
+    }
+
+    const ended = !nextOccurrence(rule, series.startsAt, series.timeZone, to);
+    await prisma.mvpSessionSeries.update({
+      where: { id: series.id },
+      data: { generatedUntil: to, ...(ended && { status: 'ENDED' }) }
+    });
+    return created;
+  }
+
+  /**
+   * Materialise every active series; run on a timer so new occurrences appear without the organizer
+   */
+  static async materialiseAll(now: Date = new Date()): Promise<number> {
+    const series = await prisma.mvpSessionSeries.findMany({ where: { status: 'ACTIVE' } });
+
+    let created = 0;
+    for (const entry of series) {
+      created += (await this.materialise(entry, now)).length;
+    }
+    return created;
+  }
+
+  /**
+   * Edit one occurrence, or it and every later occurrence along with the series template
+   * Occurrences edited on their own keep their changes when the whole series is edited later.
+   * Only a single occurrence can be moved to another time.
+   */
+  static async updateOccurrence(
+    shareCode: string,
+    deviceId: string | undefined,
+    scope: EditScope,
+    changes: OccurrenceChanges,
+    scheduledAt?: Date
+  ): Promise<MvpSession[]> {
+    const session = await prisma.mvpSession.findUnique({ where: { shareCode }, include: { series: true } });
+    if (!session) {
+      throw new Error('Session not found');
+    }
+    if (!session.series) {
+      throw new Error('Session is not part of a series');
+    }
+    this.assertOrganizer(session.series, deviceId);
+
+    if (scope === 'THIS') {
+      const updated = await prisma.mvpSession.update({
+        where: { id: session.id },
+        data: { ...changes, ...(scheduledAt && { scheduledAt }), seriesOverride: true }
+      });
+      return [updated];
+    }
+
+    if (scheduledAt) {
+      throw new Error('Reschedule occurrences one at a time');
+    }
+
+    const later = {
+      seriesId: session.series.id,
+      status: 'ACTIVE' as const,
+      occurrenceAt: { gte: session.occurrenceAt! },
+      OR: [{ seriesOverride: false }, { id: session.id }]
+    };
+    await prisma.$transaction([
+      prisma.mvpSessionSeries.update({ where: { id: session.series.id }, data: changes }),
+      prisma.mvpSession.updateMany({ where: later, data: changes })
+    ]);
+    return prisma.mvpSession.findMany({ where: later, orderBy: { scheduledAt: 'asc' } });
+  }
+
+  /**
+   * Stop creating occurrences; those already created carry on as normal sessions
+   */
+  static async endSeries(seriesId: string, deviceId?: string): Promise<MvpSessionSeries> {
+    const series = await this.findSeries(seriesId);
+    this.assertOrganizer(series, deviceId);
+
+    return prisma.mvpSessionSeries.update({ where: { id: seriesId }, data: { status: 'ENDED' } });
+  }
+
+  /**
+   * Sign a player up as a regular: they join every new occurrence, and upcoming ones that have room
+   */
+  static async addRegular(seriesId: string, input: RegularInput): Promise<{ regular: MvpSeriesRegular; joined: string[] }> {
+    await this.findSeries(seriesId);
+
+    const existing = await prisma.mvpSeriesRegular.findFirst({
+      where: { seriesId, name: { equals: input.name, mode: 'insensitive' } }
+    });
+    if (existing && (!existing.deviceId || existing.deviceId !== input.deviceId)) {
+      throw new Error('A regular with this name already exists in the series');
+    }
+
+    const regular = existing || await prisma.mvpSeriesRegular.create({
+      data: {
+        seriesId,
+        name: input.name,
+        deviceId: input.deviceId,
+        category: input.category || null
+      }
+    });
+
+    const upcoming = await prisma.mvpSession.findMany({
+      where: { seriesId, status: 'ACTIVE', scheduledAt: { gt: new Date() } },
+      include: { players: { select: { name: true } } },
+      orderBy: { scheduledAt: 'asc' }
+    });
+
+    const joined: string[] = [];
+    for (const occurrence of upcoming) {
+      // Full occurrences, or ones with a waitlist, are left to the people already queueing
+      const alreadyIn = occurrence.players.some(player => player.name.toLowerCase() === regular.name.toLowerCase());
+      if (alreadyIn || !(await SessionWaitlistService.hasOpenSpot(occurrence))) {
+        continue;
+      }
+
+      await prisma.mvpPlayer.create({
+        data: {
+          sessionId: occurrence.id,
+          name: regular.name,
+          deviceId: regular.deviceId,
+          category: regular.category,
+          status: 'ACTIVE'
+        }
+      });
+      joined.push(occurrence.shareCode);
+    }
+    return { regular, joined };
+  }
+
+  /**
+   * Stop being a regular, by the player themselves or the organizer
+   * Occurrences they have already been added to are left alone; they leave those like any session.
+   */
+  static async removeRegular(seriesId: string, regularId: string, deviceId?: string): Promise<void> {
+    const series = await this.findSeries(seriesId);
+    const regular = await prisma.mvpSeriesRegular.findFirst({ where: { id: regularId, seriesId } });
+    if (!regular) {
+      throw new Error('Regular not found');
+    }
+
+    const isSelf = Boolean(regular.deviceId) && regular.deviceId === deviceId;
+    if (!isSelf) {
+      this.assertOrganizer(series, deviceId);
+    }
+
+    await prisma.mvpSeriesRegular.delete({ where: { id: regularId } });
+  }
+
+  private static async findSeries(seriesId: string): Promise<MvpSessionSeries> {
+    const series = await prisma.mvpSessionSeries.findUnique({ where: { id: seriesId } });
+    if (!series) {
+      throw new Error('Series not found');
+    }
+    return series;
+  }
+
+  private static assertOrganizer(series: MvpSessionSeries, deviceId?: string): void {
+    if (!series.ownerDeviceId || series.ownerDeviceId !== deviceId) {
+      throw new Error('Only the series organizer can do this');
+    }
+  }
+
+  // One session for a slot in the series, with the organizer and as many regulars as fit
+  private static async createOccurrence(
+    series: MvpSessionSeries,
+    occurrenceAt: Date,
+    regulars: MvpSeriesRegular[]
+  ): Promise<NewOccurrence | null> {
+    let shareCode = this.generateShareCode();
+    while (await prisma.mvpSession.findUnique({ where: { shareCode } })) {
+      shareCode = this.generateShareCode();
+    }
+
+    const seats = regulars
+      .filter(regular => regular.name.toLowerCase() !== series.ownerName.toLowerCase())
+      .slice(0, Math.max(0, series.maxPlayers - 1));
+
+    let occurrence: MvpSession;
+    try {
+      occurrence = await prisma.$transaction(async tx => {
+        const session = await tx.mvpSession.create({
+          data: {
+            name: series.name,
+            scheduledAt: occurrenceAt,
+            location: series.location,
+            maxPlayers: series.maxPlayers,
+            skillLevel: series.skillLevel,
+            cost: series.cost,
+            description: series.description,
+            courtCount: series.courtCount,
+            ownerName: series.ownerName,
+            ownerDeviceId: series.ownerDeviceId,
+            ownershipClaimedAt: series.ownerDeviceId ? new Date() : null,
+            shareCode,
+            status: 'ACTIVE',
+            isRecurring: true,
+            recurrencePattern: series.recurrenceRule,
+            seriesId: series.id,
+            occurrenceAt
+          }
+        });
+
+        await tx.mvpPlayer.create({
+          data: {
+            sessionId: session.id,
+            name: series.ownerName,
+            deviceId: series.ownerDeviceId,
+            status: 'ACTIVE',
+            role: 'ORGANIZER'
+          }
+        });
+        if (seats.length > 0) {
+          await tx.mvpPlayer.createMany({
+            data: seats.map(regular => ({
+              sessionId: session.id,
+              name: regular.name,
+              deviceId: regular.deviceId,
+              category: regular.category,
+              status: 'ACTIVE'
+            }))
+          });
+        }
+        return session;
+      });
+    } catch (error) {
+      // Another run already created this slot
+      if ((error as { code?: string }).code === 'P2002') {
+        return null;
+      }
+      throw error;
+    }
+
+    // Set up ownership the way a session created by hand is
+    const recoveryCodes = await SessionOwnershipService.setUpNewSession(occurrence);
+    return { ...occurrence, recoveryCodes };
+  }
+
+  /**
+   * Generate a 6-character share code
+   */
+  private static generateShareCode(): string {
+    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+    let result = '';
+    for (let i = 0; i < 6; i++) {
+      result += chars.charAt(Math.floor(Math.random() * chars.length));
+    }
+    return result;
+  }
+}
@@ -0,0 +1,285 @@
+import { MvpPlayer, MvpWaitlistEntry, MvpWaitlistStatus } from '@prisma/client';
+import { prisma } from '../config/database';
+import { NotificationHelpers } from './notificationService';
+import { SessionSeats, canJoinDirectly, offerExpiry, spotsToOffer, waitlistHasRoom } from '../utils/sessionWaitlist';
+
+const DEFAULT_OFFER_MINUTES = 15;
+const ON_WAITLIST: MvpWaitlistStatus[] = ['WAITING', 'OFFERED'];
+
+type WaitlistSession = { id: string; shareCode: string; name: string; maxPlayers: number };
+
+export interface WaitlistInput {
+  name: string;
+  deviceId?: string;
+  category?: string | null;
+}
+
+export class SessionWaitlistService {
+  /**
+   * Whether a newcomer can take a spot now, or has to queue behind the waitlist
+   */
+  static async hasOpenSpot(session: { id: string; maxPlayers: number }): Promise<boolean> {
+    return canJoinDirectly(await this.countSeats(session));
+  }
+
+  /**
+   * Add someone to the back of a full session's waitlist
+   * Returns null when the waitlist is full or turned off. Joining again from the same device
+   * returns the entry already on the waitlist.
+   */
+  static async joinWaitlist(session: { id: string }, input: WaitlistInput): Promise<MvpWaitlistEntry | null> {
+    const existing = input.deviceId
+      ? await prisma.mvpWaitlistEntry.findFirst({
+        where: { sessionId: session.id, deviceId: input.deviceId, status: { in: ON_WAITLIST } }
+      })
+      : null;
+    if (existing) {
+      return existing;
+    }
+
+    const [config, onWaitlist] = await Promise.all([
+      prisma.mvpSessionConfiguration.findUnique({ where: { sessionId: session.id }, select: { maxWaitlist: true } }),
+      prisma.mvpWaitlistEntry.count({ where: { sessionId: session.id, status: { in: ON_WAITLIST } } })
+    ]);
+    if (!waitlistHasRoom(config?.maxWaitlist, onWaitlist)) {
+      return null;
+    }
+
+    return prisma.mvpWaitlistEntry.create({
+      data: {
+        sessionId: session.id,
+        name: input.name,
+        deviceId: input.deviceId,
+        category: input.category || null
+      }
+    });
+  }
+
+  /**
+   * Everyone still on the waitlist, in the order they will be offered a spot
+   */
+  static async getWaitlist(sessionId: string): Promise<MvpWaitlistEntry[]> {
+    return prisma.mvpWaitlistEntry.findMany({
+      where: { sessionId, status: { in: ON_WAITLIST } },
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  /**
+   * A waitlist entry and its place in the queue, so the person waiting can see where they stand
+   */
+  static async getEntry(sessionId: string, entryId: string): Promise<{ entry: MvpWaitlistEntry; position: number | null }> {
+    const entry = await this.findEntry(sessionId, entryId);
+    if (entry.status !== 'WAITING') {
+      return { entry, position: null };
+    }
+
+    const ahead = await prisma.mvpWaitlistEntry.count({
+      where: { sessionId, status: 'WAITING', createdAt: { lt: entry.createdAt } }
+    });
+    return { entry, position: ahead + 1 };
+  }
+
+  /**
+   * Offer any free spots to the longest-waiting entries
+   * Called whenever a spot may have opened: a player leaving or being removed, or an offer
+   * being declined or lapsing. Each promoted entry hears about it by push and over the socket.
+   */
+  static async promoteNext(session: WaitlistSession): Promise<MvpWaitlistEntry[]> {
+    const offers = spotsToOffer(await this.countSeats(session));
+    if (offers === 0) {
+      return [];
+    }
+
+    const config = await prisma.mvpSessionConfiguration.findUnique({
+      where: { sessionId: session.id },
+      select: { waitlistOfferMinutes: true }
+    });
+    const next = await prisma.mvpWaitlistEntry.findMany({
+      where: { sessionId: session.id, status: 'WAITING' },
+      orderBy: { createdAt: 'asc' },
+      take: offers
+    });
+
+    const offeredAt = new Date();
+    const offerExpiresAt = offerExpiry(offeredAt, config?.waitlistOfferMinutes ?? DEFAULT_OFFER_MINUTES);
+    const promoted: MvpWaitlistEntry[] = [];
+    for (const entry of next) {
+      // Only a still-waiting entry is offered the spot, so two promotions running together can't both claim it
+      const claimed = await prisma.mvpWaitlistEntry.updateMany({
+        where: { id: entry.id, status: 'WAITING' },
+        data: { status: 'OFFERED', offeredAt, offerExpiresAt }
+      });
+      if (claimed.count === 0) {
+        continue;
+      }
+
+      const offered = { ...entry, status: 'OFFERED' as const, offeredAt, offerExpiresAt };
+      promoted.push(offered);
+      await this.notifyOffer(session, offered);
+    }
+    return promoted;
+  }
+
+  /**
+   * Take an offered spot before the confirmation window closes
+   */
+  static async acceptOffer(
+    session: WaitlistSession,
+    entryId: string,
+    deviceId?: string
+  ): Promise<{ entry: MvpWaitlistEntry; player: MvpPlayer }> {
+    const entry = await this.findOffer(session.id, entryId, deviceId);
+
+    if (entry.offerExpiresAt && entry.offerExpiresAt < new Date()) {
+      await this.expireOffer(session, entry.id);
+      throw new Error('The offer has expired');
+    }
+
+    const nameTaken = await prisma.mvpPlayer.findFirst({
+      where: { sessionId: session.id, name: { equals: entry.name, mode: 'insensitive' } }
+    });
+    if (nameTaken) {
+      throw new Error('A player with this name already exists in the session');
+    }
+
+    const result = await prisma.$transaction(async tx => {
+      const claimed = await tx.mvpWaitlistEntry.updateMany({
+        where: { id: entry.id, status: 'OFFERED' },
+        data: { status: 'ACCEPTED' }
+      });
+      if (claimed.count === 0) {
+        return null;
+      }
+
+      const player = await tx.mvpPlayer.create({
+        data: {
+          sessionId: session.id,
+          name: entry.name,
+          deviceId: entry.deviceId,
+          category: entry.category,
+          status: 'ACTIVE'
+        }
+      });
+      const accepted = await tx.mvpWaitlistEntry.update({ where: { id: entry.id }, data: { playerId: player.id } });
+      return { entry: accepted, player };
+    });
+
+    if (!result) {
+      throw new Error('The offer is no longer available');
+    }
+    return result;
+  }
+
+  /**
+   * Leave the waitlist, or turn down an offered spot so it goes to the next entry
+   */
+  static async leaveWaitlist(session: WaitlistSession, entryId: string, deviceId?: string): Promise<MvpWaitlistEntry> {
+    const entry = await this.findEntry(session.id, entryId);
+    if (entry.deviceId && deviceId !== entry.deviceId) {
+      throw new Error('Only the person on the waitlist can remove this entry');
+    }
+    if (!ON_WAITLIST.includes(entry.status)) {
+      throw new Error('This entry is no longer on the waitlist');
+    }
+
+    const left = await prisma.mvpWaitlistEntry.update({ where: { id: entryId }, data: { status: 'LEFT' } });
+    if (entry.status === 'OFFERED') {
+      await this.promoteNext(session);
+    }
+    return left;
+  }
+
+  /**
+   * Pass the spots of lapsed offers to the next people waiting
+   * Run on a timer so a spot doesn't sit empty while nobody is looking at the session.
+   */
+  static async expireOffers(now: Date = new Date()): Promise<number> {
+    const lapsed = await prisma.mvpWaitlistEntry.findMany({
+      where: { status: 'OFFERED', offerExpiresAt: { lt: now } },
+      include: { session: { select: { id: true, shareCode: true, name: true, maxPlayers: true } } }
+    });
+
+    for (const entry of lapsed) {
+      await this.expireOffer(entry.session, entry.id);
+    }
+    return lapsed.length;
+  }
+
+  private static async expireOffer(session: WaitlistSession, entryId: string): Promise<void> {
+    const expired = await prisma.mvpWaitlistEntry.updateMany({
+      where: { id: entryId, status: 'OFFERED' },
+      data: { status: 'EXPIRED' }
+    });
+    if (expired.count > 0) {
+      await this.announce(session.shareCode, 'waitlist_offer_expired', { entryId });
+      await this.promoteNext(session);
+    }
+  }
+
+  // Seats held by players who haven't left, plus spots promised to the waitlist
+  private static async countSeats(session: { id: string; maxPlayers: number }): Promise<SessionSeats> {
+    const [seated, offered, waiting] = await Promise.all([
+      prisma.mvpPlayer.count({ where: { sessionId: session.id, status: { not: 'LEFT' } } }),
+      prisma.mvpWaitlistEntry.count({ where: { sessionId: session.id, status: 'OFFERED' } }),
+      prisma.mvpWaitlistEntry.count({ where: { sessionId: session.id, status: 'WAITING' } })
+    ]);
+    return { maxPlayers: session.maxPlayers, seated, offered, waiting };
+  }
+
+  private static async findEntry(sessionId: string, entryId: string): Promise<MvpWaitlistEntry> {
+    const entry = await prisma.mvpWaitlistEntry.findFirst({ where: { id: entryId, sessionId } });
+    if (!entry) {
+      throw new Error('Waitlist entry not found');
+    }
+    return entry;
+  }
+
+  private static async findOffer(sessionId: string, entryId: string, deviceId?: string): Promise<MvpWaitlistEntry> {
+    const entry = await this.findEntry(sessionId, entryId);
+    if (entry.deviceId && deviceId !== entry.deviceId) {
+      throw new Error('Only the person on the waitlist can take this spot');
+    }
+    if (entry.status !== 'OFFERED') {
+      throw new Error('The offer is no longer available');
+    }
+    return entry;
+  }
+
+  private static async notifyOffer(session: WaitlistSession, entry: MvpWaitlistEntry): Promise<void> {
+    await this.announce(session.shareCode, 'waitlist_spot_offered', {
+      entryId: entry.id,
+      name: entry.name,
+      offerExpiresAt: entry.offerExpiresAt
+    });
+
+    if (!entry.deviceId) {
+      return;
+    }
+
+    // Push goes to the most recent player profile on the device, as with tournament updates
+    const mvpPlayer = await prisma.mvpPlayer.findFirst({
+      where: { deviceId: entry.deviceId },
+      orderBy: { joinedAt: 'desc' }
+    });
+    if (!mvpPlayer) {
+      return;
+    }
+
+    try {
+      await NotificationHelpers.sendWaitlistSpotNotification(mvpPlayer.id, session.name, session.shareCode, entry.offerExpiresAt!);
+    } catch (error) {
+      console.error('Error sending waitlist notification:', error);
+    }
+  }
+
+  private static async announce(shareCode: string, event: string, payload: Record<string, unknown>): Promise<void> {
+    try {
+      // Import io from server dynamically to avoid circular dependency
+      const { io } = await import('../server');
+      io.to(`session-${shareCode}`).emit(event, { ...payload, timestamp: new Date().toISOString() });
+    } catch (error) {
+      console.error('Failed to emit waitlist update:', error);
+    }
+  }
+}
@@ -1,4 +1,27 @@
 import { PrismaClient } from '@prisma/client';
+import { buildDoubleElimination, resolveDoubleElimination } from '../utils/doubleElimination';
+import { formatTeamName } from '../utils/gameFormat';
+import {
+  DEFAULT_GROUP_ADVANCERS,
+  computeGroupStandings,
+  crossGroupSeeds,
+  defaultGroupCount,
+  groupLabel,
+  roundRobinRounds,
+  snakeGroups
+} from '../utils/poolPlay';
+import { computeSwissStandings } from '../utils/swissPairing';
+import { bracketPositions, firstRoundByes, isTeamFormat } from '../utils/tournamentEntries';
+import {
+  MatchGameScore,
+  evaluateMatchScores,
+  knockoutFinishingRank,
+  nextKnockoutSlot,
+  tallyPlayerStats
+} from '../utils/tournamentResults';
+import { ServiceError } from '../utils/serviceError';
+import { tournamentPaymentService } from './tournamentPaymentService';
+import { tournamentScheduleService } from './tournamentScheduleService';
 
 const prisma = new PrismaClient();
 
@@ -18,15 +41,60 @@ export interface BracketMatch {
   scheduledTime?: Date;
 }
 
+export interface BracketRound {
+  roundNumber: number;
+  roundName: string;
+  roundType: string; // TournamentRoundType
+}
+
 export interface TournamentBracket {
   tournamentId: string;
   totalRounds: number;
   totalPlayers: number;
   bracket: BracketMatch[][];
+  rounds?: BracketRound[]; // Names and types of the rounds in bracket, once drawn
   currentRound: number;
   isComplete: boolean;
 }
 
+const BRACKET_STATUS: Record<string, BracketMatch['status']> = {
+  SCHEDULED: 'PENDING',
+  IN_PROGRESS: 'IN_PROGRESS',
+  COMPLETED: 'COMPLETED',
+  WALKOVER: 'COMPLETED',
+};
+
+// One side of a match: the player, plus their team in doubles
+interface MatchSide {
+  playerId: string;
+  teamId: string | null;
+}
+
+const matchSide = (
+  match: { player1Id: string; player2Id: string; team1Id: string | null; team2Id: string | null },
+  side: 1 | 2
+): MatchSide => (side === 1
+  ? { playerId: match.player1Id, teamId: match.team1Id }
+  : { playerId: match.player2Id, teamId: match.team2Id });
+
+// A match's result between entries (player, or team in doubles), as used for Swiss and group standings
+const entryResult = (match: {
+  player1Id: string;
+  player2Id: string;
+  team1Id: string | null;
+  team2Id: string | null;
+  winnerId: string | null;
+  gameScores: unknown;
+}) => {
+  const [entry1Id, entry2Id] = [match.team1Id || match.player1Id, match.team2Id || match.player2Id];
+  return {
+    entry1Id,
+    entry2Id,
+    winnerId: match.winnerId ? (match.winnerId === match.player1Id ? entry1Id : entry2Id) : null,
+    games: (match.gameScores as MatchGameScore[]) || [],
+  };
+};
+
 export interface BracketGenerationOptions {
   tournamentId: string;
   players: Array<{
@@ -35,8 +103,10 @@ export interface BracketGenerationOptions {
     seed?: number;
     skillLevel?: string;
   }>;
-  tournamentType: 'SINGLE_ELIMINATION' | 'DOUBLE_ELIMINATION' | 'ROUND_ROBIN' | 'SWISS';
+  tournamentType: 'SINGLE_ELIMINATION' | 'DOUBLE_ELIMINATION' | 'ROUND_ROBIN' | 'SWISS' | 'MIXED';
   randomizeSeeding?: boolean;
+  groupCount?: number; // Pool play
+  groupAdvancers?: number;
 }
 
 class TournamentBracketService {
@@ -55,6 +125,8 @@ class TournamentBracketService {
         return this.generateRoundRobinBracket(options);
       case 'SWISS':
         return this.generateSwissBracket(options);
+      case 'MIXED':
+        return this.generatePoolPlayBracket(options);
       default:
         throw new Error(`Unsupported tournament type: ${tournamentType}`);
     }
@@ -142,73 +214,37 @@ class TournamentBracketService {
 
   /**
    * Generate double elimination bracket
+   * Rounds are in play order: each winners round, the losers rounds its losers drop into, then the grand final and its reset.
    */
   private async generateDoubleEliminationBracket(options: BracketGenerationOptions): Promise<TournamentBracket> {
     const { tournamentId, players } = options;
     const totalPlayers = players.length;
-    const winnersBracketRounds = Math.ceil(Math.log2(totalPlayers));
-    const totalRounds = winnersBracketRounds * 2 - 1; // Winners + losers brackets
-
     const sortedPlayers = this.sortPlayersForBracket(players, options.randomizeSeeding);
 
-    // Create bracket structure for double elimination
-    const bracket: BracketMatch[][] = [];
-
-    // Winners bracket (first half of rounds)
-    for (let round = 1; round <= winnersBracketRounds; round++) {
-      const roundMatches: BracketMatch[] = [];
-      const matchesInRound = round === 1 ? totalPlayers / 2 : Math.pow(2, winnersBracketRounds - round);
-
-      for (let matchNum = 1; matchNum <= matchesInRound; matchNum++) {
-        const match: BracketMatch = {
-          id: `${tournamentId}-WB-R${round}-M${matchNum}`,
-          round,
-          match: matchNum,
-          status: 'PENDING',
-        };
-
-        // Assign players for first round
-        if (round === 1) {
-          const player1Index = (matchNum - 1) * 2;
-          const player2Index = player1Index + 1;
-
-          if (player1Index < sortedPlayers.length) {
-            match.player1Id = sortedPlayers[player1Index].id;
-            match.player1Name = sortedPlayers[player1Index].name;
-          }
-
-          if (player2Index < sortedPlayers.length) {
-            match.player2Id = sortedPlayers[player2Index].id;
-            match.player2Name = sortedPlayers[player2Index].name;
-          }
-        }
-
-        roundMatches.push(match);
-      }
-
-      bracket.push(roundMatches);
-    }
+    const layout = buildDoubleElimination(totalPlayers);
+    const state = resolveDoubleElimination(layout, totalPlayers, new Map());
 
-    // Losers bracket (remaining rounds)
-    for (let round = winnersBracketRounds + 1; round <= totalRounds; round++) {
-      const roundMatches: BracketMatch[] = [];
-      const matchesInRound = Math.pow(2, totalRounds - round);
+    const bracket: BracketMatch[][] = layout.rounds.map((round, index) => round.slots.map(slot => {
+      const resolved = state.slots.get(slot.id)!;
+      const player1 = resolved.entry1 ? sortedPlayers[resolved.entry1 - 1] : undefined;
+      const player2 = resolved.entry2 ? sortedPlayers[resolved.entry2 - 1] : undefined;
 
-      for (let matchNum = 1; matchNum <= matchesInRound; matchNum++) {
-        roundMatches.push({
-          id: `${tournamentId}-LB-R${round}-M${matchNum}`,
-          round,
-          match: matchNum,
-          status: 'PENDING',
-        });
-      }
-
-      bracket.push(roundMatches);
-    }
+      return {
+        id: `${tournamentId}-${slot.id}`,
+        round: index + 1,
+        match: slot.matchNumber,
+        player1Id: player1?.id,
+        player2Id: player2?.id,
+        player1Name: player1?.name,
+        player2Name: player2?.name,
+        // Slots left empty by byes are never played
+        status: resolved.state === 'BYE' || resolved.state === 'EMPTY' ? 'BYE' : 'PENDING',
+      };
+    }));
 
     return {
       tournamentId,
-      totalRounds,
+      totalRounds: layout.rounds.length,
       totalPlayers,
       bracket,
       currentRound: 1,
@@ -274,6 +310,71 @@ class TournamentBracketService {
     };
   }
 
+  /**
+   * Generate pool play bracket: snake-seeded round-robin groups, then a knockout between the group qualifiers
+   * Knockout sides are placeholders such as "A1" (winner of group A) until the group stage is played.
+   */
+  private async generatePoolPlayBracket(options: BracketGenerationOptions): Promise<TournamentBracket> {
+    const { tournamentId, players } = options;
+    const totalPlayers = players.length;
+    const sortedPlayers = this.sortPlayersForBracket(players, options.randomizeSeeding);
+    const advancers = options.groupAdvancers || DEFAULT_GROUP_ADVANCERS;
+
+    const schedules = snakeGroups(sortedPlayers, options.groupCount || defaultGroupCount(totalPlayers))
+      .map(group => roundRobinRounds(group));
+    const groupRounds = Math.max(...schedules.map(schedule => schedule.length));
+    const bracket: BracketMatch[][] = [];
+
+    for (let round = 1; round <= groupRounds; round++) {
+      const pairs = schedules.flatMap(schedule => schedule[round - 1] || []);
+      bracket.push(pairs.map(([player1, player2], index) => ({
+        id: `${tournamentId}-GR-R${round}-M${index + 1}`,
+        round,
+        match: index + 1,
+        player1Id: player1.id,
+        player1Name: player1.name,
+        player2Id: player2.id,
+        player2Name: player2.name,
+        status: 'PENDING',
+      })));
+    }
+
+    const qualifiers = crossGroupSeeds(schedules.length, advancers)
+      .map(({ groupNumber, place }) => `${groupLabel(groupNumber)}${place}`);
+    const knockoutRounds = Math.ceil(Math.log2(qualifiers.length));
+    const bracketSize = Math.pow(2, knockoutRounds);
+    const positions = bracketPositions(bracketSize);
+
+    for (let round = 1; round <= knockoutRounds; round++) {
+      const roundMatches: BracketMatch[] = [];
+      for (let matchNum = 1; matchNum <= bracketSize / Math.pow(2, round); matchNum++) {
+        const match: BracketMatch = {
+          id: `${tournamentId}-KO-R${round}-M${matchNum}`,
+          round: groupRounds + round,
+          match: matchNum,
+          status: 'PENDING',
+        };
+
+        if (round === 1) {
+          match.player1Name = qualifiers[positions[matchNum * 2 - 2] - 1];
+          match.player2Name = qualifiers[positions[matchNum * 2 - 1] - 1];
+          if (!match.player1Name || !match.player2Name) match.status = 'BYE';
+        }
+        roundMatches.push(match);
+      }
+      bracket.push(roundMatches);
+    }
+
+    return {
+      tournamentId,
+      totalRounds: bracket.length,
+      totalPlayers,
+      bracket,
+      currentRound: 1,
+      isComplete: false,
+    };
+  }
+
   /**
    * Generate Swiss system bracket
    */
@@ -384,145 +485,661 @@ class TournamentBracketService {
   }
 
   /**
-   * Update match result and advance bracket
+   * Record a reported match score and advance the bracket
+   * Like detailed MVP matches, the result is one TournamentGame holding the games won, with a TournamentGameSet per game played.
    */
-  async updateMatchResult(
-    tournamentId: string,
-    matchId: string,
-    winnerId: string,
-    score?: string
-  ): Promise<void> {
-    try {
-      // Update match result
-      await prisma.tournamentMatch.update({
+  async updateMatchResult(tournamentId: string, matchId: string, games: MatchGameScore[]) {
+    const match = await prisma.tournamentMatch.findFirst({
+      where: { id: matchId, tournamentId },
+      include: { round: true, tournament: true },
+    });
+
+    if (!match) {
+      throw new ServiceError('Match not found', 404);
+    }
+    if (match.tournament.status !== 'IN_PROGRESS') {
+      throw new ServiceError('Tournament must be in progress to report results');
+    }
+    if (match.status === 'COMPLETED' || match.status === 'WALKOVER') {
+      throw new ServiceError('Match result has already been reported');
+    }
+    if (match.round && match.round.status !== 'IN_PROGRESS') {
+      throw new ServiceError(`${match.round.roundName} has not started yet`);
+    }
+
+    const summary = evaluateMatchScores(match.scoringSystem, match.bestOfGames, games);
+    if ('error' in summary) {
+      throw new ServiceError(summary.error);
+    }
+
+    const winnerId = summary.winnerSide === 1 ? match.player1Id : match.player2Id;
+    const endTime = new Date();
+
+    await prisma.$transaction(async tx => {
+      await tx.tournamentGame.deleteMany({ where: { matchId } });
+      await tx.tournamentGame.create({
+        data: {
+          matchId,
+          gameNumber: 1,
+          courtName: match.courtName,
+          player1Score: summary.player1GamesWon,
+          player2Score: summary.player2GamesWon,
+          winnerId,
+          status: 'COMPLETED',
+          startTime: match.startTime,
+          endTime,
+          sets: {
+            create: games.map((game, index) => ({
+              setNumber: index + 1,
+              player1Score: game.player1Score,
+              player2Score: game.player2Score,
+              winnerId: game.player1Score > game.player2Score ? match.player1Id : match.player2Id,
+              isCompleted: true,
+            })),
+          },
+        },
+      });
+
+      await tx.tournamentMatch.update({
         where: { id: matchId },
         data: {
+          player1GamesWon: summary.player1GamesWon,
+          player2GamesWon: summary.player2GamesWon,
           winnerId,
+          gameScores: games.map(game => ({ player1Score: game.player1Score, player2Score: game.player2Score })),
           status: 'COMPLETED',
+          endTime,
+          duration: match.startTime ? Math.round((endTime.getTime() - match.startTime.getTime()) / (1000 * 60)) : null,
         },
       });
+    });
 
-      // Update game scores if provided
-      if (score) {
-        const match = await prisma.tournamentMatch.findUnique({
-          where: { id: matchId },
-          include: { games: true },
-        });
+    await this.advanceBracket(match, winnerId);
+    // The winner's next opponent may already have withdrawn
+    await this.resolveWalkovers(tournamentId);
+    // Courts free up early or late, and the winner may have a new match to fit in
+    await tournamentScheduleService.reflowSchedule(tournamentId);
 
-        if (match && match.games.length > 0) {
-          // Update the first game with the score
-          await prisma.tournamentGame.update({
-            where: { id: match.games[0].id },
-            data: {
-              winnerId,
-              status: 'COMPLETED',
-            },
-          });
-        }
-      }
+    return prisma.tournamentMatch.findUnique({
+      where: { id: matchId },
+      include: { games: { include: { sets: true } } },
+    });
+  }
 
-      // Advance winner to next round
-      await this.advanceWinnerToNextRound(tournamentId, matchId, winnerId);
+  /**
+   * Award walkovers for every open match against an entry that has withdrawn, advancing the bracket after each
+   * A walkover can draw the winner's next match against another withdrawn entry, so this repeats until none are left.
+   */
+  async resolveWalkovers(tournamentId: string): Promise<void> {
+    for (;;) {
+      const match = await prisma.tournamentMatch.findFirst({
+        where: {
+          tournamentId,
+          status: { in: ['SCHEDULED', 'IN_PROGRESS'] },
+          OR: [{ player1: { withdrawnAt: { not: null } } }, { player2: { withdrawnAt: { not: null } } }],
+        },
+        include: { round: true, tournament: true, player1: true },
+        orderBy: { matchNumber: 'asc' },
+      });
 
-    } catch (error) {
-      console.error('Error updating match result:', error);
-      throw new Error('Failed to update match result');
+      if (!match || match.tournament.status !== 'IN_PROGRESS') {
+        return;
+      }
+
+      const winnerId = match.player1.withdrawnAt ? match.player2Id : match.player1Id;
+      await prisma.tournamentMatch.update({
+        where: { id: match.id },
+        data: { status: 'WALKOVER', winnerId, endTime: new Date() },
+      });
+      await this.advanceBracket(match, winnerId);
     }
   }
 
   /**
-   * Advance winner to next round
+   * Move the bracket on from a decided match, by tournament format
    */
-  private async advanceWinnerToNextRound(
-    tournamentId: string,
-    matchId: string,
+  private async advanceBracket(
+    match: { id: string; tournamentId: string; roundId: string | null; round: { roundType: string } | null; tournament: { tournamentType: string } },
     winnerId: string
   ): Promise<void> {
-    try {
-      const match = await prisma.tournamentMatch.findUnique({
-        where: { id: matchId },
-        include: { round: true },
-      });
+    if (match.tournament.tournamentType === 'DOUBLE_ELIMINATION') {
+      await this.advanceDoubleElimination(match.tournamentId, match.id);
+    } else if (match.tournament.tournamentType === 'SWISS') {
+      await this.advanceSwiss(match.tournamentId, match.roundId!);
+    } else if (match.round?.roundType === 'ROUND_ROBIN') {
+      await this.advanceGroupStage(match.tournamentId, match.roundId!);
+    } else {
+      await this.advanceWinnerToNextRound(match.tournamentId, match.id, winnerId);
+    }
+  }
 
-      if (!match || !match.round) {
-        return;
-      }
+  /**
+   * Knock out the loser and move the winner into the next round's match
+   * The next match is created once both of its feeder matches (or a first-round bye) have a winner; the final completes the tournament.
+   */
+  private async advanceWinnerToNextRound(tournamentId: string, matchId: string, winnerId: string): Promise<void> {
+    const match = await prisma.tournamentMatch.findUnique({
+      where: { id: matchId },
+      include: { round: true, tournament: true },
+    });
 
-      const currentRound = match.round;
-      const nextRoundNumber = currentRound.roundNumber + 1;
+    if (!match || !match.round) {
+      return;
+    }
 
-      // Find next round
-      const nextRound = await prisma.tournamentRound.findFirst({
-        where: {
+    const rounds = await prisma.tournamentRound.findMany({
+      where: { tournamentId },
+      orderBy: { roundNumber: 'asc' },
+    });
+    const round = match.round;
+    const winner = matchSide(match, winnerId === match.player1Id ? 1 : 2);
+    const loser = matchSide(match, winnerId === match.player1Id ? 2 : 1);
+
+    // Pool play runs its group rounds first, so count knockout rounds on their own
+    const knockoutRounds = rounds.filter(r => r.roundType === 'ELIMINATION');
+    const knockoutRound = knockoutRounds.findIndex(r => r.id === round.id) + 1;
+
+    await this.eliminateSide(loser, knockoutFinishingRank(knockoutRound, knockoutRounds.length));
+    await this.completeRoundIfFinished(round.id, round.matchesRequired);
+
+    if (round.roundNumber === rounds.length) {
+      await this.completeTournament(tournamentId, winnerId, loser.playerId);
+      return;
+    }
+
+    await prisma.tournamentPlayer.updateMany({
+      where: { id: { in: await this.sideMemberIds(winner) } },
+      data: { status: 'ADVANCED', currentRound: round.roundNumber + 1 },
+    });
+
+    const slot = nextKnockoutSlot(match.matchNumber);
+    const siblingNumber = slot.side === 1 ? match.matchNumber + 1 : match.matchNumber - 1;
+    const sibling = await this.knockoutWinner(match.tournament, round, siblingNumber, knockoutRound === 1);
+    const nextRound = rounds.find(r => r.roundNumber === round.roundNumber + 1);
+
+    if (!sibling || !nextRound) {
+      // The other half of the pairing is still being played
+      return;
+    }
+
+    const existing = await prisma.tournamentMatch.findFirst({
+      where: { roundId: nextRound.id, matchNumber: slot.matchNumber },
+    });
+    if (existing) {
+      return;
+    }
+
+    const [side1, side2] = slot.side === 1 ? [winner, sibling] : [sibling, winner];
+    await prisma.tournamentMatch.create({
+      data: {
+        tournamentId,
+        roundId: nextRound.id,
+        matchNumber: slot.matchNumber,
+        player1Id: side1.playerId,
+        player2Id: side2.playerId,
+        team1Id: side1.teamId,
+        team2Id: side2.teamId,
+        bestOfGames: match.bestOfGames,
+        scoringSystem: match.scoringSystem,
+      },
+    });
+  }
+
+  /**
+   * Winner of a knockout match slot, or the seed holding a first-round bye there; null while undecided
+   */
+  private async knockoutWinner(
+    tournament: { id: string; matchFormat: string; tournamentType: string; groupAdvancers: number | null },
+    round: { id: string },
+    matchNumber: number,
+    firstRound: boolean
+  ): Promise<MatchSide | null> {
+    const feeder = await prisma.tournamentMatch.findFirst({
+      where: { roundId: round.id, matchNumber },
+    });
+
+    if (feeder) {
+      return feeder.winnerId ? matchSide(feeder, feeder.winnerId === feeder.player1Id ? 1 : 2) : null;
+    }
+
+    // Only first-round slots can be empty, where a top seed had a bye
+    if (!firstRound) {
+      return null;
+    }
+
+    const sides = await this.knockoutSides(tournament);
+    const seed = firstRoundByes(sides.size).get(matchNumber);
+    return (seed && sides.get(seed)) || null;
+  }
+
+  /**
+   * Entries in the knockout keyed by knockout seed
+   * In pool play these are the group qualifiers in cross-group order; otherwise every drawn entry by seed.
+   */
+  private async knockoutSides(
+    tournament: { id: string; matchFormat: string; tournamentType: string; groupAdvancers: number | null }
+  ): Promise<Map<number, MatchSide>> {
+    if (tournament.tournamentType !== 'MIXED') {
+      return this.seededSides(tournament);
+    }
+
+    const groups = await this.getGroupStandings(tournament.id);
+    const seeds = crossGroupSeeds(groups.length, tournament.groupAdvancers || DEFAULT_GROUP_ADVANCERS);
+    return new Map(seeds.map(({ groupNumber, place }, index) => {
+      const standing = groups[groupNumber - 1].standings[place - 1];
+      return [index + 1, { playerId: standing.playerId, teamId: standing.teamId }];
+    }));
+  }
+
+  /**
+   * Close a group round once all its results are in; after the last one, draw the knockout from the group standings
+   * Entries that don't qualify go out in joint place behind every qualifier.
+   */
+  private async advanceGroupStage(tournamentId: string, roundId: string): Promise<void> {
+    const tournament = await prisma.tournament.findUnique({
+      where: { id: tournamentId },
+      include: { rounds: { orderBy: { roundNumber: 'asc' } } },
+    });
+    const round = tournament?.rounds.find(r => r.id === roundId);
+
+    if (!tournament || !round || !(await this.completeRoundIfFinished(round.id, round.matchesRequired))) {
+      return;
+    }
+    if (tournament.rounds.some(r => r.roundType === 'ROUND_ROBIN' && r.id !== round.id && r.status !== 'COMPLETED')) {
+      return;
+    }
+
+    const firstKnockoutRound = tournament.rounds.find(r => r.roundType === 'ELIMINATION');
+    const existing = firstKnockoutRound
+      ? await prisma.tournamentMatch.count({ where: { roundId: firstKnockoutRound.id } })
+      : 0;
+    if (!firstKnockoutRound || existing > 0) {
+      return;
+    }
+
+    const sides = await this.knockoutSides(tournament);
+    let bracketSize = 2;
+    while (bracketSize < sides.size) bracketSize *= 2;
+
+    const positions = bracketPositions(bracketSize);
+    for (let index = 0; index < bracketSize / 2; index++) {
+      const side1 = sides.get(positions[index * 2]);
+      const side2 = sides.get(positions[index * 2 + 1]);
+      if (!side1 || !side2) continue;
+
+      await prisma.tournamentMatch.create({
+        data: {
           tournamentId,
-          roundNumber: nextRoundNumber,
+          roundId: firstKnockoutRound.id,
+          matchNumber: index + 1,
+          player1Id: side1.playerId,
+          player2Id: side2.playerId,
+          team1Id: side1.teamId,
+          team2Id: side2.teamId,
+          bestOfGames: tournament.bestOfGames,
+          scoringSystem: tournament.scoringSystem,
         },
-        include: { matches: true },
       });
+    }
 
-      if (!nextRound) {
-        // Tournament is complete
-        await this.completeTournament(tournamentId, winnerId);
-        return;
+    const qualified = new Set(Array.from(sides.values()).map(side => side.playerId));
+    for (const group of await this.getGroupStandings(tournamentId)) {
+      for (const standing of group.standings) {
+        const side = { playerId: standing.playerId, teamId: standing.teamId };
+        if (qualified.has(side.playerId)) {
+          await prisma.tournamentPlayer.updateMany({
+            where: { id: { in: await this.sideMemberIds(side) } },
+            data: { status: 'ADVANCED', currentRound: firstKnockoutRound.roundNumber },
+          });
+        } else {
+          await this.eliminateSide(side, sides.size + 1);
+        }
       }
+    }
+  }
 
-      // Find appropriate match in next round
-      const nextMatch = nextRound.matches.find(m => !m.player1Id || !m.player2Id);
+  /**
+   * Pool-play group standings from the group-round results, each group best first
+   */
+  async getGroupStandings(tournamentId: string) {
+    const tournament = await prisma.tournament.findUnique({
+      where: { id: tournamentId },
+      include: {
+        rounds: { where: { roundType: 'ROUND_ROBIN' }, include: { matches: true } },
+        players: { where: { groupNumber: { not: null } } },
+        teams: { where: { groupNumber: { not: null } }, include: { captain: true, partner: true } },
+      },
+    });
 
-      if (nextMatch) {
-        // Assign winner to available slot
-        if (!nextMatch.player1Id) {
-          await prisma.tournamentMatch.update({
-            where: { id: nextMatch.id },
-            data: { player1Id: winnerId },
-          });
-        } else if (!nextMatch.player2Id) {
-          await prisma.tournamentMatch.update({
-            where: { id: nextMatch.id },
-            data: { player2Id: winnerId },
-          });
+    if (!tournament) {
+      throw new Error('Tournament not found');
+    }
+
+    const entries = isTeamFormat(tournament.matchFormat)
+      ? tournament.teams.map(team => ({
+        id: team.id,
+        seed: team.seed || 0,
+        groupNumber: team.groupNumber!,
+        name: formatTeamName(team.captain.playerName, team.partner?.playerName),
+        side: { playerId: team.captainId, teamId: team.id as string | null },
+      }))
+      : tournament.players.map(player => ({
+        id: player.id,
+        seed: player.seed || 0,
+        groupNumber: player.groupNumber!,
+        name: player.playerName,
+        side: { playerId: player.id, teamId: null as string | null },
+      }));
+    const matches = tournament.rounds.flatMap(round => round.matches).map(entryResult);
+    const groupCount = Math.max(0, ...entries.map(entry => entry.groupNumber));
+
+    return Array.from({ length: groupCount }, (_, index) => {
+      const members = entries.filter(entry => entry.groupNumber === index + 1);
+      const byId = new Map<string, (typeof entries)[number]>(members.map(entry => [entry.id, entry]));
+      return {
+        groupNumber: index + 1,
+        name: `Group ${groupLabel(index + 1)}`,
+        standings: computeGroupStandings(members, matches).map(standing => {
+          const entry = byId.get(standing.entryId)!;
+          return { ...standing, name: entry.name, playerId: entry.side.playerId, teamId: entry.side.teamId };
+        }),
+      };
+    });
+  }
+
+  /**
+   * Bring a double-elimination bracket up to date after a result
+   * The whole bracket is resolved again from the results: matches whose entries are now known are created,
+   * a losers-bracket loser is knocked out, and the grand final (or its reset) completes the tournament.
+   */
+  private async advanceDoubleElimination(tournamentId: string, matchId: string): Promise<void> {
+    const tournament = await prisma.tournament.findUnique({
+      where: { id: tournamentId },
+      include: {
+        rounds: { include: { matches: true }, orderBy: { roundNumber: 'asc' } },
+      },
+    });
+    const match = tournament?.rounds.flatMap(r => r.matches).find(m => m.id === matchId);
+
+    if (!tournament || !match?.winnerId) {
+      return;
+    }
+
+    const sides = await this.seededSides(tournament);
+    const seedOf = new Map(Array.from(sides.entries()).map(([seed, side]) => [side.playerId, seed]));
+    const bracket = buildDoubleElimination(sides.size);
+
+    // Rounds were created in the bracket's play order, and match numbers follow slot order within a round
+    const slotOf = (roundNumber: number, matchNumber: number) => bracket.rounds[roundNumber - 1].slots[matchNumber - 1];
+    const results = new Map<string, number>();
+    for (const round of tournament.rounds) {
+      for (const played of round.matches) {
+        if (played.winnerId) {
+          results.set(slotOf(round.roundNumber, played.matchNumber).id, seedOf.get(played.winnerId)!);
         }
       }
+    }
 
-    } catch (error) {
-      console.error('Error advancing winner:', error);
-      throw new Error('Failed to advance winner to next round');
+    const state = resolveDoubleElimination(bracket, sides.size, results);
+    const round = tournament.rounds.find(r => r.id === match.roundId)!;
+    const loser = matchSide(match, match.winnerId === match.player1Id ? 2 : 1);
+    const finalRank = state.eliminated.get(seedOf.get(loser.playerId)!);
+
+    // Winners-bracket losers drop into the losers bracket rather than going out
+    if (finalRank) {
+      await this.eliminateSide(loser, finalRank);
+    }
+    await this.completeRoundIfFinished(round.id, round.matchesRequired);
+
+    for (const [index, bracketRound] of bracket.rounds.entries()) {
+      const dbRound = tournament.rounds[index];
+      for (const slot of bracketRound.slots) {
+        const resolved = state.slots.get(slot.id)!;
+        if (resolved.state !== 'READY' || dbRound.matches.some(m => m.matchNumber === slot.matchNumber)) {
+          continue;
+        }
+
+        const [side1, side2] = [sides.get(resolved.entry1!)!, sides.get(resolved.entry2!)!];
+        await prisma.tournamentMatch.create({
+          data: {
+            tournamentId,
+            roundId: dbRound.id,
+            matchNumber: slot.matchNumber,
+            player1Id: side1.playerId,
+            player2Id: side2.playerId,
+            team1Id: side1.teamId,
+            team2Id: side2.teamId,
+            bestOfGames: match.bestOfGames,
+            scoringSystem: match.scoringSystem,
+          },
+        });
+      }
+    }
+
+    if (state.champion === undefined || state.runnerUp === undefined) {
+      return;
     }
+
+    // The winners-bracket champion took the first grand final, so the reset isn't played
+    if (state.slots.get('GF-2')!.state === 'NOT_NEEDED') {
+      await prisma.tournamentRound.update({
+        where: { id: tournament.rounds[tournament.rounds.length - 1].id },
+        data: { status: 'CANCELLED' },
+      });
+    }
+    await this.completeTournament(tournamentId, sides.get(state.champion)!.playerId, sides.get(state.runnerUp)!.playerId);
   }
 
   /**
-   * Complete tournament
+   * Close a Swiss round once all its results are in; after the last round the standings decide every placing
    */
-  private async completeTournament(tournamentId: string, winnerId: string): Promise<void> {
-    try {
-      const winner = await prisma.tournamentPlayer.findUnique({
-        where: { id: winnerId },
-      });
+  private async advanceSwiss(tournamentId: string, roundId: string): Promise<void> {
+    const rounds = await prisma.tournamentRound.findMany({
+      where: { tournamentId },
+      orderBy: { roundNumber: 'asc' },
+    });
+    const round = rounds.find(r => r.id === roundId);
+
+    if (!round || !(await this.completeRoundIfFinished(round.id, round.matchesRequired))) {
+      return;
+    }
+    if (round.roundNumber !== rounds.length) {
+      return;
+    }
 
-      if (!winner) {
-        throw new Error('Winner not found');
+    const standings = await this.getSwissStandings(tournamentId);
+    for (const standing of standings) {
+      const side = { playerId: standing.playerId, teamId: standing.teamId };
+      await prisma.tournamentPlayer.updateMany({
+        where: { id: { in: await this.sideMemberIds(side) } },
+        data: { finalRank: standing.rank },
+      });
+      if (side.teamId) {
+        await prisma.tournamentTeam.update({ where: { id: side.teamId }, data: { finalRank: standing.rank } });
       }
+    }
 
-      // Create tournament result
-      await prisma.tournamentResult.create({
-        data: {
-          tournamentId,
-          winnerId,
-          winnerName: winner.playerName,
-          completedAt: new Date(),
+    await this.completeTournament(tournamentId, standings[0].playerId, standings[1].playerId);
+  }
+
+  /**
+   * Swiss standings from the results so far, best first
+   * Each standing carries the entry's name and the side (captain and team) recorded on its matches.
+   */
+  async getSwissStandings(tournamentId: string) {
+    const tournament = await prisma.tournament.findUnique({
+      where: { id: tournamentId },
+      include: {
+        rounds: { include: { matches: true } },
+        players: true,
+        teams: { include: { captain: true, partner: true } },
+      },
+    });
+
+    if (!tournament) {
+      throw new Error('Tournament not found');
+    }
+
+    const sides = new Map(Array.from((await this.seededSides(tournament)).entries())
+      .map(([seed, side]) => [side.teamId || side.playerId, { seed, side }]));
+    const matches = tournament.rounds.flatMap(round => round.matches).map(entryResult);
+    const byes = tournament.rounds.map(round => round.byeEntryId).filter((id): id is string => !!id);
+
+    const entryName = (side: MatchSide) => {
+      const team = tournament.teams.find(t => t.id === side.teamId);
+      return team
+        ? formatTeamName(team.captain.playerName, team.partner?.playerName)
+        : tournament.players.find(p => p.id === side.playerId)?.playerName || '';
+    };
+
+    const entries = Array.from(sides.entries()).map(([id, { seed }]) => ({ id, seed }));
+    return computeSwissStandings(entries, matches, byes).map(standing => {
+      const { side } = sides.get(standing.entryId)!;
+      return { ...standing, name: entryName(side), playerId: side.playerId, teamId: side.teamId };
+    });
+  }
+
+  /**
+   * Every drawn entry's side, keyed by seed
+   * Entries that withdraw after the draw keep their seed, so the bracket still resolves around them.
+   */
+  private async seededSides(tournament: { id: string; matchFormat: string }): Promise<Map<number, MatchSide>> {
+    if (isTeamFormat(tournament.matchFormat)) {
+      const teams = await prisma.tournamentTeam.findMany({ where: { tournamentId: tournament.id, seed: { not: null } } });
+      return new Map(teams.map(team => [team.seed!, { playerId: team.captainId, teamId: team.id }]));
+    }
+
+    const players = await prisma.tournamentPlayer.findMany({
+      where: { tournamentId: tournament.id, seed: { not: null } },
+    });
+    return new Map(players.map(player => [player.seed!, { playerId: player.id, teamId: null }]));
+  }
+
+  /**
+   * Player IDs on a side: the captain and partner of a doubles team, or the single player
+   */
+  private async sideMemberIds(side: MatchSide): Promise<string[]> {
+    if (!side.teamId) {
+      return [side.playerId];
+    }
+
+    const team = await prisma.tournamentTeam.findUnique({ where: { id: side.teamId } });
+    return team?.partnerId ? [team.captainId, team.partnerId] : [side.playerId];
+  }
+
+  private async eliminateSide(side: MatchSide, finalRank: number): Promise<void> {
+    await prisma.tournamentPlayer.updateMany({
+      where: { id: { in: await this.sideMemberIds(side) } },
+      data: { status: 'ELIMINATED', isEliminated: true, finalRank },
+    });
+
+    if (side.teamId) {
+      await prisma.tournamentTeam.update({
+        where: { id: side.teamId },
+        data: { isEliminated: true, finalRank },
+      });
+    }
+  }
+
+  private async completeRoundIfFinished(roundId: string, matchesRequired: number): Promise<boolean> {
+    const finished = await prisma.tournamentMatch.count({
+      where: { roundId, status: { in: ['COMPLETED', 'WALKOVER'] } },
+    });
+
+    if (finished < matchesRequired) {
+      return false;
+    }
+
+    await prisma.tournamentRound.update({
+      where: { id: roundId },
+      data: { status: 'COMPLETED', endDate: new Date() },
+    });
+    return true;
+  }
+
+  /**
+   * Complete tournament, crediting both partners of the winning and runner-up doubles teams
+   */
+  private async completeTournament(tournamentId: string, winnerId: string, runnerUpId: string): Promise<void> {
+    const tournament = await prisma.tournament.findUnique({
+      where: { id: tournamentId },
+      include: {
+        players: true,
+        teams: true,
+        matches: {
+          where: { status: 'COMPLETED' },
+          include: { games: { include: { sets: true } } },
         },
+      },
+    });
+
+    if (!tournament) {
+      throw new Error('Tournament not found');
+    }
+
+    const playerName = (id?: string | null) => tournament.players.find(p => p.id === id)?.playerName;
+    const partnerOf = (captainId: string) => tournament.teams.find(t => t.captainId === captainId)?.partnerId || null;
+    const membersOf = (playerId: string, teamId: string | null) => {
+      const partnerId = teamId ? partnerOf(playerId) : null;
+      return partnerId ? [playerId, partnerId] : [playerId];
+    };
+
+    const playedMatches = tournament.matches.map(match => ({
+      side1: membersOf(match.player1Id, match.team1Id),
+      side2: membersOf(match.player2Id, match.team2Id),
+      winnerSide: (match.winnerId === match.player1Id ? 1 : 2) as 1 | 2,
+      games: (match.gameScores as unknown as MatchGameScore[]) || [],
+    }));
+    const stats = tallyPlayerStats(playedMatches);
+    const playerStats = Object.fromEntries(
+      Object.entries(stats).map(([id, totals]) => [id, { playerName: playerName(id), ...totals }])
+    );
+
+    const durations = tournament.matches.map(m => m.duration).filter((d): d is number => d !== null);
+    const completedAt = new Date();
+    const winnerPartnerId = partnerOf(winnerId);
+    const runnerUpPartnerId = partnerOf(runnerUpId);
+    const result = {
+      winnerId,
+      winnerName: playerName(winnerId),
+      winnerPartnerId,
+      winnerPartnerName: playerName(winnerPartnerId),
+      runnerUpId,
+      runnerUpName: playerName(runnerUpId),
+      runnerUpPartnerId,
+      runnerUpPartnerName: playerName(runnerUpPartnerId),
+      totalMatches: tournament.matches.length,
+      totalGames: tournament.matches.reduce((sum, m) => sum + m.games.length, 0),
+      totalSets: tournament.matches.reduce((sum, m) => sum + m.games.reduce((s, g) => s + g.sets.length, 0), 0),
+      averageMatchTime: durations.length > 0 ? durations.reduce((sum, d) => sum + d, 0) / durations.length : 0,
+      playerStats,
+      completedAt,
+      totalDuration: Math.max(0, Math.round((completedAt.getTime() - tournament.startDate.getTime()) / (1000 * 60))),
+    };
+
+    await prisma.$transaction(async tx => {
+      await tx.tournamentResult.upsert({
+        where: { tournamentId },
+        create: { tournamentId, ...result },
+        update: result,
+      });
+
+      await tx.tournamentPlayer.updateMany({
+        where: { id: { in: winnerPartnerId ? [winnerId, winnerPartnerId] : [winnerId] } },
+        data: { finalRank: 1 },
+      });
+      await tx.tournamentTeam.updateMany({
+        where: { tournamentId, captainId: winnerId },
+        data: { finalRank: 1 },
       });
 
-      // Update tournament status
-      await prisma.tournament.update({
+      await tx.tournament.update({
         where: { id: tournamentId },
-        data: { status: 'COMPLETED' },
+        data: { status: 'COMPLETED', endDate: completedAt },
       });
+    });
 
-    } catch (error) {
-      console.error('Error completing tournament:', error);
-      throw new Error('Failed to complete tournament');
-    }
+    await tournamentPaymentService.recordPrizePayouts(tournamentId);
   }
 
   /**
@@ -539,7 +1156,10 @@ class TournamentBracketService {
                 include: {
                   player1: true,
                   player2: true,
+                  team1: { include: { captain: true, partner: true } },
+                  team2: { include: { captain: true, partner: true } },
                 },
+                orderBy: { matchNumber: 'asc' },
               },
             },
             orderBy: { roundNumber: 'asc' },
@@ -559,10 +1179,17 @@ class TournamentBracketService {
           match: match.matchNumber,
           player1Id: match.player1Id || undefined,
           player2Id: match.player2Id || undefined,
-          player1Name: match.player1?.playerName || undefined,
-          player2Name: match.player2?.playerName || undefined,
+          player1Name: match.team1
+            ? formatTeamName(match.team1.captain.playerName, match.team1.partner?.playerName)
+            : match.player1?.playerName || undefined,
+          player2Name: match.team2
+            ? formatTeamName(match.team2.captain.playerName, match.team2.partner?.playerName)
+            : match.player2?.playerName || undefined,
           winnerId: match.winnerId || undefined,
-          status: match.status as 'PENDING' | 'IN_PROGRESS' | 'COMPLETED' | 'BYE',
+          score: match.gameScores
+            ? (match.gameScores as unknown as MatchGameScore[]).map(g => `${g.player1Score}-${g.player2Score}`).join(', ')
+            : undefined,
+          status: BRACKET_STATUS[match.status] || 'PENDING',
           court: match.courtName || undefined,
           scheduledTime: match.scheduledAt || undefined,
         }));
@@ -573,7 +1200,12 @@ class TournamentBracketService {
         totalRounds: tournament.rounds.length,
         totalPlayers: tournament.maxPlayers,
         bracket,
-        currentRound: tournament.rounds.find(r => r.status === 'IN_PROGRESS')?.roundNumber || 1,
+        rounds: tournament.rounds.map(round => ({
+          roundNumber: round.roundNumber,
+          roundName: round.roundName,
+          roundType: round.roundType,
+        })),
+        currentRound: tournament.rounds.find(r => r.status !== 'COMPLETED')?.roundNumber || tournament.rounds.length,
         isComplete: tournament.status === 'COMPLETED',
       };
 
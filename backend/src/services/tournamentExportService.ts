@@ -0,0 +1,265 @@
+// Tournament Export Service - Printable brackets and CSV results for the venue wall and club websites
+// Everything is rendered on the server with no external services, so exports work offline at the venue
+
+import { prisma } from '../config/database';
+import { ExportDocument, ExportMatch, ExportSection, layoutBracket, roundRobinGrid, toCsv } from '../utils/bracketExport';
+import { DoubleEliminationSection, buildDoubleElimination } from '../utils/doubleElimination';
+import { renderPdf, renderSvg } from '../utils/drawing';
+import { formatTeamName } from '../utils/gameFormat';
+import { isTeamFormat } from '../utils/tournamentEntries';
+import { MatchGameScore, tallyPlayerStats } from '../utils/tournamentResults';
+import { BracketMatch, tournamentBracketService } from './tournamentBracketService';
+import { tournamentScheduleService } from './tournamentScheduleService';
+
+export interface TournamentExport {
+  filename: string;
+  content: string | Buffer;
+}
+
+const TYPE_LABELS: Record<string, string> = {
+  SINGLE_ELIMINATION: 'Single Elimination',
+  DOUBLE_ELIMINATION: 'Double Elimination',
+  ROUND_ROBIN: 'Round Robin',
+  SWISS: 'Swiss',
+  MIXED: 'Pool Play'
+};
+
+const DOUBLE_ELIMINATION_SECTIONS: Array<{ section: DoubleEliminationSection; title: string }> = [
+  { section: 'WINNERS', title: 'Winners Bracket' },
+  { section: 'LOSERS', title: 'Losers Bracket' },
+  { section: 'GRAND_FINAL', title: 'Grand Final' }
+];
+
+const fileSlug = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'tournament';
+
+const exportMatch = (match: BracketMatch): ExportMatch => ({
+  matchNumber: match.match,
+  player1Name: match.player1Name,
+  player2Name: match.player2Name,
+  winner: match.winnerId ? (match.winnerId === match.player1Id ? 1 : 2) : undefined,
+  score: match.score || undefined,
+  court: match.court
+});
+
+class TournamentExportService {
+  /**
+   * The current bracket as an SVG drawing
+   */
+  async exportBracketSvg(tournamentId: string): Promise<TournamentExport> {
+    const { tournament, document } = await this.bracketDocument(tournamentId);
+    return { filename: `${fileSlug(tournament.name)}-bracket.svg`, content: renderSvg(layoutBracket(document)) };
+  }
+
+  /**
+   * The current bracket as a one-page PDF
+   */
+  async exportBracketPdf(tournamentId: string): Promise<TournamentExport> {
+    const { tournament, document } = await this.bracketDocument(tournamentId);
+    return { filename: `${fileSlug(tournament.name)}-bracket.pdf`, content: renderPdf(layoutBracket(document)) };
+  }
+
+  /**
+   * The order of play as CSV: every match by court and time
+   */
+  async exportOrderOfPlayCsv(tournamentId: string): Promise<TournamentExport> {
+    const tournament = await this.findTournament(tournamentId);
+    const orderOfPlay = await tournamentScheduleService.getOrderOfPlay(tournamentId);
+    const time = (date: Date | null) => date?.toISOString();
+
+    const content = toCsv(
+      ['Court', 'Scheduled', 'Round', 'Match', 'Player 1', 'Player 2', 'Status', 'Started', 'Finished'],
+      orderOfPlay.matches.map(match => [
+        match.courtName,
+        time(match.scheduledAt),
+        match.roundName,
+        match.matchNumber,
+        match.player1Name,
+        match.player2Name,
+        match.status,
+        time(match.startTime),
+        time(match.endTime)
+      ])
+    );
+    return { filename: `${fileSlug(tournament.name)}-order-of-play.csv`, content };
+  }
+
+  /**
+   * Standings as CSV, best first
+   * Entries are ranked on their final placing, or their Swiss standing while a Swiss tournament is under way;
+   * entries still without a placing follow on wins. Totals count completed matches, not walkovers.
+   */
+  async exportStandingsCsv(tournamentId: string): Promise<TournamentExport> {
+    const tournament = await prisma.tournament.findUnique({
+      where: { id: tournamentId },
+      include: {
+        players: { where: { seed: { not: null } } },
+        teams: { where: { seed: { not: null } }, include: { captain: true, partner: true } },
+        matches: { where: { status: 'COMPLETED' } }
+      }
+    });
+
+    if (!tournament) {
+      throw new Error('Tournament not found');
+    }
+
+    // Matches record each team by its captain, so entries are keyed on the captain in doubles
+    const entries = isTeamFormat(tournament.matchFormat)
+      ? tournament.teams.map(team => ({
+        id: team.captainId,
+        name: formatTeamName(team.captain.playerName, team.partner?.playerName),
+        seed: team.seed,
+        finalRank: team.finalRank,
+        withdrawn: Boolean(team.captain.withdrawnAt)
+      }))
+      : tournament.players.map(player => ({
+        id: player.id,
+        name: player.playerName,
+        seed: player.seed,
+        finalRank: player.finalRank,
+        withdrawn: Boolean(player.withdrawnAt)
+      }));
+
+    const stats = tallyPlayerStats(tournament.matches.map(match => ({
+      side1: [match.player1Id],
+      side2: [match.player2Id],
+      winnerSide: (match.winnerId === match.player1Id ? 1 : 2) as 1 | 2,
+      games: (match.gameScores as unknown as MatchGameScore[]) || []
+    })));
+
+    const swissRanks = new Map<string, number>();
+    if (tournament.tournamentType === 'SWISS' && tournament.status === 'IN_PROGRESS') {
+      for (const standing of await tournamentBracketService.getSwissStandings(tournamentId)) {
+        swissRanks.set(standing.playerId, standing.rank);
+      }
+    }
+
+    const ranked = entries.map(entry => ({
+      ...entry,
+      rank: entry.finalRank ?? swissRanks.get(entry.id) ?? null,
+      stats: stats[entry.id] || { matchesPlayed: 0, matchesWon: 0, gamesWon: 0, gamesLost: 0, pointsFor: 0, pointsAgainst: 0 }
+    })).sort((a, b) =>
+      (a.rank ?? Infinity) - (b.rank ?? Infinity) ||
+      b.stats.matchesWon - a.stats.matchesWon ||
+      (a.seed ?? Infinity) - (b.seed ?? Infinity));
+
+    const content = toCsv(
+      ['Rank', 'Seed', 'Name', 'Played', 'Won', 'Lost', 'Games Won', 'Games Lost', 'Points For', 'Points Against', 'Status'],
+      ranked.map(entry => [
+        entry.rank,
+        entry.seed,
+        entry.name,
+        entry.stats.matchesPlayed,
+        entry.stats.matchesWon,
+        entry.stats.matchesPlayed - entry.stats.matchesWon,
+        entry.stats.gamesWon,
+        entry.stats.gamesLost,
+        entry.stats.pointsFor,
+        entry.stats.pointsAgainst,
+        entry.withdrawn ? 'Withdrawn' : ''
+      ])
+    );
+    return { filename: `${fileSlug(tournament.name)}-standings.csv`, content };
+  }
+
+  private async findTournament(tournamentId: string) {
+    const tournament = await prisma.tournament.findUnique({ where: { id: tournamentId } });
+    if (!tournament) {
+      throw new Error('Tournament not found');
+    }
+    return tournament;
+  }
+
+  /**
+   * The bracket from getBracketState, arranged for printing
+   * Round-robin rounds become grids (one per group in pool play), Swiss rounds are listed side by side,
+   * and knockout rounds are drawn as trees; double elimination gets a tree each for the winners and losers brackets.
+   */
+  private async bracketDocument(tournamentId: string) {
+    const tournament = await this.findTournament(tournamentId);
+    const bracket = await tournamentBracketService.getBracketState(tournamentId);
+
+    if (!bracket || !bracket.rounds || bracket.rounds.length === 0) {
+      throw new Error('Tournament has not been drawn yet');
+    }
+
+    const rounds = bracket.rounds.map((round, index) => ({ ...round, matches: bracket.bracket[index] || [] }));
+    const document: ExportDocument = {
+      title: tournament.name,
+      subtitle: [
+        TYPE_LABELS[tournament.tournamentType] || tournament.tournamentType,
+        tournament.startDate.toISOString().slice(0, 10),
+        tournament.venueName
+      ].filter(Boolean).join(' · '),
+      grids: [],
+      sections: []
+    };
+
+    const roundRobin = rounds.filter(round => round.roundType === 'ROUND_ROBIN');
+    if (roundRobin.length > 0) {
+      const matches = roundRobin.flatMap(round => round.matches);
+      if (tournament.tournamentType === 'MIXED') {
+        for (const group of await tournamentBracketService.getGroupStandings(tournamentId)) {
+          const entries = [...group.standings].sort((a, b) => a.seed - b.seed).map(standing => ({ id: standing.playerId, name: standing.name }));
+          document.grids.push(roundRobinGrid(group.name, entries, matches));
+        }
+      } else {
+        const entries = new Map<string, string>();
+        for (const match of matches) {
+          if (match.player1Id) entries.set(match.player1Id, match.player1Name || '');
+          if (match.player2Id) entries.set(match.player2Id, match.player2Name || '');
+        }
+        document.grids.push(roundRobinGrid('Results', Array.from(entries, ([id, name]) => ({ id, name })), matches));
+      }
+    }
+
+    const swiss = rounds.filter(round => round.roundType === 'SWISS');
+    if (swiss.length > 0) {
+      document.sections.push({
+        title: 'Swiss Rounds',
+        knockout: false,
+        rounds: swiss.map(round => ({ name: round.roundName, slots: round.matches.length, matches: round.matches.map(exportMatch) }))
+      });
+    }
+
+    const knockout = rounds.filter(round => round.roundType === 'ELIMINATION');
+    if (knockout.length > 0) {
+      document.sections.push(...(tournament.tournamentType === 'DOUBLE_ELIMINATION'
+        ? await this.doubleEliminationSections(tournament, knockout)
+        : [{
+          title: tournament.tournamentType === 'MIXED' ? 'Knockout' : 'Main Draw',
+          knockout: true,
+          // The first knockout round has a slot for every pair in the draw, byes included
+          rounds: knockout.map((round, index) => ({
+            name: round.roundName,
+            slots: Math.pow(2, knockout.length - index - 1),
+            matches: round.matches.map(exportMatch)
+          }))
+        }]));
+    }
+
+    return { tournament, document };
+  }
+
+  private async doubleEliminationSections(
+    tournament: { id: string; matchFormat: string },
+    rounds: Array<{ roundName: string; matches: BracketMatch[] }>
+  ): Promise<ExportSection[]> {
+    const where = { tournamentId: tournament.id, seed: { not: null } };
+    const entryCount = isTeamFormat(tournament.matchFormat)
+      ? await prisma.tournamentTeam.count({ where })
+      : await prisma.tournamentPlayer.count({ where });
+    // Rounds are stored in the same play order as the layout
+    const layout = buildDoubleElimination(entryCount).rounds;
+
+    return DOUBLE_ELIMINATION_SECTIONS.map(({ section, title }) => ({
+      title,
+      knockout: section !== 'GRAND_FINAL',
+      rounds: rounds.flatMap((round, index) => (layout[index]?.section === section
+        ? [{ name: round.roundName, slots: layout[index].slots.length, matches: round.matches.map(exportMatch) }]
+        : []))
+    })).filter(section => section.rounds.length > 0);
+  }
+}
+
+// Export singleton instance
+export const tournamentExportService = new TournamentExportService();
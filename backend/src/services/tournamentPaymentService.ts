@@ -0,0 +1,327 @@
+// Tournament Payment Service - Entry fees, refunds and the prize payout ledger
+// Payments go through a pluggable provider, so tests and venues without Stripe can use the mock provider
+
+import { prisma } from '../config/database';
+import { PaymentIntentStatus, PaymentProvider, RefundReason } from '../types/payment';
+import { formatTeamName } from '../utils/gameFormat';
+import { isTeamFormat } from '../utils/tournamentEntries';
+import { DEFAULT_PAYOUT_PERCENTAGES, splitPrizePool } from '../utils/tournamentResults';
+import { createPaymentProvider } from './paymentProvider';
+import { ServiceError } from '../utils/serviceError';
+
+const cents = (amount: number) => Math.round(amount * 100) / 100;
+
+class TournamentPaymentService {
+  constructor(private provider: PaymentProvider = createPaymentProvider()) {}
+
+  /**
+   * Take payments through a different provider, such as the mock provider in tests
+   */
+  setProvider(provider: PaymentProvider): void {
+    this.provider = provider;
+  }
+
+  /**
+   * Start paying a player's entry fee, or pick up the payment already under way
+   * The app completes the payment with the client secret, then confirms the entry.
+   */
+  async createEntryPayment(tournamentId: string, playerId: string) {
+    const { tournament, player } = await this.findEntry(tournamentId, playerId);
+
+    if (player.status !== 'PENDING_PAYMENT') {
+      throw new Error('Entry is not waiting for payment');
+    }
+
+    const pending = await this.pendingEntryFee(tournamentId, playerId);
+    const current = pending?.paymentIntentId ? await this.provider.getPaymentIntent(pending.paymentIntentId) : null;
+    if (pending && current && current.status !== PaymentIntentStatus.CANCELED) {
+      return this.entryPayment(pending, current.clientSecret);
+    }
+
+    const result = await this.provider.createPaymentIntent({
+      amount: tournament.entryFee,
+      currency: tournament.currency.toLowerCase(),
+      description: `Tournament entry: ${tournament.name}`,
+      receiptEmail: player.email || undefined,
+      metadata: { tournamentId, playerId },
+    });
+    if (!result.success || !result.paymentIntent) {
+      throw new Error(`Payment initialization failed: ${result.error}`);
+    }
+
+    if (pending) {
+      await prisma.tournamentLedgerEntry.update({ where: { id: pending.id }, data: { status: 'FAILED' } });
+    }
+    const entry = await prisma.tournamentLedgerEntry.create({
+      data: {
+        tournamentId,
+        type: 'ENTRY_FEE',
+        playerId,
+        playerName: player.playerName,
+        amount: tournament.entryFee,
+        currency: tournament.currency,
+        paymentIntentId: result.paymentIntent.id,
+      },
+    });
+    return this.entryPayment(entry, result.paymentIntent.clientSecret);
+  }
+
+  /**
+   * Confirm a player's entry once the provider reports their payment succeeded
+   */
+  async confirmEntryPayment(tournamentId: string, playerId: string) {
+    const { player } = await this.findEntry(tournamentId, playerId);
+
+    if (player.status !== 'PENDING_PAYMENT') {
+      throw new Error('Entry is not waiting for payment');
+    }
+
+    const pending = await this.pendingEntryFee(tournamentId, playerId);
+    if (!pending?.paymentIntentId) {
+      throw new Error('No entry payment has been started');
+    }
+
+    const paymentIntent = await this.provider.getPaymentIntent(pending.paymentIntentId);
+    if (!paymentIntent) {
+      throw new Error('Payment intent not found');
+    }
+    if (paymentIntent.status === PaymentIntentStatus.CANCELED) {
+      await prisma.tournamentLedgerEntry.update({ where: { id: pending.id }, data: { status: 'FAILED' } });
+      throw new Error('Entry payment failed');
+    }
+    if (paymentIntent.status !== PaymentIntentStatus.SUCCEEDED) {
+      throw new Error('Entry payment has not completed yet');
+    }
+
+    return prisma.$transaction(async tx => {
+      await tx.tournamentLedgerEntry.update({ where: { id: pending.id }, data: { status: 'PAID' } });
+      return tx.tournamentPlayer.update({ where: { id: playerId }, data: { status: 'CONFIRMED' } });
+    });
+  }
+
+  /**
+   * Settle every entry still waiting for payment, as the tournament starts
+   * Entries whose payment went through without being confirmed keep their places; the rest are canceled with the
+   * provider and withdrawn, so nobody is charged for a place they lost. Payments still processing hold up the start.
+   * Returns the IDs of the players withdrawn.
+   */
+  async settlePendingEntries(tournamentId: string): Promise<string[]> {
+    const players = await prisma.tournamentPlayer.findMany({
+      where: { tournamentId, status: 'PENDING_PAYMENT' },
+    });
+
+    const withdrawn: string[] = [];
+    const processing: string[] = [];
+    for (const player of players) {
+      const pending = await this.pendingEntryFee(tournamentId, player.id);
+      let paymentIntent = pending?.paymentIntentId ? await this.provider.getPaymentIntent(pending.paymentIntentId) : null;
+
+      if (pending && paymentIntent && paymentIntent.status !== PaymentIntentStatus.SUCCEEDED && paymentIntent.status !== PaymentIntentStatus.CANCELED) {
+        const canceled = await this.provider.cancelPayment(paymentIntent.id);
+        if (!canceled.success) {
+          // The payment may have gone through since it was fetched
+          paymentIntent = await this.provider.getPaymentIntent(paymentIntent.id);
+          if (paymentIntent?.status !== PaymentIntentStatus.SUCCEEDED) {
+            processing.push(player.playerName);
+            continue;
+          }
+        }
+      }
+
+      if (pending && paymentIntent?.status === PaymentIntentStatus.SUCCEEDED) {
+        await prisma.$transaction(async tx => {
+          await tx.tournamentLedgerEntry.update({ where: { id: pending.id }, data: { status: 'PAID' } });
+          await tx.tournamentPlayer.update({ where: { id: player.id }, data: { status: 'CONFIRMED' } });
+        });
+        continue;
+      }
+
+      await prisma.$transaction(async tx => {
+        if (pending) {
+          await tx.tournamentLedgerEntry.update({ where: { id: pending.id }, data: { status: 'FAILED' } });
+        }
+        await tx.tournamentPlayer.update({ where: { id: player.id }, data: { status: 'WITHDRAWN', seed: null } });
+      });
+      withdrawn.push(player.id);
+    }
+
+    if (processing.length > 0) {
+      throw new ServiceError(`Entry payments are still processing for ${processing.join(', ')}; start the tournament once they have gone through`, 409);
+    }
+    return withdrawn;
+  }
+
+  /**
+   * Refund a withdrawing player's entry fee when they leave before the registration deadline
+   * Returns the amount refunded: nothing after the deadline, or when the player never paid.
+   */
+  async refundEntry(tournament: { id: string; registrationDeadline: Date }, playerId: string): Promise<number> {
+    const paid = await prisma.tournamentLedgerEntry.findFirst({
+      where: { tournamentId: tournament.id, playerId, type: 'ENTRY_FEE', status: 'PAID' },
+    });
+
+    if (!paid?.paymentIntentId || new Date() > tournament.registrationDeadline) {
+      return 0;
+    }
+
+    const result = await this.provider.createRefund({
+      paymentIntentId: paid.paymentIntentId,
+      reason: RefundReason.REQUESTED_BY_CUSTOMER,
+      metadata: { tournamentId: tournament.id, playerId },
+    });
+    if (!result.success) {
+      throw new Error(`Refund failed: ${result.error}`);
+    }
+
+    await prisma.$transaction(async tx => {
+      await tx.tournamentLedgerEntry.update({ where: { id: paid.id }, data: { status: 'REFUNDED' } });
+      await tx.tournamentLedgerEntry.create({
+        data: {
+          tournamentId: tournament.id,
+          type: 'REFUND',
+          playerId,
+          playerName: paid.playerName,
+          amount: paid.amount,
+          currency: paid.currency,
+          status: 'PAID',
+          paymentIntentId: paid.paymentIntentId,
+        },
+      });
+    });
+    return paid.amount;
+  }
+
+  /**
+   * Record what each placed entry is owed from the prize pool when the tournament completes
+   * Payouts are recorded once; the organizer marks each one paid as the money goes out.
+   */
+  async recordPrizePayouts(tournamentId: string) {
+    const tournament = await prisma.tournament.findUnique({
+      where: { id: tournamentId },
+      include: {
+        players: { where: { finalRank: { not: null } } },
+        teams: { where: { finalRank: { not: null } }, include: { captain: true, partner: true } },
+        ledger: { where: { type: 'PRIZE_PAYOUT' } },
+      },
+    });
+
+    if (!tournament || tournament.prizePool <= 0 || tournament.ledger.length > 0) {
+      return [];
+    }
+
+    // Doubles prizes are recorded against the team's captain
+    const placings = isTeamFormat(tournament.matchFormat)
+      ? tournament.teams.map(team => ({
+        entryId: team.captainId,
+        rank: team.finalRank!,
+        name: formatTeamName(team.captain.playerName, team.partner?.playerName),
+      }))
+      : tournament.players.map(player => ({ entryId: player.id, rank: player.finalRank!, name: player.playerName }));
+    const names = new Map(placings.map(placing => [placing.entryId, placing.name]));
+    const percentages = Array.isArray(tournament.payoutPercentages)
+      ? (tournament.payoutPercentages as number[])
+      : DEFAULT_PAYOUT_PERCENTAGES;
+
+    const payouts = splitPrizePool(tournament.prizePool, percentages, placings);
+    return prisma.$transaction(payouts.map(payout => prisma.tournamentLedgerEntry.create({
+      data: {
+        tournamentId,
+        type: 'PRIZE_PAYOUT',
+        playerId: payout.entryId,
+        playerName: names.get(payout.entryId)!,
+        amount: payout.amount,
+        currency: tournament.currency,
+        place: payout.place,
+        percentage: payout.percentage,
+      },
+    })));
+  }
+
+  /**
+   * The tournament's ledger with totals: entry fees taken, refunds, and prizes owed and paid
+   */
+  async getLedger(tournamentId: string) {
+    const tournament = await prisma.tournament.findUnique({
+      where: { id: tournamentId },
+      include: { ledger: { orderBy: { createdAt: 'asc' } } },
+    });
+
+    if (!tournament) {
+      throw new Error('Tournament not found');
+    }
+
+    const total = (type: string, statuses: string[]) => cents(tournament.ledger
+      .filter(entry => entry.type === type && statuses.includes(entry.status))
+      .reduce((sum, entry) => sum + entry.amount, 0));
+    const entryFees = total('ENTRY_FEE', ['PAID', 'REFUNDED']);
+    const refunds = total('REFUND', ['PAID']);
+    const prizesPaid = total('PRIZE_PAYOUT', ['PAID']);
+
+    return {
+      tournamentId,
+      currency: tournament.currency,
+      entries: tournament.ledger,
+      totals: {
+        entryFees,
+        refunds,
+        prizesOwed: total('PRIZE_PAYOUT', ['PENDING']),
+        prizesPaid,
+        balance: cents(entryFees - refunds - prizesPaid),
+      },
+    };
+  }
+
+  /**
+   * Mark a prize payout as paid out
+   */
+  async markPayoutPaid(tournamentId: string, ledgerEntryId: string) {
+    const payout = await prisma.tournamentLedgerEntry.findFirst({
+      where: { id: ledgerEntryId, tournamentId, type: 'PRIZE_PAYOUT' },
+    });
+
+    if (!payout) {
+      throw new Error('Payout not found');
+    }
+    if (payout.status === 'PAID') {
+      throw new Error('Payout has already been paid');
+    }
+
+    return prisma.tournamentLedgerEntry.update({ where: { id: ledgerEntryId }, data: { status: 'PAID' } });
+  }
+
+  private async findEntry(tournamentId: string, playerId: string) {
+    const tournament = await prisma.tournament.findUnique({ where: { id: tournamentId } });
+    if (!tournament) {
+      throw new Error('Tournament not found');
+    }
+
+    const player = await prisma.tournamentPlayer.findFirst({ where: { id: playerId, tournamentId } });
+    if (!player) {
+      throw new Error('Player not found in this tournament');
+    }
+    return { tournament, player };
+  }
+
+  private pendingEntryFee(tournamentId: string, playerId: string) {
+    return prisma.tournamentLedgerEntry.findFirst({
+      where: { tournamentId, playerId, type: 'ENTRY_FEE', status: 'PENDING' },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  private entryPayment(
+    entry: { id: string; paymentIntentId: string | null; amount: number; currency: string },
+    clientSecret: string
+  ) {
+    return {
+      ledgerEntryId: entry.id,
+      paymentIntentId: entry.paymentIntentId,
+      clientSecret,
+      amount: entry.amount,
+      currency: entry.currency,
+    };
+  }
+}
+
+// Export singleton instance
+export const tournamentPaymentService = new TournamentPaymentService();
@@ -0,0 +1,186 @@
+// Tournament Schedule Service - Assigns courts and start times to tournament matches
+// Courts come from the tournament's venue or its court count; the schedule re-flows as matches start and finish
+
+import { prisma } from '../config/database';
+import { formatTeamName } from '../utils/gameFormat';
+import { ScheduleMatch, findScheduleConflicts, scheduleMatches } from '../utils/tournamentSchedule';
+
+type ScheduledTournament = NonNullable<Awaited<ReturnType<TournamentScheduleService['loadTournament']>>>;
+
+const sideName = (
+  player: { playerName: string },
+  team: { captain: { playerName: string }; partner: { playerName: string } | null } | null
+) => (team ? formatTeamName(team.captain.playerName, team.partner?.playerName) : player.playerName);
+
+class TournamentScheduleService {
+  /**
+   * Schedule every match still to be played and return the order of play
+   */
+  async scheduleTournament(tournamentId: string) {
+    const tournament = await this.loadTournament(tournamentId);
+
+    if (!tournament) {
+      throw new Error('Tournament not found');
+    }
+    if (tournament.status !== 'IN_PROGRESS') {
+      throw new Error('Tournament must be in progress to schedule matches');
+    }
+    if (this.courtNames(tournament).length === 0) {
+      throw new Error('Tournament needs a venue with available courts or a court count to schedule matches');
+    }
+
+    await this.assignSlots(tournament);
+    return this.getOrderOfPlay(tournamentId);
+  }
+
+  /**
+   * Re-flow the schedule after a match starts or finishes, or new matches are drawn
+   * Does nothing for tournaments without courts to schedule on.
+   */
+  async reflowSchedule(tournamentId: string): Promise<void> {
+    const tournament = await this.loadTournament(tournamentId);
+
+    if (tournament?.status === 'IN_PROGRESS' && this.courtNames(tournament).length > 0) {
+      await this.assignSlots(tournament);
+    }
+  }
+
+  /**
+   * Call a match on court: it is in progress from now, and the rest of the schedule moves around it
+   */
+  async startMatch(tournamentId: string, matchId: string, courtName?: string) {
+    const match = await prisma.tournamentMatch.findFirst({
+      where: { id: matchId, tournamentId },
+      include: { round: true, tournament: true }
+    });
+
+    if (!match) {
+      throw new Error('Match not found');
+    }
+    if (match.tournament.status !== 'IN_PROGRESS') {
+      throw new Error('Tournament must be in progress to start a match');
+    }
+    if (match.status !== 'SCHEDULED') {
+      throw new Error('Match has already been started');
+    }
+    if (match.round && match.round.status !== 'IN_PROGRESS') {
+      throw new Error(`${match.round.roundName} has not started yet`);
+    }
+
+    const started = await prisma.tournamentMatch.update({
+      where: { id: matchId },
+      data: { status: 'IN_PROGRESS', startTime: new Date(), courtName: courtName || match.courtName }
+    });
+
+    await this.reflowSchedule(tournamentId);
+    return started;
+  }
+
+  /**
+   * Published order of play: every match by court and time, with any clashes in the schedule
+   */
+  async getOrderOfPlay(tournamentId: string) {
+    const tournament = await this.loadTournament(tournamentId);
+
+    if (!tournament) {
+      throw new Error('Tournament not found');
+    }
+
+    const options = { matchDuration: tournament.matchDuration, minRest: tournament.minRestMinutes };
+    const matches = tournament.matches.filter(match => match.status !== 'CANCELLED');
+    const timeOf = (match: (typeof matches)[number]) => (match.startTime || match.scheduledAt)?.getTime() ?? Infinity;
+
+    return {
+      tournamentId,
+      courts: this.courtNames(tournament),
+      matchDuration: tournament.matchDuration,
+      minRestMinutes: tournament.minRestMinutes,
+      matches: [...matches].sort((a, b) => timeOf(a) - timeOf(b)).map(match => ({
+        id: match.id,
+        roundName: match.round?.roundName,
+        matchNumber: match.matchNumber,
+        courtName: match.courtName,
+        scheduledAt: match.scheduledAt,
+        startTime: match.startTime,
+        endTime: match.endTime,
+        status: match.status,
+        player1Name: sideName(match.player1, match.team1),
+        player2Name: sideName(match.player2, match.team2)
+      })),
+      conflicts: findScheduleConflicts(matches.map(match => this.scheduleMatch(match)), options)
+    };
+  }
+
+  private async loadTournament(tournamentId: string) {
+    const tournament = await prisma.tournament.findUnique({
+      where: { id: tournamentId },
+      include: {
+        venue: { include: { courts: { where: { status: 'AVAILABLE' } } } },
+        matches: {
+          include: {
+            round: true,
+            player1: true,
+            player2: true,
+            team1: { include: { captain: true, partner: true } },
+            team2: { include: { captain: true, partner: true } }
+          }
+        }
+      }
+    });
+
+    // Order of play: by round, then by match number within the round
+    tournament?.matches.sort((a, b) =>
+      (a.round?.roundNumber ?? Infinity) - (b.round?.roundNumber ?? Infinity) || a.matchNumber - b.matchNumber);
+    return tournament;
+  }
+
+  /**
+   * The venue's available courts in name order ("Court 2" before "Court 10"), otherwise numbered courts
+   */
+  private courtNames(tournament: ScheduledTournament): string[] {
+    if (tournament.venue) {
+      return tournament.venue.courts
+        .map(court => court.name)
+        .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+    }
+    return Array.from({ length: tournament.courtCount || 0 }, (_, i) => `Court ${i + 1}`);
+  }
+
+  private scheduleMatch(match: ScheduledTournament['matches'][number]): ScheduleMatch {
+    const members = (playerId: string, team: { captainId: string; partnerId: string | null } | null) =>
+      (team ? [team.captainId, team.partnerId].filter((id): id is string => Boolean(id)) : [playerId]);
+
+    return {
+      id: match.id,
+      playerIds: [...members(match.player1Id, match.team1), ...members(match.player2Id, match.team2)],
+      status: match.status,
+      courtName: match.courtName,
+      scheduledAt: match.scheduledAt,
+      startTime: match.startTime,
+      endTime: match.endTime
+    };
+  }
+
+  private async assignSlots(tournament: ScheduledTournament): Promise<void> {
+    const now = new Date();
+    const slots = scheduleMatches(tournament.matches.map(match => this.scheduleMatch(match)), {
+      courts: this.courtNames(tournament),
+      // Nothing goes on court before the tournament starts, or in the past
+      startTime: tournament.startDate > now ? tournament.startDate : now,
+      matchDuration: tournament.matchDuration,
+      minRest: tournament.minRestMinutes
+    });
+
+    await prisma.$transaction(async tx => {
+      for (const slot of slots) {
+        await tx.tournamentMatch.update({
+          where: { id: slot.matchId },
+          data: { courtName: slot.courtName, scheduledAt: slot.scheduledAt }
+        });
+      }
+    });
+  }
+}
+
+// Export singleton instance
+export const tournamentScheduleService = new TournamentScheduleService();
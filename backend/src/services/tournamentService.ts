@@ -1,164 +1,1186 @@
 // Tournament Service - Handles business logic for tournament creation and management
-// Implements bracket generation, seeding, and tournament lifecycle management
+// Implements registration (including doubles partner invitations), seeding, bracket generation and lifecycle management
 
-import { PrismaClient } from '@prisma/client';
-import { Tournament, TournamentPlayer, TournamentRound, TournamentMatch, TournamentGame, TournamentGameSet } from '@prisma/client';
+import { TournamentPlayerStatus } from '@prisma/client';
+import { prisma } from '../config/database';
+import { formatTeamName } from '../utils/gameFormat';
+import { buildDoubleElimination, realMatchSlots, resolveDoubleElimination } from '../utils/doubleElimination';
+import { DEFAULT_GROUP_ADVANCERS, defaultGroupCount, roundRobinRounds, snakeGroups } from '../utils/poolPlay';
+import { computeSwissStandings, pairSwissRound, swissRoundCount } from '../utils/swissPairing';
+import {
+  EntryPlayer,
+  FirstRoundDraw,
+  TournamentEntry,
+  TournamentMatchFormat,
+  drawFirstRound,
+  isTeamFormat,
+  playerEntry,
+  rankingPointsAt,
+  seedEntries,
+  separateClubmates,
+  teamEntry,
+  validateInvitation,
+  validatePartners
+} from '../utils/tournamentEntries';
+import { ServiceError } from '../utils/serviceError';
+import { NotificationHelpers } from './notificationService';
+import { tournamentBracketService } from './tournamentBracketService';
+import { tournamentPaymentService } from './tournamentPaymentService';
+import { tournamentScheduleService } from './tournamentScheduleService';
 
-const prisma = new PrismaClient();
-
-interface TournamentInput {
-  name: string;
-  format: 'single_elimination' | 'round_robin';
-  maxPlayers: number;
-  organizer: string;
-  startDate: Date;
-  // Add other fields as needed
+export interface TournamentFilters {
+  status?: string;
+  visibility?: string;
+  tournamentType?: string;
+  skillLevel?: string;
+  latitude?: number;
+  longitude?: number;
+  radius?: number;
+  limit: number;
+  offset: number;
 }
 
-interface SeedingInput {
+export interface PlayerRegistrationInput {
   tournamentId: string;
-  players: string[]; // Player IDs
+  playerName: string;
+  email?: string;
+  phone?: string;
+  deviceId?: string;
+  skillLevel?: string;
+  category?: string;
+  club?: string;
+  partnerName?: string; // Doubles: invite a partner to a new team
+  inviteCode?: string; // Doubles: accept a partner's invitation
+}
+
+const ACTIVE_PLAYER_STATUSES: TournamentPlayerStatus[] = ['REGISTERED', 'CONFIRMED'];
+// Players waiting to pay their entry fee hold a place too
+const PLACE_HOLDING_STATUSES: TournamentPlayerStatus[] = [...ACTIVE_PLAYER_STATUSES, 'PENDING_PAYMENT'];
+const SUPPORTED_TYPES = ['SINGLE_ELIMINATION', 'DOUBLE_ELIMINATION', 'SWISS', 'MIXED'];
+// Whoever holds the organizer's device ID passes the organizer check, so it is never sent out
+const PRIVATE_TOURNAMENT_FIELDS = { organizerDeviceId: true } as const;
+
+// Who besides the organizer may pass an organizer check
+export interface OrganizerCheckOptions {
+  allowScorekeepers?: boolean;
+  playerId?: string; // The player the request is about
 }
 
-// Simple bracket generation for single elimination (power of 2 players)
-export async function createTournament(input: TournamentInput) {
-  return prisma.tournament.create({
-    data: {
-      name: input.name,
-      format: input.format,
-      status: 'REGISTRATION_OPEN',
-      organizer: input.organizer,
-      startDate: input.startDate,
-      maxPlayers: input.maxPlayers,
-      minPlayers: 4,
-      visibility: 'PUBLIC',
-      // Other fields with defaults
-      description: '',
-      venueName: '',
-      venueAddress: '',
-      latitude: null,
-      longitude: null,
-      tournamentType: 'SINGLES',
-      scoringSystem: '21_POINT',
-      bestOfGames: 3,
-      entryFee: 0,
-      prizePool: 0,
-      currency: 'USD',
-      registrationDeadline: input.startDate,
-      endDate: null,
-    },
-  });
+// An organizer's seed for an entry; null clears it
+export interface SeedOverride {
+  entryId: string; // Player ID in singles, team ID in doubles
+  seed: number | null;
 }
 
-// Generate bracket for single elimination tournament
-export async function generateBracket(tournamentId: string, players: TournamentPlayer[]) {
-  const tournament = await prisma.tournament.findUnique({
-    where: { id: tournamentId },
-    include: { players: true },
-  });
+// A round created when the tournament starts, with the matches that can be drawn straight away
+interface RoundPlan {
+  roundName: string;
+  roundType: 'ELIMINATION' | 'SWISS' | 'ROUND_ROBIN';
+  matchesRequired: number;
+  playersAdvancing: number;
+  matches: FirstRoundDraw['matches'];
+  byeEntryId?: string | null;
+}
 
-  if (!tournament || players.length !== tournament.maxPlayers || players.length & (players.length - 1) !== 0) {
-    throw new Error('Tournament must have power of 2 players for single elimination');
+class TournamentService {
+  /**
+   * Create a new tournament
+   */
+  async createTournament(data: any) {
+    return prisma.tournament.create({
+      omit: PRIVATE_TOURNAMENT_FIELDS,
+      data: {
+        ...data,
+        startDate: new Date(data.startDate),
+        endDate: data.endDate ? new Date(data.endDate) : null,
+        registrationDeadline: new Date(data.registrationDeadline)
+      }
+    });
   }
 
-  // Simple seeding: sort by ID for now (in real impl, use skill level)
-  const seededPlayers = players.sort((a, b) => a.id.localeCompare(b.id));
+  /**
+   * List tournaments matching the filters, optionally within a radius in km
+   */
+  async getTournaments(filters: TournamentFilters) {
+    const where: any = {};
+    if (filters.status) where.status = filters.status;
+    if (filters.visibility) where.visibility = filters.visibility;
+    if (filters.tournamentType) where.tournamentType = filters.tournamentType;
+    if (filters.skillLevel) {
+      where.OR = [
+        { skillLevelMin: null, skillLevelMax: null },
+        { skillLevelMin: filters.skillLevel },
+        { skillLevelMax: filters.skillLevel }
+      ];
+    }
+
+    if (filters.latitude !== undefined && filters.longitude !== undefined) {
+      const radius = filters.radius || 50;
+      const latDelta = radius / 111.32; // ~111.32 km per degree latitude
+      const lngDelta = radius / (111.32 * Math.cos(filters.latitude * Math.PI / 180));
+      where.latitude = { gte: filters.latitude - latDelta, lte: filters.latitude + latDelta };
+      where.longitude = { gte: filters.longitude - lngDelta, lte: filters.longitude + lngDelta };
+    }
+
+    const [tournaments, total] = await Promise.all([
+      prisma.tournament.findMany({
+        where,
+        omit: PRIVATE_TOURNAMENT_FIELDS,
+        include: { _count: { select: { players: true, teams: true } } },
+        orderBy: { startDate: 'asc' },
+        take: filters.limit,
+        skip: filters.offset
+      }),
+      prisma.tournament.count({ where })
+    ]);
+
+    return { tournaments, total, limit: filters.limit, offset: filters.offset };
+  }
 
-  // Create rounds (log2(n) rounds for n players)
-  const numRounds = Math.log2(players.length);
-  const rounds = [];
-  for (let roundNum = 1; roundNum <= numRounds; roundNum++) {
-    const round = await prisma.tournamentRound.create({
+  /**
+   * Get a tournament with its entries, bracket and result
+   */
+  async getTournamentById(id: string) {
+    const tournament = await prisma.tournament.findUnique({
+      where: { id },
+      omit: PRIVATE_TOURNAMENT_FIELDS,
+      include: {
+        players: { orderBy: [{ seed: 'asc' }, { registeredAt: 'asc' }] },
+        teams: {
+          include: { captain: true, partner: true },
+          orderBy: [{ seed: 'asc' }, { createdAt: 'asc' }]
+        },
+        rounds: {
+          include: {
+            matches: {
+              include: { player1: true, player2: true, team1: true, team2: true },
+              orderBy: { matchNumber: 'asc' }
+            }
+          },
+          orderBy: { roundNumber: 'asc' }
+        },
+        results: true
+      }
+    });
+
+    if (!tournament) {
+      throw new Error('Tournament not found');
+    }
+    return tournament;
+  }
+
+  /**
+   * Update tournament details
+   */
+  async updateTournament(id: string, data: any) {
+    await this.findTournament(id);
+    // The organizer's device can't be changed by an update
+    const { deviceId, organizerDeviceId, ...changes } = data;
+
+    return prisma.tournament.update({
+      where: { id },
+      omit: PRIVATE_TOURNAMENT_FIELDS,
       data: {
-        tournamentId,
-        roundNumber: roundNum,
-        roundName: getRoundName(roundNum, tournament.format),
-        roundType: 'ELIMINATION',
-        matchesRequired: players.length / 2,
-        playersAdvancing: players.length / 2,
-        status: 'PENDING',
-      },
+        ...changes,
+        ...(data.startDate && { startDate: new Date(data.startDate) }),
+        ...(data.endDate && { endDate: new Date(data.endDate) }),
+        ...(data.registrationDeadline && { registrationDeadline: new Date(data.registrationDeadline) })
+      }
+    });
+  }
+
+  /**
+   * Delete a tournament and everything in it
+   */
+  async deleteTournament(id: string) {
+    await this.findTournament(id);
+    await prisma.tournament.delete({ where: { id } });
+  }
+
+  /**
+   * Check the device runs the tournament, or is one of its scorekeepers, or the player concerned, where they are allowed
+   */
+  async assertOrganizer(id: string, deviceId: string | undefined, options: OrganizerCheckOptions = {}) {
+    const tournament = await prisma.tournament.findUnique({ where: { id }, select: { organizerDeviceId: true } });
+    if (!tournament) {
+      throw new ServiceError('Tournament not found', 404);
+    }
+    if (deviceId && tournament.organizerDeviceId === deviceId) {
+      return;
+    }
+    if (deviceId && (options.allowScorekeepers || options.playerId)) {
+      const allowed = await prisma.tournamentPlayer.findFirst({
+        where: {
+          tournamentId: id,
+          deviceId,
+          ...(options.playerId ? { id: options.playerId } : { isScorekeeper: true })
+        }
+      });
+      if (allowed) {
+        return;
+      }
+    }
+
+    if (options.playerId) {
+      throw new ServiceError('Only the player or the tournament organizer can do this', 403);
+    }
+    throw new ServiceError(
+      options.allowScorekeepers ? 'Only the organizer or a scorekeeper can do this' : 'Only the tournament organizer can do this',
+      403
+    );
+  }
+
+  /**
+   * Make a registered player a scorekeeper, who can start matches and report results, or stop them being one
+   */
+  async setScorekeeper(tournamentId: string, playerId: string, isScorekeeper: boolean) {
+    const player = await prisma.tournamentPlayer.findFirst({ where: { id: playerId, tournamentId } });
+    if (!player) {
+      throw new ServiceError('Player not found in this tournament', 404);
+    }
+    if (isScorekeeper && !player.deviceId) {
+      throw new ServiceError('That player has no device to keep score on');
+    }
+
+    return prisma.tournamentPlayer.update({ where: { id: playerId }, data: { isScorekeeper } });
+  }
+
+  /**
+   * Register a player
+   * In doubles every entry is a team: a player either invites a partner, creating a team that waits for them,
+   * or accepts an invitation with its code, which confirms the team.
+   * When the tournament has an entry fee the place is held until the player pays; the payment to complete is returned with them.
+   */
+  async registerPlayer(input: PlayerRegistrationInput) {
+    const player = await this.addPlayer(input);
+
+    if (player.status !== 'PENDING_PAYMENT') {
+      return player;
+    }
+    return { ...player, payment: await tournamentPaymentService.createEntryPayment(player.tournamentId, player.id) };
+  }
+
+  /**
+   * Remove a player before the tournament starts
+   * A captain leaving withdraws the whole team; a partner leaving reopens the invitation.
+   * Entry fees are refunded up to the registration deadline.
+   */
+  async unregisterPlayer(tournamentId: string, playerId: string) {
+    const tournament = await this.findTournament(tournamentId);
+    const player = await prisma.tournamentPlayer.findFirst({
+      where: { id: playerId, tournamentId },
+      include: { partnerOf: true }
+    });
+
+    if (!player) {
+      throw new Error('Player not found in this tournament');
+    }
+    if (!['DRAFT', 'REGISTRATION_OPEN', 'REGISTRATION_CLOSED'].includes(tournament.status)) {
+      throw new Error('Players cannot unregister once the tournament has started');
+    }
+
+    await tournamentPaymentService.refundEntry(tournament, playerId);
+
+    await prisma.$transaction(async tx => {
+      for (const team of player.partnerOf) {
+        await tx.tournamentTeam.update({
+          where: { id: team.id },
+          data: { partnerId: null, status: 'PENDING_PARTNER', confirmedAt: null }
+        });
+      }
+      // Teams the player captains are removed with them
+      await tx.tournamentPlayer.delete({ where: { id: playerId } });
+    });
+
+    if (player.status !== 'WAITLISTED') {
+      await this.promoteFromWaitlist(tournament);
+    }
+  }
+
+  /**
+   * Withdraw a player
+   * Before the draw this is the same as unregistering. Once the tournament is under way the player's side
+   * (both partners in doubles) concedes its remaining matches as walkovers and the bracket moves on without it.
+   */
+  async withdrawPlayer(tournamentId: string, playerId: string) {
+    const tournament = await this.findTournament(tournamentId);
+
+    if (tournament.status !== 'IN_PROGRESS') {
+      return this.unregisterPlayer(tournamentId, playerId);
+    }
+
+    const player = await prisma.tournamentPlayer.findFirst({
+      where: { id: playerId, tournamentId },
+      include: { captainOf: true, partnerOf: true }
+    });
+    if (!player) {
+      throw new Error('Player not found in this tournament');
+    }
+    if (player.seed === null || player.withdrawnAt || player.isEliminated) {
+      throw new Error('Player is no longer in the draw');
+    }
+
+    const team = player.captainOf[0] || player.partnerOf[0];
+    const memberIds = team ? [team.captainId, team.partnerId].filter((id): id is string => Boolean(id)) : [playerId];
+    await prisma.tournamentPlayer.updateMany({
+      where: { id: { in: memberIds } },
+      data: { status: 'WITHDRAWN', withdrawnAt: new Date() }
+    });
+
+    await tournamentBracketService.resolveWalkovers(tournamentId);
+    await tournamentScheduleService.reflowSchedule(tournamentId);
+  }
+
+  /**
+   * Check a player in during the check-in window before the start
+   * Waitlisted players can check in too, so they can take a no-show's place when the tournament starts.
+   */
+  async checkInPlayer(tournamentId: string, playerId: string) {
+    const tournament = await this.findTournament(tournamentId);
+    const player = await prisma.tournamentPlayer.findFirst({ where: { id: playerId, tournamentId } });
+
+    if (!player) {
+      throw new Error('Player not found in this tournament');
+    }
+    if (!tournament.checkInMinutes) {
+      throw new Error('Tournament does not use check-in');
+    }
+    if (!['REGISTRATION_OPEN', 'REGISTRATION_CLOSED'].includes(tournament.status)) {
+      throw new Error('Check-in must be before the tournament starts');
+    }
+    const opensAt = new Date(tournament.startDate.getTime() - tournament.checkInMinutes * 60 * 1000);
+    if (new Date() < opensAt) {
+      throw new Error(`Check-in opens at ${opensAt.toISOString()}`);
+    }
+    if (![...ACTIVE_PLAYER_STATUSES, 'WAITLISTED'].includes(player.status)) {
+      throw new Error('Player must be registered to check in');
+    }
+
+    return prisma.tournamentPlayer.update({
+      where: { id: playerId },
+      data: { checkedInAt: player.checkedInAt || new Date() }
+    });
+  }
+
+  /**
+   * Remind registered players who haven't checked in yet; returns how many were reminded
+   */
+  async sendCheckInReminders(tournamentId: string) {
+    const tournament = await this.findTournament(tournamentId);
+
+    if (!tournament.checkInMinutes) {
+      throw new Error('Tournament does not use check-in');
+    }
+    if (!['REGISTRATION_OPEN', 'REGISTRATION_CLOSED'].includes(tournament.status)) {
+      throw new Error('Check-in must be before the tournament starts');
+    }
+
+    const players = await prisma.tournamentPlayer.findMany({
+      where: { tournamentId, status: { in: ACTIVE_PLAYER_STATUSES }, checkedInAt: null }
+    });
+    for (const player of players) {
+      await this.notifyPlayer(
+        player,
+        tournament.name,
+        'CHECK_IN_REMINDER',
+        `Check in before ${tournament.startDate.toISOString()} to keep your place`
+      );
+    }
+    return players.length;
+  }
+
+  /**
+   * Seed the entries, draw the first round and start the tournament
+   * Entries whose entry fee never went through lose their places. With check-in on, players who didn't check in are removed
+   * and checked-in players on the waitlist take their places.
+   * Doubles teams whose partner never accepted are withdrawn. Matches are put on court when the tournament has courts to schedule on.
+   */
+  async startTournament(id: string) {
+    const registered = await this.findTournament(id);
+
+    if (!['REGISTRATION_OPEN', 'REGISTRATION_CLOSED'].includes(registered.status)) {
+      throw new Error('Tournament must be in registration to start');
+    }
+    if (!SUPPORTED_TYPES.includes(registered.tournamentType)) {
+      throw new Error(`${registered.tournamentType} brackets are not supported yet`);
+    }
+    await tournamentPaymentService.settlePendingEntries(id);
+    if (registered.checkInMinutes) {
+      await this.removeNoShows(registered);
+    }
+
+    const tournament = (await this.findEntrants(id))!;
+
+    const teamFormat = isTeamFormat(tournament.matchFormat);
+    const { seeded, confirmedTeams, rankingPoints } = await this.seedEntrants(tournament);
+
+    const playerCount = seeded.reduce((sum, entry) => sum + entry.memberIds.length, 0);
+    if (seeded.length < 2) {
+      throw new Error(teamFormat ? 'Tournament needs at least two confirmed teams to start' : 'Tournament needs at least two players to start');
+    }
+    if (playerCount < tournament.minPlayers) {
+      throw new Error(`Tournament needs at least ${tournament.minPlayers} players to start`);
+    }
+
+    const draw = drawFirstRound(seeded);
+    const swiss = tournament.tournamentType === 'SWISS';
+    const poolPlay = tournament.tournamentType === 'MIXED';
+    const groups = poolPlay ? snakeGroups(seeded, tournament.groupCount || defaultGroupCount(seeded.length)) : [];
+    const advancers = tournament.groupAdvancers || DEFAULT_GROUP_ADVANCERS;
+    if (poolPlay && seeded.length < groups.length * (advancers + 1)) {
+      throw new Error(`Pool play needs at least ${advancers + 1} entries in each of the ${groups.length} groups`);
+    }
+
+    const groupNumbers = new Map(groups.flatMap((group, index) => group.map(entry => [entry.id, index + 1] as const)));
+    const rounds = swiss
+      ? this.planSwissRounds(seeded, tournament.swissRounds || swissRoundCount(seeded.length))
+      : poolPlay
+        ? this.planPoolPlayRounds(groups, advancers)
+        : tournament.tournamentType === 'DOUBLE_ELIMINATION'
+          ? this.planDoubleEliminationRounds(seeded)
+          : this.planKnockoutRounds(seeded.length, draw);
+
+    await prisma.$transaction(async tx => {
+      // Teams still waiting for a partner, or missing a partner who didn't show, don't make the draw
+      const unconfirmed = tournament.teams.filter(t => !confirmedTeams.includes(t) && ACTIVE_PLAYER_STATUSES.includes(t.captain.status));
+      if (unconfirmed.length > 0) {
+        await tx.tournamentPlayer.updateMany({
+          where: { id: { in: unconfirmed.map(t => t.captainId) } },
+          data: { status: 'WITHDRAWN', seed: null }
+        });
+      }
+
+      for (const [index, entry] of seeded.entries()) {
+        const groupNumber = groupNumbers.get(entry.id);
+        if (teamFormat) {
+          await tx.tournamentTeam.update({ where: { id: entry.id }, data: { seed: index + 1, groupNumber } });
+        }
+        await tx.tournamentPlayer.updateMany({
+          where: { id: { in: entry.memberIds } },
+          data: { seed: index + 1, status: 'CONFIRMED', currentRound: 1, groupNumber }
+        });
+      }
+      for (const [playerId, points] of rankingPoints) {
+        await tx.tournamentPlayer.update({ where: { id: playerId }, data: { rankingPoints: points } });
+      }
+
+      // Knockout byes go straight through to the second round
+      for (const { entry } of swiss || poolPlay ? [] : draw.byes) {
+        await tx.tournamentPlayer.updateMany({
+          where: { id: { in: entry.memberIds } },
+          data: { status: 'ADVANCED', currentRound: 2 }
+        });
+      }
+
+      for (const [index, plan] of rounds.entries()) {
+        const round = await tx.tournamentRound.create({
+          data: {
+            tournamentId: id,
+            roundNumber: index + 1,
+            roundName: plan.roundName,
+            roundType: plan.roundType,
+            matchesRequired: plan.matchesRequired,
+            playersAdvancing: plan.playersAdvancing,
+            byeEntryId: plan.byeEntryId,
+            // Losers-bracket rounds that only hold byes have nothing to play
+            status: index === 0 ? 'IN_PROGRESS' : plan.matchesRequired === 0 ? 'COMPLETED' : 'PENDING'
+          }
+        });
+
+        for (const { matchNumber, entry1, entry2 } of plan.matches) {
+          await tx.tournamentMatch.create({
+            data: {
+              tournamentId: id,
+              roundId: round.id,
+              matchNumber,
+              player1Id: entry1.captainId,
+              player2Id: entry2.captainId,
+              team1Id: teamFormat ? entry1.id : null,
+              team2Id: teamFormat ? entry2.id : null,
+              bestOfGames: tournament.bestOfGames,
+              scoringSystem: tournament.scoringSystem
+            }
+          });
+        }
+      }
+
+      await tx.tournament.update({
+        where: { id },
+        data: { status: 'IN_PROGRESS' }
+      });
+    });
+
+    await tournamentScheduleService.reflowSchedule(id);
+  }
+
+  /**
+   * Open the next round for play once the current one is finished
+   * Knockout matches are created as winners advance, so the round must have all of them before it can start.
+   */
+  async startNextRound(id: string) {
+    const tournament = await prisma.tournament.findUnique({
+      where: { id },
+      include: {
+        rounds: {
+          include: { _count: { select: { matches: true } } },
+          orderBy: { roundNumber: 'asc' }
+        }
+      }
+    });
+
+    if (!tournament) {
+      throw new Error('Tournament not found');
+    }
+    if (tournament.status !== 'IN_PROGRESS') {
+      throw new Error('Tournament must be in progress to start a round');
+    }
+
+    const nextRound = tournament.rounds.find(r => r.status !== 'COMPLETED');
+    if (!nextRound) {
+      throw new Error('All rounds have already been played');
+    }
+    if (nextRound.status === 'IN_PROGRESS') {
+      throw new Error(`${nextRound.roundName} is still in progress`);
+    }
+    if (tournament.tournamentType === 'SWISS') {
+      return this.startSwissRound(tournament, nextRound.id);
+    }
+    if (nextRound._count.matches < nextRound.matchesRequired) {
+      throw new Error(`${nextRound.roundName} is still waiting for results from the previous round`);
+    }
+
+    return prisma.tournamentRound.update({
+      where: { id: nextRound.id },
+      data: { status: 'IN_PROGRESS', startDate: new Date() }
+    });
+  }
+
+  /**
+   * Pair a Swiss round from the standings so far and open it for play
+   */
+  private async startSwissRound(tournament: { id: string; bestOfGames: number; scoringSystem: string }, roundId: string) {
+    const standings = await tournamentBracketService.getSwissStandings(tournament.id);
+    const withdrawn = await prisma.tournamentPlayer.findMany({
+      where: { tournamentId: tournament.id, withdrawnAt: { not: null } },
+      select: { id: true }
+    });
+    const withdrawnIds = new Set(withdrawn.map(player => player.id));
+    // Entries that have withdrawn keep their standing but aren't paired again
+    const pairing = pairSwissRound(standings.filter(standing => !withdrawnIds.has(standing.playerId)));
+    const byEntry = new Map(standings.map(standing => [standing.entryId, standing]));
+
+    const round = await prisma.$transaction(async tx => {
+      for (const [index, [entry1Id, entry2Id]] of pairing.pairs.entries()) {
+        const [side1, side2] = [byEntry.get(entry1Id)!, byEntry.get(entry2Id)!];
+        await tx.tournamentMatch.create({
+          data: {
+            tournamentId: tournament.id,
+            roundId,
+            matchNumber: index + 1,
+            player1Id: side1.playerId,
+            player2Id: side2.playerId,
+            team1Id: side1.teamId,
+            team2Id: side2.teamId,
+            bestOfGames: tournament.bestOfGames,
+            scoringSystem: tournament.scoringSystem
+          }
+        });
+      }
+
+      return tx.tournamentRound.update({
+        where: { id: roundId },
+        data: { status: 'IN_PROGRESS', startDate: new Date(), byeEntryId: pairing.bye }
+      });
+    });
+
+    await tournamentScheduleService.reflowSchedule(tournament.id);
+    return round;
+  }
+
+  /**
+   * Seeding as it stands, with the organizer's seed changes, newest first
+   * Before the draw this is the order the tournament would start in; afterwards it is the seeding that was drawn.
+   */
+  async getSeeding(id: string) {
+    const tournament = await this.findEntrants(id);
+
+    if (!tournament) {
+      throw new Error('Tournament not found');
+    }
+
+    const { seeded } = await this.seedEntrants(tournament);
+    const changes = await prisma.tournamentSeedChange.findMany({
+      where: { tournamentId: id },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return {
+      separateClubs: tournament.separateClubs,
+      entries: seeded.map((entry, index) => ({
+        entryId: entry.id,
+        name: entry.name,
+        seed: index + 1,
+        manualSeed: entry.seed || null,
+        rankingPoints: entry.rankingPoints,
+        clubs: entry.clubs
+      })),
+      changes
+    };
+  }
+
+  /**
+   * Set or clear seeds by hand before the draw, recording each change in the seeding audit log
+   */
+  async overrideSeeds(id: string, overrides: SeedOverride[], changedBy: string, reason?: string) {
+    const tournament = await this.findEntrants(id);
+
+    if (!tournament) {
+      throw new Error('Tournament not found');
+    }
+    if (!['REGISTRATION_OPEN', 'REGISTRATION_CLOSED'].includes(tournament.status)) {
+      throw new Error('Seeds can only be changed before the tournament starts');
+    }
+
+    const teamFormat = isTeamFormat(tournament.matchFormat);
+    const current = teamFormat
+      ? tournament.teams.map(team => ({
+        id: team.id,
+        name: formatTeamName(team.captain.playerName, team.partner?.playerName || team.invitedName || undefined),
+        seed: team.seed
+      }))
+      : tournament.players.map(player => ({ id: player.id, name: player.playerName, seed: player.seed }));
+    const byId = new Map<string, (typeof current)[number]>(current.map(entry => [entry.id, entry]));
+
+    const seeds = new Map(current.map(entry => [entry.id, entry.seed ?? null]));
+    for (const override of overrides) {
+      if (!byId.has(override.entryId)) {
+        throw new Error(`Entry ${override.entryId} not found in this tournament`);
+      }
+      if (override.seed !== null && override.seed > current.length) {
+        throw new Error(`Seed ${override.seed} is higher than the number of entries`);
+      }
+      seeds.set(override.entryId, override.seed);
+    }
+    const taken = Array.from(seeds.values()).filter((seed): seed is number => seed !== null);
+    const duplicate = taken.find((seed, index) => taken.indexOf(seed) !== index);
+    if (duplicate !== undefined) {
+      throw new Error(`Seed ${duplicate} is given to more than one entry`);
+    }
+
+    await prisma.$transaction(async tx => {
+      for (const { entryId, seed } of overrides) {
+        const entry = byId.get(entryId)!;
+        if ((entry.seed ?? null) === seed) continue;
+
+        if (teamFormat) {
+          await tx.tournamentTeam.update({ where: { id: entryId }, data: { seed } });
+        } else {
+          await tx.tournamentPlayer.update({ where: { id: entryId }, data: { seed } });
+        }
+        await tx.tournamentSeedChange.create({
+          data: {
+            tournamentId: id,
+            entryId,
+            entryName: entry.name,
+            previousSeed: entry.seed ?? null,
+            newSeed: seed,
+            changedBy,
+            reason
+          }
+        });
+      }
+    });
+
+    return this.getSeeding(id);
+  }
+
+  /**
+   * Progress statistics for a tournament
+   * Swiss tournaments include the standings with their tiebreakers, and pool-play tournaments each group's standings.
+   */
+  async getTournamentStats(id: string) {
+    const tournament = await prisma.tournament.findUnique({
+      where: { id },
+      include: {
+        players: { where: { status: { not: 'WITHDRAWN' } } },
+        rounds: { orderBy: { roundNumber: 'asc' } },
+        matches: { include: { games: { include: { sets: true } } } }
+      }
+    });
+
+    if (!tournament) {
+      throw new Error('Tournament not found');
+    }
+
+    const completedMatches = tournament.matches.filter(m => m.status === 'COMPLETED' || m.status === 'WALKOVER').length;
+    const games = tournament.matches.flatMap(m => m.games);
+    const totalMatches = tournament.rounds.reduce((sum, r) => sum + r.matchesRequired, 0);
+
+    return {
+      totalPlayers: tournament.players.length,
+      totalMatches,
+      completedMatches,
+      totalGames: games.length,
+      totalSets: games.reduce((sum, g) => sum + g.sets.length, 0),
+      currentRound: tournament.rounds.find(r => r.status === 'IN_PROGRESS')?.roundNumber || 0,
+      tournamentProgress: totalMatches > 0 ? Math.round((completedMatches / totalMatches) * 100) : 0,
+      standings: tournament.tournamentType === 'SWISS' ? await tournamentBracketService.getSwissStandings(id) : undefined,
+      groups: tournament.tournamentType === 'MIXED' ? await tournamentBracketService.getGroupStandings(id) : undefined
+    };
+  }
+
+  /**
+   * Tournament with the players and teams that can make the draw
+   */
+  private async findEntrants(id: string) {
+    return prisma.tournament.findUnique({
+      where: { id },
+      include: {
+        players: { where: { status: { in: ACTIVE_PLAYER_STATUSES } } },
+        teams: { include: { captain: true, partner: true } }
+      }
+    });
+  }
+
+  /**
+   * Entries in seed order for the draw
+   * Organizer seeds come first, then ranking points as they stood at the close of entries. Knockout draws with club
+   * separation on move clubmates apart in the first round.
+   */
+  private async seedEntrants(tournament: NonNullable<Awaited<ReturnType<TournamentService['findEntrants']>>>) {
+    const teamFormat = isTeamFormat(tournament.matchFormat);
+    const confirmedTeams = tournament.teams.filter(t =>
+      t.status === 'CONFIRMED' && t.partner && [t.captain, t.partner].every(p => ACTIVE_PLAYER_STATUSES.includes(p.status)));
+    const players = teamFormat ? confirmedTeams.flatMap(team => [team.captain, team.partner!]) : tournament.players;
+
+    const now = new Date();
+    const rankingPoints = await this.rankingPoints(players, tournament.registrationDeadline < now ? tournament.registrationDeadline : now);
+    const ranked = (player: (typeof players)[number]) => ({ ...player, rankingPoints: rankingPoints.get(player.id) }) as EntryPlayer;
+
+    const entries: TournamentEntry[] = teamFormat
+      ? confirmedTeams.map(team => teamEntry(team, ranked(team.captain), ranked(team.partner!)))
+      : tournament.players.map(player => playerEntry(ranked(player)));
+    const seeded = seedEntries(entries);
+    const knockout = ['SINGLE_ELIMINATION', 'DOUBLE_ELIMINATION'].includes(tournament.tournamentType);
+
+    return {
+      seeded: tournament.separateClubs && knockout ? separateClubmates(seeded) : seeded,
+      confirmedTeams,
+      rankingPoints
+    };
+  }
+
+  /**
+   * Ranking points of tournament players linked to MVP players by device, as they stood at the given time
+   * A device can have played in many sessions: its latest ranking history counts, or its best current points without any.
+   */
+  private async rankingPoints(players: Array<{ id: string; deviceId: string | null }>, at: Date): Promise<Map<string, number>> {
+    const deviceIds = players.map(player => player.deviceId).filter((deviceId): deviceId is string => Boolean(deviceId));
+    if (deviceIds.length === 0) {
+      return new Map();
+    }
+
+    const mvpPlayers = await prisma.mvpPlayer.findMany({
+      where: { deviceId: { in: deviceIds } },
+      include: { rankingHistory: { where: { recordedAt: { lte: at } } } }
     });
 
-    rounds.push(round);
+    const points = new Map<string, number>();
+    for (const player of players) {
+      const linked = mvpPlayers.filter(mvpPlayer => player.deviceId && mvpPlayer.deviceId === player.deviceId);
+      if (linked.length === 0) continue;
+
+      const fromHistory = rankingPointsAt(linked.flatMap(mvpPlayer => mvpPlayer.rankingHistory), at);
+      points.set(player.id, fromHistory ?? Math.max(...linked.map(mvpPlayer => mvpPlayer.rankingPoints)));
+    }
+    return points;
+  }
 
-    // Create matches for this round (pair 1 vs 2, 3 vs 4, etc.)
-    for (let i = 0; i < players.length / 2; i++) {
-      const player1 = seededPlayers[i * 2];
-      const player2 = seededPlayers[i * 2 + 1];
+  private async findTournament(id: string) {
+    const tournament = await prisma.tournament.findUnique({ where: { id } });
+    if (!tournament) {
+      throw new Error('Tournament not found');
+    }
+    return tournament;
+  }
 
-      await prisma.tournamentMatch.create({
+  /**
+   * Whether a new registration gets a place, counting places held for invited partners
+   * Once anyone is waitlisted, new registrations join the back of the waitlist.
+   */
+  private async hasPlaces(tournament: { id: string; maxPlayers: number }, places: number): Promise<boolean> {
+    const waitlisted = await prisma.tournamentPlayer.count({ where: { tournamentId: tournament.id, status: 'WAITLISTED' } });
+    return waitlisted === 0 && (await this.placesTaken(tournament.id)) + places <= tournament.maxPlayers;
+  }
+
+  private async placesTaken(tournamentId: string): Promise<number> {
+    const [registered, pendingTeams] = await Promise.all([
+      prisma.tournamentPlayer.count({
+        where: { tournamentId, status: { in: PLACE_HOLDING_STATUSES } }
+      }),
+      prisma.tournamentTeam.count({
+        where: { tournamentId, status: 'PENDING_PARTNER', captain: { status: { in: PLACE_HOLDING_STATUSES } } }
+      })
+    ]);
+    return registered + pendingTeams;
+  }
+
+  /**
+   * The status a player given a place starts with: registered, or waiting on the entry fee in paid tournaments
+   */
+  private placeStatus(tournament: { entryFee: number }): 'REGISTERED' | 'PENDING_PAYMENT' {
+    return tournament.entryFee > 0 ? 'PENDING_PAYMENT' : 'REGISTERED';
+  }
+
+  /**
+   * Fill open places from the waitlist in registration order, notifying everyone promoted
+   * A doubles team needs places for both partners. Promotion stops at the first entry that doesn't fit so nobody
+   * jumps the queue; when the tournament is about to start only checked-in entries can be promoted.
+   */
+  private async promoteFromWaitlist(
+    tournament: { id: string; name: string; maxPlayers: number; entryFee: number },
+    checkedInOnly = false
+  ): Promise<void> {
+    const waitlisted = await prisma.tournamentPlayer.findMany({
+      where: { tournamentId: tournament.id, status: 'WAITLISTED' },
+      include: { captainOf: { include: { partner: true } }, partnerOf: true },
+      orderBy: { registeredAt: 'asc' }
+    });
+    let free = tournament.maxPlayers - (await this.placesTaken(tournament.id));
+
+    for (const player of waitlisted) {
+      // Partners move up with their captain
+      if (player.partnerOf.length > 0) continue;
+
+      const team = player.captainOf[0];
+      const members = team?.partner ? [player, team.partner] : [player];
+      const places = team ? 2 : 1;
+      // At the start a team still waiting on its partner, or anyone not checked in, stays on the waitlist
+      if (checkedInOnly && ((team && !team.partner) || members.some(member => !member.checkedInAt))) continue;
+      if (places > free) break;
+
+      await prisma.tournamentPlayer.updateMany({
+        where: { id: { in: members.map(member => member.id) } },
+        data: { status: this.placeStatus(tournament) }
+      });
+      free -= places;
+      const message = tournament.entryFee > 0
+        ? 'A place has opened up for you; pay the entry fee to confirm it'
+        : 'A place has opened up and you are now in the tournament';
+      for (const member of members) {
+        await this.notifyPlayer(member, tournament.name, 'WAITLIST_PROMOTED', message);
+      }
+    }
+  }
+
+  /**
+   * Close check-in: players who didn't check in are removed as no-shows and checked-in waitlisted players fill their places
+   * In paid tournaments the places stay empty, as there is no time left for the waitlist to pay.
+   */
+  private async removeNoShows(tournament: { id: string; name: string; maxPlayers: number; entryFee: number }): Promise<void> {
+    const noShows = await prisma.tournamentPlayer.findMany({
+      where: { tournamentId: tournament.id, status: { in: ACTIVE_PLAYER_STATUSES }, checkedInAt: null }
+    });
+
+    if (noShows.length > 0) {
+      await prisma.tournamentPlayer.updateMany({
+        where: { id: { in: noShows.map(player => player.id) } },
+        data: { status: 'NO_SHOW', seed: null }
+      });
+      for (const player of noShows) {
+        await this.notifyPlayer(player, tournament.name, 'NO_SHOW', 'You did not check in and have been removed from the draw');
+      }
+    }
+    if (tournament.entryFee <= 0) {
+      await this.promoteFromWaitlist(tournament, true);
+    }
+  }
+
+  /**
+   * Send a tournament update to the MVP player on the tournament player's device
+   * Players who registered without a device can't be reached; a failed notification never blocks the tournament.
+   */
+  private async notifyPlayer(
+    player: { deviceId: string | null },
+    tournamentName: string,
+    updateType: string,
+    message: string
+  ): Promise<void> {
+    if (!player.deviceId) {
+      return;
+    }
+
+    const mvpPlayer = await prisma.mvpPlayer.findFirst({
+      where: { deviceId: player.deviceId },
+      orderBy: { joinedAt: 'desc' }
+    });
+    if (!mvpPlayer) {
+      return;
+    }
+
+    try {
+      await NotificationHelpers.sendTournamentUpdateNotification(mvpPlayer.id, tournamentName, updateType, message);
+    } catch (error) {
+      console.error('Error sending tournament notification:', error);
+    }
+  }
+
+  /**
+   * Create the player's registration: a place, a place waiting on the entry fee, or the waitlist
+   */
+  private async addPlayer(input: PlayerRegistrationInput) {
+    const tournament = await this.findTournament(input.tournamentId);
+
+    if (tournament.status !== 'REGISTRATION_OPEN' || tournament.registrationDeadline < new Date()) {
+      throw new Error('Tournament is not accepting registrations');
+    }
+
+    const existing = await prisma.tournamentPlayer.findFirst({
+      where: {
+        tournamentId: tournament.id,
+        OR: [
+          { playerName: input.playerName },
+          ...(input.deviceId ? [{ deviceId: input.deviceId }] : [])
+        ]
+      }
+    });
+    if (existing) {
+      throw new Error('Player is already registered for this tournament');
+    }
+
+    const playerData = {
+      tournamentId: tournament.id,
+      playerName: input.playerName,
+      email: input.email,
+      phone: input.phone,
+      deviceId: input.deviceId,
+      skillLevel: input.skillLevel,
+      category: input.category,
+      club: input.club
+    };
+
+    if (!isTeamFormat(tournament.matchFormat)) {
+      if (input.partnerName || input.inviteCode) {
+        throw new Error('Partners can only be registered for doubles tournaments');
+      }
+      const status = (await this.hasPlaces(tournament, 1)) ? this.placeStatus(tournament) : 'WAITLISTED';
+      return prisma.tournamentPlayer.create({ data: { ...playerData, status } });
+    }
+
+    if (input.inviteCode) {
+      return this.acceptPartnerInvite(tournament, input.inviteCode, playerData);
+    }
+
+    if (!input.partnerName) {
+      throw new Error('A partner name is required to register for doubles');
+    }
+    const partnerError = validateInvitation(
+      tournament.matchFormat as TournamentMatchFormat,
+      { id: '', winRate: 0, ...playerData },
+      input.partnerName
+    );
+    if (partnerError) {
+      throw new Error(partnerError);
+    }
+
+    // The invited partner's place is held until they accept or the tournament starts
+    const status = (await this.hasPlaces(tournament, 2)) ? this.placeStatus(tournament) : 'WAITLISTED';
+    const inviteCode = await this.generateInviteCode();
+
+    return prisma.$transaction(async tx => {
+      const player = await tx.tournamentPlayer.create({ data: { ...playerData, status } });
+      const team = await tx.tournamentTeam.create({
         data: {
-          tournamentId,
-          roundId: round.id,
-          matchNumber: i + 1,
-          player1Id: player1.id,
-          player2Id: player2.id,
-          status: 'SCHEDULED',
-          scheduledAt: null,
-          bestOfGames: 3,
-          scoringSystem: '21_POINT',
-        },
+          tournamentId: tournament.id,
+          captainId: player.id,
+          invitedName: input.partnerName,
+          inviteCode
+        }
       });
+      return { ...player, team };
+    });
+  }
+
+  /**
+   * Register a player as the partner on an invited team
+   */
+  private async acceptPartnerInvite(
+    tournament: { id: string; matchFormat: string; entryFee: number },
+    inviteCode: string,
+    playerData: any
+  ) {
+    const team = await prisma.tournamentTeam.findFirst({
+      where: { tournamentId: tournament.id, inviteCode: inviteCode.toUpperCase() },
+      include: { captain: true }
+    });
+
+    if (!team) {
+      throw new Error('Partner invitation not found');
+    }
+    if (team.status === 'CONFIRMED') {
+      throw new Error('This partner invitation has already been accepted');
+    }
+    if (team.invitedName && team.invitedName.trim().toLowerCase() !== playerData.playerName.trim().toLowerCase()) {
+      throw new Error(`This partner invitation is for ${team.invitedName}`);
+    }
+
+    const partnerError = validatePartners(
+      tournament.matchFormat as TournamentMatchFormat,
+      team.captain as EntryPlayer,
+      { id: '', winRate: 0, ...playerData }
+    );
+    if (partnerError) {
+      throw new Error(partnerError);
     }
+
+    return prisma.$transaction(async tx => {
+      // A partner joins their captain on the waitlist, in the place the invitation held
+      const status = team.captain.status === 'WAITLISTED' ? 'WAITLISTED' : this.placeStatus(tournament);
+      const player = await tx.tournamentPlayer.create({ data: { ...playerData, status } });
+      const confirmedTeam = await tx.tournamentTeam.update({
+        where: { id: team.id },
+        data: { partnerId: player.id, status: 'CONFIRMED', confirmedAt: new Date() }
+      });
+      return { ...player, team: confirmedTeam };
+    });
   }
 
-  return rounds;
-}
+  /**
+   * Generate a unique 8-character partner invite code
+   */
+  private async generateInviteCode(): Promise<string> {
+    const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+    let code = '';
+    do {
+      code = '';
+      for (let i = 0; i < 8; i++) {
+        code += chars.charAt(Math.floor(Math.random() * chars.length));
+      }
+    } while (await prisma.tournamentTeam.findUnique({ where: { inviteCode: code } }));
+    return code;
+  }
 
-// Simple seeding logic (can be enhanced with skill levels)
-export async function calculateSeeding(tournamentId: string, players: string[]) {
-  // Fetch player data for seeding
-  const playerData = await prisma.tournamentPlayer.findMany({
-    where: { tournamentId },
-    include: { player: { select: { winRate: true, totalMatches: true } } },
-  });
+  /**
+   * Rounds of a single-elimination bracket; only the first round's matches are known at the start
+   */
+  private planKnockoutRounds(entryCount: number, draw: FirstRoundDraw): RoundPlan[] {
+    const totalRounds = Math.ceil(Math.log2(entryCount));
+    const bracketSize = Math.pow(2, totalRounds);
+    const rounds: RoundPlan[] = [];
 
-  // Sort by winRate descending, then by totalMatches
-  const seeded = playerData.sort((a, b) => {
-    if (a.player.winRate !== b.player.winRate) {
-      return b.player.winRate - a.player.winRate;
+    for (let roundNumber = 1; roundNumber <= totalRounds; roundNumber++) {
+      const matchesInRound = bracketSize / Math.pow(2, roundNumber);
+      rounds.push({
+        roundName: this.getRoundName(roundNumber, totalRounds),
+        roundType: 'ELIMINATION',
+        matchesRequired: roundNumber === 1 ? draw.matches.length : matchesInRound,
+        playersAdvancing: matchesInRound,
+        matches: roundNumber === 1 ? draw.matches : []
+      });
     }
-    return b.player.totalMatches - a.player.totalMatches;
-  });
+    return rounds;
+  }
+
+  /**
+   * Rounds of a double-elimination bracket in play order, from the first winners round to the grand final reset
+   * Matches between entries that both had byes can be drawn straight away, even in later rounds.
+   */
+  private planDoubleEliminationRounds(seeded: TournamentEntry[]): RoundPlan[] {
+    const bracket = buildDoubleElimination(seeded.length);
+    const realSlots = realMatchSlots(bracket, seeded.length);
+    const state = resolveDoubleElimination(bracket, seeded.length, new Map());
 
-  // Assign seeds 1 to n
-  for (let i = 0; i < seeded.length; i++) {
-    await prisma.tournamentPlayer.update({
-      where: { id: seeded[i].id },
-      data: { seed: i + 1 },
+    return bracket.rounds.map(round => {
+      const matchesRequired = round.slots.filter(slot => realSlots.has(slot.id)).length;
+      return {
+        roundName: round.name,
+        roundType: 'ELIMINATION',
+        matchesRequired,
+        playersAdvancing: matchesRequired,
+        matches: round.slots
+          .map(slot => state.slots.get(slot.id)!)
+          .filter(slot => slot.state === 'READY')
+          .map(slot => ({ matchNumber: slot.slot.matchNumber, entry1: seeded[slot.entry1! - 1], entry2: seeded[slot.entry2! - 1] }))
+      };
     });
   }
 
-  return seeded.map(p => p.seed);
-}
+  /**
+   * Rounds of a Swiss tournament; later rounds are paired from the standings when they start
+   */
+  private planSwissRounds(seeded: TournamentEntry[], roundCount: number): RoundPlan[] {
+    const entries = new Map(seeded.map(entry => [entry.id, entry]));
+    const pairing = pairSwissRound(computeSwissStandings(seeded.map((entry, index) => ({ id: entry.id, seed: index + 1 })), [], []));
+    const rounds: RoundPlan[] = [];
 
-// Get round name based on round number and tournament format
-function getRoundName(roundNum: number, format: string): string {
-  const names = {
-    1: 'Round of 64',
-    2: 'Round of 32',
-    3: 'Round of 16',
-    4: 'Quarter Finals',
-    5: 'Semi Finals',
-    6: 'Finals',
-  };
-
-  return names[roundNum] || `Round ${roundNum}`;
-}
+    for (let roundNumber = 1; roundNumber <= roundCount; roundNumber++) {
+      rounds.push({
+        roundName: `Round ${roundNumber}`,
+        roundType: 'SWISS',
+        matchesRequired: Math.floor(seeded.length / 2),
+        playersAdvancing: seeded.length,
+        byeEntryId: roundNumber === 1 ? pairing.bye : null,
+        matches: roundNumber === 1
+          ? pairing.pairs.map(([entry1Id, entry2Id], index) => ({
+            matchNumber: index + 1,
+            entry1: entries.get(entry1Id)!,
+            entry2: entries.get(entry2Id)!
+          }))
+          : []
+      });
+    }
+    return rounds;
+  }
 
-// Permission check for tournament actions (organizer only)
-export async function checkTournamentPermission(userId: string, tournamentId: string, action: string) {
-  const tournament = await prisma.tournament.findUnique({
-    where: { id: tournamentId },
-    select: { organizer: true },
-  });
+  /**
+   * Rounds of a pool-play tournament: every group's round-robin, played side by side, then the knockout
+   * Group matches are all drawn at the start; the knockout is drawn from the group standings once the last group round finishes.
+   */
+  private planPoolPlayRounds(groups: TournamentEntry[][], advancers: number): RoundPlan[] {
+    const schedules = groups.map(group => roundRobinRounds(group));
+    const groupRounds = Math.max(...schedules.map(schedule => schedule.length));
+    const qualifiers = groups.length * advancers;
+    const rounds: RoundPlan[] = [];
 
-  if (tournament.organizer !== userId) {
-    throw new Error('Unauthorized: Only organizers can perform this action');
+    for (let roundNumber = 1; roundNumber <= groupRounds; roundNumber++) {
+      const pairs = schedules.flatMap(schedule => schedule[roundNumber - 1] || []);
+      rounds.push({
+        roundName: `Group Round ${roundNumber}`,
+        roundType: 'ROUND_ROBIN',
+        matchesRequired: pairs.length,
+        playersAdvancing: qualifiers,
+        matches: pairs.map(([entry1, entry2], index) => ({ matchNumber: index + 1, entry1, entry2 }))
+      });
+    }
+
+    const knockoutRounds = Math.ceil(Math.log2(qualifiers));
+    const bracketSize = Math.pow(2, knockoutRounds);
+    for (let roundNumber = 1; roundNumber <= knockoutRounds; roundNumber++) {
+      const matchesInRound = bracketSize / Math.pow(2, roundNumber);
+      rounds.push({
+        roundName: this.getRoundName(roundNumber, knockoutRounds),
+        roundType: 'ELIMINATION',
+        // Top-placed qualifiers get byes when the knockout isn't a power of two
+        matchesRequired: roundNumber === 1 ? qualifiers - matchesInRound : matchesInRound,
+        playersAdvancing: matchesInRound,
+        matches: []
+      });
+    }
+    return rounds;
   }
 
-  return true;
+  /**
+   * Get round name based on round number and total rounds
+   */
+  private getRoundName(roundNumber: number, totalRounds: number): string {
+    const fromFinal = totalRounds - roundNumber;
+    if (fromFinal === 0) return 'Final';
+    if (fromFinal === 1) return 'Semi-Final';
+    if (fromFinal === 2) return 'Quarter-Final';
+    return `Round of ${Math.pow(2, fromFinal + 1)}`;
+  }
 }
 
-export { Tournament, TournamentPlayer, TournamentRound, TournamentMatch, TournamentGame, TournamentGameSet };
\ No newline at end of file
+// Export singleton instance
+export const tournamentService = new TournamentService();
+export default tournamentService;
@@ -117,6 +117,14 @@ export interface RefundResponse {
   error?: string;
 }
 
+// Where payments are taken: Stripe through PaymentService, or a local provider in tests and offline
+export interface PaymentProvider {
+  createPaymentIntent(request: CreatePaymentIntentRequest, userId?: string): Promise<PaymentIntentResponse>;
+  getPaymentIntent(paymentIntentId: string): Promise<PaymentIntent | null>;
+  cancelPayment(paymentIntentId: string): Promise<PaymentIntentResponse>;
+  createRefund(request: CreateRefundRequest): Promise<RefundResponse>;
+}
+
 // Enums
 export enum PaymentIntentStatus {
   REQUIRES_PAYMENT_METHOD = 'requires_payment_method',
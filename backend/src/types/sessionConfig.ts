@@ -1,3 +1,5 @@
+import { FairnessWeights } from '../utils/rotationAlgorithm';
+
 // Advanced Session Configuration Types
 export interface CourtConfiguration {
   surface: 'wood' | 'synthetic' | 'carpet' | 'grass' | 'rubber';
@@ -18,6 +20,7 @@ export interface ScoringRules {
   setTimeLimit?: number; // minutes
   restPeriod: number; // minutes between games
   deuceRules: 'sudden_death' | 'advantage' | 'standard';
+  requireConfirmation: boolean; // Scores wait for the opposing team or organizer to confirm
 }
 
 export interface EquipmentRequirements {
@@ -95,6 +98,7 @@ export interface PrivacySettings {
   requireApproval: boolean;
   inviteOnly: boolean;
   maxWaitlist?: number;
+  waitlistOfferMinutes: number; // How long a promoted player has to take their spot
   accessCode?: string;
   visibility: 'public' | 'private' | 'unlisted';
   allowGuests: boolean;
@@ -112,6 +116,11 @@ export interface GameRules {
   lineJudgesRequired: boolean;
 }
 
+export interface RotationSettings {
+  weights: Partial<FairnessWeights>; // Missing weights fall back to the rotation defaults
+  allowSingles: boolean; // Fill spare courts with singles games
+}
+
 export interface SessionConfiguration {
   // Court Configuration
   courtSurface?: CourtConfiguration['surface'];
@@ -124,6 +133,7 @@ export interface SessionConfiguration {
   gameTimeLimit?: ScoringRules['gameTimeLimit'];
   setTimeLimit?: ScoringRules['setTimeLimit'];
   restPeriod: ScoringRules['restPeriod'];
+  requireScoreConfirmation?: ScoringRules['requireConfirmation'];
 
   // Equipment Requirements
   racketRequired: EquipmentRequirements['racketRequired'];
@@ -138,6 +148,10 @@ export interface SessionConfiguration {
   genderPreference?: PlayerRestrictions['genderPreference'];
   maxSkillGap?: PlayerRestrictions['maxSkillGap'];
 
+  // Rotation
+  rotationWeights?: RotationSettings['weights'];
+  allowSingles?: RotationSettings['allowSingles'];
+
   // Advanced Scheduling
   setupTime: AdvancedScheduling['setupTime'];
   bufferTime: AdvancedScheduling['bufferTime'];
@@ -161,6 +175,7 @@ export interface SessionConfiguration {
   requireApproval: PrivacySettings['requireApproval'];
   inviteOnly: PrivacySettings['inviteOnly'];
   maxWaitlist?: PrivacySettings['maxWaitlist'];
+  waitlistOfferMinutes: PrivacySettings['waitlistOfferMinutes'];
   accessCode?: PrivacySettings['accessCode'];
 
   // Custom Rules
@@ -185,6 +200,7 @@ export const DEFAULT_SESSION_CONFIG: SessionConfiguration = {
   notifyOnStatus: true,
   requireApproval: false,
   inviteOnly: false,
+  waitlistOfferMinutes: 15,
   substitutions: 'allowed',
   coachingAllowed: true,
 };
@@ -201,6 +217,7 @@ export type ConfigurationSection =
   | 'scoring'
   | 'equipment'
   | 'playerRestrictions'
+  | 'rotation'
   | 'scheduling'
   | 'cost'
   | 'notifications'
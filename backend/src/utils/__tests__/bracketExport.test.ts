@@ -0,0 +1,78 @@
+import { ExportSection, layoutBracket, roundRobinGrid, toCsv } from '../bracketExport';
+import { renderPdf, renderSvg } from '../drawing';
+
+const knockout: ExportSection = {
+  title: 'Main Draw',
+  knockout: true,
+  rounds: [
+    {
+      name: 'Semi-Final',
+      slots: 2,
+      matches: [
+        { matchNumber: 1, player1Name: 'Alice', player2Name: 'Bob', winner: 1, score: '21-15, 21-18', court: 'Court 1' },
+        { matchNumber: 2, player1Name: 'Cara', player2Name: 'Dan', winner: 2, score: '19-21, 15-21' }
+      ]
+    },
+    { name: 'Final', slots: 1, matches: [{ matchNumber: 1, player1Name: 'Alice', player2Name: 'Dan' }] }
+  ]
+};
+
+const boxes = (elements: ReturnType<typeof layoutBracket>['elements']) =>
+  elements.filter(element => element.type === 'rect') as Array<{ x: number; y: number; width: number; height: number }>;
+
+describe('Bracket export', () => {
+  it('should place each knockout match midway between the matches feeding it', () => {
+    const drawing = layoutBracket({ title: 'Club Open', grids: [], sections: [knockout] });
+    const [semi1, semi2, final] = boxes(drawing.elements);
+
+    expect(final.x).toBeGreaterThan(semi1.x + semi1.width);
+    expect(final.y + final.height / 2).toBeCloseTo((semi1.y + semi2.y + semi1.height) / 2);
+    // Each semi-final is joined to the final: out of the box, down or up to the final, and in
+    expect(drawing.elements.filter(element => element.type === 'line')).toHaveLength(3 + 2 * 3);
+    expect(drawing.elements).toContainEqual(expect.objectContaining({ type: 'text', text: 'Alice', bold: true }));
+    expect(drawing.elements).toContainEqual(expect.objectContaining({ type: 'text', text: '21-15, 21-18 · Court 1' }));
+  });
+
+  it('should read round-robin results along each entry\'s row', () => {
+    const grid = roundRobinGrid(
+      'Group A',
+      [{ id: 'A', name: 'Alice' }, { id: 'B', name: 'Bob' }, { id: 'C', name: 'Cara' }],
+      [
+        { player1Id: 'A', player2Id: 'B', winnerId: 'B', score: '21-19, 15-21, 18-21' },
+        { player1Id: 'C', player2Id: 'A', winnerId: 'A', score: '10-21, 12-21' },
+        // Walkover: no games
+        { player1Id: 'B', player2Id: 'C', winnerId: 'C' }
+      ]
+    );
+
+    expect(grid.cells).toEqual([
+      [null, 'L 1-2', 'W 2-0'],
+      ['W 2-1', null, 'L'],
+      ['L 0-2', 'W', null]
+    ]);
+    expect(grid.records).toEqual(['1-1', '1-1', '1-1']);
+  });
+
+  it('should quote CSV fields and neutralise spreadsheet formulas', () => {
+    expect(toCsv(['Name', 'Points'], [['Smith, J', -4], ['=HYPERLINK("x")', null], ['Said "hi"', 21]])).toBe(
+      'Name,Points\n"Smith, J",-4\n"\'=HYPERLINK(""x"")",\n"Said ""hi""",21\n'
+    );
+  });
+
+  it('should render the same drawing as SVG and as a PDF with a valid cross-reference table', () => {
+    const drawing = layoutBracket({ title: 'Club Open <Finals> (2026)', grids: [], sections: [knockout] });
+
+    const svg = renderSvg(drawing);
+    expect(svg).toContain('<svg xmlns="http://www.w3.org/2000/svg"');
+    expect(svg).toContain('Club Open &lt;Finals&gt; (2026)');
+
+    const pdf = renderPdf(drawing).toString('latin1');
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf).toContain('(Club Open <Finals> \\(2026\\)) Tj');
+    // Every object starts at the offset the cross-reference table gives it
+    const offsets = Array.from(pdf.matchAll(/^(\d{10}) 00000 n $/gm), match => parseInt(match[1], 10));
+    expect(offsets).toHaveLength(6);
+    offsets.forEach((offset, index) => expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true));
+    expect(pdf.slice(parseInt(pdf.match(/startxref\n(\d+)/)![1], 10)).startsWith('xref')).toBe(true);
+  });
+});
@@ -0,0 +1,122 @@
+import {
+  DoubleEliminationState,
+  ResolvedSlot,
+  buildDoubleElimination,
+  realMatchSlots,
+  resolveDoubleElimination
+} from '../doubleElimination';
+
+// Play the bracket out, letting pickWinner decide every match as it becomes ready
+const playOut = (entryCount: number, pickWinner: (slot: ResolvedSlot) => number) => {
+  const bracket = buildDoubleElimination(entryCount);
+  const results = new Map<string, number>();
+  const losses = new Map<number, number>();
+  let state: DoubleEliminationState = resolveDoubleElimination(bracket, entryCount, results);
+
+  for (;;) {
+    const ready = Array.from(state.slots.values()).filter(s => s.state === 'READY');
+    if (ready.length === 0) break;
+
+    for (const slot of ready) {
+      const winner = pickWinner(slot);
+      const loser = winner === slot.entry1 ? slot.entry2! : slot.entry1!;
+      // Nobody plays on after a second loss
+      expect(losses.get(slot.entry1!) || 0).toBeLessThan(2);
+      expect(losses.get(slot.entry2!) || 0).toBeLessThan(2);
+      losses.set(loser, (losses.get(loser) || 0) + 1);
+      results.set(slot.slot.id, winner);
+    }
+    state = resolveDoubleElimination(bracket, entryCount, results);
+  }
+
+  return { bracket, results, losses, state };
+};
+
+const topSeedWins = (slot: ResolvedSlot) => Math.min(slot.entry1!, slot.entry2!);
+
+describe('Double elimination', () => {
+  it('should lay out an 8-entry bracket with losers dropping into alternating positions', () => {
+    const bracket = buildDoubleElimination(8);
+
+    expect(bracket.rounds.map(r => `${r.name}:${r.slots.length}`)).toEqual([
+      'Winners Round 1:4', 'Winners Round 2:2', 'Losers Round 1:2', 'Losers Round 2:2',
+      'Winners Final:1', 'Losers Round 3:1', 'Losers Final:1', 'Grand Final:1', 'Grand Final Reset:1'
+    ]);
+
+    const slot = (id: string) => bracket.rounds.flatMap(r => r.slots).find(s => s.id === id)!;
+    expect(slot('L1-2').sources).toEqual([{ type: 'loser', slotId: 'W1-3' }, { type: 'loser', slotId: 'W1-4' }]);
+    // Winners round 2 losers cross over, so they don't meet the side of the draw they just came through
+    expect(slot('L2-1').sources).toEqual([{ type: 'winner', slotId: 'L1-1' }, { type: 'loser', slotId: 'W2-2' }]);
+    expect(slot('L4-1').sources).toEqual([{ type: 'winner', slotId: 'L3-1' }, { type: 'loser', slotId: 'W3-1' }]);
+    expect(slot('GF-1').sources).toEqual([{ type: 'winner', slotId: 'W3-1' }, { type: 'winner', slotId: 'L4-1' }]);
+  });
+
+  it('should pass 5 entries through byes without giving anyone a second one', () => {
+    const bracket = buildDoubleElimination(5);
+    expect(bracket.bracketSize).toBe(8);
+    // 2n - 2 matches plus a possible reset
+    expect(realMatchSlots(bracket, 5).size).toBe(9);
+
+    const initial = resolveDoubleElimination(bracket, 5, new Map());
+    // Seeds 2 and 3 both had byes, so they can meet straight away
+    expect(Array.from(initial.slots.values()).filter(s => s.state === 'READY').map(s => s.slot.id)).toEqual(['W1-2', 'W2-2']);
+    expect(initial.slots.get('W1-1')).toMatchObject({ state: 'BYE', winner: 1, loser: null });
+    expect(initial.slots.get('L1-2')!.state).toBe('EMPTY');
+
+    const { results, losses, state } = playOut(5, topSeedWins);
+    expect(results.size).toBe(8);
+    expect(state.slots.get('GF-2')!.state).toBe('NOT_NEEDED');
+    expect(state.champion).toBe(1);
+    expect(state.runnerUp).toBe(2);
+    expect([2, 3, 4, 5].map(seed => losses.get(seed))).toEqual([2, 2, 2, 2]);
+    expect(Array.from(state.eliminated.entries()).sort((a, b) => a[0] - b[0])).toEqual([[2, 2], [3, 3], [4, 4], [5, 5]]);
+  });
+
+  it('should reset the grand final when the losers-bracket champion wins it in a 12-entry draw', () => {
+    const bracket = buildDoubleElimination(12);
+    const results = new Map<string, number>();
+    let state = resolveDoubleElimination(bracket, 12, results);
+
+    // Top seeds win until the grand final, where the losers-bracket champion beats seed 1
+    for (;;) {
+      const ready = Array.from(state.slots.values()).filter(s => s.state === 'READY');
+      if (ready.length === 0 || ready[0].slot.section === 'GRAND_FINAL') break;
+      ready.forEach(s => results.set(s.slot.id, topSeedWins(s)));
+      state = resolveDoubleElimination(bracket, 12, results);
+    }
+
+    expect(state.slots.get('GF-1')).toMatchObject({ state: 'READY', entry1: 1, entry2: 2 });
+    expect(state.eliminated.get(3)).toBe(3);
+
+    results.set('GF-1', 2);
+    state = resolveDoubleElimination(bracket, 12, results);
+    expect(state.slots.get('GF-2')).toMatchObject({ state: 'READY', entry1: 1, entry2: 2 });
+    expect(state.champion).toBeUndefined();
+
+    results.set('GF-2', 2);
+    state = resolveDoubleElimination(bracket, 12, results);
+    expect(state.champion).toBe(2);
+    expect(state.runnerUp).toBe(1);
+    expect(state.eliminated.get(1)).toBe(2);
+    // Twelve entries: 2n - 1 matches with the reset
+    expect(results.size).toBe(23);
+  });
+
+  it('should finish a 16-entry draw with upsets and rank entries by the round they went out', () => {
+    // The lower seed wins whenever the seeds add up to an odd number
+    const { results, losses, state } = playOut(16, slot => {
+      const [high, low] = [Math.min(slot.entry1!, slot.entry2!), Math.max(slot.entry1!, slot.entry2!)];
+      return (high + low) % 2 === 1 ? low : high;
+    });
+
+    expect(state.champion).toBeDefined();
+    expect(results.size).toBeGreaterThanOrEqual(30);
+    expect(results.size).toBeLessThanOrEqual(31);
+    for (let seed = 1; seed <= 16; seed++) {
+      expect(losses.get(seed) || 0).toBe(seed === state.champion ? results.size - 30 : 2);
+    }
+
+    const ranks = Array.from(state.eliminated.values()).sort((a, b) => a - b);
+    expect(ranks).toEqual([2, 3, 4, 5, 5, 7, 7, 9, 9, 9, 9, 13, 13, 13, 13]);
+  });
+});
@@ -0,0 +1,24 @@
+import { formatTeamName, gameTeams, validateTeamColumns } from '../gameFormat';
+
+describe('Game format helpers', () => {
+  it('should accept one player per side for singles', () => {
+    expect(validateTeamColumns('SINGLES', { team1Player1: 'A', team2Player1: 'B' })).toBeNull();
+    expect(validateTeamColumns('SINGLES', { team1Player1: 'A', team1Player2: 'C', team2Player1: 'B' }))
+      .toBe('Singles games take one player per team');
+  });
+
+  it('should still require four players for doubles', () => {
+    expect(validateTeamColumns('DOUBLES', { team1Player1: 'A', team2Player1: 'B' })).toBe('All four players are required');
+    expect(validateTeamColumns('DOUBLES', {
+      team1Player1: 'A', team1Player2: 'B', team2Player1: 'C', team2Player2: 'D'
+    })).toBeNull();
+  });
+
+  it('should drop the empty singles slot from teams and labels', () => {
+    const singles = { team1Player1: 'A', team1Player2: '', team2Player1: 'B', team2Player2: '' };
+
+    expect(gameTeams(singles)).toEqual([['A'], ['B']]);
+    expect(formatTeamName('A', '')).toBe('A');
+    expect(formatTeamName('A', 'B')).toBe('A & B');
+  });
+});
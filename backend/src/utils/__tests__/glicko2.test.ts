@@ -0,0 +1,128 @@
+import {
+  GLICKO_DEFAULTS,
+  applyInactivity,
+  calculateTeamRating,
+  calculateWinProbability,
+  createInitialRating,
+  rateTeamGame,
+  ratingPeriodsBetween
+} from '../glicko2';
+
+describe('Glicko-2 rating engine', () => {
+  describe('calculateTeamRating', () => {
+    it('should average partner ratings', () => {
+      const team = calculateTeamRating([
+        { rating: 1400, deviation: 50, volatility: 0.06 },
+        { rating: 1200, deviation: 150, volatility: 0.06 }
+      ]);
+
+      expect(team.rating).toBe(1300);
+      expect(team.deviation).toBeCloseTo(Math.sqrt((50 * 50 + 150 * 150) / 2), 5);
+    });
+  });
+
+  describe('calculateWinProbability', () => {
+    it('should return 0.5 for evenly matched teams', () => {
+      const player = createInitialRating();
+      expect(calculateWinProbability([player, player], [player, player])).toBeCloseTo(0.5, 10);
+    });
+
+    it('should favour the stronger team', () => {
+      const strong = { rating: 1500, deviation: 60, volatility: 0.06 };
+      const weak = { rating: 1100, deviation: 60, volatility: 0.06 };
+
+      expect(calculateWinProbability([strong, strong], [weak, weak])).toBeGreaterThan(0.8);
+      expect(calculateWinProbability([weak, weak], [strong, strong])).toBeLessThan(0.2);
+    });
+  });
+
+  describe('rateTeamGame', () => {
+    it('should raise winners and lower losers in a doubles game', () => {
+      const player = createInitialRating();
+      const result = rateTeamGame({
+        team1: [player, player],
+        team2: [player, player],
+        team1Score: 1
+      });
+
+      result.team1.forEach(r => expect(r.rating).toBeGreaterThan(GLICKO_DEFAULTS.INITIAL_RATING));
+      result.team2.forEach(r => expect(r.rating).toBeLessThan(GLICKO_DEFAULTS.INITIAL_RATING));
+      [...result.team1, ...result.team2].forEach(r => expect(r.deviation).toBeLessThan(GLICKO_DEFAULTS.INITIAL_DEVIATION));
+    });
+
+    it('should move uncertain players further than established players', () => {
+      const established = { rating: 1200, deviation: 50, volatility: 0.06 };
+      const newcomer = createInitialRating();
+      const opponent = { rating: 1200, deviation: 50, volatility: 0.06 };
+
+      const result = rateTeamGame({
+        team1: [established, newcomer],
+        team2: [opponent, opponent],
+        team1Score: 1
+      });
+
+      const establishedGain = result.team1[0].rating - established.rating;
+      const newcomerGain = result.team1[1].rating - newcomer.rating;
+      expect(newcomerGain).toBeGreaterThan(establishedGain);
+    });
+
+    it('should reward an upset more than an expected win', () => {
+      const strong = { rating: 1500, deviation: 80, volatility: 0.06 };
+      const weak = { rating: 1100, deviation: 80, volatility: 0.06 };
+
+      const upset = rateTeamGame({ team1: [weak, weak], team2: [strong, strong], team1Score: 1 });
+      const expected = rateTeamGame({ team1: [strong, strong], team2: [weak, weak], team1Score: 1 });
+
+      expect(upset.team1[0].rating - weak.rating).toBeGreaterThan(expected.team1[0].rating - strong.rating);
+    });
+
+    it('should support singles games', () => {
+      const result = rateTeamGame({
+        team1: [createInitialRating()],
+        team2: [createInitialRating()],
+        team1Score: 0
+      });
+
+      expect(result.team1).toHaveLength(1);
+      expect(result.team1[0].rating).toBeLessThan(result.team2[0].rating);
+    });
+
+    it('should keep volatility stable after a single expected result', () => {
+      const result = rateTeamGame({
+        team1: [{ rating: 1200, deviation: 200, volatility: 0.06 }],
+        team2: [{ rating: 1100, deviation: 30, volatility: 0.06 }],
+        team1Score: 1
+      });
+
+      expect(result.team1[0].volatility).toBeCloseTo(0.06, 3);
+      expect(result.team1[0].rating).toBeGreaterThan(1200);
+      expect(result.team1[0].deviation).toBeLessThan(200);
+    });
+  });
+
+  describe('applyInactivity', () => {
+    it('should leave ratings unchanged without inactive periods', () => {
+      const player = { rating: 1300, deviation: 60, volatility: 0.06 };
+      expect(applyInactivity(player, 0)).toEqual(player);
+    });
+
+    it('should grow deviation with inactivity up to the maximum', () => {
+      const player = { rating: 1300, deviation: 60, volatility: 0.06 };
+      const afterMonth = applyInactivity(player, 4);
+      const afterYears = applyInactivity(player, 10000);
+
+      expect(afterMonth.rating).toBe(1300);
+      expect(afterMonth.deviation).toBeGreaterThan(60);
+      expect(afterYears.deviation).toBe(GLICKO_DEFAULTS.MAX_DEVIATION);
+    });
+  });
+
+  describe('ratingPeriodsBetween', () => {
+    it('should count whole weeks', () => {
+      const start = new Date('2025-01-01T00:00:00Z');
+      expect(ratingPeriodsBetween(start, new Date('2025-01-07T23:59:59Z'))).toBe(0);
+      expect(ratingPeriodsBetween(start, new Date('2025-01-15T00:00:00Z'))).toBe(2);
+      expect(ratingPeriodsBetween(start, new Date('2024-12-01T00:00:00Z'))).toBe(0);
+    });
+  });
+});
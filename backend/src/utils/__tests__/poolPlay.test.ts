@@ -0,0 +1,87 @@
+import {
+  GroupMatchRecord,
+  computeGroupStandings,
+  crossGroupSeeds,
+  groupLabel,
+  roundRobinRounds,
+  snakeGroups
+} from '../poolPlay';
+
+const result = (entry1Id: string, entry2Id: string, winnerId: string, games: Array<[number, number]>): GroupMatchRecord => ({
+  entry1Id,
+  entry2Id,
+  winnerId,
+  games: games.map(([player1Score, player2Score]) => ({ player1Score, player2Score }))
+});
+
+const label = (slot: { groupNumber: number; place: number }) => `${groupLabel(slot.groupNumber)}${slot.place}`;
+
+describe('Pool play', () => {
+  it('should snake seeds across the groups', () => {
+    const seeds = Array.from({ length: 12 }, (_, i) => i + 1);
+
+    expect(snakeGroups(seeds, 3)).toEqual([[1, 6, 7, 12], [2, 5, 8, 11], [3, 4, 9, 10]]);
+  });
+
+  it('should schedule every pairing in a group exactly once', () => {
+    const rounds = roundRobinRounds(['A', 'B', 'C', 'D', 'E']);
+    const meetings = rounds.flat().map(pair => [...pair].sort().join('-'));
+
+    expect(rounds).toHaveLength(5);
+    expect(rounds.every(round => round.length === 2)).toBe(true);
+    expect(new Set(meetings).size).toBe(10);
+    expect(roundRobinRounds(['A', 'B', 'C', 'D'])).toHaveLength(3);
+  });
+
+  it('should break a two-way tie on head-to-head before game difference', () => {
+    const standings = computeGroupStandings(
+      [{ id: 'P1', seed: 1 }, { id: 'P2', seed: 2 }, { id: 'P3', seed: 3 }, { id: 'P4', seed: 4 }],
+      [
+        result('P1', 'P3', 'P1', [[21, 5], [21, 5]]),
+        result('P1', 'P4', 'P1', [[21, 5], [21, 5]]),
+        result('P1', 'P2', 'P2', [[21, 19], [19, 21], [20, 22]]),
+        result('P2', 'P3', 'P3', [[15, 21], [15, 21]]),
+        result('P2', 'P4', 'P2', [[21, 15], [21, 15]])
+      ]
+    );
+
+    // P1 and P2 both won twice; P1 has the better game difference but P2 won their meeting
+    expect(standings.map(s => [s.entryId, s.wins, s.gameDifference])).toEqual([
+      ['P2', 2, 1],
+      ['P1', 2, 3],
+      ['P3', 1, 0],
+      ['P4', 0, -4]
+    ]);
+
+    const tied = computeGroupStandings(
+      [{ id: 'P1', seed: 1 }, { id: 'P2', seed: 2 }, { id: 'P3', seed: 3 }, { id: 'P4', seed: 4 }],
+      [
+        result('P1', 'P4', 'P1', [[21, 10], [21, 10]]),
+        result('P2', 'P3', 'P2', [[21, 15], [21, 15]])
+      ]
+    );
+    // P1 and P2 each won once against a different opponent: equal on head-to-head and games, so points decide
+    expect(tied.map(s => s.entryId)).toEqual(['P1', 'P2', 'P3', 'P4']);
+    expect([tied[0].pointDifference, tied[1].pointDifference]).toEqual([22, 12]);
+  });
+
+  it('should open the knockout with group winners against runners-up from another group', () => {
+    expect(crossGroupSeeds(2, 2).map(label)).toEqual(['A1', 'B1', 'A2', 'B2']);
+    // Seeded 1 v 8, 4 v 5, 2 v 7, 3 v 6
+    expect(crossGroupSeeds(4, 2).map(label)).toEqual(['A1', 'B1', 'C1', 'D1', 'C2', 'D2', 'A2', 'B2']);
+
+    for (let groupCount = 2; groupCount <= 8; groupCount++) {
+      for (let advancers = 1; advancers <= 3; advancers++) {
+        const seeds = crossGroupSeeds(groupCount, advancers);
+        let size = 2;
+        while (size < seeds.length) size *= 2;
+
+        expect(new Set(seeds.map(label)).size).toBe(groupCount * advancers);
+        for (let seed = 1; seed <= size / 2; seed++) {
+          const opponent = seeds[size - seed];
+          if (opponent) expect(opponent.groupNumber).not.toBe(seeds[seed - 1].groupNumber);
+        }
+      }
+    }
+  });
+});
@@ -0,0 +1,144 @@
+import {
+  RallySetup,
+  SCORING_SYSTEMS,
+  TeamNumber,
+  applyRally,
+  calculateMomentum,
+  createRallyState,
+  isSetComplete,
+  replayRallies,
+  validateRallySetup,
+  validateSetScore
+} from '../rallyScoring';
+
+const doubles: RallySetup = {
+  team1: ['A', 'B'],
+  team2: ['C', 'D'],
+  scoringSystem: '21_POINT',
+  bestOfGames: 3,
+  firstServerTeam: 1
+};
+
+const points = (team: TeamNumber, count: number): TeamNumber[] => Array(count).fill(team);
+
+describe('Rally scoring rule engine', () => {
+  describe('set completion', () => {
+    const rules = SCORING_SYSTEMS['21_POINT'];
+
+    it('should need 21 points with a two-point lead', () => {
+      expect(isSetComplete(rules, 21, 19)).toBe(true);
+      expect(isSetComplete(rules, 21, 20)).toBe(false);
+      expect(isSetComplete(rules, 22, 20)).toBe(true);
+    });
+
+    it('should end at the cap without a two-point lead', () => {
+      expect(isSetComplete(rules, 30, 29)).toBe(true);
+    });
+
+    it('should reject final scores that overshoot the winning point', () => {
+      expect(validateSetScore(rules, 21, 15)).toBeNull();
+      expect(validateSetScore(rules, 30, 29)).toBeNull();
+      expect(validateSetScore(rules, 23, 15)).toContain('not a valid final score');
+      expect(validateSetScore(rules, 21, 20)).toContain('not a valid final score');
+      expect(validateSetScore(rules, 31, 29)).toBe('Scores cannot exceed 30');
+    });
+
+    it('should apply the configured scoring system', () => {
+      expect(validateSetScore(SCORING_SYSTEMS['11_POINT'], 11, 7)).toBeNull();
+      expect(validateSetScore(SCORING_SYSTEMS['11_POINT'], 15, 14)).toBeNull();
+      expect(validateSetScore(SCORING_SYSTEMS['15_POINT'], 21, 20)).toBeNull();
+    });
+  });
+
+  describe('service', () => {
+    it('should start with the first server serving from the right', () => {
+      const state = createRallyState({ ...doubles, firstServer: 'B', firstReceiver: 'D' });
+
+      expect(state.server).toBe('B');
+      expect(state.receiver).toBe('D');
+      expect(state.serviceCourt).toBe('RIGHT');
+    });
+
+    it('should keep the same server switching courts while the serving side scores', () => {
+      let state = createRallyState(doubles);
+      state = applyRally(state, doubles, 1);
+
+      expect(state.server).toBe('A');
+      expect(state.serviceCourt).toBe('LEFT');
+      expect(state.receiver).toBe('D');
+    });
+
+    it('should pass service to the player in the court matching the new score', () => {
+      // 1-0 to team 1, then team 2 wins serve at 1-1 and serves from the left without moving
+      const state = replayRallies(doubles, [1, 2]);
+
+      expect(state.servingTeam).toBe(2);
+      expect(state.serviceCourt).toBe('LEFT');
+      expect(state.server).toBe('D');
+      expect(state.receiver).toBe('A');
+    });
+
+    it('should record who served each rally', () => {
+      const state = replayRallies(doubles, [1, 2, 2]);
+
+      expect(state.rallies.map(r => [r.server, r.serviceCourt])).toEqual([
+        ['A', 'RIGHT'],
+        ['A', 'LEFT'],
+        ['D', 'LEFT']
+      ]);
+    });
+
+    it('should alternate a singles server between courts by score', () => {
+      const singles: RallySetup = { ...doubles, team1: ['A'], team2: ['C'] };
+      const state = replayRallies(singles, [1, 1, 2]);
+
+      expect(state.server).toBe('C');
+      expect(state.receiver).toBe('A');
+      expect(state.serviceCourt).toBe('LEFT');
+    });
+  });
+
+  describe('sets and game completion', () => {
+    it('should start the next set with the set winner serving', () => {
+      const state = replayRallies({ ...doubles, firstServerTeam: 1 }, points(2, 21));
+
+      expect(state.sets[0]).toMatchObject({ team1Score: 0, team2Score: 21, winnerTeam: 2, isCompleted: true });
+      expect(state.currentSet).toBe(2);
+      expect(state.servingTeam).toBe(2);
+      expect(state.server).toBe('C');
+      expect(state.serviceCourt).toBe('RIGHT');
+    });
+
+    it('should finish the game once a side wins the majority of sets', () => {
+      const state = replayRallies(doubles, [...points(1, 21), ...points(1, 21)]);
+
+      expect(state.isComplete).toBe(true);
+      expect(state.winnerTeam).toBe(1);
+      expect(state.setsWon).toEqual({ team1: 2, team2: 0 });
+      expect(() => applyRally(state, doubles, 2)).toThrow('Game is already complete');
+    });
+
+    it('should settle a long deuce at the cap', () => {
+      const deuce = Array.from({ length: 29 }, () => [1, 2] as TeamNumber[]).flat();
+      const state = replayRallies({ ...doubles, bestOfGames: 1 }, [...deuce, 2]);
+
+      expect(state.sets[0]).toMatchObject({ team1Score: 29, team2Score: 30, winnerTeam: 2 });
+      expect(state.isComplete).toBe(true);
+    });
+  });
+
+  it('should reject a server from the wrong team', () => {
+    expect(validateRallySetup({ ...doubles, firstServer: 'C' })).toBe('First server must be on the serving team');
+    expect(validateRallySetup({ ...doubles, bestOfGames: 2 })).toBe('Best of games must be an odd number');
+    expect(validateRallySetup(doubles)).toBeNull();
+  });
+
+  it('should report scoring runs and lead changes', () => {
+    const state = replayRallies(doubles, [1, 1, 1, 2, 2, 2, 2, 1]);
+    const momentum = calculateMomentum(state.rallies);
+
+    expect(momentum.longestRun).toEqual({ team1: 3, team2: 4 });
+    expect(momentum.currentRun).toEqual({ team: 1, points: 1 });
+    expect(momentum.leadChanges).toBe(1);
+  });
+});
@@ -0,0 +1,62 @@
+import { GLICKO_DEFAULTS } from '../glicko2';
+import { ReplayGame, replayRatings, sortGamesForReplay } from '../ratingReplay';
+
+describe('Rating replay', () => {
+  const players = ['alice', 'bob', 'carol', 'dave'];
+  const games: ReplayGame[] = [
+    { id: 'g2', playedAt: new Date('2025-01-01T19:30:00Z'), team1: ['alice', 'carol'], team2: ['bob', 'dave'], winnerTeam: 2 },
+    { id: 'g1', playedAt: new Date('2025-01-01T19:00:00Z'), team1: ['alice', 'bob'], team2: ['carol', 'dave'], winnerTeam: 1 },
+    { id: 'g3', playedAt: new Date('2025-01-01T19:30:00Z'), team1: ['alice', 'dave'], team2: ['bob', 'carol'], winnerTeam: 1 }
+  ];
+
+  it('should order games by time then ID', () => {
+    expect(sortGamesForReplay(games).map(g => g.id)).toEqual(['g1', 'g2', 'g3']);
+  });
+
+  it('should produce identical results regardless of input order', () => {
+    const first = replayRatings(players, games);
+    const second = replayRatings([...players].reverse(), [...games].reverse());
+
+    for (const id of players) {
+      expect(second.players.get(id)).toEqual(first.players.get(id));
+    }
+    expect(second.history).toEqual(first.history);
+  });
+
+  it('should write one history entry per player per game', () => {
+    const result = replayRatings(players, games);
+
+    expect(result.gamesReplayed).toBe(3);
+    expect(result.history).toHaveLength(12);
+    expect(result.history.filter(h => h.playerId === 'alice').map(h => h.gameId)).toEqual(['g1', 'g2', 'g3']);
+    expect(result.history[0].previousRanking).toBeNull();
+  });
+
+  it('should skip games with unknown players', () => {
+    const result = replayRatings(players, [
+      ...games,
+      { id: 'g4', playedAt: new Date('2025-01-01T20:00:00Z'), team1: ['alice', 'eve'], team2: ['bob', 'carol'], winnerTeam: 1 }
+    ]);
+
+    expect(result.gamesReplayed).toBe(3);
+    expect(result.history.some(h => h.gameId === 'g4')).toBe(false);
+  });
+
+  it('should leave players without games at the initial rating', () => {
+    const result = replayRatings([...players, 'eve'], games);
+    const eve = result.players.get('eve')!;
+
+    expect(eve.rating.rating).toBe(GLICKO_DEFAULTS.INITIAL_RATING);
+    expect(eve.lastPlayedAt).toBeNull();
+    expect(eve.gamesRated).toBe(0);
+  });
+
+  it('should reflect a corrected result when replayed', () => {
+    const corrected = games.map(g => (g.id === 'g1' ? { ...g, winnerTeam: 2 as const } : g));
+
+    const original = replayRatings(players, games);
+    const replayed = replayRatings(players, corrected);
+
+    expect(replayed.players.get('carol')!.rating.rating).toBeGreaterThan(original.players.get('carol')!.rating.rating);
+  });
+});
@@ -0,0 +1,64 @@
+import { formatRecurrenceRule, isValidTimeZone, listOccurrences, nextOccurrence, parseRecurrenceRule } from '../recurrence';
+
+const window = (from: string, to: string) => ({ from: new Date(from), to: new Date(to) });
+
+describe('Session recurrence', () => {
+  it('should read RRULE-style patterns and write them back out', () => {
+    const rule = parseRecurrenceRule('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=SU');
+
+    expect(rule).toEqual({ freq: 'WEEKLY', interval: 2, byDay: [0] });
+    expect(formatRecurrenceRule(rule)).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=SU');
+    expect(formatRecurrenceRule(parseRecurrenceRule('freq=daily;until=20261231'))).toBe('FREQ=DAILY;UNTIL=20261231T235959Z');
+  });
+
+  it('should reject patterns it cannot follow', () => {
+    expect(() => parseRecurrenceRule('FREQ=YEARLY')).toThrow('FREQ=DAILY, WEEKLY or MONTHLY');
+    expect(() => parseRecurrenceRule('FREQ=WEEKLY;BYDAY=XX')).toThrow('Unknown day');
+    expect(() => parseRecurrenceRule('FREQ=MONTHLY;BYDAY=MO')).toThrow('only supported for weekly');
+    expect(() => parseRecurrenceRule('FREQ=WEEKLY;BYSETPOS=1')).toThrow('Unsupported');
+    expect(() => parseRecurrenceRule('FREQ=WEEKLY;COUNT=3;UNTIL=20261231')).toThrow('COUNT or UNTIL');
+    expect(() => parseRecurrenceRule('FREQ=WEEKLY;INTERVAL=0')).toThrow('INTERVAL');
+  });
+
+  it('should list weekly occurrences on each chosen day', () => {
+    // Tuesday 3 March 2026, 19:00 UTC
+    const rule = parseRecurrenceRule('FREQ=WEEKLY;BYDAY=TU,TH');
+    const occurrences = listOccurrences(rule, new Date('2026-03-03T19:00:00Z'), 'UTC', window('2026-03-01', '2026-03-13'));
+
+    expect(occurrences.map(date => date.toISOString())).toEqual([
+      '2026-03-03T19:00:00.000Z',
+      '2026-03-05T19:00:00.000Z',
+      '2026-03-10T19:00:00.000Z',
+      '2026-03-12T19:00:00.000Z'
+    ]);
+  });
+
+  it('should skip weeks for every-other-week series and stop at COUNT', () => {
+    // Sunday 1 March 2026
+    const rule = parseRecurrenceRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=SU;COUNT=3');
+    const occurrences = listOccurrences(rule, new Date('2026-03-01T10:00:00Z'), 'UTC', window('2026-03-01', '2026-06-01'));
+
+    expect(occurrences.map(date => date.toISOString().slice(0, 10))).toEqual(['2026-03-01', '2026-03-15', '2026-03-29']);
+    expect(nextOccurrence(rule, new Date('2026-03-01T10:00:00Z'), 'UTC', new Date('2026-03-29T10:00:00Z'))).toBeNull();
+  });
+
+  it('should keep the local start time across daylight saving changes', () => {
+    // 19:00 in London is 19:00 UTC in winter and 18:00 UTC once the clocks go forward on 29 March
+    const rule = parseRecurrenceRule('FREQ=WEEKLY');
+    const occurrences = listOccurrences(rule, new Date('2026-03-24T19:00:00Z'), 'Europe/London', window('2026-03-20', '2026-04-01'));
+
+    expect(occurrences.map(date => date.toISOString())).toEqual(['2026-03-24T19:00:00.000Z', '2026-03-31T18:00:00.000Z']);
+  });
+
+  it('should skip months without the start day', () => {
+    const rule = parseRecurrenceRule('FREQ=MONTHLY');
+    const occurrences = listOccurrences(rule, new Date('2026-01-31T09:00:00Z'), 'UTC', window('2026-01-01', '2026-06-01'));
+
+    expect(occurrences.map(date => date.toISOString().slice(0, 10))).toEqual(['2026-01-31', '2026-03-31', '2026-05-31']);
+  });
+
+  it('should only accept time zones the runtime knows', () => {
+    expect(isValidTimeZone('Europe/London')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+  });
+});
@@ -0,0 +1,276 @@
+import {
+  DEFAULT_FAIRNESS_WEIGHTS,
+  Player,
+  calculateFairnessScore,
+  calculateMixedTier,
+  estimatePlayerRating,
+  findMostBalancedSplit,
+  generateOptimalRotation,
+  getRotationExplanation,
+  predictTeamWinProbability
+} from '../rotationAlgorithm';
+
+const createPlayer = (name: string, overrides: Partial<Player> = {}): Player => ({
+  id: name.toLowerCase(),
+  name,
+  status: 'ACTIVE',
+  gamesPlayed: 0,
+  wins: 0,
+  losses: 0,
+  joinedAt: new Date('2025-01-01T18:00:00Z'),
+  ...overrides
+});
+
+describe('Skill-balanced rotation', () => {
+  describe('estimatePlayerRating', () => {
+    it('should prefer ranking points over skill level', () => {
+      expect(estimatePlayerRating(createPlayer('A', { rankingPoints: 1450, skillLevel: 10 })).rating).toBe(1450);
+    });
+
+    it('should map skill level onto the rating scale', () => {
+      expect(estimatePlayerRating(createPlayer('A', { skillLevel: 50 })).rating).toBe(1200);
+      expect(estimatePlayerRating(createPlayer('A', { skillLevel: 100 })).rating).toBe(1600);
+    });
+
+    it('should default unrated players to the initial rating', () => {
+      expect(estimatePlayerRating(createPlayer('A')).rating).toBe(1200);
+    });
+  });
+
+  describe('findMostBalancedSplit', () => {
+    it('should pair the strongest with the weakest player', () => {
+      const strongest = createPlayer('Strongest', { skillLevel: 90 });
+      const strong = createPlayer('Strong', { skillLevel: 70 });
+      const weak = createPlayer('Weak', { skillLevel: 30 });
+      const weakest = createPlayer('Weakest', { skillLevel: 10 });
+
+      const split = findMostBalancedSplit([strongest, strong, weak, weakest], []);
+      const team1Names = split.team1.map(p => p.name).sort();
+      const team2Names = split.team2.map(p => p.name).sort();
+
+      expect([team1Names, team2Names]).toContainEqual(['Strongest', 'Weakest']);
+      expect([team1Names, team2Names]).toContainEqual(['Strong', 'Weak']);
+      expect(split.team1WinProbability).toBeCloseTo(0.5, 2);
+    });
+
+    it('should report the predicted win probability', () => {
+      const split = findMostBalancedSplit([
+        createPlayer('A', { rankingPoints: 1500 }),
+        createPlayer('B', { rankingPoints: 1300 }),
+        createPlayer('C', { rankingPoints: 1200 }),
+        createPlayer('D', { rankingPoints: 1000 })
+      ], []);
+
+      expect(split.reasons.some(r => r.startsWith('Predicted win probability'))).toBe(true);
+    });
+
+    it('should prefer fresh partnerships between equally balanced splits', () => {
+      const players: [Player, Player, Player, Player] = [
+        createPlayer('A'), createPlayer('B'), createPlayer('C'), createPlayer('D')
+      ];
+      const history = [1, 2, 3].map(n => ({
+        id: `g${n}`,
+        gameNumber: n,
+        team1Player1: 'A',
+        team1Player2: 'B',
+        team2Player1: 'C',
+        team2Player2: 'D',
+        winnerTeam: 1,
+        status: 'COMPLETED' as const
+      }));
+
+      const split = findMostBalancedSplit(players, history);
+      expect(split.team1.map(p => p.name).sort()).not.toEqual(['A', 'B']);
+    });
+  });
+
+  describe('generateOptimalRotation', () => {
+    it('should include win probability in each suggestion', () => {
+      const players = [
+        createPlayer('A', { skillLevel: 80 }),
+        createPlayer('B', { skillLevel: 75 }),
+        createPlayer('C', { skillLevel: 25 }),
+        createPlayer('D', { skillLevel: 20 })
+      ];
+
+      const result = generateOptimalRotation(players, [], [{ id: 'court-1', name: 'Court 1', isAvailable: true }]);
+      const [game] = result.suggestedGames;
+
+      expect(game.team1WinProbability).toBeCloseTo(predictTeamWinProbability(game.team1, game.team2), 10);
+      expect(Math.abs(game.team1WinProbability - 0.5)).toBeLessThan(0.05);
+    });
+  });
+
+  describe('mixed doubles mode', () => {
+    const court = { id: 'court-1', name: 'Court 1', isAvailable: true };
+
+    it('should rate strict, flexible and same-category teams', () => {
+      const m1 = createPlayer('M1', { category: 'male' });
+      const m2 = createPlayer('M2', { category: 'male' });
+      const f1 = createPlayer('F1', { category: 'female' });
+      const f2 = createPlayer('F2', { category: 'female' });
+      const any = createPlayer('Any');
+
+      expect(calculateMixedTier([m1, f1], [m2, f2])).toBe(2);
+      expect(calculateMixedTier([m1, any], [m2, f2])).toBe(1);
+      expect(calculateMixedTier([m1, m2], [f1, f2])).toBe(0);
+    });
+
+    it('should build one male and one female per side even when a same-sex split is more balanced', () => {
+      const players = [
+        createPlayer('M1', { category: 'male', skillLevel: 90 }),
+        createPlayer('M2', { category: 'male', skillLevel: 10 }),
+        createPlayer('F1', { category: 'female', skillLevel: 80 }),
+        createPlayer('F2', { category: 'female', skillLevel: 20 })
+      ];
+
+      const result = generateOptimalRotation(players, [], [court], [], undefined, { mode: 'mixed' });
+      const [game] = result.suggestedGames;
+
+      expect(game.team1.map(p => p.category).sort()).toEqual(['female', 'male']);
+      expect(game.team2.map(p => p.category).sort()).toEqual(['female', 'male']);
+      expect(game.fairnessReasons).toContain('Mixed doubles teams');
+    });
+
+    it('should pick a mixable group over a higher-scoring group of one category', () => {
+      const players = [
+        createPlayer('M1', { category: 'male' }),
+        createPlayer('M2', { category: 'male' }),
+        createPlayer('M3', { category: 'male' }),
+        createPlayer('M4', { category: 'male' }),
+        createPlayer('F1', { category: 'female', gamesPlayed: 4 }),
+        createPlayer('F2', { category: 'female', gamesPlayed: 4 })
+      ];
+
+      const result = generateOptimalRotation(players, [], [court], [], undefined, { mode: 'mixed' });
+      const categories = [...result.suggestedGames[0].team1, ...result.suggestedGames[0].team2].map(p => p.category);
+
+      expect(categories.filter(c => c === 'female')).toHaveLength(2);
+    });
+
+    it('should fall back gracefully when the ratio is uneven', () => {
+      const players = [
+        createPlayer('M1', { category: 'male' }),
+        createPlayer('M2', { category: 'male' }),
+        createPlayer('M3', { category: 'male' }),
+        createPlayer('F1', { category: 'female' })
+      ];
+
+      const result = generateOptimalRotation(players, [], [court], [], undefined, { mode: 'mixed' });
+
+      expect(result.suggestedGames).toHaveLength(1);
+      expect(result.suggestedGames[0].fairnessReasons).toContain('Mixed teams not possible with available players');
+    });
+  });
+
+  describe('custom fairness weights', () => {
+    const court = { id: 'court-1', name: 'Court 1', isAvailable: true };
+    const history = [1, 2].map(n => ({
+      id: `g${n}`,
+      gameNumber: n,
+      team1Player1: 'A',
+      team1Player2: 'C',
+      team2Player1: 'B',
+      team2Player2: 'D',
+      winnerTeam: 1,
+      status: 'COMPLETED' as const
+    }));
+
+    it('should match the original scoring with default weights', () => {
+      const players = [createPlayer('A', { gamesPlayed: 2, wins: 2 }), createPlayer('B'), createPlayer('C'), createPlayer('D')];
+      const teams: [[Player, Player], [Player, Player]] = [[players[0], players[1]], [players[2], players[3]]];
+
+      expect(calculateFairnessScore(players, history, teams).score)
+        .toBe(calculateFairnessScore(players, history, teams, { ...DEFAULT_FAIRNESS_WEIGHTS }).score);
+    });
+
+    it('should avoid repeat opponents when that objective is weighted', () => {
+      const players: [Player, Player, Player, Player] = [
+        createPlayer('A'), createPlayer('B'), createPlayer('C'), createPlayer('D')
+      ];
+      const rematchHistory = history.map(g => ({ ...g, team1Player2: 'B', team2Player1: 'C' }));
+      const withoutOpponents = { ...DEFAULT_FAIRNESS_WEIGHTS, partnershipDiversity: 0 };
+      const withOpponents = { ...withoutOpponents, opponentDiversity: 50 };
+
+      // A & B vs C & D twice already; ignoring opponents the first (rematch) split wins the tie
+      const rematch = findMostBalancedSplit(players, rematchHistory, 'standard', withoutOpponents);
+      const split = findMostBalancedSplit(players, rematchHistory, 'standard', withOpponents);
+
+      expect(rematch.team1.map(p => p.name).sort()).toEqual(['A', 'B']);
+      expect(split.team1.map(p => p.name).sort()).not.toEqual(['A', 'B']);
+    });
+
+    it('should prioritise late arrivals when that objective is weighted', () => {
+      const players = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H'].map((name, i) =>
+        createPlayer(name, { joinedAt: new Date(Date.UTC(2025, 0, 1, 18, i * 10)) })
+      );
+
+      const result = generateOptimalRotation(players, [], [court], [], undefined, {
+        weights: { lateArrival: 100 }
+      });
+      const scheduled = [...result.suggestedGames[0].team1, ...result.suggestedGames[0].team2].map(p => p.name).sort();
+
+      expect(scheduled).toEqual(['E', 'F', 'G', 'H']);
+      expect(result.suggestedGames[0].fairnessReasons).toContain('Includes late arrivals');
+    });
+
+    it('should describe custom priorities in the explanation', () => {
+      const players = ['A', 'B', 'C', 'D'].map(name => createPlayer(name));
+      const weights = { winLossBalance: 60, partnershipDiversity: 0 };
+      const result = generateOptimalRotation(players, [], [court], [], undefined, { weights });
+
+      expect(getRotationExplanation(result.suggestedGames, result.fairnessMetrics, weights))
+        .toContain('Session Priorities:** Games played 36%, Win/loss balance 55%, Rest 9%');
+      expect(getRotationExplanation(result.suggestedGames, result.fairnessMetrics)).not.toContain('Session Priorities');
+    });
+  });
+
+  describe('singles courts', () => {
+    const courts = [
+      { id: 'court-1', name: 'Court 1', isAvailable: true },
+      { id: 'court-2', name: 'Court 2', isAvailable: true }
+    ];
+    const six = ['A', 'B', 'C', 'D', 'E', 'F'].map(name => createPlayer(name));
+
+    it('should use a spare court for singles when allowed', () => {
+      const result = generateOptimalRotation(six, [], courts, [], undefined, { allowSingles: true });
+
+      expect(result.suggestedGames.map(g => g.format)).toEqual(['DOUBLES', 'SINGLES']);
+      const singles = result.suggestedGames[1];
+      expect(singles.team1).toHaveLength(1);
+      expect(singles.team2).toHaveLength(1);
+      expect(result.nextInLine).toHaveLength(0);
+    });
+
+    it('should only schedule doubles by default', () => {
+      const result = generateOptimalRotation(six, [], courts);
+
+      expect(result.suggestedGames).toHaveLength(1);
+      expect(result.suggestedGames[0].format).toBe('DOUBLES');
+      expect(result.nextInLine).toHaveLength(2);
+    });
+
+    it('should ignore singles games when scoring partnerships', () => {
+      const players: [Player, Player, Player, Player] = [
+        createPlayer('A'), createPlayer('B'), createPlayer('C'), createPlayer('D')
+      ];
+      const singlesHistory = [{
+        id: 'g1',
+        gameNumber: 1,
+        format: 'SINGLES' as const,
+        team1Player1: 'A',
+        team1Player2: '',
+        team2Player1: 'B',
+        team2Player2: '',
+        winnerTeam: 1,
+        status: 'COMPLETED' as const
+      }];
+
+      const teams: [Player[], Player[]] = [[players[0], players[1]], [players[2], players[3]]];
+      const partnershipsOnly = { ...DEFAULT_FAIRNESS_WEIGHTS, gamesPlayed: 0, winLossBalance: 0, recentPlay: 0 };
+
+      expect(calculateFairnessScore(players, singlesHistory, teams, partnershipsOnly).score)
+        .toBe(calculateFairnessScore(players, [], teams, partnershipsOnly).score);
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { Court, Player } from '../rotationAlgorithm';
+import { planRotationSchedule, replanRotationSchedule } from '../schedulePlanner';
+
+const createPlayer = (name: string, overrides: Partial<Player> = {}): Player => ({
+  id: name.toLowerCase(),
+  name,
+  status: 'ACTIVE',
+  gamesPlayed: 0,
+  wins: 0,
+  losses: 0,
+  joinedAt: new Date('2025-01-01T18:00:00Z'),
+  ...overrides
+});
+
+const courts: Court[] = [
+  { id: 'court-1', name: 'Court 1', isAvailable: true },
+  { id: 'court-2', name: 'Court 2', isAvailable: true }
+];
+
+const scheduledIds = (round: { games: { team1: { id: string }[]; team2: { id: string }[] }[] }) =>
+  round.games.flatMap(g => [...g.team1, ...g.team2]).map(p => p.id);
+
+describe('Lookahead schedule planner', () => {
+  const ten = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H', 'I', 'J'].map(name => createPlayer(name));
+
+  it('should fill every court in every round', () => {
+    const plan = planRotationSchedule(ten, [], courts, { rounds: 3 });
+
+    expect(plan.rounds).toHaveLength(3);
+    plan.rounds.forEach(round => {
+      expect(round.games).toHaveLength(2);
+      expect(new Set(scheduledIds(round)).size).toBe(8);
+      expect(round.sittingOut).toHaveLength(2);
+    });
+  });
+
+  it('should spread sit-outs evenly across the window', () => {
+    const plan = planRotationSchedule(ten, [], courts, { rounds: 5 });
+
+    // 10 players, 8 slots per round: everyone sits out exactly once over five rounds
+    plan.players.forEach(p => expect(p.sitOuts).toBe(1));
+    expect(plan.metrics.sitOutVariance).toBe(0);
+  });
+
+  it('should avoid repeating partnerships within the window', () => {
+    const plan = planRotationSchedule(ten, [], courts, { rounds: 3 });
+
+    expect(plan.metrics.repeatedPartnerships).toBe(0);
+  });
+
+  it('should keep resting players out until their rest is served', () => {
+    const players = [
+      ...ten.slice(0, 9),
+      createPlayer('J', { status: 'RESTING', restGamesRemaining: 2 })
+    ];
+
+    const plan = planRotationSchedule(players, [], courts, { rounds: 2 });
+
+    expect(plan.rounds[0].resting.map(p => p.id)).toEqual(['j']);
+    expect(scheduledIds(plan.rounds[0])).not.toContain('j');
+    expect(scheduledIds(plan.rounds[1])).toContain('j');
+  });
+
+  it('should honour rest preference when there are spare players', () => {
+    const players = [createPlayer('A', { restPreference: 1 }), ...ten.slice(1)];
+
+    const plan = planRotationSchedule(players, [], courts, { rounds: 3 });
+    const rounds = plan.players.find(p => p.playerId === 'a')!.plannedRounds;
+
+    rounds.slice(1).forEach((round, i) => expect(round - rounds[i]).toBeGreaterThan(1));
+  });
+
+  it('should drop rest preference rather than leave a court empty', () => {
+    const players = ten.slice(0, 4).map(p => ({ ...p, restPreference: 2 }));
+
+    const plan = planRotationSchedule(players, [], [courts[0]], { rounds: 3 });
+
+    plan.rounds.forEach(round => expect(round.games).toHaveLength(1));
+  });
+
+  it('should put odd players on a singles court when allowed', () => {
+    const seven = ten.slice(0, 7);
+
+    const plan = planRotationSchedule(seven, [], courts, { rounds: 2, allowSingles: true });
+
+    plan.rounds.forEach(round => {
+      expect(round.games.map(g => g.format)).toEqual(['DOUBLES', 'SINGLES']);
+      expect(round.sittingOut).toHaveLength(1);
+    });
+  });
+
+  it('should not schedule players on court in the first round', () => {
+    const plan = planRotationSchedule(ten, [{
+      id: 'g1',
+      gameNumber: 1,
+      team1Player1: 'A',
+      team1Player2: 'B',
+      team2Player1: 'C',
+      team2Player2: 'D',
+      status: 'IN_PROGRESS'
+    }], courts, { rounds: 1 });
+
+    expect(plan.rounds[0].games).toHaveLength(1);
+    expect(scheduledIds(plan.rounds[0])).toEqual(expect.not.arrayContaining(['a', 'b', 'c', 'd']));
+  });
+
+  describe('replanRotationSchedule', () => {
+    it('should keep rounds before the first one affected by a departure', () => {
+      const original = planRotationSchedule(ten, [], courts, { rounds: 4 });
+      const leaverId = original.rounds[0].sittingOut[0].id;
+      const updated = ten.map(p => (p.id === leaverId ? { ...p, status: 'LEFT' as const } : p));
+
+      const replanned = replanRotationSchedule(original, updated, [], courts, { rounds: 4 });
+      const firstAffected = original.rounds.findIndex(r => scheduledIds(r).includes(leaverId)) + 1;
+
+      expect(replanned.replannedFromRound).toBe(firstAffected);
+      for (let i = 0; i < firstAffected - 1; i++) {
+        expect(replanned.rounds[i].games).toEqual(original.rounds[i].games);
+      }
+      replanned.rounds.forEach(round => expect(scheduledIds(round)).not.toContain(leaverId));
+    });
+
+    it('should plan from scratch once games have been played', () => {
+      const original = planRotationSchedule(ten, [], courts, { rounds: 2 });
+      const replanned = replanRotationSchedule(original, ten, [{
+        id: 'g1',
+        gameNumber: 1,
+        team1Player1: 'A',
+        team1Player2: 'B',
+        team2Player1: 'C',
+        team2Player2: 'D',
+        status: 'COMPLETED'
+      }], courts, { rounds: 2 });
+
+      expect(replanned.replannedFromRound).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,37 @@
+import { checkConfirmationRights, checkDisputeRights } from '../scoreConfirmation';
+
+const game = { team1Player1: 'A', team1Player2: 'B', team2Player1: 'C', team2Player2: 'D' };
+const player = (name: string) => ({ name, isOrganizer: false });
+
+describe('Score confirmation rules', () => {
+  it('should let the opposing team confirm', () => {
+    expect(checkConfirmationRights(game, 'A', player('C'))).toBeNull();
+  });
+
+  it('should not let the submitting team confirm its own score', () => {
+    expect(checkConfirmationRights(game, 'A', player('B'))).toBe('The score must be confirmed by the opposing team');
+  });
+
+  it('should let either side confirm a score entered from off court', () => {
+    expect(checkConfirmationRights(game, 'Spectator', player('A'))).toBeNull();
+    expect(checkConfirmationRights(game, null, player('D'))).toBeNull();
+  });
+
+  it('should let the organizer approve any score', () => {
+    expect(checkConfirmationRights(game, 'A', { name: 'B', isOrganizer: true })).toBeNull();
+    expect(checkConfirmationRights(game, 'A', { name: 'Host', isOrganizer: true })).toBeNull();
+  });
+
+  it('should not let anyone confirm a score they entered, organizers included', () => {
+    const error = 'The score must be confirmed by someone other than who entered it';
+    expect(checkConfirmationRights(game, 'A', player('A'))).toBe(error);
+    expect(checkConfirmationRights(game, 'Host', { name: 'Host', isOrganizer: true })).toBe(error);
+    expect(checkConfirmationRights(game, 'device-1', { name: '', deviceId: 'device-1', isOrganizer: true })).toBe(error);
+  });
+
+  it('should reject players who were not on court', () => {
+    expect(checkConfirmationRights(game, 'A', player('E'))).toBe('Only players in this game or the organizer can confirm the score');
+    expect(checkDisputeRights(game, player('E'))).toBe('Only players in this game or the organizer can dispute the score');
+    expect(checkDisputeRights(game, player('B'))).toBeNull();
+  });
+});
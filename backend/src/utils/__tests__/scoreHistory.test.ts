@@ -0,0 +1,75 @@
+import { ScoreEvent, ScoreSnapshot, UNSCORED, resolveScoreHistory } from '../scoreHistory';
+
+const result = (team1FinalScore: number, team2FinalScore: number): ScoreSnapshot => ({
+  team1FinalScore,
+  team2FinalScore,
+  winnerTeam: team1FinalScore > team2FinalScore ? 1 : 2,
+  status: 'COMPLETED'
+});
+
+let sequence = 0;
+const event = (type: ScoreEvent['type'], snapshot?: ScoreSnapshot, actorName = 'Alice'): ScoreEvent => {
+  sequence++;
+  return { id: `e${sequence}`, sequence, type, snapshot, actorName, createdAt: new Date(2025, 0, 1, 18, sequence) };
+};
+
+describe('Score edit history', () => {
+  beforeEach(() => {
+    sequence = 0;
+  });
+
+  it('should use the latest edit as the current result', () => {
+    const history = resolveScoreHistory([event('SCORE', result(2, 0)), event('SCORE', result(2, 1))]);
+
+    expect(history.current).toEqual(result(2, 1));
+    expect(history.undoTarget?.id).toBe('e2');
+    expect(history.redoTarget).toBeNull();
+  });
+
+  it('should revert to the previous result on undo and restore it on redo', () => {
+    const edits = [event('SCORE', result(2, 0)), event('SCORE', result(0, 2))];
+
+    const undone = resolveScoreHistory([...edits, event('UNDO')]);
+    expect(undone.current).toEqual(result(2, 0));
+    expect(undone.redoTarget?.id).toBe('e2');
+
+    const redone = resolveScoreHistory([...edits, event('UNDO'), event('REDO')]);
+    expect(redone.current).toEqual(result(0, 2));
+    expect(redone.redoTarget).toBeNull();
+  });
+
+  it('should go back to unscored when the only edit is undone', () => {
+    const history = resolveScoreHistory([event('SCORE', result(2, 0)), event('UNDO')]);
+
+    expect(history.current).toEqual(UNSCORED);
+    expect(history.undoTarget).toBeNull();
+  });
+
+  it('should drop the redo stack after a new edit', () => {
+    const history = resolveScoreHistory([
+      event('SCORE', result(2, 0)),
+      event('UNDO'),
+      event('SCORE', result(2, 1)),
+      event('REDO')
+    ]);
+
+    expect(history.current).toEqual(result(2, 1));
+    expect(history.redoTarget).toBeNull();
+  });
+
+  it('should keep every edit in the timeline with before and after results', () => {
+    const history = resolveScoreHistory([
+      event('SCORE', result(2, 0), 'Alice'),
+      event('SCORE', result(0, 2), 'Bob'),
+      event('UNDO', undefined, 'Alice')
+    ]);
+
+    expect(history.timeline.map(e => [e.event.actorName, e.event.type, e.inEffect])).toEqual([
+      ['Alice', 'SCORE', true],
+      ['Bob', 'SCORE', false],
+      ['Alice', 'UNDO', false]
+    ]);
+    expect(history.timeline[2].before).toEqual(result(0, 2));
+    expect(history.timeline[2].after).toEqual(result(2, 0));
+  });
+});
@@ -0,0 +1,39 @@
+import { accessCodeMatches, decideJoin, signInviteToken, verifyInviteToken } from '../sessionAccess';
+
+const open = { requireApproval: false, inviteOnly: false, accessCode: null };
+
+describe('Session access rules', () => {
+  it('should let anyone into an open session', () => {
+    expect(decideJoin(open, { hasInvite: false })).toEqual({ outcome: 'JOIN' });
+  });
+
+  it('should check the access code before queueing for approval', () => {
+    const rules = { ...open, requireApproval: true, accessCode: 'SMASH' };
+
+    expect(decideJoin(rules, { hasInvite: false })).toMatchObject({ outcome: 'DENIED', code: 'ACCESS_CODE_REQUIRED' });
+    expect(decideJoin(rules, { hasInvite: false, accessCode: 'smash' })).toMatchObject({ outcome: 'DENIED', code: 'ACCESS_CODE_INVALID' });
+    expect(decideJoin(rules, { hasInvite: false, accessCode: ' SMASH ' })).toEqual({ outcome: 'APPROVAL' });
+  });
+
+  it('should only let invited players into an invite-only session, without approval or an access code', () => {
+    const rules = { requireApproval: true, inviteOnly: true, accessCode: 'SMASH' };
+
+    expect(decideJoin(rules, { hasInvite: false, accessCode: 'SMASH' })).toMatchObject({ outcome: 'DENIED', code: 'INVITE_REQUIRED' });
+    expect(decideJoin(rules, { hasInvite: true })).toEqual({ outcome: 'JOIN' });
+  });
+
+  it('should compare access codes of any length', () => {
+    expect(accessCodeMatches('SMASH', 'SMASH')).toBe(true);
+    expect(accessCodeMatches('SMASH', 'SMASHING')).toBe(false);
+  });
+
+  it('should only accept invite tokens signed with the secret and not yet expired', () => {
+    const payload = { inviteId: 'invite-1', sessionId: 'session-1' };
+    const token = signInviteToken(payload, 'secret', new Date(Date.now() + 60 * 1000));
+
+    expect(verifyInviteToken(token, 'secret')).toEqual(payload);
+    expect(verifyInviteToken(token, 'other-secret')).toBeNull();
+    expect(verifyInviteToken(`${token}x`, 'secret')).toBeNull();
+    expect(verifyInviteToken(signInviteToken(payload, 'secret', new Date(Date.now() - 1000)), 'secret')).toBeNull();
+  });
+});
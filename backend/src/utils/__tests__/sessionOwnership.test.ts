@@ -0,0 +1,53 @@
+import {
+  checkTransferTarget,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  isTransferOpen,
+  normaliseRecoveryCode,
+  RECOVERY_CODE_COUNT,
+  transferExpiry
+} from '../sessionOwnership';
+
+const player = (overrides: Partial<Parameters<typeof checkTransferTarget>[1]> = {}) => ({
+  id: 'player-2',
+  deviceId: 'device-2',
+  status: 'ACTIVE',
+  role: 'PLAYER',
+  ...overrides
+});
+
+describe('Session ownership', () => {
+  it('should issue distinct recovery codes without easily confused characters', () => {
+    const codes = generateRecoveryCodes();
+
+    expect(codes).toHaveLength(RECOVERY_CODE_COUNT);
+    expect(new Set(codes).size).toBe(RECOVERY_CODE_COUNT);
+    codes.forEach(code => expect(code).toMatch(/^[A-HJ-NP-Z2-9]{5}-[A-HJ-NP-Z2-9]{5}$/));
+  });
+
+  it('should match recovery codes however they are typed', () => {
+    expect(normaliseRecoveryCode(' k7qxm 2hwrt ')).toBe('K7QXM2HWRT');
+    expect(hashRecoveryCode('k7qxm-2hwrt')).toBe(hashRecoveryCode('K7QXM2HWRT'));
+    expect(hashRecoveryCode('K7QXM-2HWRT')).not.toBe(hashRecoveryCode('K7QXM-2HWRA'));
+  });
+
+  it('should only let a transfer be answered while it is pending and in time', () => {
+    const createdAt = new Date('2026-05-01T10:00:00Z');
+    const expiresAt = transferExpiry(createdAt, 24);
+
+    expect(expiresAt.toISOString()).toBe('2026-05-02T10:00:00.000Z');
+    expect(isTransferOpen({ status: 'PENDING', expiresAt }, new Date('2026-05-02T09:59:00Z'))).toBe(true);
+    expect(isTransferOpen({ status: 'PENDING', expiresAt }, new Date('2026-05-02T10:00:00Z'))).toBe(false);
+    expect(isTransferOpen({ status: 'DECLINED', expiresAt }, createdAt)).toBe(false);
+  });
+
+  it('should only offer the session to another player still in it with a device', () => {
+    const owner = player({ id: 'player-1', deviceId: 'device-1', role: 'ORGANIZER' });
+
+    expect(checkTransferTarget(owner, player())).toBeNull();
+    expect(checkTransferTarget(owner, player({ role: 'CO_ORGANIZER' }))).toBeNull();
+    expect(checkTransferTarget(owner, owner)).toBe('You already own this session');
+    expect(checkTransferTarget(owner, player({ status: 'LEFT' }))).toBe('That player has left the session');
+    expect(checkTransferTarget(owner, player({ deviceId: null }))).toBe('That player has no device to accept the transfer on');
+  });
+});
@@ -0,0 +1,35 @@
+import { canJoinDirectly, offerExpiry, openSpots, spotsToOffer, waitlistHasRoom } from '../sessionWaitlist';
+
+describe('Session waitlist rules', () => {
+  it('should hold spots for players who have been offered one', () => {
+    const seats = { maxPlayers: 8, seated: 6, offered: 1, waiting: 0 };
+
+    expect(openSpots(seats)).toBe(1);
+    expect(openSpots({ ...seats, offered: 3 })).toBe(0);
+  });
+
+  it('should send newcomers to the back of the waitlist while anyone is waiting', () => {
+    expect(canJoinDirectly({ maxPlayers: 8, seated: 7, offered: 0, waiting: 0 })).toBe(true);
+    expect(canJoinDirectly({ maxPlayers: 8, seated: 7, offered: 0, waiting: 2 })).toBe(false);
+    expect(canJoinDirectly({ maxPlayers: 8, seated: 8, offered: 0, waiting: 0 })).toBe(false);
+  });
+
+  it('should offer each open spot to one waiting entry', () => {
+    expect(spotsToOffer({ maxPlayers: 8, seated: 6, offered: 0, waiting: 5 })).toBe(2);
+    expect(spotsToOffer({ maxPlayers: 8, seated: 6, offered: 1, waiting: 5 })).toBe(1);
+    expect(spotsToOffer({ maxPlayers: 8, seated: 4, offered: 0, waiting: 1 })).toBe(1);
+  });
+
+  it('should respect the waitlist limit, with zero turning the waitlist off', () => {
+    expect(waitlistHasRoom(null, 50)).toBe(true);
+    expect(waitlistHasRoom(3, 2)).toBe(true);
+    expect(waitlistHasRoom(3, 3)).toBe(false);
+    expect(waitlistHasRoom(0, 0)).toBe(false);
+  });
+
+  it('should end the offer after the confirmation window', () => {
+    const offeredAt = new Date('2026-03-01T10:00:00Z');
+
+    expect(offerExpiry(offeredAt, 15)).toEqual(new Date('2026-03-01T10:15:00Z'));
+  });
+});
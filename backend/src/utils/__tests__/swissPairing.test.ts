@@ -0,0 +1,87 @@
+import { SwissMatchRecord, computeSwissStandings, pairSwissRound, swissRoundCount } from '../swissPairing';
+
+const entries = (count: number) => Array.from({ length: count }, (_, i) => ({ id: `E${i + 1}`, seed: i + 1 }));
+
+const win = (entry1Id: string, entry2Id: string, winnerId = entry1Id): SwissMatchRecord => ({
+  entry1Id,
+  entry2Id,
+  winnerId,
+  games: winnerId === entry1Id
+    ? [{ player1Score: 21, player2Score: 15 }, { player1Score: 21, player2Score: 18 }]
+    : [{ player1Score: 15, player2Score: 21 }, { player1Score: 21, player2Score: 19 }, { player1Score: 17, player2Score: 21 }]
+});
+
+describe('Swiss pairing', () => {
+  it('should pair the top half of the field against the bottom half in round one', () => {
+    const pairing = pairSwissRound(computeSwissStandings(entries(8), [], []));
+
+    expect(pairing.bye).toBeNull();
+    expect(pairing.pairs).toEqual([['E1', 'E5'], ['E2', 'E6'], ['E3', 'E7'], ['E4', 'E8']]);
+  });
+
+  it('should break ties on points with Buchholz, then game difference', () => {
+    const matches = [
+      win('E1', 'E2'), win('E3', 'E4'), win('E6', 'E5', 'E5'),
+      win('E1', 'E3'), win('E2', 'E5'), win('E4', 'E6', 'E6')
+    ];
+    const standings = computeSwissStandings(entries(6), matches, []);
+    const byId = Object.fromEntries(standings.map(s => [s.entryId, s]));
+
+    expect(byId.E1).toMatchObject({ points: 2, wins: 2, buchholz: 2, gameDifference: 4, sonnebornBerger: 2 });
+    // E2, E3, E5 and E6 all have one win: E2 played the leader, and E3 edges E5 on games after both had a Buchholz of 2
+    expect(byId.E2.buchholz).toBe(3);
+    expect([byId.E3.buchholz, byId.E5.buchholz, byId.E6.buchholz]).toEqual([2, 2, 1]);
+    expect([byId.E3.gameDifference, byId.E5.gameDifference]).toEqual([0, -1]);
+    expect(standings.map(s => s.entryId)).toEqual(['E1', 'E2', 'E3', 'E5', 'E6', 'E4']);
+  });
+
+  it('should drop the best and worst opponent from median-Buchholz', () => {
+    const matches = [win('E1', 'E2'), win('E1', 'E3'), win('E1', 'E4'), win('E2', 'E5'), win('E2', 'E6'), win('E3', 'E5')];
+    const leader = computeSwissStandings(entries(6), matches, []).find(s => s.entryId === 'E1')!;
+
+    // Opponents scored 2, 1 and 0
+    expect(leader.buchholz).toBe(3);
+    expect(leader.medianBuchholz).toBe(1);
+  });
+
+  it('should give the bye to the lowest-placed entry that has not had one', () => {
+    const standings = computeSwissStandings(entries(5), [win('E1', 'E3'), win('E2', 'E4')], ['E5']);
+    const pairing = pairSwissRound(standings);
+
+    expect(pairing.bye).toBe('E4');
+    expect(pairing.pairs).toHaveLength(2);
+  });
+
+  it('should run 5 rounds for 21 entrants without rematches or a second bye', () => {
+    const field = entries(21);
+    const matches: SwissMatchRecord[] = [];
+    const byes: string[] = [];
+
+    expect(swissRoundCount(21)).toBe(5);
+    for (let round = 1; round <= 5; round++) {
+      const standings = computeSwissStandings(field, matches, byes);
+      const pointsOf = new Map(standings.map(s => [s.entryId, s.points]));
+      const pairing = pairSwissRound(standings);
+
+      expect(pairing.pairs).toHaveLength(10);
+      expect(new Set([...pairing.pairs.flat(), pairing.bye]).size).toBe(21);
+      for (const [entry1, entry2] of pairing.pairs) {
+        // Entries only meet within their score group or the next one down
+        expect(Math.abs(pointsOf.get(entry1)! - pointsOf.get(entry2)!)).toBeLessThanOrEqual(1);
+        // The better seed wins unless the seeds add up to a multiple of 3
+        const [high, low] = [entry1, entry2].sort((a, b) => Number(a.slice(1)) - Number(b.slice(1)));
+        const upset = (Number(high.slice(1)) + Number(low.slice(1))) % 3 === 0;
+        matches.push(win(entry1, entry2, upset ? low : high));
+      }
+      byes.push(pairing.bye!);
+    }
+
+    const meetings = matches.map(m => [m.entry1Id, m.entry2Id].sort().join('-'));
+    expect(new Set(meetings).size).toBe(meetings.length);
+    expect(new Set(byes).size).toBe(5);
+
+    const standings = computeSwissStandings(field, matches, byes);
+    expect(standings.every(s => s.played + s.byes === 5)).toBe(true);
+    expect(standings.map(s => s.rank)).toEqual(Array.from({ length: 21 }, (_, i) => i + 1));
+  });
+});
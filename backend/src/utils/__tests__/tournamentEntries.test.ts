@@ -0,0 +1,113 @@
+import {
+  EntryPlayer,
+  bracketPositions,
+  drawFirstRound,
+  playerEntry,
+  rankingPointsAt,
+  seedBand,
+  seedEntries,
+  separateClubmates,
+  teamEntry,
+  validateInvitation,
+  validatePartners
+} from '../tournamentEntries';
+
+const player = (id: string, winRate: number, extra: Partial<EntryPlayer> = {}): EntryPlayer => ({
+  id,
+  playerName: id,
+  winRate,
+  ...extra
+});
+
+describe('Tournament entries', () => {
+  it('should rate a doubles team on both partners and credit both as members', () => {
+    const team = teamEntry({ id: 't1' }, player('Alice', 0.8), player('Bob', 0.4, { skillLevel: 'ADVANCED' }));
+
+    expect(team.name).toBe('Alice & Bob');
+    expect(team.captainId).toBe('Alice');
+    expect(team.memberIds).toEqual(['Alice', 'Bob']);
+    expect(team.winRate).toBeCloseTo(0.6);
+    expect(team.skill).toBe(1.5);
+  });
+
+  it('should seed assigned seeds first, then by win rate', () => {
+    const entries = [
+      playerEntry(player('A', 0.2)),
+      playerEntry(player('B', 0.9)),
+      playerEntry(player('C', 0.1, { seed: 1 })),
+      playerEntry(player('D', 0.5))
+    ];
+
+    expect(seedEntries(entries).map(e => e.id)).toEqual(['C', 'B', 'D', 'A']);
+  });
+
+  it('should seed on ranking points before win rate', () => {
+    const entries = [
+      playerEntry(player('A', 0.9)),
+      playerEntry(player('B', 0.2, { rankingPoints: 1650 })),
+      playerEntry(player('C', 0.1, { seed: 1 })),
+      playerEntry(player('D', 0.5, { rankingPoints: 1720 }))
+    ];
+
+    expect(seedEntries(entries).map(e => e.id)).toEqual(['C', 'D', 'B', 'A']);
+    expect(teamEntry({ id: 't1' }, player('B', 0, { rankingPoints: 1600 }), player('D', 0, { rankingPoints: 1400 })).rankingPoints).toBe(1500);
+  });
+
+  it('should take ranking points as they stood at the close of entries', () => {
+    const history = [
+      { rankingPoints: 1500, recordedAt: new Date('2026-03-01') },
+      { rankingPoints: 1580, recordedAt: new Date('2026-04-10') },
+      { rankingPoints: 1420, recordedAt: new Date('2026-05-20') }
+    ];
+
+    expect(rankingPointsAt(history, new Date('2026-05-01'))).toBe(1580);
+    expect(rankingPointsAt(history, new Date('2026-06-01'))).toBe(1420);
+    expect(rankingPointsAt(history, new Date('2026-01-01'))).toBeNull();
+  });
+
+  it('should keep clubmates apart in the first round without moving the top seeds', () => {
+    expect([1, 2, 3, 4, 5, 8, 9, 16].map(seedBand)).toEqual([[1, 1], [2, 2], [3, 4], [3, 4], [5, 8], [5, 8], [9, 16], [9, 16]]);
+
+    const clubs = ['North', 'South', 'East', 'West', 'East', 'West', 'South', 'North'];
+    const seeded = clubs.map((club, i) => playerEntry(player(`S${i + 1}`, 0, { club })));
+    const separated = separateClubmates(seeded);
+
+    // 1 v 8 and 2 v 7 were clubmates; the lower seeds swap within the 5-8 band
+    expect(separated.map(e => e.id)).toEqual(['S1', 'S2', 'S3', 'S4', 'S7', 'S6', 'S8', 'S5']);
+    const draw = drawFirstRound(separated);
+    expect(draw.matches.every(m => !m.entry1.clubs.some(club => m.entry2.clubs.includes(club)))).toBe(true);
+
+    // An organizer's seed is never moved, even to fix a clash
+    const pinned = seeded.map((entry, i) => (i === 7 ? { ...entry, seed: 8 } : entry));
+    expect(separateClubmates(pinned).slice(0, 2).map(e => e.id)).toEqual(['S1', 'S2']);
+    expect(separateClubmates(pinned)[7].id).toBe('S8');
+  });
+
+  it('should keep the top two seeds apart until the final', () => {
+    expect(bracketPositions(4)).toEqual([1, 4, 2, 3]);
+    expect(bracketPositions(8)).toEqual([1, 8, 4, 5, 2, 7, 3, 6]);
+  });
+
+  it('should give byes to the top seeds when the field is not a power of two', () => {
+    const seeded = ['S1', 'S2', 'S3', 'S4', 'S5', 'S6'].map(id => playerEntry(player(id, 0)));
+    const draw = drawFirstRound(seeded);
+
+    expect(draw.byes.map(b => [b.matchNumber, b.entry.id])).toEqual([[1, 'S1'], [3, 'S2']]);
+    expect(draw.matches.map(m => [m.matchNumber, m.entry1.id, m.entry2.id])).toEqual([
+      [2, 'S4', 'S5'],
+      [4, 'S3', 'S6']
+    ]);
+  });
+
+  it('should validate partner invitations and mixed doubles pairs', () => {
+    expect(validateInvitation('SINGLES', player('Alice', 0), 'Bob')).toBe('Partners can only be registered for doubles tournaments');
+    expect(validateInvitation('DOUBLES', player('Alice', 0), ' alice ')).toBe('A player cannot partner themselves');
+    expect(validateInvitation('MIXED', player('Alice', 0), 'Bob')).toBe('Mixed doubles partners must both give their category (male or female)');
+    expect(validateInvitation('MIXED', player('Alice', 0, { category: 'female' }), 'Bob')).toBeNull();
+
+    const alice = player('Alice', 0, { category: 'female' });
+    expect(validatePartners('MIXED', alice, player('Carol', 0, { category: 'female' }))).toBe('Mixed doubles teams need one male and one female player');
+    expect(validatePartners('MIXED', alice, player('Bob', 0, { category: 'male' }))).toBeNull();
+    expect(validatePartners('DOUBLES', alice, player('Carol', 0))).toBeNull();
+  });
+});
@@ -0,0 +1,82 @@
+import {
+  evaluateMatchScores,
+  knockoutFinishingRank,
+  nextKnockoutSlot,
+  splitPrizePool,
+  tallyPlayerStats
+} from '../tournamentResults';
+import { firstRoundByes } from '../tournamentEntries';
+
+describe('Tournament results', () => {
+  it('should total a valid best of three', () => {
+    expect(evaluateMatchScores('21_POINT', 3, [
+      { player1Score: 21, player2Score: 15 },
+      { player1Score: 19, player2Score: 21 },
+      { player1Score: 30, player2Score: 29 }
+    ])).toEqual({ player1GamesWon: 2, player2GamesWon: 1, winnerSide: 1 });
+  });
+
+  it('should reject impossible game scores for the scoring system', () => {
+    const result = evaluateMatchScores('15_POINT', 3, [{ player1Score: 21, player2Score: 10 }]);
+    expect(result).toEqual({ error: expect.stringMatching(/^Game 1: /) });
+  });
+
+  it('should reject unfinished matches and games played after the match was decided', () => {
+    expect(evaluateMatchScores('21_POINT', 3, [{ player1Score: 21, player2Score: 10 }]))
+      .toEqual({ error: 'A best of 3 match needs 2 games to win' });
+
+    expect(evaluateMatchScores('21_POINT', 3, [
+      { player1Score: 21, player2Score: 10 },
+      { player1Score: 21, player2Score: 10 },
+      { player1Score: 10, player2Score: 21 }
+    ])).toEqual({ error: 'The match was already decided after game 2' });
+  });
+
+  it('should send winners to the right slot and rank knocked-out entries', () => {
+    expect(nextKnockoutSlot(1)).toEqual({ matchNumber: 1, side: 1 });
+    expect(nextKnockoutSlot(4)).toEqual({ matchNumber: 2, side: 2 });
+
+    // 8-draw: quarter-final losers finish 5th, semi-final losers 3rd, final loser 2nd
+    expect([1, 2, 3].map(round => knockoutFinishingRank(round, 3))).toEqual([5, 3, 2]);
+  });
+
+  it('should find the seed holding each first-round bye', () => {
+    expect(Array.from(firstRoundByes(6).entries())).toEqual([[1, 1], [3, 2]]);
+    expect(firstRoundByes(8).size).toBe(0);
+  });
+
+  it('should credit both partners with a doubles result', () => {
+    const stats = tallyPlayerStats([
+      {
+        side1: ['alice', 'bob'],
+        side2: ['carol', 'dan'],
+        winnerSide: 2,
+        games: [{ player1Score: 18, player2Score: 21 }, { player1Score: 21, player2Score: 23 }]
+      }
+    ]);
+
+    expect(stats.alice).toEqual(stats.bob);
+    expect(stats.carol).toEqual({ matchesPlayed: 1, matchesWon: 1, gamesWon: 2, gamesLost: 0, pointsFor: 44, pointsAgainst: 39 });
+  });
+
+  it('should split the prize pool by place, sharing the prizes of tied places', () => {
+    const payouts = splitPrizePool(100, [50, 25, 15, 10], [
+      { entryId: 'W', rank: 1 },
+      { entryId: 'RU', rank: 2 },
+      { entryId: 'SF1', rank: 3 },
+      { entryId: 'SF2', rank: 3 },
+      { entryId: 'QF', rank: 5 }
+    ]);
+
+    // The losing semi-finalists share 3rd and 4th; nothing is left for 5th
+    expect(payouts.map(p => [p.entryId, p.place, p.amount])).toEqual([
+      ['W', 1, 50],
+      ['RU', 2, 25],
+      ['SF1', 3, 12.5],
+      ['SF2', 3, 12.5]
+    ]);
+
+    const uneven = splitPrizePool(100, [50, 30, 20], [{ entryId: 'A', rank: 1 }, { entryId: 'B', rank: 1 }, { entryId: 'C', rank: 1 }]);
+    expect(uneven.map(p => p.amount)).toEqual([33.34, 33.33, 33.33]);
+  });
+});
@@ -0,0 +1,82 @@
+import { ScheduleMatch, findScheduleConflicts, scheduleMatches } from '../tournamentSchedule';
+
+const at = (time: string) => new Date(`2026-06-06T${time}:00Z`);
+
+const match = (id: string, playerIds: string[], extra: Partial<ScheduleMatch> = {}): ScheduleMatch => ({
+  id,
+  playerIds,
+  status: 'SCHEDULED',
+  ...extra
+});
+
+const options = { courts: ['Court 1', 'Court 2'], startTime: at('09:00'), matchDuration: 30, minRest: 15 };
+
+const timetable = (slots: ReturnType<typeof scheduleMatches>) =>
+  slots.map(slot => `${slot.matchId} ${slot.courtName} ${slot.scheduledAt.toISOString().slice(11, 16)}`);
+
+describe('Tournament schedule', () => {
+  it('should fill every court in order of play', () => {
+    const slots = scheduleMatches(
+      [match('M1', ['A', 'B']), match('M2', ['C', 'D']), match('M3', ['E', 'F']), match('M4', ['G', 'H']), match('M5', ['I', 'J'])],
+      options
+    );
+
+    expect(timetable(slots)).toEqual([
+      'M1 Court 1 09:00',
+      'M2 Court 2 09:00',
+      'M3 Court 1 09:30',
+      'M4 Court 2 09:30',
+      'M5 Court 1 10:00'
+    ]);
+  });
+
+  it('should give players their rest, letting a later match take a court in the meantime', () => {
+    const matches = [match('M1', ['A', 'B']), match('M2', ['C', 'D']), match('M3', ['A', 'C']), match('M4', ['E', 'F'])];
+    const slots = scheduleMatches(matches, options);
+
+    // A and C finish at 09:30 and can't play again until 09:45, so M4 goes on first
+    expect(timetable(slots)).toEqual([
+      'M1 Court 1 09:00',
+      'M2 Court 2 09:00',
+      'M4 Court 1 09:30',
+      'M3 Court 2 09:45'
+    ]);
+    const scheduled = slots.map(slot => ({ ...matches.find(m => m.id === slot.matchId)!, ...slot }));
+    expect(findScheduleConflicts(scheduled, options)).toEqual([]);
+  });
+
+  it('should re-flow around matches that finish early or run late', () => {
+    const played = [
+      // Finished ten minutes early on court 1
+      match('M1', ['A', 'B'], { status: 'COMPLETED', courtName: 'Court 1', startTime: at('09:00'), endTime: at('09:20') }),
+      // Started late on court 2 and still going
+      match('M2', ['C', 'D'], { status: 'IN_PROGRESS', courtName: 'Court 2', startTime: at('09:10') }),
+      match('M3', ['E', 'F']),
+      match('M4', ['A', 'C'])
+    ];
+
+    const slots = scheduleMatches(played, { ...options, startTime: at('09:25') });
+    // Court 1 is free now; court 2 from the end of M2's slot, and C rests after that
+    expect(timetable(slots)).toEqual(['M3 Court 1 09:25', 'M4 Court 2 09:55']);
+
+    // Once a match overruns its slot, the next one waits on it rather than the clock
+    const overrun = scheduleMatches(played, { ...options, startTime: at('09:50') });
+    expect(timetable(overrun)).toEqual(['M3 Court 1 09:50', 'M4 Court 2 10:05']);
+  });
+
+  it('should report double-booked courts and players, and short rests', () => {
+    const conflicts = findScheduleConflicts([
+      match('M1', ['A', 'B'], { courtName: 'Court 1', scheduledAt: at('09:00') }),
+      match('M2', ['C', 'D'], { courtName: 'Court 1', scheduledAt: at('09:15') }),
+      match('M3', ['A', 'E'], { courtName: 'Court 2', scheduledAt: at('09:20') }),
+      match('M4', ['D', 'F'], { courtName: 'Court 2', scheduledAt: at('09:50') }),
+      match('M5', ['G', 'H'], { courtName: 'Court 2', scheduledAt: at('09:00'), status: 'CANCELLED' })
+    ], options);
+
+    expect(conflicts).toEqual([
+      { type: 'COURT_CLASH', matchIds: ['M1', 'M2'], courtName: 'Court 1' },
+      { type: 'PLAYER_CLASH', matchIds: ['M1', 'M3'], playerId: 'A' },
+      { type: 'SHORT_REST', matchIds: ['M2', 'M4'], playerId: 'D', restMinutes: 5 }
+    ]);
+  });
+});
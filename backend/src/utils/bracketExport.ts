@@ -0,0 +1,240 @@
+// Bracket Export
+// Printable layout of a tournament's draw (knockout trees, Swiss rounds and round-robin grids) and CSV for results
+
+import { Drawing, DrawingElement, fitText, textWidth } from './drawing';
+
+export interface ExportMatch {
+  matchNumber: number; // Slot in the round, counting byes in knockout rounds
+  player1Name?: string;
+  player2Name?: string;
+  winner?: 1 | 2;
+  score?: string; // "21-15, 18-21, 21-10", player 1's points first
+  court?: string;
+}
+
+export interface ExportRound {
+  name: string;
+  slots: number; // Places for matches in the round; knockout rounds halve from one round to the next
+  matches: ExportMatch[];
+}
+
+export interface ExportSection {
+  title: string;
+  knockout: boolean; // Winners move on to the next round's slot: matches 1 and 2 feed match 1
+  rounds: ExportRound[];
+}
+
+export interface ExportGrid {
+  title: string;
+  entries: string[];
+  cells: Array<Array<string | null>>; // cells[row][column] from the row entry's side; null where an entry meets itself
+  records: string[]; // Wins-losses per entry
+}
+
+export interface ExportDocument {
+  title: string;
+  subtitle?: string;
+  grids: ExportGrid[];
+  sections: ExportSection[];
+}
+
+export interface GridMatch {
+  player1Id?: string;
+  player2Id?: string;
+  winnerId?: string;
+  score?: string;
+}
+
+export type CsvValue = string | number | null | undefined;
+
+const MARGIN = 36;
+const BOX_WIDTH = 170;
+const BOX_HEIGHT = 32;
+const COLUMN_GAP = 36;
+const SLOT_HEIGHT = 56; // Box, score line and space between matches
+const NAME_SIZE = 9;
+const SCORE_SIZE = 7.5;
+const GRID_NAME_WIDTH = 150;
+const GRID_CELL_WIDTH = 56;
+const GRID_ROW_HEIGHT = 18;
+const SHADE = '#dddddd';
+
+/**
+ * Games won by each side from a score such as "21-15, 18-21, 21-10"
+ */
+export function gamesFromScore(score: string): [number, number] {
+  return score.split(',').reduce<[number, number]>(([won, lost], game) => {
+    const [own, opponent] = game.split('-').map(points => parseInt(points, 10));
+    if (Number.isNaN(own) || Number.isNaN(opponent)) return [won, lost];
+    return own > opponent ? [won + 1, lost] : [won, lost + 1];
+  }, [0, 0]);
+}
+
+/**
+ * Round-robin grid: every entry's result against every other, read along the entry's row
+ * Entries are matched by the player ID on their matches (the captain in doubles).
+ */
+export function roundRobinGrid(title: string, entries: Array<{ id: string; name: string }>, matches: GridMatch[]): ExportGrid {
+  const index = new Map(entries.map((entry, i) => [entry.id, i]));
+  const cells: Array<Array<string | null>> = entries.map((_, row) => entries.map((__, column) => (row === column ? null : '')));
+  const wins = entries.map(() => 0);
+  const losses = entries.map(() => 0);
+
+  for (const match of matches) {
+    const [row, column] = [index.get(match.player1Id || ''), index.get(match.player2Id || '')];
+    if (row === undefined || column === undefined || !match.winnerId) continue;
+
+    const [games1, games2] = match.score ? gamesFromScore(match.score) : [0, 0];
+    const player1Won = match.winnerId === match.player1Id;
+    // Walkovers have no games to show
+    const games = (own: number, opponent: number) => (own + opponent > 0 ? ` ${own}-${opponent}` : '');
+    cells[row][column] = `${player1Won ? 'W' : 'L'}${games(games1, games2)}`;
+    cells[column][row] = `${player1Won ? 'L' : 'W'}${games(games2, games1)}`;
+    (player1Won ? wins : losses)[row]++;
+    (player1Won ? losses : wins)[column]++;
+  }
+
+  return { title, entries: entries.map(entry => entry.name), cells, records: entries.map((_, i) => `${wins[i]}-${losses[i]}`) };
+}
+
+/**
+ * Lay out the whole draw on one page: round-robin grids first, then each bracket section with its rounds as columns
+ * Knockout matches sit midway between the two matches feeding them, joined by connector lines.
+ */
+export function layoutBracket(document: ExportDocument): Drawing {
+  const elements: DrawingElement[] = [];
+  let top = MARGIN;
+  let width = MARGIN * 2 + textWidth(document.title, 16);
+
+  elements.push({ type: 'text', x: MARGIN, y: top + 16, text: document.title, size: 16, bold: true });
+  top += 24;
+  if (document.subtitle) {
+    elements.push({ type: 'text', x: MARGIN, y: top + 10, text: document.subtitle, size: 10 });
+    top += 16;
+  }
+  top += 12;
+
+  for (const grid of document.grids) {
+    const gridWidth = layoutGrid(grid, MARGIN, top, elements);
+    width = Math.max(width, gridWidth + MARGIN * 2);
+    top += GRID_ROW_HEIGHT * (grid.entries.length + 1) + 40;
+  }
+
+  for (const section of document.sections) {
+    const sectionWidth = section.rounds.length * (BOX_WIDTH + COLUMN_GAP) - COLUMN_GAP;
+    width = Math.max(width, sectionWidth + MARGIN * 2);
+    top += layoutSection(section, MARGIN, top, elements) + 24;
+  }
+
+  return { width: Math.ceil(width), height: Math.ceil(top - 24 + MARGIN), elements };
+}
+
+function layoutGrid(grid: ExportGrid, left: number, top: number, elements: DrawingElement[]): number {
+  elements.push({ type: 'text', x: left, y: top + 12, text: grid.title, size: 12, bold: true });
+  const tableTop = top + 20;
+  const columnX = (column: number) => left + GRID_NAME_WIDTH + column * GRID_CELL_WIDTH;
+  const rowY = (row: number) => tableTop + (row + 1) * GRID_ROW_HEIGHT;
+  const baseline = (y: number) => y + GRID_ROW_HEIGHT / 2 + NAME_SIZE / 3;
+
+  grid.entries.forEach((_, column) => {
+    elements.push({ type: 'rect', x: columnX(column), y: tableTop, width: GRID_CELL_WIDTH, height: GRID_ROW_HEIGHT, fill: SHADE });
+    elements.push({ type: 'text', x: columnX(column) + GRID_CELL_WIDTH / 2, y: baseline(tableTop), text: String(column + 1), size: NAME_SIZE, bold: true, anchor: 'middle' });
+  });
+  const recordX = columnX(grid.entries.length);
+  elements.push({ type: 'rect', x: recordX, y: tableTop, width: GRID_CELL_WIDTH, height: GRID_ROW_HEIGHT, fill: SHADE });
+  elements.push({ type: 'text', x: recordX + GRID_CELL_WIDTH / 2, y: baseline(tableTop), text: 'W-L', size: NAME_SIZE, bold: true, anchor: 'middle' });
+
+  grid.entries.forEach((entry, row) => {
+    const y = rowY(row);
+    const name = fitText(`${row + 1}. ${entry}`, NAME_SIZE, GRID_NAME_WIDTH - 8);
+    elements.push({ type: 'rect', x: left, y, width: GRID_NAME_WIDTH, height: GRID_ROW_HEIGHT });
+    elements.push({ type: 'text', x: left + 4, y: baseline(y), text: name, size: NAME_SIZE });
+
+    grid.cells[row].forEach((cell, column) => {
+      elements.push({ type: 'rect', x: columnX(column), y, width: GRID_CELL_WIDTH, height: GRID_ROW_HEIGHT, fill: cell === null ? SHADE : undefined });
+      if (cell) {
+        elements.push({ type: 'text', x: columnX(column) + GRID_CELL_WIDTH / 2, y: baseline(y), text: cell, size: NAME_SIZE, anchor: 'middle' });
+      }
+    });
+    elements.push({ type: 'rect', x: recordX, y, width: GRID_CELL_WIDTH, height: GRID_ROW_HEIGHT });
+    elements.push({ type: 'text', x: recordX + GRID_CELL_WIDTH / 2, y: baseline(y), text: grid.records[row], size: NAME_SIZE, bold: true, anchor: 'middle' });
+  });
+
+  return GRID_NAME_WIDTH + (grid.entries.length + 1) * GRID_CELL_WIDTH;
+}
+
+// Returns the height the section takes up
+function layoutSection(section: ExportSection, left: number, top: number, elements: DrawingElement[]): number {
+  elements.push({ type: 'text', x: left, y: top + 12, text: section.title, size: 12, bold: true });
+  const columnsTop = top + 24;
+  const matchesTop = columnsTop + 16;
+  const height = Math.max(1, ...section.rounds.map(round => round.slots)) * SLOT_HEIGHT;
+
+  const columnX = (column: number) => left + column * (BOX_WIDTH + COLUMN_GAP);
+  const centreY = (round: ExportRound, matchNumber: number) =>
+    // Raised a little in the slot to leave room for the score line underneath
+    matchesTop + (matchNumber - 0.5) * (height / Math.max(1, round.slots)) - 6;
+
+  section.rounds.forEach((round, column) => {
+    const x = columnX(column);
+    elements.push({ type: 'text', x, y: columnsTop + 9, text: fitText(round.name, NAME_SIZE, BOX_WIDTH), size: NAME_SIZE, bold: true });
+
+    const next = section.rounds[column + 1];
+    const feedsNext = section.knockout && next && next.slots * 2 === round.slots;
+
+    for (const match of round.matches) {
+      const centre = centreY(round, match.matchNumber);
+      const boxTop = centre - BOX_HEIGHT / 2;
+      elements.push({ type: 'rect', x, y: boxTop, width: BOX_WIDTH, height: BOX_HEIGHT });
+      elements.push({ type: 'line', x1: x, y1: centre, x2: x + BOX_WIDTH, y2: centre });
+
+      [match.player1Name, match.player2Name].forEach((name, side) => {
+        elements.push({
+          type: 'text',
+          x: x + 4,
+          y: boxTop + (side + 1) * (BOX_HEIGHT / 2) - 4.5,
+          text: fitText(name || '', NAME_SIZE, BOX_WIDTH - 8),
+          size: NAME_SIZE,
+          bold: match.winner === side + 1
+        });
+      });
+
+      const details = [match.score, match.court].filter(Boolean).join(' · ');
+      if (details) {
+        elements.push({ type: 'text', x: x + 2, y: boxTop + BOX_HEIGHT + 9, text: fitText(details, SCORE_SIZE, BOX_WIDTH - 4), size: SCORE_SIZE });
+      }
+
+      if (feedsNext) {
+        const elbow = x + BOX_WIDTH + COLUMN_GAP / 2;
+        const target = centreY(next, Math.ceil(match.matchNumber / 2));
+        elements.push({ type: 'line', x1: x + BOX_WIDTH, y1: centre, x2: elbow, y2: centre });
+        elements.push({ type: 'line', x1: elbow, y1: centre, x2: elbow, y2: target });
+        elements.push({ type: 'line', x1: elbow, y1: target, x2: columnX(column + 1), y2: target });
+      }
+    }
+  });
+
+  return matchesTop - top + height;
+}
+
+/**
+ * A CSV field, neutralised so spreadsheets don't run text starting with a formula character
+ */
+function csvField(value: CsvValue): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (typeof value === 'number') {
+    return String(value);
+  }
+
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV text from a header row and data rows
+ */
+export function toCsv(header: string[], rows: CsvValue[][]): string {
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\n') + '\n';
+}
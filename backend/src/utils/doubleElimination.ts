@@ -0,0 +1,255 @@
+// Double Elimination
+// Lays out a double-elimination bracket (winners, losers, grand final with reset) and resolves it from match results
+
+import { bracketPositions } from './tournamentEntries';
+
+export type DoubleEliminationSection = 'WINNERS' | 'LOSERS' | 'GRAND_FINAL';
+
+export type SlotSource =
+  | { type: 'seed'; seed: number }
+  | { type: 'winner'; slotId: string }
+  | { type: 'loser'; slotId: string };
+
+export interface DoubleEliminationSlot {
+  id: string; // W2-1, L3-2, GF-1, GF-2
+  section: DoubleEliminationSection;
+  matchNumber: number;
+  sources: [SlotSource, SlotSource];
+}
+
+export interface DoubleEliminationRound {
+  name: string;
+  section: DoubleEliminationSection;
+  slots: DoubleEliminationSlot[];
+}
+
+export interface DoubleEliminationBracket {
+  bracketSize: number;
+  rounds: DoubleEliminationRound[]; // In play order: every slot's sources are in earlier rounds
+}
+
+// A slot side holds an entry's seed, null when the slot is empty (a bye), or undefined while still undecided
+export type SlotEntry = number | null | undefined;
+
+export type SlotState =
+  | 'WAITING' // A side is still undecided
+  | 'READY' // Both entries known, waiting for the result
+  | 'PLAYED'
+  | 'BYE' // Only one entry, who goes through without playing
+  | 'EMPTY' // No entries reach this slot
+  | 'NOT_NEEDED'; // Grand final reset when the winners-bracket champion won the first final
+
+export interface ResolvedSlot {
+  slot: DoubleEliminationSlot;
+  entry1: SlotEntry;
+  entry2: SlotEntry;
+  state: SlotState;
+  winner: SlotEntry;
+  loser: SlotEntry;
+}
+
+export interface DoubleEliminationState {
+  slots: Map<string, ResolvedSlot>;
+  eliminated: Map<number, number>; // Seed to final rank, runner-up included once the grand final is decided
+  champion?: number;
+  runnerUp?: number;
+}
+
+const seed = (value: number): SlotSource => ({ type: 'seed', seed: value });
+const winnerOf = (slotId: string): SlotSource => ({ type: 'winner', slotId });
+const loserOf = (slotId: string): SlotSource => ({ type: 'loser', slotId });
+
+/**
+ * Lay out the bracket for a number of entries, rounded up to a power of two
+ * Losers-bracket rounds alternate: odd rounds pair the survivors, even rounds take the next winners-round losers.
+ * Drop-ins are placed in reverse order on alternate rounds so entries don't meet the same opponent again straight away.
+ */
+export function buildDoubleElimination(entryCount: number): DoubleEliminationBracket {
+  let bracketSize = 2;
+  while (bracketSize < entryCount) bracketSize *= 2;
+  const winnersRounds = Math.log2(bracketSize);
+
+  const positions = bracketPositions(bracketSize);
+  const winners: DoubleEliminationRound[] = [];
+  for (let round = 1; round <= winnersRounds; round++) {
+    const slots: DoubleEliminationSlot[] = [];
+    for (let match = 1; match <= bracketSize / Math.pow(2, round); match++) {
+      const sources: [SlotSource, SlotSource] = round === 1
+        ? [seed(positions[match * 2 - 2]), seed(positions[match * 2 - 1])]
+        : [winnerOf(`W${round - 1}-${match * 2 - 1}`), winnerOf(`W${round - 1}-${match * 2}`)];
+      slots.push({ id: `W${round}-${match}`, section: 'WINNERS', matchNumber: match, sources });
+    }
+    winners.push({
+      name: round === winnersRounds ? 'Winners Final' : `Winners Round ${round}`,
+      section: 'WINNERS',
+      slots
+    });
+  }
+
+  const losers: DoubleEliminationRound[] = [];
+  const losersRounds = 2 * (winnersRounds - 1);
+  for (let round = 1; round <= losersRounds; round++) {
+    const slots: DoubleEliminationSlot[] = [];
+    const dropRound = round % 2 === 0; // Takes losers from winners round round / 2 + 1
+
+    const matches = round === 1
+      ? bracketSize / 4
+      : bracketSize / Math.pow(2, Math.floor(round / 2) + 1 + (dropRound ? 0 : 1));
+
+    for (let match = 1; match <= matches; match++) {
+      let sources: [SlotSource, SlotSource];
+      if (round === 1) {
+        sources = [loserOf(`W1-${match * 2 - 1}`), loserOf(`W1-${match * 2}`)];
+      } else if (dropRound) {
+        const fromRound = round / 2 + 1;
+        const dropMatch = (round / 2) % 2 === 1 ? matches + 1 - match : match;
+        sources = [winnerOf(`L${round - 1}-${match}`), loserOf(`W${fromRound}-${dropMatch}`)];
+      } else {
+        sources = [winnerOf(`L${round - 1}-${match * 2 - 1}`), winnerOf(`L${round - 1}-${match * 2}`)];
+      }
+      slots.push({ id: `L${round}-${match}`, section: 'LOSERS', matchNumber: match, sources });
+    }
+    losers.push({
+      name: round === losersRounds ? 'Losers Final' : `Losers Round ${round}`,
+      section: 'LOSERS',
+      slots
+    });
+  }
+
+  // Play order: each winners round, then the losers rounds that its losers drop into
+  const rounds: DoubleEliminationRound[] = [winners[0]];
+  for (let round = 2; round <= winnersRounds; round++) {
+    rounds.push(winners[round - 1], losers[2 * round - 4], losers[2 * round - 3]);
+  }
+
+  const finalists: [SlotSource, SlotSource] = [
+    winnerOf(`W${winnersRounds}-1`),
+    losersRounds > 0 ? winnerOf(`L${losersRounds}-1`) : loserOf(`W${winnersRounds}-1`)
+  ];
+  rounds.push(
+    { name: 'Grand Final', section: 'GRAND_FINAL', slots: [{ id: 'GF-1', section: 'GRAND_FINAL', matchNumber: 1, sources: finalists }] },
+    { name: 'Grand Final Reset', section: 'GRAND_FINAL', slots: [{ id: 'GF-2', section: 'GRAND_FINAL', matchNumber: 1, sources: finalists }] }
+  );
+
+  return { bracketSize, rounds };
+}
+
+/**
+ * Resolve every slot of the bracket from the results so far
+ * results maps a played slot to the seed that won it. Byes and empty slots pass through on their own,
+ * and the grand final only needs a reset when the losers-bracket champion wins the first final.
+ */
+export function resolveDoubleElimination(
+  bracket: DoubleEliminationBracket,
+  entryCount: number,
+  results: Map<string, number>
+): DoubleEliminationState {
+  const slots = new Map<string, ResolvedSlot>();
+  const state: DoubleEliminationState = { slots, eliminated: new Map() };
+  const laterLosersMatches = countLaterLosersMatches(bracket, entryCount);
+
+  const entryFrom = (source: SlotSource): SlotEntry => {
+    if (source.type === 'seed') {
+      return source.seed <= entryCount ? source.seed : null;
+    }
+    const resolved = slots.get(source.slotId);
+    return source.type === 'winner' ? resolved?.winner : resolved?.loser;
+  };
+
+  for (const round of bracket.rounds) {
+    for (const slot of round.slots) {
+      const entry1 = entryFrom(slot.sources[0]);
+      const entry2 = entryFrom(slot.sources[1]);
+      const resolved: ResolvedSlot = { slot, entry1, entry2, state: 'WAITING', winner: undefined, loser: undefined };
+      slots.set(slot.id, resolved);
+
+      if (slot.id === 'GF-2') {
+        const firstFinal = slots.get('GF-1')!;
+        if (firstFinal.state !== 'PLAYED' && firstFinal.state !== 'BYE') {
+          continue;
+        }
+        if (firstFinal.winner === firstFinal.entry1) {
+          resolved.state = 'NOT_NEEDED';
+          state.champion = firstFinal.winner ?? undefined;
+          state.runnerUp = firstFinal.loser ?? undefined;
+          continue;
+        }
+      }
+
+      if (entry1 === undefined || entry2 === undefined) {
+        continue;
+      }
+
+      if (entry1 === null || entry2 === null) {
+        resolved.state = entry1 === null && entry2 === null ? 'EMPTY' : 'BYE';
+        resolved.winner = entry1 ?? entry2;
+        resolved.loser = null;
+        continue;
+      }
+
+      const winner = results.get(slot.id);
+      if (winner !== entry1 && winner !== entry2) {
+        resolved.state = 'READY';
+        continue;
+      }
+
+      resolved.state = 'PLAYED';
+      resolved.winner = winner;
+      resolved.loser = winner === entry1 ? entry2 : entry1;
+
+      if (slot.section === 'LOSERS') {
+        state.eliminated.set(resolved.loser, laterLosersMatches.get(slot.id)! + 3);
+      } else if (slot.id === 'GF-2') {
+        state.champion = winner;
+        state.runnerUp = resolved.loser;
+      }
+    }
+  }
+
+  if (state.runnerUp !== undefined) {
+    state.eliminated.set(state.runnerUp, 2);
+  }
+  return state;
+}
+
+/**
+ * Slots that will hold a real match once their entries are known, as opposed to byes and empty slots
+ * Which slots are empty depends only on how many entries there are, not on results.
+ */
+export function realMatchSlots(bracket: DoubleEliminationBracket, entryCount: number): Set<string> {
+  const hasWinner = new Map<string, boolean>();
+  const hasLoser = new Map<string, boolean>();
+  const real = new Set<string>();
+
+  const present = (source: SlotSource): boolean => {
+    if (source.type === 'seed') return source.seed <= entryCount;
+    return (source.type === 'winner' ? hasWinner : hasLoser).get(source.slotId) || false;
+  };
+
+  for (const round of bracket.rounds) {
+    for (const slot of round.slots) {
+      const [side1, side2] = slot.sources.map(present);
+      hasWinner.set(slot.id, side1 || side2);
+      hasLoser.set(slot.id, side1 && side2);
+      if (side1 && side2) real.add(slot.id);
+    }
+  }
+  return real;
+}
+
+/**
+ * For each losers-bracket slot, how many real losers-bracket matches are still to come in later rounds
+ * An entry knocked out there finishes behind everyone still playing: later eliminations, the runner-up and the champion.
+ */
+function countLaterLosersMatches(bracket: DoubleEliminationBracket, entryCount: number): Map<string, number> {
+  const real = realMatchSlots(bracket, entryCount);
+  const counts = new Map<string, number>();
+  let later = 0;
+
+  for (const round of [...bracket.rounds].reverse()) {
+    if (round.section !== 'LOSERS') continue;
+    for (const slot of round.slots) counts.set(slot.id, later);
+    later += round.slots.filter(s => real.has(s.id)).length;
+  }
+  return counts;
+}
@@ -0,0 +1,135 @@
+// Drawing
+// A page of lines, boxes and text, rendered to SVG or to a single-page PDF without any external renderer
+
+export type DrawingElement =
+  | { type: 'line'; x1: number; y1: number; x2: number; y2: number }
+  | { type: 'rect'; x: number; y: number; width: number; height: number; fill?: string } // fill as #rrggbb
+  | { type: 'text'; x: number; y: number; text: string; size: number; bold?: boolean; anchor?: 'start' | 'middle' };
+
+// Coordinates are in points from the top-left corner; a text's y is its baseline
+export interface Drawing {
+  width: number;
+  height: number;
+  elements: DrawingElement[];
+}
+
+// Largest page a PDF viewer has to accept (200 inches); bigger drawings are scaled down to fit
+const MAX_PDF_PAGE = 14400;
+
+// Average Helvetica glyph width as a share of the font size, near enough to lay out and truncate names
+const AVERAGE_CHAR_WIDTH = 0.55;
+
+/**
+ * Approximate width of a line of text
+ */
+export function textWidth(text: string, size: number): number {
+  return text.length * size * AVERAGE_CHAR_WIDTH;
+}
+
+/**
+ * Shorten text with an ellipsis so it fits the given width
+ */
+export function fitText(text: string, size: number, maxWidth: number): string {
+  if (textWidth(text, size) <= maxWidth) {
+    return text;
+  }
+  const chars = Math.max(0, Math.floor(maxWidth / (size * AVERAGE_CHAR_WIDTH)) - 1);
+  return `${text.slice(0, chars).trimEnd()}…`;
+}
+
+const escapeXml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Render a drawing as a standalone SVG document
+ */
+export function renderSvg(drawing: Drawing): string {
+  const elements = drawing.elements.map(element => {
+    switch (element.type) {
+      case 'line':
+        return `<line x1="${round(element.x1)}" y1="${round(element.y1)}" x2="${round(element.x2)}" y2="${round(element.y2)}" stroke="#000" stroke-width="0.75"/>`;
+      case 'rect':
+        return `<rect x="${round(element.x)}" y="${round(element.y)}" width="${round(element.width)}" height="${round(element.height)}" fill="${element.fill || 'none'}" stroke="#000" stroke-width="0.75"/>`;
+      case 'text':
+        return `<text x="${round(element.x)}" y="${round(element.y)}" font-size="${element.size}"${element.bold ? ' font-weight="bold"' : ''}${element.anchor === 'middle' ? ' text-anchor="middle"' : ''}>${escapeXml(element.text)}</text>`;
+    }
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${round(drawing.width)}pt" height="${round(drawing.height)}pt" viewBox="0 0 ${round(drawing.width)} ${round(drawing.height)}" font-family="Helvetica, Arial, sans-serif">`,
+    `<rect width="100%" height="100%" fill="#fff"/>`,
+    ...elements,
+    '</svg>',
+    ''
+  ].join('\n');
+}
+
+// PDF strings use the standard fonts' WinAnsi encoding: Latin-1 carries over, anything else prints as "?"
+const pdfString = (text: string) => text
+  .replace(/…/g, '...')
+  .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+  .replace(/[\\()]/g, match => `\\${match}`);
+
+const pdfColor = (hex: string) => [1, 3, 5]
+  .map(offset => round(parseInt(hex.slice(offset, offset + 2), 16) / 255))
+  .join(' ');
+
+/**
+ * Render a drawing as a one-page PDF using the built-in Helvetica fonts
+ * The page is the size of the drawing, so viewers can fit it to whatever paper is printed on.
+ */
+export function renderPdf(drawing: Drawing): Buffer {
+  const scale = Math.min(1, MAX_PDF_PAGE / drawing.width, MAX_PDF_PAGE / drawing.height);
+  const [width, height] = [round(drawing.width * scale), round(drawing.height * scale)];
+  // PDF measures up from the bottom of the page
+  const y = (value: number) => round(drawing.height - value);
+
+  const content = [`${round(scale)} 0 0 ${round(scale)} 0 0 cm`, '0.75 w'];
+  for (const element of drawing.elements) {
+    switch (element.type) {
+      case 'line':
+        content.push(`${round(element.x1)} ${y(element.y1)} m ${round(element.x2)} ${y(element.y2)} l S`);
+        break;
+      case 'rect': {
+        const rect = `${round(element.x)} ${y(element.y + element.height)} ${round(element.width)} ${round(element.height)} re`;
+        content.push(element.fill ? `${pdfColor(element.fill)} rg ${rect} B` : `${rect} S`);
+        break;
+      }
+      case 'text': {
+        const x = element.anchor === 'middle' ? element.x - textWidth(element.text, element.size) / 2 : element.x;
+        content.push(`0 g BT /${element.bold ? 'F2' : 'F1'} ${element.size} Tf ${round(x)} ${y(element.y)} Td (${pdfString(element.text)}) Tj ET`);
+        break;
+      }
+    }
+  }
+  const stream = content.join('\n');
+
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /Font << /F1 5 0 R /F2 6 0 R >> >> /Contents 4 0 R >>`,
+    `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = Buffer.byteLength(pdf, 'latin1');
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+
+  const xref = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+}
@@ -0,0 +1,69 @@
+// Game Format Helpers
+// Singles and doubles share the same team columns; singles leaves each team's second player empty
+
+export type GameFormat = 'SINGLES' | 'DOUBLES';
+
+export const GAME_FORMATS: GameFormat[] = ['SINGLES', 'DOUBLES'];
+
+export interface TeamColumns {
+  team1Player1: string;
+  team1Player2?: string | null;
+  team2Player1: string;
+  team2Player2?: string | null;
+}
+
+/**
+ * Number of players on each side for a format
+ */
+export function playersPerTeam(format: GameFormat): number {
+  return format === 'SINGLES' ? 1 : 2;
+}
+
+/**
+ * Names of the players on one team, skipping the empty singles slot
+ */
+export function teamPlayers(player1: string, player2?: string | null): string[] {
+  return player2 ? [player1, player2] : [player1];
+}
+
+/**
+ * Both teams of a game or match as name lists
+ */
+export function gameTeams(game: TeamColumns): [string[], string[]] {
+  return [
+    teamPlayers(game.team1Player1, game.team1Player2),
+    teamPlayers(game.team2Player1, game.team2Player2)
+  ];
+}
+
+/**
+ * Check the submitted team columns have exactly the players the format needs
+ * Returns an error message, or null when the teams are valid.
+ */
+export function validateTeamColumns(format: GameFormat, teams: Partial<TeamColumns>): string | null {
+  if (!GAME_FORMATS.includes(format)) {
+    return 'Format must be SINGLES or DOUBLES';
+  }
+
+  if (format === 'SINGLES') {
+    if (!teams.team1Player1 || !teams.team2Player1) {
+      return 'Both players are required for a singles game';
+    }
+    if (teams.team1Player2 || teams.team2Player2) {
+      return 'Singles games take one player per team';
+    }
+    return null;
+  }
+
+  if (!teams.team1Player1 || !teams.team1Player2 || !teams.team2Player1 || !teams.team2Player2) {
+    return 'All four players are required';
+  }
+  return null;
+}
+
+/**
+ * Display label for a team, e.g. "Alice & Bob" or "Alice"
+ */
+export function formatTeamName(player1: string, player2?: string | null): string {
+  return teamPlayers(player1, player2).join(' & ');
+}
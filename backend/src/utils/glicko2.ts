@@ -0,0 +1,207 @@
+// Glicko-2 Rating Engine for Singles and Doubles Games
+// Team-aware adaptation of Glickman's Glicko-2 system (http://www.glicko.net/glicko/glicko2.pdf)
+
+export interface GlickoRating {
+  rating: number; // Display scale rating (e.g. 1200)
+  deviation: number; // Rating deviation (RD) on display scale
+  volatility: number; // Expected fluctuation of the rating
+}
+
+export interface TeamGameResult {
+  team1: GlickoRating[]; // One entry for singles, two for doubles
+  team2: GlickoRating[];
+  team1Score: number; // 1 = team 1 won, 0 = team 2 won, 0.5 = draw
+}
+
+export interface TeamGameRatings {
+  team1: GlickoRating[];
+  team2: GlickoRating[];
+}
+
+export const GLICKO_DEFAULTS = {
+  INITIAL_RATING: 1200,
+  INITIAL_DEVIATION: 350,
+  INITIAL_VOLATILITY: 0.06,
+  MIN_DEVIATION: 30,
+  MAX_DEVIATION: 350,
+  TAU: 0.5, // Constrains volatility change over time
+  RATING_PERIOD_DAYS: 7 // Inactivity is measured in whole weeks
+};
+
+const SCALE = 173.7178;
+const CONVERGENCE_TOLERANCE = 0.000001;
+
+/**
+ * Create a rating for a player without any rated games
+ */
+export function createInitialRating(): GlickoRating {
+  return {
+    rating: GLICKO_DEFAULTS.INITIAL_RATING,
+    deviation: GLICKO_DEFAULTS.INITIAL_DEVIATION,
+    volatility: GLICKO_DEFAULTS.INITIAL_VOLATILITY
+  };
+}
+
+const toMu = (rating: number): number => (rating - GLICKO_DEFAULTS.INITIAL_RATING) / SCALE;
+const toPhi = (deviation: number): number => deviation / SCALE;
+const fromMu = (mu: number): number => mu * SCALE + GLICKO_DEFAULTS.INITIAL_RATING;
+const fromPhi = (phi: number): number => phi * SCALE;
+
+const g = (phi: number): number => 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+
+const expectedOutcome = (mu: number, opponentMu: number, opponentPhi: number): number =>
+  1 / (1 + Math.exp(-g(opponentPhi) * (mu - opponentMu)));
+
+const clampDeviation = (deviation: number): number =>
+  Math.min(GLICKO_DEFAULTS.MAX_DEVIATION, Math.max(GLICKO_DEFAULTS.MIN_DEVIATION, deviation));
+
+/**
+ * Combine partners into a single team rating
+ * Rating is the partners' mean, deviation is the root mean square of their deviations
+ */
+export function calculateTeamRating(team: GlickoRating[]): GlickoRating {
+  if (team.length === 0) {
+    return createInitialRating();
+  }
+
+  const rating = team.reduce((sum, player) => sum + player.rating, 0) / team.length;
+  const deviation = Math.sqrt(team.reduce((sum, player) => sum + player.deviation * player.deviation, 0) / team.length);
+  const volatility = team.reduce((sum, player) => sum + player.volatility, 0) / team.length;
+
+  return { rating, deviation, volatility };
+}
+
+/**
+ * Probability (0-1) that team 1 beats team 2
+ */
+export function calculateWinProbability(team1: GlickoRating[], team2: GlickoRating[]): number {
+  const team1Rating = calculateTeamRating(team1);
+  const team2Rating = calculateTeamRating(team2);
+  const combinedPhi = Math.sqrt(
+    toPhi(team1Rating.deviation) ** 2 + toPhi(team2Rating.deviation) ** 2
+  );
+
+  return expectedOutcome(toMu(team1Rating.rating), toMu(team2Rating.rating), combinedPhi);
+}
+
+/**
+ * Increase rating deviation for a player who has been inactive for a number of rating periods
+ */
+export function applyInactivity(player: GlickoRating, periods: number): GlickoRating {
+  if (periods <= 0) {
+    return { ...player };
+  }
+
+  const phi = toPhi(player.deviation);
+  const inflatedPhi = Math.sqrt(phi * phi + periods * player.volatility * player.volatility);
+
+  return {
+    ...player,
+    deviation: clampDeviation(fromPhi(inflatedPhi))
+  };
+}
+
+/**
+ * Number of whole rating periods between two dates
+ */
+export function ratingPeriodsBetween(from: Date, to: Date): number {
+  const periodMs = GLICKO_DEFAULTS.RATING_PERIOD_DAYS * 24 * 60 * 60 * 1000;
+  return Math.max(0, Math.floor((to.getTime() - from.getTime()) / periodMs));
+}
+
+/**
+ * Solve for the new volatility using the Illinois algorithm (step 5 of Glicko-2)
+ */
+function calculateNewVolatility(phi: number, sigma: number, delta: number, v: number): number {
+  const tau = GLICKO_DEFAULTS.TAU;
+  const a = Math.log(sigma * sigma);
+  const f = (x: number): number => {
+    const ex = Math.exp(x);
+    const numerator = ex * (delta * delta - phi * phi - v - ex);
+    const denominator = 2 * Math.pow(phi * phi + v + ex, 2);
+    return numerator / denominator - (x - a) / (tau * tau);
+  };
+
+  let A = a;
+  let B: number;
+  if (delta * delta > phi * phi + v) {
+    B = Math.log(delta * delta - phi * phi - v);
+  } else {
+    let k = 1;
+    while (f(a - k * tau) < 0) {
+      k++;
+    }
+    B = a - k * tau;
+  }
+
+  let fA = f(A);
+  let fB = f(B);
+  while (Math.abs(B - A) > CONVERGENCE_TOLERANCE) {
+    const C = A + ((A - B) * fA) / (fB - fA);
+    const fC = f(C);
+    if (fC * fB <= 0) {
+      A = B;
+      fA = fB;
+    } else {
+      fA = fA / 2;
+    }
+    B = C;
+    fB = fC;
+  }
+
+  return Math.exp(A / 2);
+}
+
+/**
+ * Update a single player's rating against one opponent rating
+ * The opponent rating is already adjusted for partner strength by the caller
+ */
+function updatePlayerRating(
+  player: GlickoRating,
+  opponentMu: number,
+  opponentPhi: number,
+  score: number
+): GlickoRating {
+  const mu = toMu(player.rating);
+  const phi = toPhi(player.deviation);
+
+  const gPhi = g(opponentPhi);
+  const expected = expectedOutcome(mu, opponentMu, opponentPhi);
+  const v = 1 / (gPhi * gPhi * expected * (1 - expected));
+  const delta = v * gPhi * (score - expected);
+
+  const newSigma = calculateNewVolatility(phi, player.volatility, delta, v);
+  const phiStar = Math.sqrt(phi * phi + newSigma * newSigma);
+  const newPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+  const newMu = mu + newPhi * newPhi * gPhi * (score - expected);
+
+  return {
+    rating: fromMu(newMu),
+    deviation: clampDeviation(fromPhi(newPhi)),
+    volatility: newSigma
+  };
+}
+
+/**
+ * Rate one completed game between two teams of one or two players
+ *
+ * Each player is rated against the opposing team's composite rating, shifted by the
+ * gap between the player and their own team so that the expected score reflects the
+ * team-versus-team matchup while each player keeps an individual deviation and volatility.
+ */
+export function rateTeamGame(result: TeamGameResult): TeamGameRatings {
+  const { team1, team2, team1Score } = result;
+  const team1Rating = calculateTeamRating(team1);
+  const team2Rating = calculateTeamRating(team2);
+
+  const rateTeam = (team: GlickoRating[], own: GlickoRating, opponent: GlickoRating, score: number) =>
+    team.map(player => {
+      const partnerOffset = toMu(own.rating) - toMu(player.rating);
+      return updatePlayerRating(player, toMu(opponent.rating) - partnerOffset, toPhi(opponent.deviation), score);
+    });
+
+  return {
+    team1: rateTeam(team1, team1Rating, team2Rating, team1Score),
+    team2: rateTeam(team2, team2Rating, team1Rating, 1 - team1Score)
+  };
+}
@@ -0,0 +1,193 @@
+// Pool Play
+// Snake-seeded round-robin groups, group standings with tiebreakers, and cross-group seeding into the knockout stage
+
+import { MatchGameScore } from './tournamentResults';
+
+export interface GroupEntry {
+  id: string; // Player ID in singles, team ID in doubles
+  seed: number;
+}
+
+export interface GroupMatchRecord {
+  entry1Id: string;
+  entry2Id: string;
+  winnerId?: string | null; // Unset until the result is in
+  games: MatchGameScore[]; // player1Score is entry1's
+}
+
+export interface GroupStanding {
+  entryId: string;
+  rank: number;
+  seed: number;
+  played: number;
+  wins: number;
+  losses: number;
+  gamesWon: number;
+  gamesLost: number;
+  gameDifference: number;
+  pointsFor: number;
+  pointsAgainst: number;
+  pointDifference: number;
+}
+
+// A knockout place to be filled from the group stage, e.g. { groupNumber: 2, place: 1 } is the winner of group B
+export interface QualifierSlot {
+  groupNumber: number;
+  place: number;
+}
+
+// Entries from each group going through to the knockout unless the organizer sets it
+export const DEFAULT_GROUP_ADVANCERS = 2;
+
+/**
+ * Default number of groups: around four entries each, and at least two groups
+ */
+export function defaultGroupCount(entryCount: number): number {
+  return Math.max(2, Math.floor(entryCount / 4));
+}
+
+/**
+ * Letter for a group number: 1 is A
+ */
+export function groupLabel(groupNumber: number): string {
+  return String.fromCharCode(64 + groupNumber);
+}
+
+/**
+ * Split seeded entries into groups in snake order
+ * With three groups, seeds 1-3 go to A, B, C and seeds 4-6 to C, B, A, so every group gets a similar spread of seeds.
+ */
+export function snakeGroups<T>(seeded: T[], groupCount: number): T[][] {
+  const groups: T[][] = Array.from({ length: groupCount }, () => []);
+
+  seeded.forEach((entry, index) => {
+    const pass = Math.floor(index / groupCount);
+    const position = index % groupCount;
+    groups[pass % 2 === 0 ? position : groupCount - 1 - position].push(entry);
+  });
+  return groups;
+}
+
+/**
+ * Round-robin schedule by the circle method: every entry meets every other once
+ * An odd group gets a rest each round, so it plays as many rounds as it has entries.
+ */
+export function roundRobinRounds<T>(entries: T[]): Array<Array<[T, T]>> {
+  const circle: Array<T | null> = entries.length % 2 === 0 ? [...entries] : [...entries, null];
+  const rounds: Array<Array<[T, T]>> = [];
+
+  for (let round = 0; round < circle.length - 1; round++) {
+    const pairs: Array<[T, T]> = [];
+    for (let i = 0; i < circle.length / 2; i++) {
+      const [home, away] = [circle[i], circle[circle.length - 1 - i]];
+      if (home !== null && away !== null) pairs.push([home, away]);
+    }
+    rounds.push(pairs);
+
+    // Keep the first place fixed and rotate everyone else one place
+    circle.splice(1, 0, circle.pop()!);
+  }
+  return rounds;
+}
+
+/**
+ * Group standings from the completed matches, best first
+ * Entries are ordered on wins; ties are broken by head-to-head wins between the tied entries,
+ * then game difference, then point difference across all their group matches, then seed.
+ */
+export function computeGroupStandings(entries: GroupEntry[], matches: GroupMatchRecord[]): GroupStanding[] {
+  const standings = new Map<string, GroupStanding>(entries.map(entry => [entry.id, {
+    entryId: entry.id,
+    rank: 0,
+    seed: entry.seed,
+    played: 0,
+    wins: 0,
+    losses: 0,
+    gamesWon: 0,
+    gamesLost: 0,
+    gameDifference: 0,
+    pointsFor: 0,
+    pointsAgainst: 0,
+    pointDifference: 0
+  }]));
+  const completed = matches.filter(match =>
+    match.winnerId && standings.has(match.entry1Id) && standings.has(match.entry2Id));
+
+  for (const match of completed) {
+    const side1 = standings.get(match.entry1Id)!;
+    const side2 = standings.get(match.entry2Id)!;
+    const [winner, loser] = match.winnerId === match.entry1Id ? [side1, side2] : [side2, side1];
+    winner.wins++;
+    loser.losses++;
+    side1.played++;
+    side2.played++;
+
+    for (const game of match.games) {
+      const side1Won = game.player1Score > game.player2Score;
+      (side1Won ? side1 : side2).gamesWon++;
+      (side1Won ? side2 : side1).gamesLost++;
+      side1.pointsFor += game.player1Score;
+      side1.pointsAgainst += game.player2Score;
+      side2.pointsFor += game.player2Score;
+      side2.pointsAgainst += game.player1Score;
+    }
+  }
+
+  for (const standing of standings.values()) {
+    standing.gameDifference = standing.gamesWon - standing.gamesLost;
+    standing.pointDifference = standing.pointsFor - standing.pointsAgainst;
+  }
+
+  // Head-to-head only counts matches between entries level on wins
+  const headToHead = (standing: GroupStanding) => completed.filter(match =>
+    match.winnerId === standing.entryId &&
+    [match.entry1Id, match.entry2Id].every(id => standings.get(id)!.wins === standing.wins)
+  ).length;
+
+  const ordered = Array.from(standings.values()).sort((a, b) =>
+    b.wins - a.wins ||
+    headToHead(b) - headToHead(a) ||
+    b.gameDifference - a.gameDifference ||
+    b.pointDifference - a.pointDifference ||
+    a.seed - b.seed
+  );
+  ordered.forEach((standing, index) => { standing.rank = index + 1; });
+  return ordered;
+}
+
+/**
+ * Knockout seed order for the top advancers of each group
+ * Group winners take the top seeds. Runners-up are placed so each winner opens against the runner-up of a
+ * neighbouring group (A1 v B2, B1 v A2), and no first-round match is between two entries from the same group.
+ */
+export function crossGroupSeeds(groupCount: number, advancers: number): QualifierSlot[] {
+  const groups = Array.from({ length: groupCount }, (_, i) => i + 1);
+  // A, B, C, D becomes C, D, A, B: neighbours swapped (B, A, D, C), then reversed
+  const crossed = groups.map((_, i) => groups[i % 2 === 0 ? Math.min(i + 1, groupCount - 1) : i - 1]).reverse();
+
+  const seeds: QualifierSlot[] = [];
+  for (let place = 1; place <= advancers; place++) {
+    const order = place % 2 === 1 ? groups : crossed;
+    seeds.push(...order.map(groupNumber => ({ groupNumber, place })));
+  }
+
+  let size = 2;
+  while (size < seeds.length) size *= 2;
+  const opponentGroup = (index: number) => seeds[size - 1 - index]?.groupNumber;
+
+  // Swap out any remaining same-group pairing for an entry of the same place that fits
+  for (let index = 0; index < size / 2; index++) {
+    const opponentIndex = size - 1 - index;
+    if (opponentIndex >= seeds.length || seeds[index].groupNumber !== seeds[opponentIndex].groupNumber) continue;
+
+    const swapIndex = seeds.findIndex((candidate, candidateIndex) =>
+      candidateIndex !== opponentIndex &&
+      candidate.place === seeds[opponentIndex].place &&
+      candidate.groupNumber !== seeds[index].groupNumber &&
+      opponentGroup(candidateIndex) !== seeds[opponentIndex].groupNumber);
+    if (swapIndex >= 0) {
+      [seeds[opponentIndex], seeds[swapIndex]] = [seeds[swapIndex], seeds[opponentIndex]];
+    }
+  }
+  return seeds;
+}
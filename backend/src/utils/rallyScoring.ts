@@ -0,0 +1,303 @@
+// Rally Scoring Rule Engine
+// Replays a point-by-point rally log under BWF rally scoring: sets, service court, server rotation and game completion
+
+export type ScoringSystem = '21_POINT' | '15_POINT' | '11_POINT';
+export type TeamNumber = 1 | 2;
+export type ServiceCourt = 'RIGHT' | 'LEFT';
+
+export interface ScoringSystemRules {
+  pointsToWin: number;
+  maxPoints: number; // Golden point: first to this score wins the set even without a two-point lead
+}
+
+export const SCORING_SYSTEMS: Record<ScoringSystem, ScoringSystemRules> = {
+  '21_POINT': { pointsToWin: 21, maxPoints: 30 },
+  '15_POINT': { pointsToWin: 15, maxPoints: 21 },
+  '11_POINT': { pointsToWin: 11, maxPoints: 15 }
+};
+
+export interface RallySetup {
+  team1: string[]; // One name for singles, two for doubles
+  team2: string[];
+  scoringSystem: ScoringSystem;
+  bestOfGames: number; // Sets in the game, e.g. 3 for best of three
+  firstServerTeam: TeamNumber;
+  firstServer?: string; // Defaults to the serving team's first player
+  firstReceiver?: string; // Defaults to the receiving team's first player
+}
+
+export interface RecordedRally {
+  rallyNumber: number; // Sequential within the game
+  setNumber: number;
+  winnerTeam: TeamNumber;
+  serverTeam: TeamNumber;
+  server: string;
+  receiver: string;
+  serviceCourt: ServiceCourt;
+  team1Score: number; // Set score after the rally
+  team2Score: number;
+}
+
+export interface SetScore {
+  setNumber: number;
+  team1Score: number;
+  team2Score: number;
+  winnerTeam?: TeamNumber;
+  isCompleted: boolean;
+}
+
+export interface RallyState {
+  sets: SetScore[];
+  currentSet: number;
+  setsWon: { team1: number; team2: number };
+  servingTeam: TeamNumber;
+  server: string;
+  receiver: string;
+  serviceCourt: ServiceCourt;
+  positions: Record<TeamNumber, { right: string; left: string }>;
+  rallies: RecordedRally[];
+  isComplete: boolean;
+  winnerTeam?: TeamNumber;
+}
+
+export interface MomentumStats {
+  longestRun: { team1: number; team2: number };
+  currentRun: { team: TeamNumber; points: number } | null;
+  leadChanges: number;
+}
+
+const otherTeam = (team: TeamNumber): TeamNumber => (team === 1 ? 2 : 1);
+
+/**
+ * Rules for a configured scoring system, falling back to 21 points
+ */
+export function resolveScoringRules(system?: string | null): ScoringSystemRules {
+  return SCORING_SYSTEMS[system as ScoringSystem] || SCORING_SYSTEMS['21_POINT'];
+}
+
+/**
+ * A set ends at the target score with a two-point lead, or when either side reaches the cap
+ */
+export function isSetComplete(rules: ScoringSystemRules, team1Score: number, team2Score: number): boolean {
+  const leader = Math.max(team1Score, team2Score);
+  return leader >= rules.maxPoints
+    || (leader >= rules.pointsToWin && Math.abs(team1Score - team2Score) >= 2);
+}
+
+/**
+ * Check a set score is reachable under the rules
+ * Completed sets must have ended exactly when the winning point was scored. Returns an error message, or null when legal.
+ */
+export function validateSetScore(
+  rules: ScoringSystemRules,
+  team1Score: number,
+  team2Score: number,
+  isCompleted = true
+): string | null {
+  if (!Number.isInteger(team1Score) || !Number.isInteger(team2Score) || team1Score < 0 || team2Score < 0) {
+    return 'Scores must be non-negative whole numbers';
+  }
+
+  const winner = Math.max(team1Score, team2Score);
+  const loser = Math.min(team1Score, team2Score);
+
+  if (winner > rules.maxPoints) {
+    return `Scores cannot exceed ${rules.maxPoints}`;
+  }
+
+  if (!isCompleted) {
+    return isSetComplete(rules, team1Score, team2Score) ? 'Score already completes the set' : null;
+  }
+
+  // The set ends on the first score that completes it, so the winner's total is fixed by the loser's
+  const expectedWinner = loser < rules.pointsToWin - 1
+    ? rules.pointsToWin
+    : Math.min(loser + 2, rules.maxPoints);
+  if (winner !== expectedWinner) {
+    return `${team1Score}-${team2Score} is not a valid final score (first to ${rules.pointsToWin}, win by 2, capped at ${rules.maxPoints})`;
+  }
+  return null;
+}
+
+/**
+ * Check the serving setup names players from the right teams
+ * Returns an error message, or null when the setup is valid.
+ */
+export function validateRallySetup(setup: RallySetup): string | null {
+  if (!SCORING_SYSTEMS[setup.scoringSystem]) {
+    return 'Scoring system must be 21_POINT, 15_POINT or 11_POINT';
+  }
+  if (!Number.isInteger(setup.bestOfGames) || setup.bestOfGames < 1 || setup.bestOfGames % 2 === 0) {
+    return 'Best of games must be an odd number';
+  }
+  if (setup.firstServerTeam !== 1 && setup.firstServerTeam !== 2) {
+    return 'First server team must be 1 or 2';
+  }
+
+  const servingTeam = setup.firstServerTeam === 1 ? setup.team1 : setup.team2;
+  const receivingTeam = setup.firstServerTeam === 1 ? setup.team2 : setup.team1;
+  if (setup.firstServer && !servingTeam.includes(setup.firstServer)) {
+    return 'First server must be on the serving team';
+  }
+  if (setup.firstReceiver && !receivingTeam.includes(setup.firstReceiver)) {
+    return 'First receiver must be on the receiving team';
+  }
+  return null;
+}
+
+/**
+ * Each side's starting court positions; singles players cover both courts
+ */
+function startingPositions(setup: RallySetup): Record<TeamNumber, { right: string; left: string }> {
+  const place = (players: string[], right?: string) => {
+    const rightPlayer = right || players[0];
+    const leftPlayer = players.find(p => p !== rightPlayer) || rightPlayer;
+    return { right: rightPlayer, left: leftPlayer };
+  };
+
+  return setup.firstServerTeam === 1
+    ? { 1: place(setup.team1, setup.firstServer), 2: place(setup.team2, setup.firstReceiver) }
+    : { 1: place(setup.team1, setup.firstReceiver), 2: place(setup.team2, setup.firstServer) };
+}
+
+/**
+ * Server serves from the right on an even score, the left on an odd score, to the diagonally opposite receiver
+ */
+function withService(state: RallyState, servingScore: number): RallyState {
+  const serviceCourt: ServiceCourt = servingScore % 2 === 0 ? 'RIGHT' : 'LEFT';
+  const side = serviceCourt === 'RIGHT' ? 'right' : 'left';
+
+  return {
+    ...state,
+    serviceCourt,
+    server: state.positions[state.servingTeam][side],
+    receiver: state.positions[otherTeam(state.servingTeam)][side]
+  };
+}
+
+/**
+ * State before the first rally of a game
+ */
+export function createRallyState(setup: RallySetup): RallyState {
+  return withService({
+    sets: [{ setNumber: 1, team1Score: 0, team2Score: 0, isCompleted: false }],
+    currentSet: 1,
+    setsWon: { team1: 0, team2: 0 },
+    servingTeam: setup.firstServerTeam,
+    server: '',
+    receiver: '',
+    serviceCourt: 'RIGHT',
+    positions: startingPositions(setup),
+    rallies: [],
+    isComplete: false
+  }, 0);
+}
+
+/**
+ * Apply one rally won by a team
+ * The winning side always scores and serves next. A side that holds serve switches its players' courts;
+ * a side that wins serve back keeps its positions. Set winners serve first in the next set.
+ */
+export function applyRally(state: RallyState, setup: RallySetup, winnerTeam: TeamNumber): RallyState {
+  if (state.isComplete) {
+    throw new Error('Game is already complete');
+  }
+
+  const rules = resolveScoringRules(setup.scoringSystem);
+  const current = state.sets[state.sets.length - 1];
+  const team1Score = current.team1Score + (winnerTeam === 1 ? 1 : 0);
+  const team2Score = current.team2Score + (winnerTeam === 2 ? 1 : 0);
+
+  const rally: RecordedRally = {
+    rallyNumber: state.rallies.length + 1,
+    setNumber: state.currentSet,
+    winnerTeam,
+    serverTeam: state.servingTeam,
+    server: state.server,
+    receiver: state.receiver,
+    serviceCourt: state.serviceCourt,
+    team1Score,
+    team2Score
+  };
+  const rallies = [...state.rallies, rally];
+
+  if (isSetComplete(rules, team1Score, team2Score)) {
+    const sets = [
+      ...state.sets.slice(0, -1),
+      { ...current, team1Score, team2Score, winnerTeam, isCompleted: true }
+    ];
+    const setsWon = {
+      team1: state.setsWon.team1 + (winnerTeam === 1 ? 1 : 0),
+      team2: state.setsWon.team2 + (winnerTeam === 2 ? 1 : 0)
+    };
+    const setsToWin = Math.ceil(setup.bestOfGames / 2);
+
+    if (setsWon.team1 >= setsToWin || setsWon.team2 >= setsToWin) {
+      return { ...state, sets, setsWon, rallies, isComplete: true, winnerTeam };
+    }
+
+    // Next set starts from the original positions with the set winner serving
+    return withService({
+      ...state,
+      sets: [...sets, { setNumber: state.currentSet + 1, team1Score: 0, team2Score: 0, isCompleted: false }],
+      currentSet: state.currentSet + 1,
+      setsWon,
+      servingTeam: winnerTeam,
+      positions: startingPositions(setup),
+      rallies
+    }, 0);
+  }
+
+  let positions = state.positions;
+  if (winnerTeam === state.servingTeam) {
+    const side = positions[winnerTeam];
+    positions = { ...positions, [winnerTeam]: { right: side.left, left: side.right } };
+  }
+
+  return withService({
+    ...state,
+    sets: [...state.sets.slice(0, -1), { ...current, team1Score, team2Score }],
+    servingTeam: winnerTeam,
+    positions,
+    rallies
+  }, winnerTeam === 1 ? team1Score : team2Score);
+}
+
+/**
+ * Rebuild the game state from the ordered rally winners
+ */
+export function replayRallies(setup: RallySetup, winners: TeamNumber[]): RallyState {
+  return winners.reduce((state, winnerTeam) => applyRally(state, setup, winnerTeam), createRallyState(setup));
+}
+
+/**
+ * Scoring runs and lead changes across the whole rally log
+ */
+export function calculateMomentum(rallies: RecordedRally[]): MomentumStats {
+  const longestRun = { team1: 0, team2: 0 };
+  let currentRun: MomentumStats['currentRun'] = null;
+  let leadChanges = 0;
+  let leader: TeamNumber | null = null;
+  let setNumber = 0;
+
+  for (const rally of rallies) {
+    if (rally.setNumber !== setNumber) {
+      setNumber = rally.setNumber;
+      leader = null;
+    }
+
+    currentRun = currentRun && currentRun.team === rally.winnerTeam
+      ? { team: rally.winnerTeam, points: currentRun.points + 1 }
+      : { team: rally.winnerTeam, points: 1 };
+    const key = currentRun.team === 1 ? 'team1' : 'team2';
+    longestRun[key] = Math.max(longestRun[key], currentRun.points);
+
+    const newLeader: TeamNumber | null = rally.team1Score === rally.team2Score ? leader : (rally.team1Score > rally.team2Score ? 1 : 2);
+    if (leader !== null && newLeader !== leader) {
+      leadChanges++;
+    }
+    leader = newLeader;
+  }
+
+  return { longestRun, currentRun, leadChanges };
+}
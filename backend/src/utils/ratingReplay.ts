@@ -0,0 +1,138 @@
+// Deterministic Rating Replay
+// Rebuilds Glicko-2 ratings and ranking history from an ordered list of completed games
+
+import {
+  GlickoRating,
+  applyInactivity,
+  createInitialRating,
+  rateTeamGame,
+  ratingPeriodsBetween
+} from './glicko2';
+
+export interface ReplayGame {
+  id: string;
+  playedAt: Date;
+  team1: string[]; // Player IDs, one for singles or two for doubles
+  team2: string[];
+  winnerTeam: 1 | 2;
+}
+
+export interface ReplayPlayerState {
+  rating: GlickoRating;
+  lastPlayedAt: Date | null;
+  gamesRated: number;
+}
+
+export interface ReplayHistoryEntry {
+  playerId: string;
+  gameId: string;
+  recordedAt: Date;
+  rankingPoints: number;
+  pointsChange: number;
+  performanceRating: number;
+  ranking: number;
+  previousRanking: number | null;
+  won: boolean;
+}
+
+export interface ReplayResult {
+  players: Map<string, ReplayPlayerState>;
+  history: ReplayHistoryEntry[];
+  gamesReplayed: number;
+}
+
+/**
+ * Order games chronologically, falling back to ID so equal timestamps always replay the same way
+ */
+export function sortGamesForReplay(games: ReplayGame[]): ReplayGame[] {
+  return [...games].sort((a, b) => {
+    const timeDiff = a.playedAt.getTime() - b.playedAt.getTime();
+    if (timeDiff !== 0) {
+      return timeDiff;
+    }
+    return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+  });
+}
+
+/**
+ * Rank positions among rated players, highest rating first
+ */
+function calculateRanks(players: Map<string, ReplayPlayerState>): Map<string, number> {
+  const ranked = Array.from(players.entries())
+    .filter(([, state]) => state.gamesRated > 0)
+    .sort(([idA, a], [idB, b]) => {
+      const pointsDiff = Math.round(b.rating.rating) - Math.round(a.rating.rating);
+      if (pointsDiff !== 0) {
+        return pointsDiff;
+      }
+      return idA < idB ? -1 : idA > idB ? 1 : 0;
+    });
+
+  return new Map(ranked.map(([id], index) => [id, index + 1]));
+}
+
+/**
+ * Replay games from a clean slate for the given players
+ * Games referencing unknown players are skipped. Ranking positions in the history
+ * are relative to the replayed players at the time of each game.
+ */
+export function replayRatings(playerIds: string[], games: ReplayGame[]): ReplayResult {
+  const players = new Map<string, ReplayPlayerState>(
+    playerIds.map(id => [id, { rating: createInitialRating(), lastPlayedAt: null, gamesRated: 0 }])
+  );
+  const history: ReplayHistoryEntry[] = [];
+  let gamesReplayed = 0;
+
+  for (const game of sortGamesForReplay(games)) {
+    const participants = [...game.team1, ...game.team2];
+    if (participants.some(id => !players.has(id))) {
+      continue;
+    }
+
+    const ratingAt = (id: string): GlickoRating => {
+      const state = players.get(id)!;
+      return state.lastPlayedAt
+        ? applyInactivity(state.rating, ratingPeriodsBetween(state.lastPlayedAt, game.playedAt))
+        : state.rating;
+    };
+
+    const result = rateTeamGame({
+      team1: game.team1.map(ratingAt),
+      team2: game.team2.map(ratingAt),
+      team1Score: game.winnerTeam === 1 ? 1 : 0
+    });
+
+    const previousRanks = calculateRanks(players);
+    const previousPoints = new Map(participants.map(id => [id, Math.round(players.get(id)!.rating.rating)]));
+
+    game.team1.forEach((id, i) => {
+      const state = players.get(id)!;
+      players.set(id, { rating: result.team1[i], lastPlayedAt: game.playedAt, gamesRated: state.gamesRated + 1 });
+    });
+    game.team2.forEach((id, i) => {
+      const state = players.get(id)!;
+      players.set(id, { rating: result.team2[i], lastPlayedAt: game.playedAt, gamesRated: state.gamesRated + 1 });
+    });
+
+    const ranks = calculateRanks(players);
+    for (const id of participants) {
+      const rating = players.get(id)!.rating;
+      const rankingPoints = Math.round(rating.rating);
+      history.push({
+        playerId: id,
+        gameId: game.id,
+        recordedAt: game.playedAt,
+        rankingPoints,
+        pointsChange: rankingPoints - previousPoints.get(id)!,
+        performanceRating: rating.rating - 2 * rating.deviation,
+        ranking: ranks.get(id) || 0,
+        previousRanking: previousRanks.get(id) ?? null,
+        won: game.team1.includes(id) ? game.winnerTeam === 1 : game.winnerTeam === 2
+      });
+    }
+
+    gamesReplayed++;
+  }
+
+  return { players, history, gamesReplayed };
+}
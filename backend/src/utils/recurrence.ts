@@ -0,0 +1,225 @@
+// Session Recurrence
+// Reads RRULE-style patterns (FREQ=WEEKLY;BYDAY=TU,TH) and lists the occurrences of a series.
+// Occurrences keep the first session's local start time in the series' time zone, so a 7pm
+// session stays at 7pm across daylight saving changes.
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number; // Every N days, weeks or months
+  byDay?: number[]; // Weekly only: days of the week, 0 = Sunday
+  count?: number; // Total occurrences, counting the first
+  until?: Date; // No occurrences after this
+}
+
+const DAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_INTERVAL = 52;
+
+// Local wall-clock time in a time zone, held in a Date's UTC fields
+type WallTime = Date;
+
+/**
+ * Parse an RRULE-style pattern such as FREQ=WEEKLY;INTERVAL=2;BYDAY=SU
+ * Supports FREQ, INTERVAL, BYDAY (weekly), COUNT and UNTIL; anything else is rejected rather than ignored.
+ */
+export function parseRecurrenceRule(pattern: string): RecurrenceRule {
+  const parts = pattern.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean);
+  const fields = new Map<string, string>();
+  for (const part of parts) {
+    const [key, value] = part.split('=');
+    if (!key || !value || fields.has(key.toUpperCase())) {
+      throw new Error(`Invalid recurrence rule: ${pattern}`);
+    }
+    fields.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  const freq = fields.get('FREQ') as RecurrenceFrequency;
+  if (!FREQUENCIES.includes(freq)) {
+    throw new Error('Recurrence rule needs FREQ=DAILY, WEEKLY or MONTHLY');
+  }
+  const rule: RecurrenceRule = { freq, interval: 1 };
+
+  for (const [key, value] of fields) {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        rule.interval = positiveInt(value, MAX_INTERVAL, 'INTERVAL');
+        break;
+      case 'COUNT':
+        rule.count = positiveInt(value, 1000, 'COUNT');
+        break;
+      case 'UNTIL':
+        rule.until = parseUntil(value);
+        break;
+      case 'BYDAY': {
+        if (freq !== 'WEEKLY') {
+          throw new Error('BYDAY is only supported for weekly rules');
+        }
+        const days = value.split(',').map(code => DAY_CODES.indexOf(code));
+        if (days.some(day => day < 0)) {
+          throw new Error(`Unknown day in BYDAY: ${value}`);
+        }
+        rule.byDay = [...new Set(days)].sort((a, b) => a - b);
+        break;
+      }
+      default:
+        throw new Error(`Unsupported recurrence rule part: ${key}`);
+    }
+  }
+
+  if (rule.count && rule.until) {
+    throw new Error('A recurrence rule can have COUNT or UNTIL, not both');
+  }
+  return rule;
+}
+
+/**
+ * Write a rule back out in RRULE form
+ */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) {
+    parts.push(`INTERVAL=${rule.interval}`);
+  }
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map(day => DAY_CODES[day]).join(',')}`);
+  }
+  if (rule.count) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+  if (rule.until) {
+    parts.push(`UNTIL=${rule.until.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`);
+  }
+  return parts.join(';');
+}
+
+/**
+ * Whether a time zone name is one the runtime knows, e.g. Europe/London
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Start times of a series' occurrences that fall within [from, to]
+ * The first occurrence is the series start; COUNT and UNTIL are applied from there.
+ */
+export function listOccurrences(
+  rule: RecurrenceRule,
+  start: Date,
+  timeZone: string,
+  window: { from: Date; to: Date }
+): Date[] {
+  const first = toWallTime(start, timeZone);
+  const occurrences: Date[] = [];
+  let counted = 0;
+
+  // The window's end always stops the walk, so a series with no COUNT or UNTIL is fine
+  for (let period = 0; ; period += rule.interval) {
+    for (const slot of periodSlots(rule, first, period)) {
+      if (slot < first) {
+        continue;
+      }
+      const at = fromWallTime(slot, timeZone);
+      counted += 1;
+      if ((rule.count && counted > rule.count) || (rule.until && at > rule.until) || at > window.to) {
+        return occurrences;
+      }
+      if (at >= window.from) {
+        occurrences.push(at);
+      }
+    }
+  }
+}
+
+/**
+ * The next occurrence after a moment, or null once the series has ended
+ */
+export function nextOccurrence(rule: RecurrenceRule, start: Date, timeZone: string, after: Date): Date | null {
+  const horizon = new Date(after.getTime() + 366 * rule.interval * DAY_MS);
+  const [next] = listOccurrences(rule, start, timeZone, { from: new Date(after.getTime() + 1), to: horizon });
+  return next || null;
+}
+
+// Candidate wall times in the period'th day, week or month after the start
+function periodSlots(rule: RecurrenceRule, first: WallTime, period: number): WallTime[] {
+  if (rule.freq === 'DAILY') {
+    return [new Date(first.getTime() + period * DAY_MS)];
+  }
+
+  if (rule.freq === 'WEEKLY') {
+    // Weeks run Monday to Sunday, as with RRULE's default WKST=MO
+    const mondayOffset = (first.getUTCDay() + 6) % 7;
+    const weekStart = first.getTime() - mondayOffset * DAY_MS + period * 7 * DAY_MS;
+    const days = rule.byDay?.length ? rule.byDay : [first.getUTCDay()];
+    return days
+      .map(day => new Date(weekStart + ((day + 6) % 7) * DAY_MS))
+      .sort((a, b) => a.getTime() - b.getTime());
+  }
+
+  // Months without the start's day, such as the 31st in April, are skipped
+  const slot = new Date(first.getTime());
+  slot.setUTCDate(1);
+  slot.setUTCMonth(first.getUTCMonth() + period);
+  const month = slot.getUTCMonth();
+  slot.setUTCDate(first.getUTCDate());
+  return slot.getUTCMonth() === month ? [slot] : [];
+}
+
+function positiveInt(value: string, max: number, name: string): number {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1 || number > max) {
+    throw new Error(`${name} must be a whole number from 1 to ${max}`);
+  }
+  return number;
+}
+
+// UNTIL is a date (20261231) or a UTC date-time (20261231T235959Z)
+function parseUntil(value: string): Date {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+  if (!match) {
+    throw new Error(`Invalid UNTIL: ${value}`);
+  }
+  const [, year, month, day, hour = '23', minute = '59', second = '59'] = match;
+  return new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second));
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function toWallTime(date: Date, timeZone: string): WallTime {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts = formatter.formatToParts(date);
+  const part = (type: string) => Number(parts.find(p => p.type === type)!.value);
+  return new Date(Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second')));
+}
+
+// The instant a wall time happens in the zone; a time skipped when the clocks go forward lands an hour early
+function fromWallTime(wall: WallTime, timeZone: string): Date {
+  const offsetAt = (instant: Date) => toWallTime(instant, timeZone).getTime() - Math.floor(instant.getTime() / 1000) * 1000;
+  const guess = new Date(wall.getTime() - offsetAt(wall));
+  const adjusted = new Date(wall.getTime() - offsetAt(guess));
+  return offsetAt(adjusted) === offsetAt(guess) ? adjusted : guess;
+}
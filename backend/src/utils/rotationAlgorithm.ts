@@ -1,6 +1,9 @@
 // Fair Rotation Algorithm for Enhanced Live Games
 // Based on UI/UX specification requirements for transparent, fair player distribution
 
+import { GLICKO_DEFAULTS, GlickoRating, calculateWinProbability } from './glicko2';
+import { GameFormat } from './gameFormat';
+
 export interface Player {
   id: string;
   name: string;
@@ -14,15 +17,66 @@ export interface Player {
   restGamesRemaining?: number; // Games to rest (default 1)
   restPreference?: number; // Player's preferred rest games (1-3)
   queuePosition?: number; // Manual queue adjustments
+  // Skill balancing
+  skillLevel?: number | null; // Calculated skill level (0-100)
+  rankingPoints?: number; // Glicko-2 rating, preferred over skillLevel when set
+  ratingDeviation?: number; // Confidence in rankingPoints
+  // Mixed doubles
+  category?: PlayerCategory | null; // Unset players can fill either side of a mixed team
+}
+
+export type PlayerCategory = 'male' | 'female';
+
+/**
+ * standard: any split of four players
+ * mixed: one male and one female per team whenever the available players allow it
+ */
+export type RotationMode = 'standard' | 'mixed';
+
+/**
+ * Relative weight of each fairness objective; weights are normalised so they need not sum to 100
+ */
+export interface FairnessWeights {
+  gamesPlayed: number;
+  partnershipDiversity: number;
+  winLossBalance: number;
+  recentPlay: number;
+  opponentDiversity: number; // Avoid facing the same opponents again
+  lateArrival: number; // Prioritise players who joined the session late
+}
+
+export const DEFAULT_FAIRNESS_WEIGHTS: FairnessWeights = {
+  gamesPlayed: 40,
+  partnershipDiversity: 30,
+  winLossBalance: 20,
+  recentPlay: 10,
+  opponentDiversity: 0,
+  lateArrival: 0
+};
+
+const FAIRNESS_WEIGHT_LABELS: Record<keyof FairnessWeights, string> = {
+  gamesPlayed: 'Games played',
+  partnershipDiversity: 'Partnership variety',
+  winLossBalance: 'Win/loss balance',
+  recentPlay: 'Rest',
+  opponentDiversity: 'Opponent variety',
+  lateArrival: 'Late arrivals'
+};
+
+export interface RotationOptions {
+  mode?: RotationMode;
+  weights?: Partial<FairnessWeights>;
+  allowSingles?: boolean; // Use spare courts for singles when too few players remain for doubles
 }
 
 export interface GameHistory {
   id: string;
   gameNumber: number;
+  format?: GameFormat;
   team1Player1: string;
-  team1Player2: string;
+  team1Player2: string; // Empty for singles
   team2Player1: string;
-  team2Player2: string;
+  team2Player2: string; // Empty for singles
   winnerTeam?: number;
   status: 'IN_PROGRESS' | 'COMPLETED';
   matchId?: string;
@@ -52,10 +106,12 @@ export interface Court {
 
 export interface GameSuggestion {
   court: Court;
-  team1: [Player, Player];
-  team2: [Player, Player];
+  format: GameFormat;
+  team1: Player[]; // Two players for doubles, one for singles
+  team2: Player[];
   fairnessScore: number;
   fairnessReasons: string[];
+  team1WinProbability: number; // Predicted probability (0-1) that team 1 wins
 }
 
 export interface RotationResult {
@@ -68,66 +124,108 @@ export interface RotationResult {
   };
 }
 
+/**
+ * Fill in missing weights from the defaults
+ */
+export function resolveFairnessWeights(weights: Partial<FairnessWeights> = {}): FairnessWeights {
+  return { ...DEFAULT_FAIRNESS_WEIGHTS, ...weights };
+}
+
 /**
  * Calculate fairness score between 0-100 where higher is more fair
- * Factors considered:
+ * Factors considered (default weights):
  * - Games played balance (40% weight)
  * - Partnership diversity (30% weight) 
  * - Win/loss balance (20% weight)
  * - Recent play avoidance (10% weight)
+ * - Opponent diversity (off by default)
+ * - Late arrival priority (off by default, scored against sessionPlayers)
  */
 export function calculateFairnessScore(
   players: Player[],
   gameHistory: GameHistory[],
-  suggestedTeams: [[Player, Player], [Player, Player]]
+  suggestedTeams: [Player[], Player[]],
+  weights: FairnessWeights = DEFAULT_FAIRNESS_WEIGHTS,
+  sessionPlayers: Player[] = players
 ): { score: number; reasons: string[] } {
   const [team1, team2] = suggestedTeams;
   const allPlayers = [...team1, ...team2];
   const reasons: string[] = [];
+  const totalWeight = Object.values(weights).reduce((sum, weight) => sum + weight, 0) || 1;
   
   let fairnessScore = 0;
 
-  // 1. Games Played Balance (40% weight)
-  const gamesPlayedVariance = calculateVariance(allPlayers.map(p => p.gamesPlayed));
-  const gamesBalance = Math.max(0, 100 - (gamesPlayedVariance * 20)); // Lower variance = higher score
-  fairnessScore += gamesBalance * 0.4;
-  
-  if (gamesPlayedVariance < 1) {
-    reasons.push("Excellent games played balance");
-  } else if (gamesPlayedVariance < 2) {
-    reasons.push("Good games played balance");
-  } else {
-    reasons.push("Some players need more games");
+  // 1. Games Played Balance
+  if (weights.gamesPlayed > 0) {
+    const gamesPlayedVariance = calculateVariance(allPlayers.map(p => p.gamesPlayed));
+    const gamesBalance = Math.max(0, 100 - (gamesPlayedVariance * 20)); // Lower variance = higher score
+    fairnessScore += gamesBalance * weights.gamesPlayed / totalWeight;
+    
+    if (gamesPlayedVariance < 1) {
+      reasons.push("Excellent games played balance");
+    } else if (gamesPlayedVariance < 2) {
+      reasons.push("Good games played balance");
+    } else {
+      reasons.push("Some players need more games");
+    }
   }
 
-  // 2. Partnership Diversity (30% weight)
-  const partnershipScore = calculatePartnershipDiversity(allPlayers, gameHistory);
-  fairnessScore += partnershipScore * 0.3;
-  
-  if (partnershipScore > 80) {
-    reasons.push("Fresh partnership combinations");
-  } else if (partnershipScore > 60) {
-    reasons.push("Good partnership variety");
-  } else {
-    reasons.push("Some repeated partnerships");
+  // 2. Partnership Diversity (singles teams have no partnerships to repeat)
+  if (weights.partnershipDiversity > 0 && team1.length === 2 && team2.length === 2) {
+    const partnershipScore = calculatePartnershipDiversity(allPlayers, gameHistory);
+    fairnessScore += partnershipScore * weights.partnershipDiversity / totalWeight;
+    
+    if (partnershipScore > 80) {
+      reasons.push("Fresh partnership combinations");
+    } else if (partnershipScore > 60) {
+      reasons.push("Good partnership variety");
+    } else {
+      reasons.push("Some repeated partnerships");
+    }
   }
 
-  // 3. Win/Loss Balance (20% weight)
-  const winRates = allPlayers.map(p => p.gamesPlayed > 0 ? p.wins / p.gamesPlayed : 0.5);
-  const winRateVariance = calculateVariance(winRates);
-  const winBalance = Math.max(0, 100 - (winRateVariance * 100));
-  fairnessScore += winBalance * 0.2;
-  
-  if (winRateVariance < 0.1) {
-    reasons.push("Balanced win rates");
+  // 3. Win/Loss Balance
+  if (weights.winLossBalance > 0) {
+    const winRates = allPlayers.map(p => p.gamesPlayed > 0 ? p.wins / p.gamesPlayed : 0.5);
+    const winRateVariance = calculateVariance(winRates);
+    const winBalance = Math.max(0, 100 - (winRateVariance * 100));
+    fairnessScore += winBalance * weights.winLossBalance / totalWeight;
+    
+    if (winRateVariance < 0.1) {
+      reasons.push("Balanced win rates");
+    }
   }
 
-  // 4. Recent Play Avoidance (10% weight)
-  const recentPlayScore = calculateRecentPlayAvoidance(allPlayers, gameHistory);
-  fairnessScore += recentPlayScore * 0.1;
-  
-  if (recentPlayScore > 80) {
-    reasons.push("Good rest distribution");
+  // 4. Recent Play Avoidance
+  if (weights.recentPlay > 0) {
+    const recentPlayScore = calculateRecentPlayAvoidance(allPlayers, gameHistory);
+    fairnessScore += recentPlayScore * weights.recentPlay / totalWeight;
+    
+    if (recentPlayScore > 80) {
+      reasons.push("Good rest distribution");
+    }
+  }
+
+  // 5. Opponent Diversity
+  if (weights.opponentDiversity > 0) {
+    const opponentScore = calculateOpponentDiversity(team1, team2, gameHistory);
+    fairnessScore += opponentScore * weights.opponentDiversity / totalWeight;
+
+    if (opponentScore > 80) {
+      reasons.push("Fresh opponents");
+    } else {
+      reasons.push("Some repeated opponents");
+    }
+  }
+
+  // 6. Late Arrival Priority
+  if (weights.lateArrival > 0) {
+    const lateArrivalScore = calculateLateArrivalScore(allPlayers, sessionPlayers);
+    fairnessScore += lateArrivalScore * weights.lateArrival / totalWeight;
+
+    if (lateArrivalScore > 60) {
+      reasons.push("Includes late arrivals");
+    }
   }
 
   return { score: Math.round(fairnessScore), reasons };
@@ -145,15 +243,17 @@ function calculatePartnershipDiversity(players: Player[], gameHistory: GameHisto
     .filter(g => g.status === 'COMPLETED')
     .slice(-Math.max(5, players.length * 2));
   
-  recentGames.forEach(game => {
-    // Team 1 partnership
-    const team1Key = [game.team1Player1, game.team1Player2].sort().join('|');
-    partnerships.set(team1Key, (partnerships.get(team1Key) || 0) + 1);
-    
-    // Team 2 partnership
-    const team2Key = [game.team2Player1, game.team2Player2].sort().join('|');
-    partnerships.set(team2Key, (partnerships.get(team2Key) || 0) + 1);
-  });
+  recentGames
+    .filter(game => game.team1Player2 && game.team2Player2)
+    .forEach(game => {
+      // Team 1 partnership
+      const team1Key = [game.team1Player1, game.team1Player2].sort().join('|');
+      partnerships.set(team1Key, (partnerships.get(team1Key) || 0) + 1);
+      
+      // Team 2 partnership
+      const team2Key = [game.team2Player1, game.team2Player2].sort().join('|');
+      partnerships.set(team2Key, (partnerships.get(team2Key) || 0) + 1);
+    });
   
   // Check if current suggested partnerships are fresh
   let diversityScore = 100;
@@ -171,6 +271,52 @@ function calculatePartnershipDiversity(players: Player[], gameHistory: GameHisto
   return Math.max(0, diversityScore);
 }
 
+/**
+ * Calculate opponent diversity score (0-100)
+ * Higher score means the two teams haven't faced each other recently
+ */
+function calculateOpponentDiversity(team1: Player[], team2: Player[], gameHistory: GameHistory[]): number {
+  const recentGames = gameHistory
+    .filter(g => g.status === 'COMPLETED')
+    .slice(-Math.max(5, (team1.length + team2.length) * 2));
+
+  let diversityScore = 100;
+
+  recentGames.forEach(game => {
+    const side1 = [game.team1Player1, game.team1Player2].filter(Boolean);
+    const side2 = [game.team2Player1, game.team2Player2].filter(Boolean);
+
+    team1.forEach(p1 => {
+      team2.forEach(p2 => {
+        const faced = (side1.includes(p1.name) && side2.includes(p2.name)) ||
+          (side2.includes(p1.name) && side1.includes(p2.name));
+        if (faced) {
+          diversityScore -= 10;
+        }
+      });
+    });
+  });
+
+  return Math.max(0, diversityScore);
+}
+
+/**
+ * Calculate how late the players joined relative to the rest of the session (0-100)
+ * 100 means every player is among the latest arrivals
+ */
+function calculateLateArrivalScore(players: Player[], sessionPlayers: Player[]): number {
+  const joinOrder = [...sessionPlayers]
+    .sort((a, b) => a.joinedAt.getTime() - b.joinedAt.getTime())
+    .map(p => p.id);
+
+  if (joinOrder.length <= 1) {
+    return 0;
+  }
+
+  const percentiles = players.map(p => Math.max(0, joinOrder.indexOf(p.id)) / (joinOrder.length - 1));
+  return percentiles.reduce((sum, value) => sum + value, 0) / percentiles.length * 100;
+}
+
 /**
  * Calculate how well players are rested (0-100)
  */
@@ -258,8 +404,12 @@ export function generateOptimalRotation(
   gameHistory: GameHistory[],
   courts: Court[],
   matchHistory: MatchHistory[] = [],
-  currentGameNumber: number = gameHistory.length + 1
+  currentGameNumber: number = gameHistory.length + 1,
+  options: RotationOptions = {}
 ): RotationResult {
+  const mode = options.mode || 'standard';
+  const weights = resolveFairnessWeights(options.weights);
+
   // Update global reference for priority calculation
   const globalPlayers = players;
   
@@ -288,21 +438,34 @@ export function generateOptimalRotation(
     const remainingPlayers = availablePlayersWithPriority.filter(p => !usedPlayers.has(p.id));
     
     if (remainingPlayers.length < 4) {
-      break; // Not enough players for another game
+      // A spare court can still host singles instead of leaving players waiting
+      const singles = options.allowSingles
+        ? findBestSinglesPair(remainingPlayers, gameHistory, weights, players)
+        : null;
+
+      if (!singles) {
+        break; // Not enough players for another game
+      }
+
+      suggestedGames.push({ court, format: 'SINGLES', ...singles });
+      [...singles.team1, ...singles.team2].forEach(p => usedPlayers.add(p.id));
+      continue;
     }
     
     // Try different combinations to find the most fair one
-    const bestCombination = findBestPlayerCombination(remainingPlayers, gameHistory);
+    const bestCombination = findBestPlayerCombination(remainingPlayers, gameHistory, mode, weights, players);
     
     if (bestCombination) {
-      const { team1, team2, fairnessScore, reasons } = bestCombination;
+      const { team1, team2, fairnessScore, reasons, team1WinProbability } = bestCombination;
       
       suggestedGames.push({
         court,
+        format: 'DOUBLES',
         team1,
         team2,
         fairnessScore,
-        fairnessReasons: reasons
+        fairnessReasons: reasons,
+        team1WinProbability
       });
       
       // Mark players as used
@@ -325,46 +488,156 @@ export function generateOptimalRotation(
   };
 }
 
+// Win probability gaps within this margin are treated as equally balanced
+const BALANCE_TOLERANCE = 0.01;
+
+interface TeamSplit {
+  team1: [Player, Player];
+  team2: [Player, Player];
+  team1WinProbability: number;
+  fairnessScore: number;
+  reasons: string[];
+  mixedTier: number; // 2 = strict mixed teams, 1 = mixed with flexible players, 0 = not mixed
+}
+
+/**
+ * Rate how well a split satisfies mixed doubles
+ * Players without a category can partner anyone, so they never break a mixed team
+ */
+export function calculateMixedTier(team1: [Player, Player], team2: [Player, Player]): number {
+  const isStrictlyMixed = (team: [Player, Player]) =>
+    !!team[0].category && !!team[1].category && team[0].category !== team[1].category;
+  const isCompatible = (team: [Player, Player]) =>
+    !team[0].category || !team[1].category || team[0].category !== team[1].category;
+
+  if (isStrictlyMixed(team1) && isStrictlyMixed(team2)) {
+    return 2;
+  }
+  return isCompatible(team1) && isCompatible(team2) ? 1 : 0;
+}
+
+const MIXED_TIER_REASONS = [
+  'Mixed teams not possible with available players',
+  'Mixed teams with flexible players',
+  'Mixed doubles teams'
+];
+
+/**
+ * Estimate a player's rating for balancing
+ * Uses ranking points when the player has been rated, otherwise maps skill level (0-100) onto the rating scale
+ */
+export function estimatePlayerRating(player: Player): GlickoRating {
+  let rating = GLICKO_DEFAULTS.INITIAL_RATING;
+  if (player.rankingPoints && player.rankingPoints > 0) {
+    rating = player.rankingPoints;
+  } else if (player.skillLevel !== undefined && player.skillLevel !== null) {
+    rating = GLICKO_DEFAULTS.INITIAL_RATING + (player.skillLevel - 50) * 8;
+  }
+
+  return {
+    rating,
+    deviation: player.ratingDeviation || GLICKO_DEFAULTS.INITIAL_DEVIATION,
+    volatility: GLICKO_DEFAULTS.INITIAL_VOLATILITY
+  };
+}
+
+/**
+ * Predicted probability that team 1 beats team 2
+ */
+export function predictTeamWinProbability(team1: Player[], team2: Player[]): number {
+  return calculateWinProbability(team1.map(estimatePlayerRating), team2.map(estimatePlayerRating));
+}
+
+/**
+ * Choose the split of four players into two teams with the smallest gap in predicted win probability
+ * Ties are broken by fairness score so fresh partnerships still win out between equally balanced splits.
+ * In mixed mode the most mixed split is chosen first, then balance decides between equally mixed splits.
+ */
+export function findMostBalancedSplit(
+  fourPlayers: [Player, Player, Player, Player],
+  gameHistory: GameHistory[],
+  mode: RotationMode = 'standard',
+  weights: FairnessWeights = DEFAULT_FAIRNESS_WEIGHTS,
+  sessionPlayers: Player[] = fourPlayers
+): TeamSplit {
+  const [a, b, c, d] = fourPlayers;
+  const splits: Array<[[Player, Player], [Player, Player]]> = [
+    [[a, b], [c, d]],
+    [[a, c], [b, d]],
+    [[a, d], [b, c]]
+  ];
+
+  let best: TeamSplit | null = null;
+  let bestGap = Infinity;
+
+  for (const [team1, team2] of splits) {
+    const team1WinProbability = predictTeamWinProbability(team1, team2);
+    const gap = Math.abs(2 * team1WinProbability - 1);
+    const mixedTier = mode === 'mixed' ? calculateMixedTier(team1, team2) : 0;
+    const { score, reasons } = calculateFairnessScore(fourPlayers, gameHistory, [team1, team2], weights, sessionPlayers);
+
+    const isBetter = best === null
+      || mixedTier > best.mixedTier
+      || (mixedTier === best.mixedTier && (
+        gap < bestGap - BALANCE_TOLERANCE
+        || (Math.abs(gap - bestGap) <= BALANCE_TOLERANCE && score > best.fairnessScore)
+      ));
+
+    if (isBetter) {
+      bestGap = gap;
+      best = { team1, team2, team1WinProbability, fairnessScore: score, reasons, mixedTier };
+    }
+  }
+
+  const result = best!;
+  const team1Percent = Math.round(result.team1WinProbability * 100);
+  result.reasons = [
+    ...result.reasons,
+    `Predicted win probability ${team1Percent}% vs ${100 - team1Percent}%`
+  ];
+
+  if (mode === 'mixed') {
+    result.reasons.push(MIXED_TIER_REASONS[result.mixedTier]);
+  }
+
+  return result;
+}
+
 /**
  * Find the best 4-player combination for a game from available players
+ * Each candidate group is split into its most balanced teams before being scored;
+ * in mixed mode groups that can form mixed teams always win over those that cannot
  */
 function findBestPlayerCombination(
   availablePlayers: Player[],
-  gameHistory: GameHistory[]
-): { team1: [Player, Player]; team2: [Player, Player]; fairnessScore: number; reasons: string[] } | null {
+  gameHistory: GameHistory[],
+  mode: RotationMode = 'standard',
+  weights: FairnessWeights = DEFAULT_FAIRNESS_WEIGHTS,
+  sessionPlayers: Player[] = availablePlayers
+): TeamSplit | null {
   if (availablePlayers.length < 4) {
     return null;
   }
   
-  let bestCombination: any = null;
-  let bestScore = -1;
+  let bestCombination: TeamSplit | null = null;
   
   // Try all possible 4-player combinations
   for (let i = 0; i < availablePlayers.length - 3; i++) {
     for (let j = i + 1; j < availablePlayers.length - 2; j++) {
       for (let k = j + 1; k < availablePlayers.length - 1; k++) {
         for (let l = k + 1; l < availablePlayers.length; l++) {
-          const fourPlayers = [availablePlayers[i], availablePlayers[j], availablePlayers[k], availablePlayers[l]];
-          
-          // Try different team arrangements
-          const teamArrangements = [
-            [[fourPlayers[0], fourPlayers[1]], [fourPlayers[2], fourPlayers[3]]],
-            [[fourPlayers[0], fourPlayers[2]], [fourPlayers[1], fourPlayers[3]]],
-            [[fourPlayers[0], fourPlayers[3]], [fourPlayers[1], fourPlayers[2]]]
+          const fourPlayers: [Player, Player, Player, Player] = [
+            availablePlayers[i], availablePlayers[j], availablePlayers[k], availablePlayers[l]
           ];
           
-          for (const arrangement of teamArrangements) {
-            const { score, reasons } = calculateFairnessScore(fourPlayers, gameHistory, arrangement as [[Player, Player], [Player, Player]]);
-            
-            if (score > bestScore) {
-              bestScore = score;
-              bestCombination = {
-                team1: arrangement[0] as [Player, Player],
-                team2: arrangement[1] as [Player, Player],
-                fairnessScore: score,
-                reasons
-              };
-            }
+          const split = findMostBalancedSplit(fourPlayers, gameHistory, mode, weights, sessionPlayers);
+          
+          const isBetter = !bestCombination
+            || split.mixedTier > bestCombination.mixedTier
+            || (split.mixedTier === bestCombination.mixedTier && split.fairnessScore > bestCombination.fairnessScore);
+          
+          if (isBetter) {
+            bestCombination = split;
           }
         }
       }
@@ -374,6 +647,50 @@ function findBestPlayerCombination(
   return bestCombination;
 }
 
+/**
+ * Find the fairest singles pairing from the players left after doubles courts are filled
+ * Ties are broken by the smaller gap in predicted win probability
+ */
+function findBestSinglesPair(
+  availablePlayers: Player[],
+  gameHistory: GameHistory[],
+  weights: FairnessWeights = DEFAULT_FAIRNESS_WEIGHTS,
+  sessionPlayers: Player[] = availablePlayers
+): Omit<GameSuggestion, 'court' | 'format'> | null {
+  let best: Omit<GameSuggestion, 'court' | 'format'> | null = null;
+  let bestGap = Infinity;
+
+  for (let i = 0; i < availablePlayers.length - 1; i++) {
+    for (let j = i + 1; j < availablePlayers.length; j++) {
+      const team1 = [availablePlayers[i]];
+      const team2 = [availablePlayers[j]];
+      const team1WinProbability = predictTeamWinProbability(team1, team2);
+      const gap = Math.abs(2 * team1WinProbability - 1);
+      const { score, reasons } = calculateFairnessScore([...team1, ...team2], gameHistory, [team1, team2], weights, sessionPlayers);
+
+      const isBetter = best === null
+        || score > best.fairnessScore
+        || (score === best.fairnessScore && gap < bestGap - BALANCE_TOLERANCE);
+
+      if (isBetter) {
+        bestGap = gap;
+        best = { team1, team2, team1WinProbability, fairnessScore: score, fairnessReasons: reasons };
+      }
+    }
+  }
+
+  if (best) {
+    const team1Percent = Math.round(best.team1WinProbability * 100);
+    best.fairnessReasons = [
+      ...best.fairnessReasons,
+      `Predicted win probability ${team1Percent}% vs ${100 - team1Percent}%`,
+      'Singles on a spare court'
+    ];
+  }
+
+  return best;
+}
+
 /**
  * Calculate overall session fairness metrics
  */
@@ -390,7 +707,7 @@ function calculateFairnessMetrics(players: Player[], gameHistory: GameHistory[],
   // Calculate partnership balance
   const partnershipBalance = new Map<string, number>();
   gameHistory
-    .filter(g => g.status === 'COMPLETED')
+    .filter(g => g.status === 'COMPLETED' && g.team1Player2 && g.team2Player2)
     .forEach(game => {
       const team1Key = [game.team1Player1, game.team1Player2].sort().join(' & ');
       const team2Key = [game.team2Player1, game.team2Player2].sort().join(' & ');
@@ -424,16 +741,28 @@ function calculateVariance(numbers: number[]): number {
  */
 export function getRotationExplanation(
   suggestedGames: GameSuggestion[],
-  fairnessMetrics: RotationResult['fairnessMetrics']
+  fairnessMetrics: RotationResult['fairnessMetrics'],
+  weights?: Partial<FairnessWeights>
 ): string {
   let explanation = "**Rotation Algorithm Decision:**\n\n";
   
   explanation += `📊 **Session Stats:** ${fairnessMetrics.averageGamesPlayed.toFixed(1)} average games, `;
   explanation += `${fairnessMetrics.gameVariance.toFixed(1)} variance\n\n`;
+
+  // Only spell out priorities when the session has changed them
+  const resolvedWeights = resolveFairnessWeights(weights);
+  const keys = Object.keys(FAIRNESS_WEIGHT_LABELS) as Array<keyof FairnessWeights>;
+  if (keys.some(key => resolvedWeights[key] !== DEFAULT_FAIRNESS_WEIGHTS[key])) {
+    const totalWeight = keys.reduce((sum, key) => sum + resolvedWeights[key], 0) || 1;
+    const priorities = keys
+      .filter(key => resolvedWeights[key] > 0)
+      .map(key => `${FAIRNESS_WEIGHT_LABELS[key]} ${Math.round(resolvedWeights[key] / totalWeight * 100)}%`);
+    explanation += `⚖️ **Session Priorities:** ${priorities.join(', ')}\n\n`;
+  }
   
   suggestedGames.forEach((game, index) => {
-    explanation += `🏸 **Court ${game.court.name}:** `;
-    explanation += `${game.team1[0].name} & ${game.team1[1].name} vs ${game.team2[0].name} & ${game.team2[1].name}\n`;
+    explanation += `🏸 **Court ${game.court.name}${game.format === 'SINGLES' ? ' (singles)' : ''}:** `;
+    explanation += `${game.team1.map(p => p.name).join(' & ')} vs ${game.team2.map(p => p.name).join(' & ')}\n`;
     explanation += `   Fairness: ${game.fairnessScore}/100 - ${game.fairnessReasons.join(', ')}\n\n`;
   });
   
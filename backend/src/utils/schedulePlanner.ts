@@ -0,0 +1,303 @@
+// Lookahead Court Schedule Planner
+// Plans the next N rounds across all courts so sit-outs and repeat partnerships stay even over the whole window
+
+import {
+  Court,
+  GameHistory,
+  Player,
+  RotationOptions,
+  generateOptimalRotation
+} from './rotationAlgorithm';
+import { GameFormat } from './gameFormat';
+
+export interface PlannedPlayer {
+  id: string;
+  name: string;
+}
+
+export interface PlannedGame {
+  gameNumber: number;
+  court: Court;
+  format: GameFormat;
+  team1: PlannedPlayer[];
+  team2: PlannedPlayer[];
+  fairnessScore: number;
+  fairnessReasons: string[];
+  team1WinProbability: number;
+}
+
+export interface PlannedRound {
+  round: number; // 1-based position in the plan
+  games: PlannedGame[];
+  sittingOut: PlannedPlayer[]; // Available but not scheduled this round
+  resting: PlannedPlayer[]; // Still serving a rest period
+}
+
+export interface PlayerLookahead {
+  playerId: string;
+  playerName: string;
+  nextRound: number | null; // First planned round, null if not scheduled in the window
+  plannedRounds: number[];
+  sitOuts: number;
+}
+
+export interface RotationPlan {
+  rounds: PlannedRound[];
+  players: PlayerLookahead[];
+  metrics: {
+    sitOutVariance: number;
+    repeatedPartnerships: number;
+  };
+  basedOnGameCount: number; // Size of the game history the plan was built from
+  replannedFromRound: number; // 1 for a fresh plan, later when earlier rounds were kept
+}
+
+export interface PlanOptions extends RotationOptions {
+  rounds: number;
+}
+
+export const MAX_PLAN_ROUNDS = 10;
+
+interface SimulatedPlayer {
+  player: Player;
+  gamesPlayed: number;
+  restGamesRemaining: number;
+  preferredRestRemaining: number; // Soft rest from restPreference, dropped when courts would go unfilled
+  roundsSincePlayed: number;
+  plannedRounds: number[];
+  sitOuts: number;
+}
+
+/**
+ * Order candidates for a round: honour preferred rest, then fewest games, then longest wait
+ */
+function compareCandidates(a: SimulatedPlayer, b: SimulatedPlayer): number {
+  const aWantsRest = a.preferredRestRemaining > 0 ? 1 : 0;
+  const bWantsRest = b.preferredRestRemaining > 0 ? 1 : 0;
+  if (aWantsRest !== bWantsRest) {
+    return aWantsRest - bWantsRest;
+  }
+  if (a.gamesPlayed !== b.gamesPlayed) {
+    return a.gamesPlayed - b.gamesPlayed;
+  }
+  if (a.roundsSincePlayed !== b.roundsSincePlayed) {
+    return b.roundsSincePlayed - a.roundsSincePlayed;
+  }
+  return a.player.joinedAt.getTime() - b.player.joinedAt.getTime();
+}
+
+function toPlannedPlayer(player: PlannedPlayer): PlannedPlayer {
+  return { id: player.id, name: player.name };
+}
+
+function partnershipKey(a: string, b: string): string {
+  return [a, b].sort().join(' & ');
+}
+
+function calculateVariance(numbers: number[]): number {
+  if (numbers.length === 0) return 0;
+
+  const mean = numbers.reduce((sum, num) => sum + num, 0) / numbers.length;
+  return numbers.reduce((sum, num) => sum + Math.pow(num - mean, 2), 0) / numbers.length;
+}
+
+/**
+ * A kept round is only reusable if every scheduled player can still play it and its courts still exist
+ */
+function isRoundStillValid(round: PlannedRound, available: Map<string, SimulatedPlayer>, courts: Court[]): boolean {
+  const courtIds = new Set(courts.map(c => c.id));
+  return round.games.every(game =>
+    courtIds.has(game.court.id) &&
+    [...game.team1, ...game.team2].every(p => available.has(p.id))
+  );
+}
+
+/**
+ * Plan the next rounds of games across all available courts
+ * Each round selects the players who have sat out the most, then lets the rotation algorithm
+ * split them into balanced, fresh partnerships. Planned games are fed back into the history so
+ * later rounds avoid repeating partnerships from earlier ones. restGamesRemaining is always
+ * honoured; restPreference is honoured unless it would leave a court empty.
+ */
+export function planRotationSchedule(
+  players: Player[],
+  gameHistory: GameHistory[],
+  courts: Court[],
+  options: PlanOptions,
+  keptRounds: PlannedRound[] = []
+): RotationPlan {
+  const roundCount = Math.max(1, Math.min(MAX_PLAN_ROUNDS, Math.floor(options.rounds)));
+  const availableCourts = courts.filter(c => c.isAvailable);
+  const history = [...gameHistory];
+  let nextGameNumber = history.reduce((max, g) => Math.max(max, g.gameNumber), 0) + 1;
+
+  // Players already on court can't start another game in the first round
+  const onCourt = new Set<string>();
+  history
+    .filter(g => g.status === 'IN_PROGRESS')
+    .forEach(g => [g.team1Player1, g.team1Player2, g.team2Player1, g.team2Player2].filter(Boolean).forEach(name => onCourt.add(name)));
+
+  const simulated = players
+    .filter(p => p.status !== 'LEFT')
+    .map<SimulatedPlayer>(p => ({
+      player: p,
+      gamesPlayed: p.gamesPlayed || 0,
+      restGamesRemaining: p.status === 'RESTING' ? p.restGamesRemaining || 0 : 0,
+      preferredRestRemaining: 0,
+      roundsSincePlayed: nextGameNumber - (p.lastGameNumber || 0),
+      plannedRounds: [],
+      sitOuts: 0
+    }));
+
+  const knownPartnerships = new Set<string>();
+  history
+    .filter(g => g.status === 'COMPLETED' && g.team1Player2 && g.team2Player2)
+    .forEach(g => {
+      knownPartnerships.add(partnershipKey(g.team1Player1, g.team1Player2));
+      knownPartnerships.add(partnershipKey(g.team2Player1, g.team2Player2));
+    });
+
+  const rounds: PlannedRound[] = [];
+  let repeatedPartnerships = 0;
+  let replannedFromRound = 1;
+  let keepingRounds = keptRounds.length > 0;
+
+  for (let round = 1; round <= roundCount; round++) {
+    const available = new Map(
+      simulated
+        .filter(s => s.restGamesRemaining === 0 && !(round === 1 && onCourt.has(s.player.name)))
+        .map(s => [s.player.id, s])
+    );
+    const resting = simulated.filter(s => s.restGamesRemaining > 0).map(s => toPlannedPlayer(s.player));
+
+    let games: PlannedGame[];
+    const keptRound = keptRounds[round - 1];
+    if (keepingRounds && keptRound && isRoundStillValid(keptRound, available, availableCourts)) {
+      games = keptRound.games;
+      nextGameNumber += games.length;
+      replannedFromRound = round + 1;
+    } else {
+      keepingRounds = false;
+
+      const candidates = Array.from(available.values()).sort(compareCandidates);
+      const doublesCourts = Math.min(availableCourts.length, Math.floor(candidates.length / 4));
+      const singlesCourts = options.allowSingles
+        ? Math.min(availableCourts.length - doublesCourts, Math.floor((candidates.length - doublesCourts * 4) / 2))
+        : 0;
+      const courtsToFill = doublesCourts + singlesCourts;
+      const selected = candidates.slice(0, doublesCourts * 4 + singlesCourts * 2);
+
+      // Hand the rotation algorithm only the chosen players, already cleared to play
+      const result = generateOptimalRotation(
+        selected.map(s => ({
+          ...s.player,
+          status: 'ACTIVE' as const,
+          gamesPlayed: s.gamesPlayed,
+          restGamesRemaining: 0,
+          queuePosition: undefined
+        })),
+        history,
+        availableCourts.slice(0, courtsToFill),
+        [],
+        nextGameNumber,
+        options
+      );
+
+      games = result.suggestedGames.map(game => ({
+        gameNumber: nextGameNumber++,
+        court: game.court,
+        format: game.format,
+        team1: game.team1.map(toPlannedPlayer),
+        team2: game.team2.map(toPlannedPlayer),
+        fairnessScore: game.fairnessScore,
+        fairnessReasons: game.fairnessReasons,
+        team1WinProbability: game.team1WinProbability
+      }));
+    }
+
+    // Feed the planned games back so later rounds see them
+    const playing = new Set<string>();
+    for (const game of games) {
+      for (const team of [game.team1, game.team2]) {
+        if (team.length === 2) {
+          const key = partnershipKey(team[0].name, team[1].name);
+          if (knownPartnerships.has(key)) {
+            repeatedPartnerships++;
+          }
+          knownPartnerships.add(key);
+        }
+        team.forEach(p => playing.add(p.id));
+      }
+
+      history.push({
+        id: `planned-${game.gameNumber}`,
+        gameNumber: game.gameNumber,
+        format: game.format,
+        team1Player1: game.team1[0].name,
+        team1Player2: game.team1[1]?.name || '',
+        team2Player1: game.team2[0].name,
+        team2Player2: game.team2[1]?.name || '',
+        status: 'COMPLETED'
+      });
+    }
+
+    const sittingOut: PlannedPlayer[] = [];
+    for (const s of simulated) {
+      if (playing.has(s.player.id)) {
+        s.gamesPlayed++;
+        s.roundsSincePlayed = 0;
+        s.preferredRestRemaining = s.player.restPreference || 0;
+        s.plannedRounds.push(round);
+      } else {
+        if (available.has(s.player.id)) {
+          s.sitOuts++;
+          sittingOut.push(toPlannedPlayer(s.player));
+        }
+        s.roundsSincePlayed++;
+        s.preferredRestRemaining = Math.max(0, s.preferredRestRemaining - 1);
+      }
+      // Rest counters drop once per completed game, matching live sessions
+      s.restGamesRemaining = Math.max(0, s.restGamesRemaining - games.length);
+    }
+
+    rounds.push({ round, games, sittingOut, resting });
+  }
+
+  return {
+    rounds,
+    players: simulated.map(s => ({
+      playerId: s.player.id,
+      playerName: s.player.name,
+      nextRound: s.plannedRounds.length > 0 ? s.plannedRounds[0] : null,
+      plannedRounds: s.plannedRounds,
+      sitOuts: s.sitOuts
+    })),
+    metrics: {
+      sitOutVariance: calculateVariance(simulated.map(s => s.sitOuts)),
+      repeatedPartnerships
+    },
+    basedOnGameCount: gameHistory.length,
+    replannedFromRound: Math.min(replannedFromRound, roundCount + 1)
+  };
+}
+
+/**
+ * Re-plan after players leave or start resting, keeping earlier rounds that are unaffected
+ * Falls back to a fresh plan when games have been played since or new players have joined.
+ */
+export function replanRotationSchedule(
+  previousPlan: RotationPlan,
+  players: Player[],
+  gameHistory: GameHistory[],
+  courts: Court[],
+  options: PlanOptions
+): RotationPlan {
+  const plannedPlayerIds = new Set(previousPlan.players.map(p => p.playerId));
+  const hasNewPlayers = players.some(p => p.status !== 'LEFT' && !plannedPlayerIds.has(p.id));
+
+  if (previousPlan.basedOnGameCount !== gameHistory.length || hasNewPlayers) {
+    return planRotationSchedule(players, gameHistory, courts, options);
+  }
+
+  return planRotationSchedule(players, gameHistory, courts, options, previousPlan.rounds);
+}
@@ -0,0 +1,54 @@
+// Score Confirmation Rules
+// Decides who may confirm or dispute a score that is waiting for the other side to agree
+
+import { TeamColumns, gameTeams } from './gameFormat';
+
+export interface ScoreReviewer {
+  name: string;
+  deviceId?: string;
+  isOrganizer: boolean;
+}
+
+/**
+ * Check a player may confirm a pending score
+ * Nobody confirms a score they entered. Organizers can approve anyone else's; everyone else must have played on the
+ * opposite side to the submitter, and when the score was entered from off court, either side may confirm.
+ * Returns an error message, or null when allowed.
+ */
+export function checkConfirmationRights(
+  game: TeamColumns,
+  submittedBy: string | null,
+  reviewer: ScoreReviewer
+): string | null {
+  if (submittedBy && (submittedBy === reviewer.name || submittedBy === reviewer.deviceId)) {
+    return 'The score must be confirmed by someone other than who entered it';
+  }
+  if (reviewer.isOrganizer) {
+    return null;
+  }
+
+  const [team1, team2] = gameTeams(game);
+  const reviewerTeam = team1.includes(reviewer.name) ? team1 : team2.includes(reviewer.name) ? team2 : null;
+  if (!reviewerTeam) {
+    return 'Only players in this game or the organizer can confirm the score';
+  }
+
+  if (submittedBy && reviewerTeam.includes(submittedBy)) {
+    return 'The score must be confirmed by the opposing team';
+  }
+  return null;
+}
+
+/**
+ * Check a player may dispute a pending score: anyone who played in the game, or the organizer
+ */
+export function checkDisputeRights(game: TeamColumns, reviewer: ScoreReviewer): string | null {
+  if (reviewer.isOrganizer) {
+    return null;
+  }
+
+  const [team1, team2] = gameTeams(game);
+  return [...team1, ...team2].includes(reviewer.name)
+    ? null
+    : 'Only players in this game or the organizer can dispute the score';
+}
@@ -0,0 +1,85 @@
+// Score Edit History
+// Resolves an append-only log of score edits, undos and redos into the current result and an audit timeline
+
+export type ScoreEventType = 'SCORE' | 'UNDO' | 'REDO';
+
+export interface ScoreSnapshot {
+  team1FinalScore: number;
+  team2FinalScore: number;
+  winnerTeam: number | null;
+  status: 'IN_PROGRESS' | 'COMPLETED';
+}
+
+export interface ScoreEvent {
+  id: string;
+  sequence: number;
+  type: ScoreEventType;
+  targetEventId?: string | null; // Score edit an undo or redo acted on
+  snapshot?: ScoreSnapshot | null; // Result submitted by a score edit
+  actorDeviceId?: string | null;
+  actorName?: string | null;
+  createdAt: Date;
+}
+
+export interface ScoreTimelineEntry {
+  event: ScoreEvent;
+  before: ScoreSnapshot;
+  after: ScoreSnapshot;
+  inEffect: boolean; // Score edits only: whether the edit is part of the current result
+}
+
+export interface ScoreHistory {
+  current: ScoreSnapshot;
+  timeline: ScoreTimelineEntry[];
+  undoTarget: ScoreEvent | null; // Edit the next undo would revert
+  redoTarget: ScoreEvent | null; // Edit the next redo would restore
+}
+
+export const UNSCORED: ScoreSnapshot = {
+  team1FinalScore: 0,
+  team2FinalScore: 0,
+  winnerTeam: null,
+  status: 'IN_PROGRESS'
+};
+
+/**
+ * Replay score events in sequence order
+ * Edits stack up; an undo moves the latest edit onto the redo stack, a redo moves it back,
+ * and a new edit clears anything left to redo.
+ */
+export function resolveScoreHistory(events: ScoreEvent[], initial: ScoreSnapshot = UNSCORED): ScoreHistory {
+  const applied: ScoreEvent[] = [];
+  let undone: ScoreEvent[] = [];
+  const currentOf = () => applied[applied.length - 1]?.snapshot || initial;
+
+  const entries = [...events]
+    .sort((a, b) => a.sequence - b.sequence)
+    .map(event => {
+      const before = currentOf();
+
+      if (event.type === 'SCORE') {
+        applied.push(event);
+        undone = [];
+      } else if (event.type === 'UNDO') {
+        const edit = applied.pop();
+        if (edit) undone.push(edit);
+      } else {
+        const edit = undone.pop();
+        if (edit) applied.push(edit);
+      }
+
+      return { event, before, after: currentOf() };
+    });
+
+  const appliedIds = new Set(applied.map(e => e.id));
+
+  return {
+    current: currentOf(),
+    timeline: entries.map(entry => ({
+      ...entry,
+      inEffect: entry.event.type === 'SCORE' && appliedIds.has(entry.event.id)
+    })),
+    undoTarget: applied[applied.length - 1] || null,
+    redoTarget: undone[undone.length - 1] || null
+  };
+}
@@ -0,0 +1,18 @@
+// Service Error
+// An error a service throws with the HTTP status it should be answered with, so routes map on the
+// status rather than on the wording of the message.
+
+import { AppError } from '../middleware/errorHandler';
+
+export class ServiceError extends Error implements AppError {
+  statusCode: number;
+  isOperational = true;
+
+  constructor(message: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'ServiceError';
+    this.statusCode = statusCode;
+  }
+}
+
+export const isServiceError = (error: unknown): error is ServiceError => error instanceof ServiceError;
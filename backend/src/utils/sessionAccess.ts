@@ -0,0 +1,88 @@
+// Session Access Rules
+// Decides whether someone may join a session straight away, must wait for the organizer's approval, or is turned away
+
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+
+export interface SessionAccessRules {
+  requireApproval: boolean;
+  inviteOnly: boolean;
+  accessCode?: string | null;
+}
+
+export interface JoinAttempt {
+  hasInvite: boolean; // Holds a valid, unused invite for the session
+  accessCode?: string;
+}
+
+export type JoinDenialCode = 'INVITE_REQUIRED' | 'ACCESS_CODE_REQUIRED' | 'ACCESS_CODE_INVALID';
+
+export type JoinDecision =
+  | { outcome: 'JOIN' }
+  | { outcome: 'APPROVAL' }
+  | { outcome: 'DENIED'; code: JoinDenialCode; message: string };
+
+export interface InviteTokenPayload {
+  inviteId: string;
+  sessionId: string;
+}
+
+/**
+ * Decide what happens when someone asks to join
+ * An invite is the organizer letting that person in, so it skips the access code and the approval queue.
+ * Without one, invite-only sessions turn everyone away, the access code must match, and sessions that
+ * need approval queue the request for the organizer.
+ */
+export function decideJoin(rules: SessionAccessRules, attempt: JoinAttempt): JoinDecision {
+  if (attempt.hasInvite) {
+    return { outcome: 'JOIN' };
+  }
+  if (rules.inviteOnly) {
+    return { outcome: 'DENIED', code: 'INVITE_REQUIRED', message: 'This session is invite-only' };
+  }
+
+  if (rules.accessCode) {
+    if (!attempt.accessCode) {
+      return { outcome: 'DENIED', code: 'ACCESS_CODE_REQUIRED', message: 'An access code is required to join this session' };
+    }
+    if (!accessCodeMatches(rules.accessCode, attempt.accessCode)) {
+      return { outcome: 'DENIED', code: 'ACCESS_CODE_INVALID', message: 'The access code is incorrect' };
+    }
+  }
+
+  return rules.requireApproval ? { outcome: 'APPROVAL' } : { outcome: 'JOIN' };
+}
+
+/**
+ * Compare access codes in constant time, ignoring surrounding whitespace
+ */
+export function accessCodeMatches(expected: string, given: string): boolean {
+  const digest = (code: string) => crypto.createHash('sha256').update(code.trim()).digest();
+  return crypto.timingSafeEqual(digest(expected), digest(given));
+}
+
+/**
+ * Sign an invite token that expires with the invite
+ * The token only proves the organizer issued it; whether it has been used is tracked on the invite itself.
+ */
+export function signInviteToken(payload: InviteTokenPayload, secret: string, expiresAt: Date): string {
+  return jwt.sign(
+    { inv: payload.inviteId, sid: payload.sessionId, exp: Math.floor(expiresAt.getTime() / 1000) },
+    secret
+  );
+}
+
+/**
+ * Read an invite token, or null when it is forged, malformed or expired
+ */
+export function verifyInviteToken(token: string, secret: string): InviteTokenPayload | null {
+  try {
+    const claims = jwt.verify(token, secret) as { inv?: unknown; sid?: unknown };
+    if (typeof claims.inv !== 'string' || typeof claims.sid !== 'string') {
+      return null;
+    }
+    return { inviteId: claims.inv, sessionId: claims.sid };
+  } catch (error) {
+    return null;
+  }
+}
@@ -0,0 +1,80 @@
+// Session Ownership
+// Recovery codes let an organizer win their session back from a new phone, and transfers hand it to
+// another player who has to accept before anything changes.
+
+import crypto from 'crypto';
+
+export const RECOVERY_CODE_COUNT = 8;
+export const DEFAULT_TRANSFER_HOURS = 48;
+
+// No 0/O or 1/I, so codes survive being read aloud or copied off paper
+const RECOVERY_CODE_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const RECOVERY_CODE_GROUP = 5;
+
+export interface TransferParty {
+  id: string;
+  deviceId: string | null;
+  status: string;
+  role: string;
+}
+
+/**
+ * Fresh recovery codes, shown to the organizer once and only stored hashed
+ * Each is two groups of five characters, e.g. K7QXM-2HWRT.
+ */
+export function generateRecoveryCodes(count: number = RECOVERY_CODE_COUNT): string[] {
+  const codes = new Set<string>();
+  while (codes.size < count) {
+    let code = '';
+    for (let i = 0; i < RECOVERY_CODE_GROUP * 2; i++) {
+      code += RECOVERY_CODE_CHARS.charAt(crypto.randomInt(RECOVERY_CODE_CHARS.length));
+    }
+    codes.add(`${code.slice(0, RECOVERY_CODE_GROUP)}-${code.slice(RECOVERY_CODE_GROUP)}`);
+  }
+  return [...codes];
+}
+
+/**
+ * A code as typed, without case, spaces or dashes
+ */
+export function normaliseRecoveryCode(code: string): string {
+  return code.toUpperCase().replace(/[\s-]/g, '');
+}
+
+/**
+ * Codes are long and random, so a plain digest is enough and lets a code be looked up directly
+ */
+export function hashRecoveryCode(code: string): string {
+  return crypto.createHash('sha256').update(normaliseRecoveryCode(code)).digest('hex');
+}
+
+/**
+ * When a transfer offer lapses if the new owner hasn't answered
+ */
+export function transferExpiry(from: Date, hours: number = DEFAULT_TRANSFER_HOURS): Date {
+  return new Date(from.getTime() + hours * 60 * 60 * 1000);
+}
+
+/**
+ * Whether a transfer can still be accepted, declined or cancelled
+ */
+export function isTransferOpen(transfer: { status: string; expiresAt: Date }, now: Date = new Date()): boolean {
+  return transfer.status === 'PENDING' && transfer.expiresAt > now;
+}
+
+/**
+ * Why a player can't be offered the session, or null if they can
+ * They need a device to accept on, and have to still be in the session.
+ */
+export function checkTransferTarget(owner: TransferParty, target: TransferParty): string | null {
+  if (target.id === owner.id || target.role === 'ORGANIZER') {
+    return 'You already own this session';
+  }
+  if (target.status === 'LEFT') {
+    return 'That player has left the session';
+  }
+  if (!target.deviceId) {
+    return 'That player has no device to accept the transfer on';
+  }
+  return null;
+}
@@ -0,0 +1,49 @@
+// Session Waitlist Rules
+// Works out when a full session has room again, and how many waiting players to offer a spot to
+
+export interface SessionSeats {
+  maxPlayers: number;
+  seated: number; // Players who haven't left
+  offered: number; // Waitlist entries holding an offer they haven't answered yet
+  waiting: number; // Waitlist entries still waiting their turn
+}
+
+/**
+ * Spots nobody holds: not seated, and not promised to someone on the waitlist
+ */
+export function openSpots(seats: SessionSeats): number {
+  return Math.max(0, seats.maxPlayers - seats.seated - seats.offered);
+}
+
+/**
+ * Whether a newcomer can take a spot straight away
+ * Nobody jumps the queue: while anyone is waiting, new players join the back of the waitlist.
+ */
+export function canJoinDirectly(seats: SessionSeats): boolean {
+  return seats.waiting === 0 && openSpots(seats) > 0;
+}
+
+/**
+ * How many of the waiting entries to offer a spot to, oldest first
+ */
+export function spotsToOffer(seats: SessionSeats): number {
+  return Math.min(openSpots(seats), seats.waiting);
+}
+
+/**
+ * Whether the waitlist can take another entry
+ * No limit means the waitlist is unbounded; a limit of zero turns the waitlist off.
+ */
+export function waitlistHasRoom(maxWaitlist: number | null | undefined, onWaitlist: number): boolean {
+  if (maxWaitlist === null || maxWaitlist === undefined) {
+    return true;
+  }
+  return onWaitlist < maxWaitlist;
+}
+
+/**
+ * When an offer made now lapses and the spot passes to the next entry
+ */
+export function offerExpiry(offeredAt: Date, offerMinutes: number): Date {
+  return new Date(offeredAt.getTime() + offerMinutes * 60 * 1000);
+}
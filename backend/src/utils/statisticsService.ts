@@ -2,6 +2,7 @@
 // Handles detailed player statistics for both individual games and matches
 
 import { prisma } from '../config/database';
+import { GameFormat, gameTeams } from './gameFormat';
 
 export interface PlayerStats {
   // Basic Stats
@@ -11,6 +12,11 @@ export interface PlayerStats {
   matchesPlayed: number;
   matchWins: number;
   matchLosses: number;
+
+  // Singles Stats
+  singlesPlayed: number;
+  singlesWins: number;
+  singlesLosses: number;
   
   // Advanced Stats
   totalSetsWon: number;
@@ -36,6 +42,7 @@ export interface SessionStatistics {
   sessionId: string;
   totalGames: number;
   totalMatches: number;
+  totalSinglesGames: number;
   averageGameDuration: number;
   longestMatch: number;
   shortestMatch: number;
@@ -53,20 +60,23 @@ export interface SessionStatistics {
 export async function updatePlayerGameStatistics(
   sessionId: string,
   gameData: {
+    format?: GameFormat;
     team1Player1: string;
-    team1Player2: string;
+    team1Player2?: string | null; // Empty for singles
     team2Player1: string;
-    team2Player2: string;
+    team2Player2?: string | null;
     winnerTeam: number;
     duration?: number;
     team1FinalScore: number;
     team2FinalScore: number;
   }
 ): Promise<void> {
-  const { team1Player1, team1Player2, team2Player1, team2Player2, winnerTeam, duration } = gameData;
-  const allPlayers = [team1Player1, team1Player2, team2Player1, team2Player2];
-  const winners = winnerTeam === 1 ? [team1Player1, team1Player2] : [team2Player1, team2Player2];
-  const losers = winnerTeam === 1 ? [team2Player1, team2Player2] : [team1Player1, team1Player2];
+  const { winnerTeam, duration } = gameData;
+  const [team1, team2] = gameTeams(gameData);
+  const isSingles = gameData.format === 'SINGLES' || (team1.length === 1 && team2.length === 1);
+  const allPlayers = [...team1, ...team2];
+  const winners = winnerTeam === 1 ? team1 : team2;
+  const losers = winnerTeam === 1 ? team2 : team1;
 
   // Update basic game statistics for all players
   await prisma.mvpPlayer.updateMany({
@@ -87,6 +97,7 @@ export async function updatePlayerGameStatistics(
     },
     data: {
       wins: { increment: 1 },
+      ...(isSingles && { singlesPlayed: { increment: 1 }, singlesWins: { increment: 1 } }),
       totalSetsWon: { increment: winnerTeam === 1 ? gameData.team1FinalScore : gameData.team2FinalScore },
       totalSetsLost: { increment: winnerTeam === 1 ? gameData.team2FinalScore : gameData.team1FinalScore }
     }
@@ -100,6 +111,7 @@ export async function updatePlayerGameStatistics(
     },
     data: {
       losses: { increment: 1 },
+      ...(isSingles && { singlesPlayed: { increment: 1 }, singlesLosses: { increment: 1 } }),
       totalSetsWon: { increment: winnerTeam === 1 ? gameData.team2FinalScore : gameData.team1FinalScore },
       totalSetsLost: { increment: winnerTeam === 1 ? gameData.team1FinalScore : gameData.team2FinalScore }
     }
@@ -118,9 +130,13 @@ export async function updatePlayerGameStatistics(
     });
   }
 
-  // Update partnership statistics
-  await updatePartnershipStatistics(sessionId, team1Player1, team1Player2, winnerTeam === 1);
-  await updatePartnershipStatistics(sessionId, team2Player1, team2Player2, winnerTeam === 2);
+  // Update partnership statistics (singles games have no partners)
+  if (team1.length === 2) {
+    await updatePartnershipStatistics(sessionId, team1[0], team1[1], winnerTeam === 1);
+  }
+  if (team2.length === 2) {
+    await updatePartnershipStatistics(sessionId, team2[0], team2[1], winnerTeam === 2);
+  }
 
   // Recalculate performance metrics for all involved players
   for (const playerName of allPlayers) {
@@ -134,7 +150,7 @@ export async function updatePlayerGameStatistics(
 /**
  * Update rest counters for all resting players after a game completes
  */
-async function updateRestCounters(sessionId: string): Promise<void> {
+export async function updateRestCounters(sessionId: string): Promise<void> {
   // Decrement rest games remaining for all resting players
   await prisma.mvpPlayer.updateMany({
     where: {
@@ -169,17 +185,18 @@ export async function updatePlayerMatchStatistics(
   sessionId: string,
   matchData: {
     team1Player1: string;
-    team1Player2: string;
+    team1Player2?: string | null; // Empty for singles
     team2Player1: string;
-    team2Player2: string;
+    team2Player2?: string | null;
     winnerTeam: number;
     duration?: number;
   }
 ): Promise<void> {
-  const { team1Player1, team1Player2, team2Player1, team2Player2, winnerTeam, duration } = matchData;
-  const allPlayers = [team1Player1, team1Player2, team2Player1, team2Player2];
-  const winners = winnerTeam === 1 ? [team1Player1, team1Player2] : [team2Player1, team2Player2];
-  const losers = winnerTeam === 1 ? [team2Player1, team2Player2] : [team1Player1, team1Player2];
+  const { winnerTeam, duration } = matchData;
+  const [team1, team2] = gameTeams(matchData);
+  const allPlayers = [...team1, ...team2];
+  const winners = winnerTeam === 1 ? team1 : team2;
+  const losers = winnerTeam === 1 ? team2 : team1;
 
   // Update match statistics for all players
   await prisma.mvpPlayer.updateMany({
@@ -307,6 +324,105 @@ async function recalculatePlayerMetrics(sessionId: string, playerName: string):
   });
 }
 
+type PlayerTotals = Omit<PlayerStats, 'winRate' | 'matchWinRate' | 'averageGameDuration' | 'partnershipStats'> & {
+  partnershipStats: Record<string, Omit<PartnershipRecord, 'partnerName'>>;
+};
+
+/**
+ * Rebuild every player's statistics from the session's completed games and matches
+ * Used after score corrections and undos, where the incremental updates above would double count.
+ */
+export async function recomputeSessionStatistics(sessionId: string): Promise<void> {
+  const [players, games, matches] = await Promise.all([
+    prisma.mvpPlayer.findMany({ where: { sessionId }, select: { id: true, name: true } }),
+    prisma.mvpGame.findMany({
+      where: { sessionId, status: 'COMPLETED', confirmationStatus: 'CONFIRMED' },
+      orderBy: { gameNumber: 'asc' }
+    }),
+    prisma.mvpMatch.findMany({ where: { sessionId, status: 'COMPLETED' } })
+  ]);
+
+  const totals = new Map<string, PlayerTotals>(players.map(p => [p.name, {
+    gamesPlayed: 0,
+    wins: 0,
+    losses: 0,
+    singlesPlayed: 0,
+    singlesWins: 0,
+    singlesLosses: 0,
+    matchesPlayed: 0,
+    matchWins: 0,
+    matchLosses: 0,
+    totalSetsWon: 0,
+    totalSetsLost: 0,
+    totalPlayTime: 0,
+    partnershipStats: {}
+  }]));
+
+  for (const game of games) {
+    if (!game.winnerTeam) continue;
+
+    const teams = gameTeams(game);
+    const isSingles = game.format === 'SINGLES' || (teams[0].length === 1 && teams[1].length === 1);
+    const scores = [game.team1FinalScore, game.team2FinalScore];
+
+    teams.forEach((team, index) => {
+      const won = game.winnerTeam === index + 1;
+      for (const name of team) {
+        const player = totals.get(name);
+        if (!player) continue;
+
+        player.gamesPlayed++;
+        player[won ? 'wins' : 'losses']++;
+        if (isSingles) {
+          player.singlesPlayed++;
+          player[won ? 'singlesWins' : 'singlesLosses']++;
+        }
+        player.totalSetsWon += scores[index];
+        player.totalSetsLost += scores[1 - index];
+        player.totalPlayTime += game.duration || 0;
+
+        const partnerName = team.find(p => p !== name);
+        if (partnerName) {
+          const partnership = player.partnershipStats[partnerName] || { gamesPlayed: 0, wins: 0, losses: 0, winRate: 0 };
+          partnership.gamesPlayed++;
+          partnership[won ? 'wins' : 'losses']++;
+          partnership.winRate = partnership.wins / partnership.gamesPlayed;
+          player.partnershipStats[partnerName] = partnership;
+        }
+      }
+    });
+  }
+
+  for (const match of matches) {
+    if (!match.winnerTeam) continue;
+
+    gameTeams(match).forEach((team, index) => {
+      const won = match.winnerTeam === index + 1;
+      for (const name of team) {
+        const player = totals.get(name);
+        if (!player) continue;
+
+        player.matchesPlayed++;
+        player[won ? 'matchWins' : 'matchLosses']++;
+        player.totalPlayTime += match.duration || 0;
+      }
+    });
+  }
+
+  await prisma.$transaction(players.map(p => {
+    const player = totals.get(p.name)!;
+    return prisma.mvpPlayer.update({
+      where: { id: p.id },
+      data: {
+        ...player,
+        winRate: player.gamesPlayed > 0 ? player.wins / player.gamesPlayed : 0,
+        matchWinRate: player.matchesPlayed > 0 ? player.matchWins / player.matchesPlayed : 0,
+        averageGameDuration: player.gamesPlayed > 0 ? player.totalPlayTime / player.gamesPlayed : 0
+      }
+    });
+  }));
+}
+
 /**
  * Get comprehensive player statistics
  */
@@ -335,6 +451,9 @@ export async function getPlayerStatistics(sessionId: string, playerName: string)
     matchesPlayed: player.matchesPlayed,
     matchWins: player.matchWins,
     matchLosses: player.matchLosses,
+    singlesPlayed: player.singlesPlayed,
+    singlesWins: player.singlesWins,
+    singlesLosses: player.singlesLosses,
     totalSetsWon: player.totalSetsWon,
     totalSetsLost: player.totalSetsLost,
     totalPlayTime: player.totalPlayTime,
@@ -354,7 +473,7 @@ export async function getSessionStatistics(sessionId: string): Promise<SessionSt
     include: {
       players: true,
       games: {
-        where: { status: 'COMPLETED' }
+        where: { status: 'COMPLETED', confirmationStatus: 'CONFIRMED' }
       },
       matches: {
         where: { status: 'COMPLETED' }
@@ -368,6 +487,7 @@ export async function getSessionStatistics(sessionId: string): Promise<SessionSt
 
   const totalGames = session.games.length;
   const totalMatches = session.matches.length;
+  const totalSinglesGames = session.games.filter(game => game.format === 'SINGLES').length;
   
   const averageGameDuration = totalGames > 0 
     ? session.games.reduce((sum, game) => sum + (game.duration || 0), 0) / totalGames
@@ -409,6 +529,7 @@ export async function getSessionStatistics(sessionId: string): Promise<SessionSt
     sessionId,
     totalGames,
     totalMatches,
+    totalSinglesGames,
     averageGameDuration,
     longestMatch,
     shortestMatch,
@@ -422,6 +543,7 @@ export async function getSessionStatistics(sessionId: string): Promise<SessionSt
  */
 export async function getSessionLeaderboard(sessionId: string): Promise<{
   byWinRate: any[];
+  bySinglesWinRate: any[];
   byMatchWins: any[];
   byGamesPlayed: any[];
   byPartnership: any[];
@@ -442,6 +564,17 @@ export async function getSessionLeaderboard(sessionId: string): Promise<{
       losses: p.losses
     }));
 
+  const bySinglesWinRate = players
+    .filter(p => p.singlesPlayed >= 3)
+    .map(p => ({
+      name: p.name,
+      singlesWinRate: p.singlesWins / p.singlesPlayed,
+      singlesPlayed: p.singlesPlayed,
+      singlesWins: p.singlesWins,
+      singlesLosses: p.singlesLosses
+    }))
+    .sort((a, b) => b.singlesWinRate - a.singlesWinRate);
+
   const byMatchWins = players
     .filter(p => p.matchesPlayed > 0)
     .sort((a, b) => b.matchWins - a.matchWins)
@@ -490,6 +623,7 @@ export async function getSessionLeaderboard(sessionId: string): Promise<{
 
   return {
     byWinRate,
+    bySinglesWinRate,
     byMatchWins,
     byGamesPlayed,
     byPartnership
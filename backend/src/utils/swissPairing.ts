@@ -0,0 +1,182 @@
+// Swiss Pairing
+// Standings with Buchholz, median-Buchholz, game-difference and Sonneborn-Berger tiebreakers, and score-group pairing without rematches
+
+import { MatchGameScore } from './tournamentResults';
+
+export interface SwissEntry {
+  id: string; // Player ID in singles, team ID in doubles
+  seed: number;
+}
+
+export interface SwissMatchRecord {
+  entry1Id: string;
+  entry2Id: string;
+  winnerId?: string | null; // Unset until the result is in
+  games: MatchGameScore[]; // player1Score is entry1's
+}
+
+export interface SwissStanding {
+  entryId: string;
+  rank: number;
+  seed: number;
+  points: number; // 1 per win or bye
+  played: number;
+  wins: number;
+  losses: number;
+  byes: number;
+  gamesWon: number;
+  gamesLost: number;
+  gameDifference: number;
+  buchholz: number; // Sum of opponents' points
+  medianBuchholz: number; // Buchholz without the best and worst opponent, once there are three or more
+  sonnebornBerger: number; // Sum of the points of opponents beaten
+  opponents: string[];
+}
+
+export interface SwissPairing {
+  pairs: Array<[string, string]>; // Higher-placed entry first
+  bye: string | null;
+}
+
+// Upper bound on pairing attempts before rematches are allowed, so an unpairable round can't stall a request
+const PAIRING_SEARCH_LIMIT = 100000;
+
+/**
+ * Default number of rounds: enough to separate the field, between 5 and 7
+ */
+export function swissRoundCount(entryCount: number): number {
+  return Math.min(7, Math.max(5, Math.ceil(Math.log2(entryCount))));
+}
+
+/**
+ * Standings from completed matches and byes so far, best first
+ * Ties on points are broken by Buchholz, median-Buchholz, game difference, Sonneborn-Berger, then seed.
+ */
+export function computeSwissStandings(entries: SwissEntry[], matches: SwissMatchRecord[], byes: string[]): SwissStanding[] {
+  const standings = new Map<string, SwissStanding>(entries.map(entry => [entry.id, {
+    entryId: entry.id,
+    rank: 0,
+    seed: entry.seed,
+    points: 0,
+    played: 0,
+    wins: 0,
+    losses: 0,
+    byes: 0,
+    gamesWon: 0,
+    gamesLost: 0,
+    gameDifference: 0,
+    buchholz: 0,
+    medianBuchholz: 0,
+    sonnebornBerger: 0,
+    opponents: []
+  }]));
+  const beaten = new Map<string, string[]>(entries.map(entry => [entry.id, []]));
+
+  for (const entryId of byes) {
+    const standing = standings.get(entryId);
+    if (standing) {
+      standing.byes++;
+      standing.points++;
+    }
+  }
+
+  for (const match of matches) {
+    const side1 = standings.get(match.entry1Id);
+    const side2 = standings.get(match.entry2Id);
+    if (!side1 || !side2 || !match.winnerId) continue;
+
+    const [winner, loser] = match.winnerId === match.entry1Id ? [side1, side2] : [side2, side1];
+    winner.wins++;
+    winner.points++;
+    loser.losses++;
+    beaten.get(winner.entryId)!.push(loser.entryId);
+
+    for (const game of match.games) {
+      const side1Won = game.player1Score > game.player2Score;
+      (side1Won ? side1 : side2).gamesWon++;
+      (side1Won ? side2 : side1).gamesLost++;
+    }
+
+    for (const [standing, opponent] of [[side1, side2], [side2, side1]]) {
+      standing.played++;
+      standing.opponents.push(opponent.entryId);
+    }
+  }
+
+  const pointsOf = (entryId: string) => standings.get(entryId)!.points;
+  for (const standing of standings.values()) {
+    const opponentPoints = standing.opponents.map(pointsOf).sort((a, b) => a - b);
+    const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+    standing.gameDifference = standing.gamesWon - standing.gamesLost;
+    standing.buchholz = sum(opponentPoints);
+    standing.medianBuchholz = opponentPoints.length >= 3 ? sum(opponentPoints.slice(1, -1)) : standing.buchholz;
+    standing.sonnebornBerger = sum(beaten.get(standing.entryId)!.map(pointsOf));
+  }
+
+  const ordered = Array.from(standings.values()).sort((a, b) =>
+    b.points - a.points ||
+    b.buchholz - a.buchholz ||
+    b.medianBuchholz - a.medianBuchholz ||
+    b.gameDifference - a.gameDifference ||
+    b.sonnebornBerger - a.sonnebornBerger ||
+    a.seed - b.seed
+  );
+  ordered.forEach((standing, index) => { standing.rank = index + 1; });
+  return ordered;
+}
+
+/**
+ * Pair the next round from the current standings
+ * Within a score group the top half plays the bottom half (1 v 5, 2 v 6 in a group of eight); an odd entry floats down to the next group.
+ * With an odd field the lowest-placed entry that hasn't had a bye sits out. Rematches are only allowed when no other pairing exists.
+ */
+export function pairSwissRound(standings: SwissStanding[]): SwissPairing {
+  const byId = new Map(standings.map(standing => [standing.entryId, standing]));
+  const order = standings.map(standing => standing.entryId);
+  const fewestByes = Math.min(...standings.map(standing => standing.byes));
+
+  const attempt = (allowRematches: boolean): SwissPairing | null => {
+    const search = { remaining: PAIRING_SEARCH_LIMIT };
+    if (order.length % 2 === 0) {
+      const pairs = pairRemaining(order, byId, allowRematches, search);
+      return pairs ? { pairs, bye: null } : null;
+    }
+
+    const byeCandidates = [...order].reverse().filter(entryId => byId.get(entryId)!.byes === fewestByes);
+    for (const bye of byeCandidates) {
+      const pairs = pairRemaining(order.filter(entryId => entryId !== bye), byId, allowRematches, search);
+      if (pairs) return { pairs, bye };
+    }
+    return null;
+  };
+
+  return attempt(false) || attempt(true)!;
+}
+
+function pairRemaining(
+  pool: string[],
+  byId: Map<string, SwissStanding>,
+  allowRematches: boolean,
+  search: { remaining: number }
+): Array<[string, string]> | null {
+  if (pool.length === 0) return [];
+  if (--search.remaining < 0) return null;
+
+  const [first, ...rest] = pool;
+  const points = byId.get(first)!.points;
+  const group = rest.filter(entryId => byId.get(entryId)!.points === points);
+  const lower = rest.filter(entryId => byId.get(entryId)!.points !== points);
+
+  // The first entry's natural opponent is the top of the group's bottom half; then look further down, back up, and below the group
+  const counterpart = Math.max(0, Math.floor((group.length + 1) / 2) - 1);
+  const candidates = [...group.slice(counterpart), ...group.slice(0, counterpart).reverse(), ...lower];
+
+  for (const opponent of candidates) {
+    if (!allowRematches && byId.get(first)!.opponents.includes(opponent)) continue;
+
+    const others = pairRemaining(rest.filter(entryId => entryId !== opponent), byId, allowRematches, search);
+    if (others) return [[first, opponent], ...others];
+  }
+  return null;
+}
@@ -0,0 +1,250 @@
+// Tournament Entries
+// A bracket is drawn from entries: single players in singles, teams of two registered players in doubles
+
+import { formatTeamName } from './gameFormat';
+
+export type TournamentMatchFormat = 'SINGLES' | 'DOUBLES' | 'MIXED';
+
+export interface EntryPlayer {
+  id: string;
+  playerName: string;
+  seed?: number | null;
+  winRate: number;
+  skillLevel?: string | null;
+  category?: string | null; // male, female - checked for mixed doubles pairs
+  rankingPoints?: number | null; // From the player's ranking history, when they have one
+  club?: string | null;
+}
+
+export interface TournamentEntry {
+  id: string; // Player ID in singles, team ID in doubles
+  name: string;
+  captainId: string; // Player recorded as the side's participant on a match
+  memberIds: string[];
+  seed?: number | null;
+  winRate: number;
+  skill: number;
+  rankingPoints: number;
+  clubs: string[]; // Clubs of the members, for keeping clubmates apart in the draw
+}
+
+export interface FirstRoundDraw {
+  matches: Array<{ matchNumber: number; entry1: TournamentEntry; entry2: TournamentEntry }>;
+  byes: Array<{ matchNumber: number; entry: TournamentEntry }>; // Bracket slots where an entry advances unopposed
+}
+
+const SKILL_ORDER: Record<string, number> = { beginner: 1, intermediate: 2, advanced: 3 };
+
+/**
+ * Whether entries in this format are teams of two
+ */
+export function isTeamFormat(format: string): boolean {
+  return format === 'DOUBLES' || format === 'MIXED';
+}
+
+/**
+ * Check a player can invite a partner before the partner has registered
+ * Returns an error message, or null when the invitation is valid.
+ */
+export function validateInvitation(format: TournamentMatchFormat, player: EntryPlayer, partnerName: string): string | null {
+  if (!isTeamFormat(format)) {
+    return 'Partners can only be registered for doubles tournaments';
+  }
+  if (sameName(player.playerName, partnerName)) {
+    return 'A player cannot partner themselves';
+  }
+  if (format === 'MIXED' && !player.category) {
+    return 'Mixed doubles partners must both give their category (male or female)';
+  }
+  return null;
+}
+
+/**
+ * Check two registered players can enter together
+ * Mixed doubles needs one male and one female player. Returns an error message, or null when the pair is valid.
+ */
+export function validatePartners(format: TournamentMatchFormat, captain: EntryPlayer, partner: EntryPlayer): string | null {
+  const invitationError = validateInvitation(format, captain, partner.playerName);
+  if (invitationError) {
+    return invitationError;
+  }
+
+  if (format === 'MIXED') {
+    if (!partner.category) {
+      return 'Mixed doubles partners must both give their category (male or female)';
+    }
+    if (captain.category === partner.category) {
+      return 'Mixed doubles teams need one male and one female player';
+    }
+  }
+  return null;
+}
+
+function sameName(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * Entry for a singles player
+ */
+export function playerEntry(player: EntryPlayer): TournamentEntry {
+  return {
+    id: player.id,
+    name: player.playerName,
+    captainId: player.id,
+    memberIds: [player.id],
+    seed: player.seed,
+    winRate: player.winRate,
+    skill: SKILL_ORDER[player.skillLevel?.toLowerCase() || ''] || 0,
+    rankingPoints: player.rankingPoints || 0,
+    clubs: player.club ? [player.club] : []
+  };
+}
+
+/**
+ * Entry for a doubles team, rated on the average of both partners
+ */
+export function teamEntry(team: { id: string; seed?: number | null }, captain: EntryPlayer, partner: EntryPlayer): TournamentEntry {
+  const members = [playerEntry(captain), playerEntry(partner)];
+
+  return {
+    id: team.id,
+    name: formatTeamName(captain.playerName, partner.playerName),
+    captainId: captain.id,
+    memberIds: [captain.id, partner.id],
+    seed: team.seed,
+    winRate: (members[0].winRate + members[1].winRate) / 2,
+    skill: (members[0].skill + members[1].skill) / 2,
+    rankingPoints: (members[0].rankingPoints + members[1].rankingPoints) / 2,
+    clubs: Array.from(new Set([...members[0].clubs, ...members[1].clubs]))
+  };
+}
+
+/**
+ * Ranking points a player held at a point in time, from their ranking history
+ * Returns null when nothing was recorded by then.
+ */
+export function rankingPointsAt(history: Array<{ rankingPoints: number; recordedAt: Date }>, at: Date): number | null {
+  const latest = history
+    .filter(record => record.recordedAt <= at)
+    .reduce<{ rankingPoints: number; recordedAt: Date } | null>(
+      (found, record) => (!found || record.recordedAt > found.recordedAt ? record : found),
+      null
+    );
+  return latest ? latest.rankingPoints : null;
+}
+
+/**
+ * Order entries from top seed down
+ * Organizer-assigned seeds come first, then ranking points, win rate, skill level and name.
+ */
+export function seedEntries(entries: TournamentEntry[]): TournamentEntry[] {
+  return [...entries].sort((a, b) => {
+    if (a.seed && b.seed) return a.seed - b.seed;
+    if (a.seed) return -1;
+    if (b.seed) return 1;
+
+    if (a.rankingPoints !== b.rankingPoints) return b.rankingPoints - a.rankingPoints;
+    if (a.winRate !== b.winRate) return b.winRate - a.winRate;
+    if (a.skill !== b.skill) return b.skill - a.skill;
+    return a.name.localeCompare(b.name);
+  });
+}
+
+/**
+ * Seed number in each bracket position, so the top two seeds can only meet in the final
+ * e.g. size 8 gives 1, 8, 4, 5, 2, 7, 3, 6.
+ */
+export function bracketPositions(size: number): number[] {
+  let positions = [1];
+  while (positions.length < size) {
+    const nextSize = positions.length * 2;
+    positions = positions.flatMap(seed => [seed, nextSize + 1 - seed]);
+  }
+  return positions;
+}
+
+/**
+ * Seeds treated as equal when drawing the bracket: 1, 2, 3-4, 5-8, 9-16 and so on
+ */
+export function seedBand(seed: number): [number, number] {
+  if (seed <= 2) return [seed, seed];
+  const top = 2 ** Math.ceil(Math.log2(seed));
+  return [top / 2 + 1, top];
+}
+
+/**
+ * Keep clubmates apart in the first round of a knockout draw
+ * The lower seed of a clashing pair swaps places with another entry from its seeding band, so the top two seeds
+ * and the shape of the bracket don't change. Seeds set by the organizer are never moved, and a clash stays when no swap in the band fixes it.
+ */
+export function separateClubmates(seeded: TournamentEntry[]): TournamentEntry[] {
+  const order = [...seeded];
+  let size = 2;
+  while (size < order.length) size *= 2;
+
+  const clash = (a?: TournamentEntry, b?: TournamentEntry) =>
+    Boolean(a && b && a.clubs.some(club => b.clubs.includes(club)));
+  // Entries at index i and size - 1 - i meet in the first round (seeds s and size + 1 - s)
+  const opponentOf = (index: number) => size - 1 - index;
+
+  for (let index = 0; index < size / 2; index++) {
+    const moving = opponentOf(index);
+    if (!clash(order[index], order[moving]) || order[moving].seed) continue;
+
+    const [bandStart, bandEnd] = seedBand(moving + 1);
+    for (let candidate = bandStart - 1; candidate < Math.min(bandEnd, order.length); candidate++) {
+      if (candidate === moving || order[candidate].seed) continue;
+      // After the swap the candidate faces this entry, and the moving entry takes the candidate's opponent
+      if (clash(order[candidate], order[index]) || clash(order[moving], order[opponentOf(candidate)])) continue;
+
+      [order[moving], order[candidate]] = [order[candidate], order[moving]];
+      break;
+    }
+  }
+  return order;
+}
+
+/**
+ * Draw the first round of a knockout bracket from seeded entries
+ * The bracket is rounded up to a power of two; the missing seeds become byes for the top seeds.
+ * Match numbers follow bracket position, so the winners of matches 1 and 2 meet in match 1 of the next round.
+ */
+export function drawFirstRound(seeded: TournamentEntry[]): FirstRoundDraw {
+  let size = 2;
+  while (size < seeded.length) size *= 2;
+
+  const slots = bracketPositions(size).map(seed => seeded[seed - 1] || null);
+  const draw: FirstRoundDraw = { matches: [], byes: [] };
+
+  for (let i = 0; i < size / 2; i++) {
+    const [entry1, entry2] = [slots[i * 2], slots[i * 2 + 1]];
+    const matchNumber = i + 1;
+
+    if (entry1 && entry2) {
+      draw.matches.push({ matchNumber, entry1, entry2 });
+    } else if (entry1 || entry2) {
+      draw.byes.push({ matchNumber, entry: (entry1 || entry2)! });
+    }
+  }
+
+  return draw;
+}
+
+/**
+ * Seed that holds the bye in each first-round slot of a draw with this many entries, keyed by match number
+ */
+export function firstRoundByes(entryCount: number): Map<number, number> {
+  let size = 2;
+  while (size < entryCount) size *= 2;
+
+  const positions = bracketPositions(size);
+  const byes = new Map<number, number>();
+  for (let i = 0; i < size / 2; i++) {
+    const [seed1, seed2] = [positions[i * 2], positions[i * 2 + 1]];
+    if ((seed1 <= entryCount) !== (seed2 <= entryCount)) {
+      byes.set(i + 1, Math.min(seed1, seed2));
+    }
+  }
+  return byes;
+}
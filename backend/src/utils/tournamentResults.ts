@@ -0,0 +1,159 @@
+// Tournament Results
+// Validates reported match scores and works out where a knockout result sends each side
+
+import { resolveScoringRules, validateSetScore } from './rallyScoring';
+
+export interface MatchGameScore {
+  player1Score: number;
+  player2Score: number;
+}
+
+export interface MatchScoreSummary {
+  player1GamesWon: number;
+  player2GamesWon: number;
+  winnerSide: 1 | 2;
+}
+
+/**
+ * Check the games of a reported match and total them up
+ * Every game must be a legal final score, and the match must end on the game that gives one side a majority of bestOfGames.
+ * Returns an error message, or the summary when the score is valid.
+ */
+export function evaluateMatchScores(
+  scoringSystem: string,
+  bestOfGames: number,
+  games: MatchGameScore[]
+): { error: string } | MatchScoreSummary {
+  const rules = resolveScoringRules(scoringSystem);
+  const gamesToWin = Math.ceil(bestOfGames / 2);
+  let player1GamesWon = 0;
+  let player2GamesWon = 0;
+
+  if (games.length === 0) {
+    return { error: 'At least one game score is required' };
+  }
+
+  for (const [index, game] of games.entries()) {
+    if (player1GamesWon === gamesToWin || player2GamesWon === gamesToWin) {
+      return { error: `The match was already decided after game ${index}` };
+    }
+
+    const scoreError = validateSetScore(rules, game.player1Score, game.player2Score);
+    if (scoreError) {
+      return { error: `Game ${index + 1}: ${scoreError}` };
+    }
+
+    if (game.player1Score > game.player2Score) {
+      player1GamesWon++;
+    } else {
+      player2GamesWon++;
+    }
+  }
+
+  if (player1GamesWon < gamesToWin && player2GamesWon < gamesToWin) {
+    return { error: `A best of ${bestOfGames} match needs ${gamesToWin} games to win` };
+  }
+
+  return { player1GamesWon, player2GamesWon, winnerSide: player1GamesWon > player2GamesWon ? 1 : 2 };
+}
+
+/**
+ * Match and side in the next knockout round that a match's winner moves into
+ * Matches 1 and 2 feed match 1, with match 1's winner on side 1.
+ */
+export function nextKnockoutSlot(matchNumber: number): { matchNumber: number; side: 1 | 2 } {
+  return { matchNumber: Math.ceil(matchNumber / 2), side: matchNumber % 2 === 1 ? 1 : 2 };
+}
+
+/**
+ * Final placing for an entry knocked out in a round, e.g. semi-final losers of an 8-draw finish 3rd
+ */
+export function knockoutFinishingRank(roundNumber: number, totalRounds: number): number {
+  return Math.pow(2, totalRounds - roundNumber) + 1;
+}
+
+export interface PlayedMatch {
+  side1: string[]; // Player IDs on each side; both partners in doubles
+  side2: string[];
+  winnerSide: 1 | 2;
+  games: MatchGameScore[];
+}
+
+export interface TournamentPlayerStats {
+  matchesPlayed: number;
+  matchesWon: number;
+  gamesWon: number;
+  gamesLost: number;
+  pointsFor: number;
+  pointsAgainst: number;
+}
+
+/**
+ * Per-player totals across a tournament's completed matches, crediting every player on a side
+ */
+export function tallyPlayerStats(matches: PlayedMatch[]): Record<string, TournamentPlayerStats> {
+  const stats: Record<string, TournamentPlayerStats> = {};
+
+  const credit = (playerIds: string[], won: boolean, games: Array<[number, number]>) => {
+    for (const playerId of playerIds) {
+      if (!stats[playerId]) {
+        stats[playerId] = { matchesPlayed: 0, matchesWon: 0, gamesWon: 0, gamesLost: 0, pointsFor: 0, pointsAgainst: 0 };
+      }
+      const totals = stats[playerId];
+      totals.matchesPlayed++;
+      if (won) totals.matchesWon++;
+      for (const [own, opponent] of games) {
+        if (own > opponent) totals.gamesWon++;
+        else totals.gamesLost++;
+        totals.pointsFor += own;
+        totals.pointsAgainst += opponent;
+      }
+    }
+  };
+
+  for (const match of matches) {
+    credit(match.side1, match.winnerSide === 1, match.games.map(g => [g.player1Score, g.player2Score]));
+    credit(match.side2, match.winnerSide === 2, match.games.map(g => [g.player2Score, g.player1Score]));
+  }
+  return stats;
+}
+
+export interface PrizePayout {
+  entryId: string;
+  place: number;
+  percentage: number; // Share of the pool paid to this entry
+  amount: number;
+}
+
+// Prize pool split when the organizer hasn't set one: 50% to the winner, 30% to the runner-up, 20% to third
+export const DEFAULT_PAYOUT_PERCENTAGES = [50, 30, 20];
+
+/**
+ * Split a prize pool between the placed entries by the percentage for each place
+ * Entries sharing a place (both losing semi-finalists finish 3rd) share the percentages of the places they fill
+ * between them. Amounts are in whole cents; any cent left over goes to the first entries of a shared place.
+ */
+export function splitPrizePool(
+  pool: number,
+  percentages: number[],
+  placings: Array<{ entryId: string; rank: number }>
+): PrizePayout[] {
+  const byRank = new Map<number, string[]>();
+  for (const { entryId, rank } of placings) {
+    byRank.set(rank, [...(byRank.get(rank) || []), entryId]);
+  }
+
+  const payouts: PrizePayout[] = [];
+  for (const rank of Array.from(byRank.keys()).sort((a, b) => a - b)) {
+    const entryIds = byRank.get(rank)!;
+    const share = percentages.slice(rank - 1, rank - 1 + entryIds.length).reduce((sum, percentage) => sum + percentage, 0);
+    const cents = Math.round(pool * share);
+    if (cents <= 0) continue;
+
+    entryIds.forEach((entryId, index) => {
+      const entryCents = Math.floor(cents / entryIds.length) + (index < cents % entryIds.length ? 1 : 0);
+      payouts.push({ entryId, place: rank, percentage: share / entryIds.length, amount: entryCents / 100 });
+    });
+  }
+  return payouts;
+}
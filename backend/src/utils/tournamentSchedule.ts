@@ -0,0 +1,140 @@
+// Tournament Schedule
+// Court and time-slot assignment for playable matches, re-flowed from actual start and finish times, and conflict detection
+
+export interface ScheduleMatch {
+  id: string;
+  playerIds: string[]; // Everyone on court: both partners in doubles
+  status: string; // TournamentMatchStatus
+  courtName?: string | null;
+  scheduledAt?: Date | null;
+  startTime?: Date | null; // Actual start, once play begins
+  endTime?: Date | null; // Actual finish
+}
+
+export interface ScheduleOptions {
+  courts: string[];
+  startTime: Date; // Nothing is scheduled before this; when re-flowing it is the current time
+  matchDuration: number; // Minutes per match slot
+  minRest: number; // Minutes a player gets between matches
+}
+
+export interface ScheduledSlot {
+  matchId: string;
+  courtName: string;
+  scheduledAt: Date;
+}
+
+export interface ScheduleConflict {
+  type: 'COURT_CLASH' | 'PLAYER_CLASH' | 'SHORT_REST';
+  matchIds: [string, string];
+  courtName?: string;
+  playerId?: string;
+  restMinutes?: number; // Short rest: the gap the player actually gets
+}
+
+const FINISHED_STATUSES = ['COMPLETED', 'WALKOVER'];
+
+const addMinutes = (date: Date, minutes: number) => new Date(date.getTime() + minutes * 60 * 1000);
+
+const later = (a: Date, b: Date) => (a.getTime() >= b.getTime() ? a : b);
+
+/**
+ * Assign a court and start time to every match still waiting to be played
+ * Matches are given in order of play. Each free court takes the match that can start soonest, so a later match
+ * only jumps the queue while the players of an earlier one are still resting. Matches in progress hold their court
+ * until at least their expected finish, and finished matches only count towards their players' rest.
+ */
+export function scheduleMatches(matches: ScheduleMatch[], options: ScheduleOptions): ScheduledSlot[] {
+  const courtFree = new Map(options.courts.map(court => [court, options.startTime]));
+  const playerReady = new Map<string, Date>();
+
+  const rest = (playerIds: string[], until: Date) => {
+    const ready = addMinutes(until, options.minRest);
+    for (const playerId of playerIds) {
+      playerReady.set(playerId, later(playerReady.get(playerId) || ready, ready));
+    }
+  };
+
+  for (const match of matches) {
+    if (FINISHED_STATUSES.includes(match.status) && match.endTime) {
+      rest(match.playerIds, match.endTime);
+    } else if (match.status === 'IN_PROGRESS') {
+      const started = match.startTime || match.scheduledAt || options.startTime;
+      // A match running over its slot is expected to finish any moment now
+      const finish = later(addMinutes(started, options.matchDuration), options.startTime);
+      if (match.courtName && courtFree.has(match.courtName)) {
+        courtFree.set(match.courtName, later(courtFree.get(match.courtName)!, finish));
+      }
+      rest(match.playerIds, finish);
+    }
+  }
+
+  const pending = matches.filter(match => match.status === 'SCHEDULED');
+  const slots: ScheduledSlot[] = [];
+
+  while (pending.length > 0 && courtFree.size > 0) {
+    const [court, free] = Array.from(courtFree.entries()).reduce((earliest, entry) =>
+      (entry[1].getTime() < earliest[1].getTime() ? entry : earliest));
+
+    const startOf = (match: ScheduleMatch) => match.playerIds.reduce(
+      (start, playerId) => later(start, playerReady.get(playerId) || start),
+      free
+    );
+    let next = 0;
+    for (let index = 1; index < pending.length; index++) {
+      if (startOf(pending[index]).getTime() < startOf(pending[next]).getTime()) next = index;
+    }
+
+    const [match] = pending.splice(next, 1);
+    const scheduledAt = startOf(match);
+    const finish = addMinutes(scheduledAt, options.matchDuration);
+    courtFree.set(court, finish);
+    rest(match.playerIds, finish);
+    slots.push({ matchId: match.id, courtName: court, scheduledAt });
+  }
+
+  return slots.sort((a, b) =>
+    a.scheduledAt.getTime() - b.scheduledAt.getTime() ||
+    options.courts.indexOf(a.courtName) - options.courts.indexOf(b.courtName));
+}
+
+/**
+ * Find clashes in a schedule: a court or a player booked for two matches at once, or a player short of rest between matches
+ * Matches run from their actual start (or scheduled time) to their actual finish (or the end of their slot).
+ * Clashes between two finished matches are history and aren't reported.
+ */
+export function findScheduleConflicts(
+  matches: ScheduleMatch[],
+  options: Pick<ScheduleOptions, 'matchDuration' | 'minRest'>
+): ScheduleConflict[] {
+  const timed = matches.flatMap(match => {
+    const start = match.startTime || match.scheduledAt;
+    if (!start || match.status === 'CANCELLED') return [];
+    const end = match.endTime || addMinutes(start, options.matchDuration);
+    return [{ match, start: start.getTime(), end: end.getTime() }];
+  }).sort((a, b) => a.start - b.start);
+
+  const conflicts: ScheduleConflict[] = [];
+  for (let i = 0; i < timed.length; i++) {
+    for (let j = i + 1; j < timed.length; j++) {
+      const [first, second] = [timed[i], timed[j]];
+      if (FINISHED_STATUSES.includes(first.match.status) && FINISHED_STATUSES.includes(second.match.status)) continue;
+
+      const matchIds: [string, string] = [first.match.id, second.match.id];
+      const overlap = second.start < first.end;
+      if (overlap && first.match.courtName && first.match.courtName === second.match.courtName) {
+        conflicts.push({ type: 'COURT_CLASH', matchIds, courtName: first.match.courtName });
+      }
+
+      const restMinutes = Math.floor((second.start - first.end) / (60 * 1000));
+      for (const playerId of first.match.playerIds.filter(id => second.match.playerIds.includes(id))) {
+        if (overlap) {
+          conflicts.push({ type: 'PLAYER_CLASH', matchIds, playerId });
+        } else if (restMinutes < options.minRest) {
+          conflicts.push({ type: 'SHORT_REST', matchIds, playerId, restMinutes });
+        }
+      }
+    }
+  }
+  return conflicts;
+}
@@ -36,7 +36,8 @@ export const updateSessionSchema = Joi.object({
 });
 
 export const validatePairingRequest = Joi.object({
-  algorithm: Joi.string().valid('fair', 'random', 'skill_based').default('fair')
+  algorithm: Joi.string().valid('fair', 'random', 'skill_based').default('fair'),
+  mode: Joi.string().valid('standard', 'mixed').default('standard')
 });
 
 export const validateManualPairing = Joi.object({
@@ -1,10 +1,11 @@
 import React, { ReactNode } from 'react';
 import { usePermissions } from '../hooks/usePermissions';
+import { SessionRole } from '../types/permissions';
 
 interface PermissionGuardProps {
   children: ReactNode;
   fallback?: ReactNode;
-  requireRole?: 'ORGANIZER' | 'PLAYER';
+  requireRole?: SessionRole | SessionRole[];
   requirePermission?: string;
   targetPlayerId?: string;
 }
@@ -14,7 +15,7 @@ interface PermissionGuardProps {
  *
  * @param children - Content to render if permission check passes
  * @param fallback - Content to render if permission check fails (optional)
- * @param requireRole - Specific role required (optional)
+ * @param requireRole - Specific role, or one of several roles, required (optional)
  * @param requirePermission - Specific permission action required (optional)
  * @param targetPlayerId - Player ID for permission checks involving specific players (optional)
  */
@@ -94,4 +95,40 @@ export const CanUpdatePlayerStatus: React.FC<{
   >
     {children}
   </PermissionGuard>
-);
\ No newline at end of file
+);
+
+export const CanRecordScores: React.FC<{ children: ReactNode; fallback?: ReactNode }> = ({
+  children,
+  fallback = null
+}) => (
+  <PermissionGuard requirePermission="record_scores" fallback={fallback}>
+    {children}
+  </PermissionGuard>
+);
+
+export const CanManageCourts: React.FC<{ children: ReactNode; fallback?: ReactNode }> = ({
+  children,
+  fallback = null
+}) => (
+  <PermissionGuard requirePermission="manage_courts" fallback={fallback}>
+    {children}
+  </PermissionGuard>
+);
+
+export const CanApproveJoins: React.FC<{ children: ReactNode; fallback?: ReactNode }> = ({
+  children,
+  fallback = null
+}) => (
+  <PermissionGuard requirePermission="approve_joins" fallback={fallback}>
+    {children}
+  </PermissionGuard>
+);
+
+export const CanManageRoles: React.FC<{ children: ReactNode; fallback?: ReactNode }> = ({
+  children,
+  fallback = null
+}) => (
+  <PermissionGuard requirePermission="manage_roles" fallback={fallback}>
+    {children}
+  </PermissionGuard>
+);
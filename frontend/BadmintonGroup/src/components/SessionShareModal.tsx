@@ -20,6 +20,7 @@ interface SessionShareModalProps {
   sessionName: string;
   sessionDate: string;
   organizerSecret?: string;
+  recoveryCodes?: string[];
 }
 
 const { width: screenWidth } = Dimensions.get('window');
@@ -31,7 +32,8 @@ export default function SessionShareModal({
   shareCode, 
   sessionName, 
   sessionDate,
-  organizerSecret
+  organizerSecret,
+  recoveryCodes
 }: SessionShareModalProps) {
   const [copied, setCopied] = useState(false);
   
@@ -59,6 +61,16 @@ export default function SessionShareModal({
     }
   };
   
+  const handleCopyRecoveryCodes = async () => {
+    if (!recoveryCodes?.length) return;
+    try {
+      await Clipboard.setString(recoveryCodes.join('\n'));
+      Alert.alert('Copied!', 'Recovery codes copied to clipboard');
+    } catch (error) {
+      Alert.alert('Error', 'Failed to copy recovery codes');
+    }
+  };
+
   const handleCopyLink = async () => {
     try {
       await Clipboard.setString(shareLink);
@@ -129,6 +141,30 @@ export default function SessionShareModal({
             </View>
           )}
 
+          {/* Recovery Codes - Only shown on creation */}
+          {!!recoveryCodes?.length && (
+            <View style={styles.secretSection}>
+              <View style={styles.secretHeader}>
+                <Ionicons name="shield-checkmark" size={20} color="#FF9500" />
+                <Text style={styles.secretTitle}>Recovery Codes</Text>
+                <TouchableOpacity onPress={handleCopyRecoveryCodes} style={[styles.copyButton, styles.headerCopyButton]}>
+                  <Ionicons name="copy" size={20} color="#007AFF" />
+                </TouchableOpacity>
+              </View>
+              <View style={styles.recoveryCodes}>
+                {recoveryCodes.map(code => (
+                  <Text key={code} style={styles.recoveryCode}>{code}</Text>
+                ))}
+              </View>
+              <View style={styles.warningBox}>
+                <Ionicons name="warning" size={16} color="#FF3B30" />
+                <Text style={styles.warningText}>
+                  Each code works once to move the session to a new phone. They won't be shown again.
+                </Text>
+              </View>
+            </View>
+          )}
+
           {/* QR Code */}
           <View style={styles.qrContainer}>
             <Text style={styles.sectionTitle}>Scan QR Code</Text>
@@ -295,6 +331,27 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     letterSpacing: 2,
   },
+  headerCopyButton: {
+    marginLeft: 'auto',
+  },
+  recoveryCodes: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    backgroundColor: '#FFF',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 12,
+  },
+  recoveryCode: {
+    width: '48%',
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+    fontFamily: 'monospace',
+    textAlign: 'center',
+    paddingVertical: 4,
+  },
   warningBox: {
     flexDirection: 'row',
     alignItems: 'flex-start',
@@ -24,6 +24,7 @@ interface UpNextBannerProps {
   showDuringGame: boolean;
   courtId: string;
   estimatedWaitTimes?: number[];
+  plannedRounds?: Record<string, number | null>; // Player ID -> next planned round from the lookahead plan
   onDismiss?: () => void;
   autoHideAfter?: number; // seconds
   isVisible?: boolean;
@@ -35,6 +36,7 @@ export const UpNextBanner: React.FC<UpNextBannerProps> = ({
   showDuringGame,
   courtId,
   estimatedWaitTimes = [],
+  plannedRounds = {},
   onDismiss,
   autoHideAfter = 10,
   isVisible = true
@@ -170,6 +172,11 @@ export const UpNextBanner: React.FC<UpNextBannerProps> = ({
                   {formatWaitTime(estimatedWaitTimes[index])}
                 </Text>
               )}
+              {typeof plannedRounds[player.id] === 'number' && (
+                <Text style={styles.plannedRound}>
+                  R{plannedRounds[player.id]}
+                </Text>
+              )}
             </View>
           ))}
         </View>
@@ -350,6 +357,12 @@ const styles = StyleSheet.create({
     color: '#FF9500',
     fontWeight: '600',
   },
+  plannedRound: {
+    fontSize: 10,
+    color: '#1565C0',
+    fontWeight: '600',
+    marginLeft: 4,
+  },
   queueIndicator: {
     marginLeft: 8,
     paddingHorizontal: 8,
@@ -1,11 +1,13 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { mvpApiService, MvpSession, MvpPlayer } from '../services/mvpApiService';
+import socketService from '../services/socketService';
+import { roleHasPermission, SessionRole } from '../types/permissions';
 
 // Types for session management
 export interface SessionUser {
   id: string;
   name: string;
-  role: 'ORGANIZER' | 'PLAYER';
+  role: SessionRole;
   deviceId?: string;
 }
 
@@ -161,18 +163,53 @@ export const SessionProvider: React.FC<SessionProviderProps> = ({ children }) =>
     setError(null);
   };
 
+  // Keep roles in step when the organizer promotes or demotes someone
+  useEffect(() => {
+    const handleRoleChanged = (data: { playerId: string; role: SessionRole }) => {
+      setSession(current => current && {
+        ...current,
+        players: current.players.map(player =>
+          player.id === data.playerId ? { ...player, role: data.role } : player
+        )
+      });
+      setCurrentUser(current =>
+        current && current.id === data.playerId ? { ...current, role: data.role } : current
+      );
+    };
+
+    // The new owner becomes the organizer and the previous one goes back to playing
+    const handleOwnershipChanged = (data: { playerId: string; ownerName: string; previousPlayerId: string | null }) => {
+      const roleAfter = (playerId: string, role: SessionRole): SessionRole =>
+        playerId === data.playerId ? 'ORGANIZER' : playerId === data.previousPlayerId ? 'PLAYER' : role;
+
+      setSession(current => current && {
+        ...current,
+        ownerName: data.ownerName,
+        players: current.players.map(player => ({ ...player, role: roleAfter(player.id, player.role) }))
+      });
+      setCurrentUser(current => current && { ...current, role: roleAfter(current.id, current.role) });
+    };
+
+    socketService.on('player_role_changed', handleRoleChanged);
+    socketService.on('ownership_changed', handleOwnershipChanged);
+    return () => {
+      socketService.off('player_role_changed', handleRoleChanged);
+      socketService.off('ownership_changed', handleOwnershipChanged);
+    };
+  }, []);
+
   // Permission helpers
   const isOrganizer = currentUser?.role === 'ORGANIZER';
 
-  const canEditSession = isOrganizer;
+  const canEditSession = roleHasPermission(currentUser?.role, 'edit_session');
 
-  const canManagePlayers = isOrganizer;
+  const canManagePlayers = roleHasPermission(currentUser?.role, 'manage_players');
 
   const canUpdatePlayerStatus = (playerId: string): boolean => {
     if (!currentUser) return false;
 
-    // Organizers can update any player's status
-    if (isOrganizer) return true;
+    // Organizers and co-organizers can update any player's status
+    if (canManagePlayers) return true;
 
     // Players can only update their own status
     return currentUser.id === playerId;
@@ -1,29 +1,40 @@
 import { useSession } from '../contexts/SessionContext';
+import { ROLE_LABELS, roleHasPermission, SessionRole } from '../types/permissions';
 
 // Permission hook for components
 export const usePermissions = () => {
   const { currentUser, isOrganizer, canEditSession, canManagePlayers, canUpdatePlayerStatus } = useSession();
 
+  const role = currentUser?.role;
+
   // Helper functions for common permission checks
   const canEditSessionDetails = () => canEditSession;
 
-  const canDeleteSession = () => isOrganizer;
+  const canDeleteSession = () => roleHasPermission(role, 'delete_session');
 
-  const canAddPlayers = () => isOrganizer;
+  const canAddPlayers = () => roleHasPermission(role, 'add_players');
 
-  const canRemovePlayers = () => isOrganizer;
+  const canRemovePlayers = () => roleHasPermission(role, 'remove_players');
 
   const canUpdateOwnStatus = () => !!currentUser;
 
-  const canUpdateAnyPlayerStatus = () => isOrganizer;
+  const canUpdateAnyPlayerStatus = () => canManagePlayers;
+
+  const canGeneratePairings = () => roleHasPermission(role, 'generate_pairings');
+
+  const canModifyPairings = () => roleHasPermission(role, 'modify_pairings');
+
+  const canTerminateSession = () => roleHasPermission(role, 'delete_session');
+
+  const canReactivateSession = () => roleHasPermission(role, 'edit_session');
 
-  const canGeneratePairings = () => isOrganizer;
+  const canRecordScores = () => roleHasPermission(role, 'record_scores');
 
-  const canModifyPairings = () => isOrganizer;
+  const canManageCourts = () => roleHasPermission(role, 'manage_courts');
 
-  const canTerminateSession = () => isOrganizer;
+  const canApproveJoins = () => roleHasPermission(role, 'approve_joins');
 
-  const canReactivateSession = () => isOrganizer;
+  const canManageRoles = () => roleHasPermission(role, 'manage_roles');
 
   // Check if current user can perform specific actions
   const checkPermission = (action: string, targetPlayerId?: string): boolean => {
@@ -36,6 +47,8 @@ export const usePermissions = () => {
         return canAddPlayers();
       case 'remove_players':
         return canRemovePlayers();
+      case 'manage_players':
+        return canManagePlayers;
       case 'update_player_status':
         if (targetPlayerId && currentUser) {
           return canUpdatePlayerStatus(targetPlayerId);
@@ -49,6 +62,14 @@ export const usePermissions = () => {
         return canTerminateSession();
       case 'reactivate_session':
         return canReactivateSession();
+      case 'record_scores':
+        return canRecordScores();
+      case 'manage_courts':
+        return canManageCourts();
+      case 'approve_joins':
+        return canApproveJoins();
+      case 'manage_roles':
+        return canManageRoles();
       default:
         return false;
     }
@@ -57,12 +78,13 @@ export const usePermissions = () => {
   // Get user role display text
   const getRoleDisplayText = (): string => {
     if (!currentUser) return 'Not joined';
-    return currentUser.role === 'ORGANIZER' ? 'Organizer' : 'Player';
+    return ROLE_LABELS[currentUser.role] || 'Player';
   };
 
-  // Check if user has a specific role
-  const hasRole = (role: 'ORGANIZER' | 'PLAYER'): boolean => {
-    return currentUser?.role === role;
+  // Check if user has a specific role, or any of several
+  const hasRole = (required: SessionRole | SessionRole[]): boolean => {
+    if (!role) return false;
+    return Array.isArray(required) ? required.includes(role) : role === required;
   };
 
   return {
@@ -79,6 +101,10 @@ export const usePermissions = () => {
     canModifyPairings: canModifyPairings(),
     canTerminateSession: canTerminateSession(),
     canReactivateSession: canReactivateSession(),
+    canRecordScores: canRecordScores(),
+    canManageCourts: canManageCourts(),
+    canApproveJoins: canApproveJoins(),
+    canManageRoles: canManageRoles(),
 
     // Utility functions
     checkPermission,
@@ -149,7 +149,8 @@ export default function CreateSessionScreen() {
         setCreatedSession({
           ...result.data.session,
           shareCode,
-          organizerSecret: result.data.organizerSecret
+          organizerSecret: result.data.organizerSecret,
+          recoveryCodes: result.data.recoveryCodes
         });
         setShowShareModal(true);
       } else {
@@ -291,6 +292,7 @@ export default function CreateSessionScreen() {
           sessionName={createdSession.name}
           sessionDate={formatDateTime(new Date(createdSession.scheduledAt))}
           organizerSecret={createdSession.organizerSecret}
+          recoveryCodes={createdSession.recoveryCodes}
         />
       )}
     </KeyboardAvoidingView>
@@ -104,7 +104,15 @@ export default function JoinSessionScreen() {
 
       const result = await response.json();
 
-      if (result.success) {
+      if (result.success && result.data?.joinRequest) {
+        Alert.alert('Request sent', 'The organizer needs to approve your request before you can join.');
+      } else if (result.success && result.data?.waitlistEntry) {
+        const { position } = result.data.waitlistEntry;
+        Alert.alert(
+          'Added to waitlist',
+          `The session is full${position ? `; you are number ${position} on the waitlist` : ''}. We'll let you know when a spot opens up.`
+        );
+      } else if (result.success) {
         Alert.alert(
           'Success!',
           `Welcome to the session, ${playerName}!`,
@@ -133,6 +133,7 @@ export default function LiveGameScreen() {
   const [winByTwo, setWinByTwo] = useState(true);
   const [lastRefresh, setLastRefresh] = useState<number>(0);
   const [isEditingCourtSettings, setIsEditingCourtSettings] = useState(false);
+  const [plannedRounds, setPlannedRounds] = useState<Record<string, number | null>>({});
 
   // Enhanced queue functionality
   const enhancedQueue = useEnhancedQueue(selectedCourt);
@@ -209,6 +210,23 @@ export default function LiveGameScreen() {
     }
   };
 
+  // Lookahead plan so the Up Next banner can show which round each player is scheduled for
+  const fetchRotationPlan = async () => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/mvp-sessions/${route.params.shareCode}/rotation/plan?rounds=3`);
+      if (!response.ok) return;
+
+      const data = await response.json();
+      const rounds: Record<string, number | null> = {};
+      data.data.plan.players.forEach((player: { playerId: string; nextRound: number | null }) => {
+        rounds[player.playerId] = player.nextRound;
+      });
+      setPlannedRounds(rounds);
+    } catch (error) {
+      console.warn('Failed to fetch rotation plan:', error);
+    }
+  };
+
   const fetchSessionData = async () => {
     try {
       setLoading(true);
@@ -259,6 +277,7 @@ export default function LiveGameScreen() {
       };
       
       setSessionData(transformedData);
+      fetchRotationPlan();
       
       // Initialize court settings from session data
       const sessionCourtCount = session.courtCount || 1; // Default to 1 court, not 2
@@ -792,7 +811,8 @@ export default function LiveGameScreen() {
         },
         body: JSON.stringify({
           team1FinalScore: game.team1.score,
-          team2FinalScore: game.team2.score
+          team2FinalScore: game.team2.score,
+          deviceId
         }),
       });
 
@@ -1009,6 +1029,7 @@ export default function LiveGameScreen() {
         showDuringGame={!!court.currentGame}
         courtId={court.id}
         estimatedWaitTimes={enhancedQueue.getWaitTimeEstimates(4)}
+        plannedRounds={plannedRounds}
         isVisible={enhancedQueue.showUpNextBanner}
       />
 
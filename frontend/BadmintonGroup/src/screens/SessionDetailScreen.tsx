@@ -584,7 +584,7 @@ export default function SessionDetailScreen() {
       const result = await fetch(`${API_BASE_URL}/mvp-sessions/${shareCode}/games/${selectedGame.id}/score`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(scoreForm)
+        body: JSON.stringify({ ...scoreForm, deviceId })
       });
 
       const response = await result.json();
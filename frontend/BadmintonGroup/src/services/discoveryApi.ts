@@ -37,6 +37,16 @@ export interface DiscoveryResponse {
   filters: DiscoveryFilters;
 }
 
+export interface DiscoveryJoinResult {
+  sessionId: string;
+  shareCode: string;
+  joined: boolean; // False while the organizer has still to approve the request, or while on the waitlist
+  playerId?: string;
+  joinRequestId?: string;
+  waitlistEntryId?: string;
+  waitlistPosition?: number | null;
+}
+
 export interface ApiResponse<T> {
   success: boolean;
   data?: T;
@@ -224,7 +234,10 @@ class DiscoveryApiService {
   /**
    * Join a session discovered through the discovery system
    */
-  async joinSessionFromDiscovery(sessionId: string, playerData: { playerName: string; deviceId: string }): Promise<{ sessionId: string; shareCode: string; joined: boolean }> {
+  async joinSessionFromDiscovery(
+    sessionId: string,
+    playerData: { playerName: string; deviceId: string; accessCode?: string; inviteToken?: string }
+  ): Promise<DiscoveryJoinResult> {
     try {
       const response = await fetch(`${this.baseUrl}/${sessionId}/join`, {
         method: 'POST',
@@ -234,7 +247,7 @@ class DiscoveryApiService {
         body: JSON.stringify(playerData),
       });
 
-      const result: ApiResponse<{ sessionId: string; shareCode: string; joined: boolean }> = await response.json();
+      const result: ApiResponse<DiscoveryJoinResult> = await response.json();
 
       if (!result.success) {
         throw new Error(result.error?.message || 'Failed to join session');
@@ -2,6 +2,7 @@
 // Connects to your existing backend MvpSession endpoints
 
 import { ApiService } from './apiService';
+import { DelegatedRole, SessionRole } from '../types/permissions';
 
 // Types based on your backend API
 export interface MvpSession {
@@ -19,18 +20,166 @@ export interface MvpSession {
   shareUrl: string;
   createdAt: string;
   updatedAt?: string;
+  access?: SessionAccess;
+  seriesId?: string | null; // Set when the session is an occurrence of a recurring series
+}
+
+// What joining a session needs; the access code itself is never sent to players
+export interface SessionAccess {
+  requireApproval: boolean;
+  inviteOnly: boolean;
+  accessCodeRequired: boolean;
+}
+
+export interface MvpJoinRequest {
+  id: string;
+  name: string;
+  deviceId?: string;
+  category?: PlayerCategory | null;
+  status: 'PENDING' | 'APPROVED' | 'REJECTED';
+  playerId?: string | null;
+  createdAt: string;
+  respondedAt?: string | null;
+}
+
+export interface MvpSessionInvite {
+  id: string;
+  invitedName?: string | null;
+  expiresAt: string;
+}
+
+// A place on a full session's waitlist; OFFERED entries must accept before offerExpiresAt
+export interface MvpWaitlistEntry {
+  id: string;
+  name: string;
+  status: 'WAITING' | 'OFFERED' | 'ACCEPTED' | 'EXPIRED' | 'LEFT';
+  position: number | null;
+  offerExpiresAt?: string | null;
+  playerId?: string | null;
+  createdAt: string;
 }
 
 export interface MvpPlayer {
   id: string;
   name: string;
-  role: 'ORGANIZER' | 'PLAYER';
+  role: SessionRole;
   status: 'ACTIVE' | 'RESTING' | 'LEFT';
   gamesPlayed: number;
   wins: number;
   losses: number;
   joinedAt: string;
   deviceId?: string;
+  category?: PlayerCategory | null;
+}
+
+export type PlayerCategory = 'male' | 'female';
+
+export interface RotationPlanPlayer {
+  id: string;
+  name: string;
+}
+
+export interface RotationPlanRound {
+  round: number;
+  games: Array<{
+    gameNumber: number;
+    court: { id: string; name: string };
+    format: 'SINGLES' | 'DOUBLES';
+    team1: RotationPlanPlayer[];
+    team2: RotationPlanPlayer[];
+    fairnessScore: number;
+    team1WinProbability: number;
+  }>;
+  sittingOut: RotationPlanPlayer[];
+  resting: RotationPlanPlayer[];
+}
+
+export interface RotationPlan {
+  rounds: RotationPlanRound[];
+  players: Array<{
+    playerId: string;
+    playerName: string;
+    nextRound: number | null;
+    plannedRounds: number[];
+    sitOuts: number;
+  }>;
+  metrics: {
+    sitOutVariance: number;
+    repeatedPartnerships: number;
+  };
+}
+
+export interface RallyRecord {
+  rallyNumber: number;
+  setNumber: number;
+  winnerTeam: 1 | 2;
+  serverTeam: 1 | 2;
+  server: string;
+  receiver: string;
+  serviceCourt: 'RIGHT' | 'LEFT';
+  team1Score: number;
+  team2Score: number;
+}
+
+export interface RallyLog {
+  state: {
+    sets: Array<{ setNumber: number; team1Score: number; team2Score: number; winnerTeam?: 1 | 2; isCompleted: boolean }>;
+    currentSet: number;
+    setsWon: { team1: number; team2: number };
+    servingTeam: 1 | 2;
+    server: string;
+    receiver: string;
+    serviceCourt: 'RIGHT' | 'LEFT';
+    rallies: RallyRecord[];
+    isComplete: boolean;
+    winnerTeam?: 1 | 2;
+  };
+  momentum: {
+    longestRun: { team1: number; team2: number };
+    currentRun: { team: 1 | 2; points: number } | null;
+    leadChanges: number;
+  };
+}
+
+export interface ScoreResult {
+  team1FinalScore: number;
+  team2FinalScore: number;
+  winnerTeam: number | null;
+  status: 'IN_PROGRESS' | 'COMPLETED';
+}
+
+export interface ScoreHistoryEntry {
+  event: {
+    id: string;
+    sequence: number;
+    type: 'SCORE' | 'UNDO' | 'REDO';
+    actorDeviceId?: string | null;
+    actorName?: string | null;
+    createdAt: string;
+  };
+  before: ScoreResult;
+  after: ScoreResult;
+  inEffect: boolean;
+}
+
+export interface ScoreHistoryResponse {
+  history: ScoreHistoryEntry[];
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+export type ScoreConfirmationStatus = 'PENDING' | 'CONFIRMED' | 'DISPUTED';
+
+export interface ScoreConfirmation {
+  game: {
+    id: string;
+    confirmationStatus: ScoreConfirmationStatus;
+    submittedBy?: string | null;
+    confirmedBy?: string | null;
+    confirmedAt?: string | null;
+    disputedBy?: string | null;
+    disputeReason?: string | null;
+  };
 }
 
 export interface CreateSessionRequest {
@@ -41,9 +190,111 @@ export interface CreateSessionRequest {
   ownerDeviceId?: string;
 }
 
+// A repeating session; each occurrence is a session with its own share code
+export interface MvpSessionSeries {
+  id: string;
+  name: string;
+  recurrenceRule: string; // RRULE-style, e.g. FREQ=WEEKLY;BYDAY=TU,TH
+  startsAt: string;
+  timeZone: string;
+  horizonDays: number;
+  location?: string | null;
+  maxPlayers: number;
+  skillLevel?: string | null;
+  cost?: number | null;
+  description?: string | null;
+  courtCount: number;
+  ownerName: string;
+  status: 'ACTIVE' | 'ENDED';
+  regulars?: MvpSeriesRegular[];
+  occurrences?: MvpSeriesOccurrence[];
+}
+
+export interface MvpSeriesOccurrence {
+  id: string;
+  shareCode: string;
+  name?: string;
+  scheduledAt: string;
+  location?: string | null;
+  maxPlayers?: number;
+  seriesOverride?: boolean; // Edited on its own, so series-wide edits leave it alone
+  recoveryCodes?: string[]; // Only when the occurrence was just created for the organizer
+  playerCount?: number;
+}
+
+export interface MvpSeriesRegular {
+  id: string;
+  name: string;
+  category?: PlayerCategory | null;
+}
+
+export interface CreateSeriesRequest {
+  name: string;
+  startsAt: string;
+  recurrenceRule: string;
+  timeZone?: string;
+  horizonDays?: number;
+  location?: string;
+  maxPlayers?: number;
+  organizerName: string;
+  ownerDeviceId: string;
+}
+
+export interface OccurrenceChanges {
+  name?: string;
+  location?: string | null;
+  maxPlayers?: number;
+  skillLevel?: string | null;
+  cost?: number | null;
+  description?: string | null;
+  courtCount?: number;
+  scheduledAt?: string; // Only when editing a single occurrence
+}
+
+export type OwnershipTransferStatus = 'PENDING' | 'ACCEPTED' | 'DECLINED' | 'CANCELLED' | 'EXPIRED';
+
+export interface OwnershipTransfer {
+  id: string;
+  fromPlayerId: string;
+  toPlayerId: string;
+  status: OwnershipTransferStatus;
+  expiresAt: string;
+  respondedAt?: string | null;
+  createdAt: string;
+}
+
+export interface OwnershipEvent {
+  id: string;
+  type:
+    | 'CREATED'
+    | 'CLAIMED'
+    | 'RECOVERED_WITH_CODE'
+    | 'RECOVERED_WITH_ACCOUNT'
+    | 'RECOVERY_CODES_REISSUED'
+    | 'TRANSFER_REQUESTED'
+    | 'TRANSFER_ACCEPTED'
+    | 'TRANSFER_DECLINED'
+    | 'TRANSFER_CANCELLED'
+    | 'ACCOUNT_LINKED'
+    | 'ACCOUNT_UNLINKED';
+  fromName?: string | null;
+  toName?: string | null;
+  linkedAccount: boolean;
+  transferId?: string | null;
+  createdAt: string;
+}
+
+export interface RecoveredOwnership {
+  player: Pick<MvpPlayer, 'id' | 'name' | 'role'>;
+  currentUserRole: 'ORGANIZER';
+}
+
 export interface JoinSessionRequest {
   name: string;
   deviceId?: string;
+  category?: PlayerCategory;
+  accessCode?: string;
+  inviteToken?: string; // From an organizer's invite link
 }
 
 export interface ApiResponse<T> {
@@ -65,8 +316,9 @@ class MvpApiService extends ApiService {
   }
 
   // Create a new MVP session
-  async createMvpSession(sessionData: CreateSessionRequest): Promise<ApiResponse<{ session: MvpSession }>> {
-    return this.request<{ session: MvpSession }>('/mvp-sessions', {
+  // The recovery codes are only ever shown here, so the organizer should be asked to keep them
+  async createMvpSession(sessionData: CreateSessionRequest): Promise<ApiResponse<{ session: MvpSession; recoveryCodes?: string[] }>> {
+    return this.request<{ session: MvpSession; recoveryCodes?: string[] }>('/mvp-sessions', {
       method: 'POST',
       body: JSON.stringify(sessionData),
     }, true); // Enable offline support
@@ -95,12 +347,16 @@ class MvpApiService extends ApiService {
     }
   }
 
-  // Join a session via share code
-  async joinSession(shareCode: string, playerData: JoinSessionRequest): Promise<ApiResponse<{ player: MvpPlayer }>> {
+  // Join a session via share code; sessions that need approval return a join request instead of a player,
+  // and full sessions a waitlist entry
+  async joinSession(
+    shareCode: string,
+    playerData: JoinSessionRequest
+  ): Promise<ApiResponse<{ player?: MvpPlayer; joinRequest?: MvpJoinRequest; waitlistEntry?: MvpWaitlistEntry }>> {
     const startTime = Date.now();
     
     try {
-      const result = await this.request<{ player: MvpPlayer }>(`/mvp-sessions/join/${shareCode}`, {
+      const result = await this.request<{ player?: MvpPlayer; joinRequest?: MvpJoinRequest; waitlistEntry?: MvpWaitlistEntry }>(`/mvp-sessions/join/${shareCode}`, {
         method: 'POST',
         body: JSON.stringify(playerData),
       }, true);
@@ -179,6 +435,351 @@ class MvpApiService extends ApiService {
     }, true);
   }
 
+  // Set a player's mixed doubles category (organizer or self)
+  async updatePlayerCategory(
+    shareCode: string,
+    playerId: string,
+    category: PlayerCategory | null,
+    deviceId: string
+  ): Promise<ApiResponse<{ player: Pick<MvpPlayer, 'id' | 'name' | 'category'> }>> {
+    return this.request<{ player: Pick<MvpPlayer, 'id' | 'name' | 'category'> }>(`/mvp-sessions/${shareCode}/players/${playerId}/category`, {
+      method: 'PUT',
+      body: JSON.stringify({ category, deviceId }),
+    }, true);
+  }
+
+  // Promote a player to a delegated role or demote them back to player (organizer only)
+  async updatePlayerRole(
+    shareCode: string,
+    playerId: string,
+    role: DelegatedRole,
+    deviceId: string
+  ): Promise<ApiResponse<{ player: Pick<MvpPlayer, 'id' | 'name' | 'role'> }>> {
+    return this.request<{ player: Pick<MvpPlayer, 'id' | 'name' | 'role'> }>(`/mvp-sessions/${shareCode}/players/${playerId}/role`, {
+      method: 'PUT',
+      body: JSON.stringify({ role, deviceId }),
+    }, true);
+  }
+
+  // Get the lookahead plan for the next rounds across all courts
+  async getRotationPlan(
+    shareCode: string,
+    rounds = 3
+  ): Promise<ApiResponse<{ plan: RotationPlan; rounds: number; mode: 'standard' | 'mixed' }>> {
+    return this.request<{ plan: RotationPlan; rounds: number; mode: 'standard' | 'mixed' }>(`/mvp-sessions/${shareCode}/rotation/plan?rounds=${rounds}`, {
+      method: 'GET',
+    });
+  }
+
+  // Get the rally-by-rally log with current server and set scores
+  async getRallyLog(shareCode: string, gameId: string): Promise<ApiResponse<RallyLog>> {
+    return this.request<RallyLog>(`/mvp-sessions/${shareCode}/games/${gameId}/rallies`, {
+      method: 'GET',
+    });
+  }
+
+  // Record the winner of one rally; the first rally can also set who serves and receives
+  async recordRally(
+    shareCode: string,
+    gameId: string,
+    winnerTeam: 1 | 2,
+    deviceId: string,
+    serve?: { firstServerTeam?: 1 | 2; firstServer?: string; firstReceiver?: string }
+  ): Promise<ApiResponse<RallyLog>> {
+    return this.request<RallyLog>(`/mvp-sessions/${shareCode}/games/${gameId}/rallies`, {
+      method: 'POST',
+      body: JSON.stringify({ winnerTeam, deviceId, ...serve }),
+    });
+  }
+
+  // Get every score edit for a game, including undone ones
+  async getScoreHistory(shareCode: string, gameId: string): Promise<ApiResponse<ScoreHistoryResponse>> {
+    return this.request<ScoreHistoryResponse>(`/mvp-sessions/${shareCode}/games/${gameId}/score/history`, {
+      method: 'GET',
+    });
+  }
+
+  // Undo or redo the latest score edit for a game
+  async revertScore(
+    shareCode: string,
+    gameId: string,
+    action: 'undo' | 'redo',
+    deviceId: string
+  ): Promise<ApiResponse<ScoreHistoryResponse>> {
+    return this.request<ScoreHistoryResponse>(`/mvp-sessions/${shareCode}/games/${gameId}/score/${action}`, {
+      method: 'POST',
+      body: JSON.stringify({ deviceId }),
+    });
+  }
+
+  // Confirm a score submitted by the other side, or approve it as the organizer
+  async confirmScore(shareCode: string, gameId: string, deviceId: string): Promise<ApiResponse<ScoreConfirmation>> {
+    return this.request<ScoreConfirmation>(`/mvp-sessions/${shareCode}/games/${gameId}/confirm`, {
+      method: 'POST',
+      body: JSON.stringify({ deviceId }),
+    });
+  }
+
+  // Check whether the organizer has answered a join request
+  async getJoinRequest(shareCode: string, requestId: string): Promise<ApiResponse<{ joinRequest: MvpJoinRequest }>> {
+    return this.request<{ joinRequest: MvpJoinRequest }>(`/mvp-sessions/join/${shareCode}/requests/${requestId}`, {
+      method: 'GET',
+    });
+  }
+
+  // Join requests waiting for approval (organizer only)
+  async getJoinRequests(shareCode: string, deviceId: string): Promise<ApiResponse<{ joinRequests: MvpJoinRequest[] }>> {
+    return this.request<{ joinRequests: MvpJoinRequest[] }>(
+      `/mvp-sessions/${shareCode}/join-requests?deviceId=${encodeURIComponent(deviceId)}`,
+      { method: 'GET' }
+    );
+  }
+
+  // Let a join request in, or turn it away (organizer only)
+  async answerJoinRequest(
+    shareCode: string,
+    requestId: string,
+    approve: boolean,
+    deviceId: string
+  ): Promise<ApiResponse<{ joinRequest: MvpJoinRequest; player: MvpPlayer | null }>> {
+    return this.request<{ joinRequest: MvpJoinRequest; player: MvpPlayer | null }>(
+      `/mvp-sessions/${shareCode}/join-requests/${requestId}/${approve ? 'approve' : 'reject'}`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ deviceId }),
+      }
+    );
+  }
+
+  // Create a single-use invite; share the token as ?invite= on the session link (organizer only)
+  async createInvite(
+    shareCode: string,
+    deviceId: string,
+    options: { invitedName?: string; expiresInHours?: number } = {}
+  ): Promise<ApiResponse<{ invite: MvpSessionInvite; token: string }>> {
+    return this.request<{ invite: MvpSessionInvite; token: string }>(`/mvp-sessions/${shareCode}/invites`, {
+      method: 'POST',
+      body: JSON.stringify({ deviceId, ...options }),
+    });
+  }
+
+  // The session's waitlist, in the order spots will be offered
+  async getWaitlist(shareCode: string): Promise<ApiResponse<{ waitlist: MvpWaitlistEntry[] }>> {
+    return this.request<{ waitlist: MvpWaitlistEntry[] }>(`/mvp-sessions/${shareCode}/waitlist`, {
+      method: 'GET',
+    });
+  }
+
+  // Check a waitlist entry's place in the queue, or whether a spot has been offered
+  async getWaitlistEntry(shareCode: string, entryId: string): Promise<ApiResponse<{ waitlistEntry: MvpWaitlistEntry }>> {
+    return this.request<{ waitlistEntry: MvpWaitlistEntry }>(`/mvp-sessions/${shareCode}/waitlist/${entryId}`, {
+      method: 'GET',
+    });
+  }
+
+  // Take an offered spot before the confirmation window closes
+  async acceptWaitlistOffer(
+    shareCode: string,
+    entryId: string,
+    deviceId: string
+  ): Promise<ApiResponse<{ waitlistEntry: MvpWaitlistEntry; player: MvpPlayer }>> {
+    return this.request<{ waitlistEntry: MvpWaitlistEntry; player: MvpPlayer }>(
+      `/mvp-sessions/${shareCode}/waitlist/${entryId}/accept`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ deviceId }),
+      }
+    );
+  }
+
+  // Leave the waitlist, or turn down an offered spot
+  async leaveWaitlist(shareCode: string, entryId: string, deviceId: string): Promise<ApiResponse<{ waitlistEntry: MvpWaitlistEntry }>> {
+    return this.request<{ waitlistEntry: MvpWaitlistEntry }>(`/mvp-sessions/${shareCode}/waitlist/${entryId}`, {
+      method: 'DELETE',
+      body: JSON.stringify({ deviceId }),
+    });
+  }
+
+  // Revoke an invite that hasn't been used (organizer only)
+  async revokeInvite(shareCode: string, inviteId: string, deviceId: string): Promise<ApiResponse<void>> {
+    return this.request<void>(`/mvp-sessions/${shareCode}/invites/${inviteId}`, {
+      method: 'DELETE',
+      body: JSON.stringify({ deviceId }),
+    });
+  }
+
+  // Create a recurring series; upcoming occurrences are created straight away
+  async createSeries(
+    seriesData: CreateSeriesRequest
+  ): Promise<ApiResponse<{ series: MvpSessionSeries; occurrences: MvpSeriesOccurrence[] }>> {
+    return this.request<{ series: MvpSessionSeries; occurrences: MvpSeriesOccurrence[] }>('/session-series', {
+      method: 'POST',
+      body: JSON.stringify(seriesData),
+    });
+  }
+
+  // A series with its regulars and upcoming occurrences
+  async getSeries(seriesId: string): Promise<ApiResponse<{ series: MvpSessionSeries }>> {
+    return this.request<{ series: MvpSessionSeries }>(`/session-series/${seriesId}`, {
+      method: 'GET',
+    });
+  }
+
+  // Edit one occurrence, or it and every later one (series organizer only)
+  async updateOccurrence(
+    shareCode: string,
+    scope: 'THIS' | 'FUTURE',
+    changes: OccurrenceChanges,
+    deviceId: string
+  ): Promise<ApiResponse<{ occurrences: MvpSeriesOccurrence[] }>> {
+    return this.request<{ occurrences: MvpSeriesOccurrence[] }>(`/session-series/occurrences/${shareCode}`, {
+      method: 'PUT',
+      body: JSON.stringify({ deviceId, scope, ...changes }),
+    });
+  }
+
+  // Stop creating new occurrences (series organizer only)
+  async endSeries(seriesId: string, deviceId: string): Promise<ApiResponse<{ series: MvpSessionSeries }>> {
+    return this.request<{ series: MvpSessionSeries }>(`/session-series/${seriesId}/end`, {
+      method: 'POST',
+      body: JSON.stringify({ deviceId }),
+    });
+  }
+
+  // Become a regular and be added to every new occurrence
+  async joinSeriesAsRegular(
+    seriesId: string,
+    player: { name: string; deviceId?: string; category?: PlayerCategory }
+  ): Promise<ApiResponse<{ regular: MvpSeriesRegular; joinedShareCodes: string[] }>> {
+    return this.request<{ regular: MvpSeriesRegular; joinedShareCodes: string[] }>(`/session-series/${seriesId}/regulars`, {
+      method: 'POST',
+      body: JSON.stringify(player),
+    });
+  }
+
+  // Stop being a regular; sessions already joined are left as they are
+  async leaveSeries(seriesId: string, regularId: string, deviceId: string): Promise<ApiResponse<void>> {
+    return this.request<void>(`/session-series/${seriesId}/regulars/${regularId}`, {
+      method: 'DELETE',
+      body: JSON.stringify({ deviceId }),
+    });
+  }
+
+  // Replace the session's recovery codes; the old ones stop working (owner only)
+  async reissueRecoveryCodes(shareCode: string, deviceId: string): Promise<ApiResponse<{ recoveryCodes: string[] }>> {
+    return this.request<{ recoveryCodes: string[] }>(`/mvp-sessions/${shareCode}/ownership/recovery-codes`, {
+      method: 'POST',
+      body: JSON.stringify({ deviceId }),
+    });
+  }
+
+  // Take the session back on this device with a recovery code
+  async recoverWithCode(
+    shareCode: string,
+    recoveryCode: string,
+    deviceId: string,
+    playerName?: string
+  ): Promise<ApiResponse<RecoveredOwnership>> {
+    return this.request<RecoveredOwnership>(`/mvp-sessions/${shareCode}/ownership/recover`, {
+      method: 'POST',
+      body: JSON.stringify({ recoveryCode, deviceId, playerName }),
+    });
+  }
+
+  // Take the session back on this device with the account linked to it
+  async recoverWithAccount(
+    shareCode: string,
+    accessToken: string,
+    deviceId: string,
+    playerName?: string
+  ): Promise<ApiResponse<RecoveredOwnership>> {
+    return this.request<RecoveredOwnership>(`/mvp-sessions/${shareCode}/ownership/recover/account`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${accessToken}` },
+      body: JSON.stringify({ deviceId, playerName }),
+    });
+  }
+
+  // Link the session to the logged-in account (owner only)
+  async linkSessionToAccount(shareCode: string, accessToken: string, deviceId: string): Promise<ApiResponse<void>> {
+    return this.request<void>(`/mvp-sessions/${shareCode}/ownership/account`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${accessToken}` },
+      body: JSON.stringify({ deviceId }),
+    });
+  }
+
+  async unlinkSessionFromAccount(shareCode: string, deviceId: string): Promise<ApiResponse<void>> {
+    return this.request<void>(`/mvp-sessions/${shareCode}/ownership/account`, {
+      method: 'DELETE',
+      body: JSON.stringify({ deviceId }),
+    });
+  }
+
+  // Offers of the session waiting for an answer
+  async getOwnershipTransfers(shareCode: string): Promise<ApiResponse<{ transfers: OwnershipTransfer[] }>> {
+    return this.request<{ transfers: OwnershipTransfer[] }>(`/mvp-sessions/${shareCode}/ownership/transfers`, {
+      method: 'GET',
+    });
+  }
+
+  // Offer the session to another player; they have to accept (owner only)
+  async requestOwnershipTransfer(
+    shareCode: string,
+    toPlayerId: string,
+    deviceId: string,
+    expiresInHours?: number
+  ): Promise<ApiResponse<{ transfer: OwnershipTransfer }>> {
+    return this.request<{ transfer: OwnershipTransfer }>(`/mvp-sessions/${shareCode}/ownership/transfers`, {
+      method: 'POST',
+      body: JSON.stringify({ toPlayerId, deviceId, expiresInHours }),
+    });
+  }
+
+  // Accept or decline an offer made to this device's player
+  async respondToOwnershipTransfer(
+    shareCode: string,
+    transferId: string,
+    accept: boolean,
+    deviceId: string
+  ): Promise<ApiResponse<{ transfer: OwnershipTransfer }>> {
+    return this.request<{ transfer: OwnershipTransfer }>(
+      `/mvp-sessions/${shareCode}/ownership/transfers/${transferId}/${accept ? 'accept' : 'decline'}`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ deviceId }),
+      }
+    );
+  }
+
+  async cancelOwnershipTransfer(shareCode: string, transferId: string, deviceId: string): Promise<ApiResponse<void>> {
+    return this.request<void>(`/mvp-sessions/${shareCode}/ownership/transfers/${transferId}`, {
+      method: 'DELETE',
+      body: JSON.stringify({ deviceId }),
+    });
+  }
+
+  // Every change of owner, newest first (owner only)
+  async getOwnershipLog(shareCode: string, deviceId: string): Promise<ApiResponse<{ events: OwnershipEvent[] }>> {
+    return this.request<{ events: OwnershipEvent[] }>(
+      `/mvp-sessions/${shareCode}/ownership/log?deviceId=${encodeURIComponent(deviceId)}`,
+      { method: 'GET' }
+    );
+  }
+
+  // Dispute a pending score so the organizer can settle it
+  async disputeScore(
+    shareCode: string,
+    gameId: string,
+    deviceId: string,
+    reason?: string
+  ): Promise<ApiResponse<ScoreConfirmation>> {
+    return this.request<ScoreConfirmation>(`/mvp-sessions/${shareCode}/games/${gameId}/dispute`, {
+      method: 'POST',
+      body: JSON.stringify({ deviceId, reason }),
+    });
+  }
+
   // Utility method: Format session for share message (WeChat/WhatsApp)
   formatSessionForShare(session: MvpSession): string {
     const date = new Date(session.scheduledAt).toLocaleDateString('zh-CN', {
@@ -44,8 +44,9 @@ export interface SessionGame {
   id: string;
   gameNumber: number;
   courtName?: string;
+  format?: 'SINGLES' | 'DOUBLES';
   team1Player1: string;
-  team1Player2: string;
+  team1Player2: string; // Empty for singles
   team2Player1: string;
   team2Player2: string;
   team1FinalScore: number;
@@ -66,7 +67,7 @@ export interface ApiResponse<T> {
   timestamp: string;
 }
 
-export interface SessionResponse extends ApiResponse<{ session: SessionData; shareLink: string }> {}
+export interface SessionResponse extends ApiResponse<{ session: SessionData; shareLink: string; recoveryCodes?: string[] }> {}
 export interface SessionsListResponse extends ApiResponse<{ sessions: SessionData[] }> {}
 export interface JoinSessionResponse extends ApiResponse<{ player: SessionPlayer; session: SessionData }> {}
 
@@ -247,10 +248,11 @@ class SessionApiService {
   // Create a new game
   async createGame(shareCode: string, gameData: {
     team1Player1: string;
-    team1Player2: string;
+    team1Player2?: string;
     team2Player1: string;
-    team2Player2: string;
+    team2Player2?: string;
     courtName?: string;
+    format?: 'SINGLES' | 'DOUBLES';
   }): Promise<ApiResponse<{ game: SessionGame }>> {
     try {
       const response = await fetch(`${this.baseUrl}/mvp-sessions/${shareCode}/games`, {
@@ -272,10 +274,11 @@ class SessionApiService {
     team2FinalScore: number;
   }): Promise<ApiResponse<{ game: SessionGame }>> {
     try {
+      const deviceId = await this.getDeviceId();
       const response = await fetch(`${this.baseUrl}/mvp-sessions/${shareCode}/games/${gameId}/score`, {
         method: 'PUT',
         headers: this.getHeaders(),
-        body: JSON.stringify(scores),
+        body: JSON.stringify({ ...scores, deviceId }),
       });
 
       return this.handleResponse<ApiResponse<{ game: SessionGame }>>(response);
@@ -1,5 +1,6 @@
 import { io, Socket } from 'socket.io-client';
 import { API_BASE_URL } from '../config/api';
+import { SessionRole } from '../types/permissions';
 
 export interface SocketEvents {
   // Session events
@@ -7,6 +8,30 @@ export interface SocketEvents {
   'session:player-joined': (player: any) => void;
   'session:player-left': (player: any) => void;
   'session:status-changed': (status: string) => void;
+  'player_role_changed': (data: {
+    playerId: string;
+    playerName: string;
+    role: SessionRole;
+    previousRole: SessionRole;
+    changedBy: string;
+    timestamp: string;
+  }) => void;
+  'ownership_changed': (data: {
+    playerId: string;
+    ownerName: string;
+    previousPlayerId: string | null;
+    reason: string;
+    timestamp: string;
+  }) => void;
+  'ownership_transfer_requested': (data: {
+    transferId: string;
+    fromPlayerId: string;
+    fromName: string;
+    toPlayerId: string;
+    toName: string;
+    expiresAt: string;
+    timestamp: string;
+  }) => void;
 
   // Discovery events
   'discovery:sessions': (data: { sessions: any[]; location: any; radius: number; timestamp: string }) => void;
@@ -190,6 +215,21 @@ class SocketService {
       this.emitToListeners('session:player-left', data);
     });
 
+    this.socket.on('player_role_changed', (data) => {
+      console.log('🎖️ Player role changed:', data);
+      this.emitToListeners('player_role_changed', data);
+    });
+
+    this.socket.on('ownership_changed', (data) => {
+      console.log('👑 Session ownership changed:', data);
+      this.emitToListeners('ownership_changed', data);
+    });
+
+    this.socket.on('ownership_transfer_requested', (data) => {
+      console.log('🤝 Ownership transfer offered:', data);
+      this.emitToListeners('ownership_transfer_requested', data);
+    });
+
     // Status management event handlers
     this.socket.on('status_request', (data) => {
       console.log('📝 Status change request:', data);
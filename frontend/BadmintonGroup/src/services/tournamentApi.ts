@@ -1,4 +1,6 @@
+import { API_BASE_URL } from '../config/api';
 import apiService from './apiService';
+import DeviceService from './deviceService';
 
 // Tournament Types
 export interface Tournament {
@@ -12,6 +14,7 @@ export interface Tournament {
   startDate: string;
   endDate?: string;
   registrationDeadline: string;
+  checkInMinutes?: number; // Check-in opens this long before the start; unset means no check-in
   venueName?: string;
   venueAddress?: string;
   latitude?: number;
@@ -19,8 +22,17 @@ export interface Tournament {
   matchFormat: 'SINGLES' | 'DOUBLES' | 'MIXED';
   scoringSystem: '21_POINT' | '15_POINT' | '11_POINT';
   bestOfGames: number;
+  swissRounds?: number; // Swiss: rounds to play, defaulting from the number of entries
+  groupCount?: number; // Pool play (MIXED): round-robin groups
+  groupAdvancers?: number; // Pool play: entries from each group going through to the knockout
+  venueId?: string; // Courts are scheduled from the venue when set
+  courtCount?: number; // Numbered courts to schedule on without a venue
+  matchDuration: number; // Minutes per match slot
+  minRestMinutes: number; // Minimum rest for a player between matches
+  separateClubs: boolean; // Knockout draws keep clubmates apart in the first round
   entryFee: number;
   prizePool: number;
+  payoutPercentages?: number[]; // Share of the prize pool for each place, best first; 50/30/20 when unset
   currency: string;
   status: 'DRAFT' | 'REGISTRATION_OPEN' | 'REGISTRATION_CLOSED' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED';
   organizerName: string;
@@ -42,13 +54,39 @@ export interface TournamentPlayer {
   email?: string;
   phone?: string;
   deviceId?: string;
+  category?: 'male' | 'female';
+  club?: string;
   registeredAt: string;
-  seed?: number;
-  status: 'REGISTERED' | 'CONFIRMED' | 'WITHDRAWN' | 'DISQUALIFIED' | 'ADVANCED' | 'ELIMINATED';
+  seed?: number; // Set by the organizer before the draw, then the drawn seed
+  rankingPoints?: number; // Ranking points the draw was seeded on
+  status: 'REGISTERED' | 'PENDING_PAYMENT' | 'CONFIRMED' | 'WAITLISTED' | 'WITHDRAWN' | 'NO_SHOW' | 'DISQUALIFIED' | 'ADVANCED' | 'ELIMINATED';
+  checkedInAt?: string;
+  withdrawnAt?: string; // Withdrew after the draw; their remaining matches are walkovers
+  isScorekeeper?: boolean; // Can start matches and report results for the organizer
   skillLevel?: string;
   winRate: number;
   totalMatches: number;
   currentRound: number;
+  groupNumber?: number; // Pool play: 1 = group A
+  isEliminated: boolean;
+  finalRank?: number;
+  team?: TournamentTeam; // Doubles team created or joined by this registration
+}
+
+// Doubles entry: the captain invites a partner, who registers with the invite code
+export interface TournamentTeam {
+  id: string;
+  tournamentId: string;
+  captainId: string;
+  partnerId?: string;
+  captain?: TournamentPlayer;
+  partner?: TournamentPlayer;
+  invitedName?: string;
+  inviteCode: string;
+  status: 'PENDING_PARTNER' | 'CONFIRMED';
+  confirmedAt?: string;
+  seed?: number;
+  groupNumber?: number; // Pool play: 1 = group A
   isEliminated: boolean;
   finalRank?: number;
 }
@@ -61,6 +99,7 @@ export interface TournamentRound {
   roundType: 'ELIMINATION' | 'ROUND_ROBIN' | 'SWISS' | 'QUALIFICATION';
   matchesRequired: number;
   playersAdvancing?: number;
+  byeEntryId?: string; // Swiss: entry sitting the round out (player, or team in doubles)
   startDate?: string;
   endDate?: string;
   status: 'PENDING' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED';
@@ -74,6 +113,10 @@ export interface TournamentMatch {
   player2Id: string;
   player1: TournamentPlayer;
   player2: TournamentPlayer;
+  team1Id?: string; // Doubles: player1 and player2 are the team captains
+  team2Id?: string;
+  team1?: TournamentTeam;
+  team2?: TournamentTeam;
   matchNumber: number;
   courtName?: string;
   scheduledAt?: string;
@@ -97,6 +140,119 @@ export interface TournamentStats {
   totalSets: number;
   currentRound: number;
   tournamentProgress: number;
+  standings?: SwissStanding[]; // Swiss tournaments only
+  groups?: TournamentGroup[]; // Pool-play tournaments only
+}
+
+export interface GroupStanding {
+  entryId: string; // Player ID in singles, team ID in doubles
+  name: string;
+  playerId: string;
+  teamId: string | null;
+  rank: number;
+  seed: number;
+  played: number;
+  wins: number;
+  losses: number;
+  gamesWon: number;
+  gamesLost: number;
+  gameDifference: number;
+  pointsFor: number;
+  pointsAgainst: number;
+  pointDifference: number;
+}
+
+export interface TournamentGroup {
+  groupNumber: number;
+  name: string; // "Group A"
+  standings: GroupStanding[];
+}
+
+export interface SwissStanding {
+  entryId: string; // Player ID in singles, team ID in doubles
+  name: string;
+  playerId: string;
+  teamId: string | null;
+  rank: number;
+  seed: number;
+  points: number;
+  played: number;
+  wins: number;
+  losses: number;
+  byes: number;
+  gamesWon: number;
+  gamesLost: number;
+  gameDifference: number;
+  buchholz: number;
+  medianBuchholz: number;
+  sonnebornBerger: number;
+  opponents: string[];
+}
+
+export interface MatchGameScore {
+  player1Score: number;
+  player2Score: number;
+}
+
+export interface BracketMatch {
+  id: string;
+  round: number;
+  match: number;
+  player1Id?: string;
+  player2Id?: string;
+  player1Name?: string; // Team name in doubles
+  player2Name?: string;
+  winnerId?: string;
+  score?: string;
+  status: 'PENDING' | 'IN_PROGRESS' | 'COMPLETED' | 'BYE';
+  court?: string;
+  scheduledTime?: string;
+}
+
+export interface BracketRound {
+  roundNumber: number;
+  roundName: string;
+  roundType: 'ELIMINATION' | 'ROUND_ROBIN' | 'SWISS' | 'QUALIFICATION';
+}
+
+export interface TournamentBracket {
+  tournamentId: string;
+  totalRounds: number;
+  totalPlayers: number;
+  bracket: BracketMatch[][];
+  rounds?: BracketRound[];
+  currentRound: number;
+  isComplete: boolean;
+}
+
+export interface ScheduleConflict {
+  type: 'COURT_CLASH' | 'PLAYER_CLASH' | 'SHORT_REST';
+  matchIds: [string, string];
+  courtName?: string;
+  playerId?: string;
+  restMinutes?: number;
+}
+
+export interface OrderOfPlayMatch {
+  id: string;
+  roundName?: string;
+  matchNumber: number;
+  courtName?: string;
+  scheduledAt?: string;
+  startTime?: string;
+  endTime?: string;
+  status: TournamentMatch['status'];
+  player1Name: string; // Team name in doubles
+  player2Name: string;
+}
+
+export interface OrderOfPlay {
+  tournamentId: string;
+  courts: string[];
+  matchDuration: number;
+  minRestMinutes: number;
+  matches: OrderOfPlayMatch[]; // By time; unscheduled matches last
+  conflicts: ScheduleConflict[];
 }
 
 export interface TournamentCreationData {
@@ -108,6 +264,7 @@ export interface TournamentCreationData {
   startDate: Date;
   endDate?: Date;
   registrationDeadline: Date;
+  checkInMinutes?: number;
   venueName?: string;
   venueAddress?: string;
   latitude?: number;
@@ -115,8 +272,17 @@ export interface TournamentCreationData {
   matchFormat: 'SINGLES' | 'DOUBLES' | 'MIXED';
   scoringSystem: '21_POINT' | '15_POINT' | '11_POINT';
   bestOfGames: number;
+  swissRounds?: number;
+  groupCount?: number;
+  groupAdvancers?: number;
+  venueId?: string;
+  courtCount?: number;
+  matchDuration?: number;
+  minRestMinutes?: number;
+  separateClubs?: boolean;
   entryFee: number;
   prizePool: number;
+  payoutPercentages?: number[];
   currency: string;
   organizerName: string;
   organizerEmail?: string;
@@ -134,23 +300,102 @@ export interface TournamentUpdateData {
   startDate?: Date;
   endDate?: Date;
   registrationDeadline?: Date;
+  checkInMinutes?: number | null;
   venueName?: string;
   venueAddress?: string;
   latitude?: number;
   longitude?: number;
+  venueId?: string;
+  courtCount?: number;
+  matchDuration?: number;
+  minRestMinutes?: number;
+  separateClubs?: boolean;
   entryFee?: number;
   prizePool?: number;
+  payoutPercentages?: number[];
   visibility?: 'PUBLIC' | 'PRIVATE' | 'INVITATION_ONLY';
   accessCode?: string;
   status?: 'DRAFT' | 'REGISTRATION_OPEN' | 'REGISTRATION_CLOSED' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED';
 }
 
+export interface EntryPayment {
+  ledgerEntryId: string;
+  paymentIntentId: string;
+  clientSecret: string; // Completes the payment with the payment provider
+  amount: number;
+  currency: string;
+}
+
+export interface TournamentLedgerEntry {
+  id: string;
+  tournamentId: string;
+  type: 'ENTRY_FEE' | 'REFUND' | 'PRIZE_PAYOUT';
+  playerId?: string; // The team's captain for doubles prizes
+  playerName: string;
+  amount: number;
+  currency: string;
+  status: 'PENDING' | 'PAID' | 'REFUNDED' | 'PARTIALLY_REFUNDED' | 'FAILED';
+  paymentIntentId?: string;
+  place?: number; // Prize payouts only
+  percentage?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface TournamentLedger {
+  tournamentId: string;
+  currency: string;
+  entries: TournamentLedgerEntry[];
+  totals: {
+    entryFees: number;
+    refunds: number;
+    prizesOwed: number;
+    prizesPaid: number;
+    balance: number; // Entry fees less refunds and prizes paid
+  };
+}
+
+export interface SeedingEntry {
+  entryId: string; // Player ID in singles, team ID in doubles
+  name: string;
+  seed: number;
+  manualSeed: number | null; // Seed set by the organizer
+  rankingPoints: number;
+  clubs: string[];
+}
+
+export interface SeedChange {
+  id: string;
+  entryId: string;
+  entryName: string;
+  previousSeed: number | null;
+  newSeed: number | null;
+  changedBy: string;
+  reason?: string;
+  createdAt: string;
+}
+
+export interface TournamentSeeding {
+  separateClubs: boolean;
+  entries: SeedingEntry[];
+  changes: SeedChange[]; // Newest first
+}
+
+export interface SeedOverride {
+  entryId: string;
+  seed: number | null; // null clears the organizer's seed
+}
+
 export interface PlayerRegistrationData {
   playerName: string;
   email?: string;
   phone?: string;
   deviceId?: string;
   skillLevel?: string;
+  category?: 'male' | 'female';
+  club?: string;
+  partnerName?: string; // Doubles: invite a partner
+  inviteCode?: string; // Doubles: accept a partner's invitation
 }
 
 export interface TournamentFilters {
@@ -178,7 +423,8 @@ class TournamentApi {
    */
   async createTournament(data: TournamentCreationData): Promise<Tournament> {
     try {
-      const response = await apiService.post('/tournaments', data);
+      // The creating device becomes the tournament's organizer
+      const response = await apiService.post('/tournaments', { ...data, deviceId: await DeviceService.getDeviceId() });
       return response.data as Tournament;
     } catch (error) {
       console.error('Error creating tournament:', error);
@@ -225,7 +471,7 @@ class TournamentApi {
    */
   async updateTournament(id: string, data: TournamentUpdateData): Promise<Tournament> {
     try {
-      const response = await apiService.put(`/tournaments/${id}`, data);
+      const response = await apiService.put(`/tournaments/${id}`, { ...data, deviceId: await DeviceService.getDeviceId() });
       return response.data as Tournament;
     } catch (error) {
       console.error('Error updating tournament:', error);
@@ -238,7 +484,7 @@ class TournamentApi {
    */
   async deleteTournament(id: string): Promise<void> {
     try {
-      await apiService.delete(`/tournaments/${id}`);
+      await apiService.delete(`/tournaments/${id}?deviceId=${encodeURIComponent(await DeviceService.getDeviceId())}`);
     } catch (error) {
       console.error('Error deleting tournament:', error);
       throw error;
@@ -248,10 +494,10 @@ class TournamentApi {
   /**
    * Register player for tournament
    */
-  async registerPlayer(tournamentId: string, data: PlayerRegistrationData): Promise<TournamentPlayer> {
+  async registerPlayer(tournamentId: string, data: PlayerRegistrationData): Promise<TournamentPlayer & { payment?: EntryPayment }> {
     try {
       const response = await apiService.post(`/tournaments/${tournamentId}/register`, data);
-      return response.data as TournamentPlayer;
+      return response.data as TournamentPlayer & { payment?: EntryPayment };
     } catch (error) {
       console.error('Error registering player:', error);
       throw error;
@@ -263,25 +509,260 @@ class TournamentApi {
    */
   async unregisterPlayer(tournamentId: string, playerId: string): Promise<void> {
     try {
-      await apiService.delete(`/tournaments/${tournamentId}/players/${playerId}`);
+      await apiService.delete(`/tournaments/${tournamentId}/players/${playerId}?deviceId=${encodeURIComponent(await DeviceService.getDeviceId())}`);
     } catch (error) {
       console.error('Error unregistering player:', error);
       throw error;
     }
   }
 
+  /**
+   * Withdraw player; once the tournament has started their remaining matches are walkovers
+   */
+  async withdrawPlayer(tournamentId: string, playerId: string): Promise<void> {
+    try {
+      await apiService.post(`/tournaments/${tournamentId}/players/${playerId}/withdraw`, { deviceId: await DeviceService.getDeviceId() });
+    } catch (error) {
+      console.error('Error withdrawing player:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Make a player a scorekeeper, or stop them being one (organizer only)
+   */
+  async setScorekeeper(tournamentId: string, playerId: string, isScorekeeper: boolean): Promise<TournamentPlayer> {
+    try {
+      const response = await apiService.put(`/tournaments/${tournamentId}/players/${playerId}/scorekeeper`, {
+        isScorekeeper,
+        deviceId: await DeviceService.getDeviceId(),
+      });
+      return response.data as TournamentPlayer;
+    } catch (error) {
+      console.error('Error updating scorekeeper:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check player in during the check-in window
+   */
+  async checkInPlayer(tournamentId: string, playerId: string): Promise<TournamentPlayer> {
+    try {
+      const response = await apiService.post(`/tournaments/${tournamentId}/players/${playerId}/check-in`, { deviceId: await DeviceService.getDeviceId() });
+      return response.data as TournamentPlayer;
+    } catch (error) {
+      console.error('Error checking in player:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remind players who haven't checked in yet; returns how many were reminded
+   */
+  async sendCheckInReminders(tournamentId: string): Promise<number> {
+    try {
+      const response = await apiService.post(`/tournaments/${tournamentId}/check-in/reminders`, { deviceId: await DeviceService.getDeviceId() });
+      return (response.data as { reminded: number }).reminded;
+    } catch (error) {
+      console.error('Error sending check-in reminders:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Start paying a player's entry fee, or pick up the payment already under way
+   */
+  async createEntryPayment(tournamentId: string, playerId: string): Promise<EntryPayment> {
+    try {
+      const response = await apiService.post(`/tournaments/${tournamentId}/players/${playerId}/payment`);
+      return response.data as EntryPayment;
+    } catch (error) {
+      console.error('Error starting entry payment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Confirm a player's place once their entry payment has gone through
+   */
+  async confirmEntryPayment(tournamentId: string, playerId: string): Promise<TournamentPlayer> {
+    try {
+      const response = await apiService.post(`/tournaments/${tournamentId}/players/${playerId}/payment/confirm`, { deviceId: await DeviceService.getDeviceId() });
+      return response.data as TournamentPlayer;
+    } catch (error) {
+      console.error('Error confirming entry payment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the ledger of entry fees, refunds and prize payouts
+   */
+  async getLedger(tournamentId: string): Promise<TournamentLedger> {
+    try {
+      const response = await apiService.get(`/tournaments/${tournamentId}/ledger?deviceId=${encodeURIComponent(await DeviceService.getDeviceId())}`);
+      return response.data as TournamentLedger;
+    } catch (error) {
+      console.error('Error fetching tournament ledger:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark a prize payout as paid
+   */
+  async markPayoutPaid(tournamentId: string, ledgerEntryId: string): Promise<TournamentLedgerEntry> {
+    try {
+      const response = await apiService.post(`/tournaments/${tournamentId}/ledger/${ledgerEntryId}/paid`, { deviceId: await DeviceService.getDeviceId() });
+      return response.data as TournamentLedgerEntry;
+    } catch (error) {
+      console.error('Error marking payout paid:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the seeding and the log of manual seed changes
+   */
+  async getSeeding(tournamentId: string): Promise<TournamentSeeding> {
+    try {
+      const response = await apiService.get(`/tournaments/${tournamentId}/seeding`);
+      return response.data as TournamentSeeding;
+    } catch (error) {
+      console.error('Error fetching seeding:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Set or clear seeds by hand before the draw
+   */
+  async overrideSeeds(tournamentId: string, seeds: SeedOverride[], changedBy: string, reason?: string): Promise<TournamentSeeding> {
+    try {
+      const response = await apiService.put(`/tournaments/${tournamentId}/seeding`, {
+        seeds,
+        changedBy,
+        reason,
+        deviceId: await DeviceService.getDeviceId(),
+      });
+      return response.data as TournamentSeeding;
+    } catch (error) {
+      console.error('Error updating seeds:', error);
+      throw error;
+    }
+  }
+
   /**
    * Start tournament
    */
   async startTournament(tournamentId: string): Promise<void> {
     try {
-      await apiService.post(`/tournaments/${tournamentId}/start`);
+      await apiService.post(`/tournaments/${tournamentId}/start`, { deviceId: await DeviceService.getDeviceId() });
     } catch (error) {
       console.error('Error starting tournament:', error);
       throw error;
     }
   }
 
+  /**
+   * Report a match's game scores
+   */
+  async reportMatchResult(tournamentId: string, matchId: string, games: MatchGameScore[]): Promise<TournamentMatch> {
+    try {
+      const response = await apiService.post(`/tournaments/${tournamentId}/matches/${matchId}/result`, {
+        games,
+        deviceId: await DeviceService.getDeviceId(),
+      });
+      return response.data as TournamentMatch;
+    } catch (error) {
+      console.error('Error reporting match result:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Start the next round
+   */
+  async startNextRound(tournamentId: string): Promise<TournamentRound> {
+    try {
+      const response = await apiService.post(`/tournaments/${tournamentId}/rounds/next`, { deviceId: await DeviceService.getDeviceId() });
+      return response.data as TournamentRound;
+    } catch (error) {
+      console.error('Error starting next round:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Call a match on court, optionally moving it to another court
+   */
+  async startMatch(tournamentId: string, matchId: string, courtName?: string): Promise<TournamentMatch> {
+    try {
+      const response = await apiService.post(`/tournaments/${tournamentId}/matches/${matchId}/start`, {
+        courtName,
+        deviceId: await DeviceService.getDeviceId(),
+      });
+      return response.data as TournamentMatch;
+    } catch (error) {
+      console.error('Error starting match:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Assign courts and times to every match still to be played
+   */
+  async scheduleMatches(tournamentId: string): Promise<OrderOfPlay> {
+    try {
+      const response = await apiService.post(`/tournaments/${tournamentId}/schedule`, { deviceId: await DeviceService.getDeviceId() });
+      return response.data as OrderOfPlay;
+    } catch (error) {
+      console.error('Error scheduling matches:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the published order of play
+   */
+  async getOrderOfPlay(tournamentId: string): Promise<OrderOfPlay> {
+    try {
+      const response = await apiService.get(`/tournaments/${tournamentId}/order-of-play`);
+      return response.data as OrderOfPlay;
+    } catch (error) {
+      console.error('Error fetching order of play:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get live bracket state
+   */
+  async getBracket(tournamentId: string): Promise<TournamentBracket> {
+    try {
+      const response = await apiService.get(`/tournaments/${tournamentId}/bracket`);
+      return response.data as TournamentBracket;
+    } catch (error) {
+      console.error('Error fetching bracket:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Link to the printable bracket, rendered by the server as SVG or PDF
+   */
+  getBracketExportUrl(tournamentId: string, format: 'svg' | 'pdf' = 'pdf'): string {
+    return `${API_BASE_URL}/tournaments/${tournamentId}/export/bracket?format=${format}`;
+  }
+
+  /**
+   * Link to the order of play or the standings as CSV
+   */
+  getResultsExportUrl(tournamentId: string, file: 'order-of-play' | 'standings'): string {
+    return `${API_BASE_URL}/tournaments/${tournamentId}/export/${file}`;
+  }
+
   /**
    * Get tournament statistics
    */
@@ -0,0 +1,56 @@
+// Session roles and what each may do; mirrors PERMISSION_MATRIX on the backend
+export type SessionRole = 'ORGANIZER' | 'CO_ORGANIZER' | 'SCOREKEEPER' | 'COURT_MANAGER' | 'PLAYER';
+
+// Roles the organizer can hand out to other players
+export type DelegatedRole = Exclude<SessionRole, 'ORGANIZER'>;
+
+export type PermissionAction =
+  | 'edit_session'
+  | 'delete_session'
+  | 'manage_players'
+  | 'remove_players'
+  | 'add_players'
+  | 'update_player_status'
+  | 'generate_pairings'
+  | 'modify_pairings'
+  | 'record_scores'
+  | 'manage_courts'
+  | 'approve_joins'
+  | 'manage_roles';
+
+const ALL_ACTIONS: PermissionAction[] = [
+  'edit_session',
+  'delete_session',
+  'manage_players',
+  'remove_players',
+  'add_players',
+  'update_player_status',
+  'generate_pairings',
+  'modify_pairings',
+  'record_scores',
+  'manage_courts',
+  'approve_joins',
+  'manage_roles'
+];
+
+// update_player_status covers a player's own status; changing other players' needs manage_players
+export const ROLE_PERMISSIONS: Record<SessionRole, PermissionAction[]> = {
+  ORGANIZER: ALL_ACTIONS,
+  CO_ORGANIZER: ALL_ACTIONS.filter(action => action !== 'delete_session' && action !== 'manage_roles'),
+  SCOREKEEPER: ['update_player_status', 'record_scores'],
+  COURT_MANAGER: ['update_player_status', 'generate_pairings', 'modify_pairings', 'manage_courts'],
+  PLAYER: ['update_player_status']
+};
+
+export const ROLE_LABELS: Record<SessionRole, string> = {
+  ORGANIZER: 'Organizer',
+  CO_ORGANIZER: 'Co-organizer',
+  SCOREKEEPER: 'Scorekeeper',
+  COURT_MANAGER: 'Court manager',
+  PLAYER: 'Player'
+};
+
+export const DELEGATED_ROLES: DelegatedRole[] = ['CO_ORGANIZER', 'SCOREKEEPER', 'COURT_MANAGER', 'PLAYER'];
+
+export const roleHasPermission = (role: SessionRole | null | undefined, action: string): boolean =>
+  !!role && (ROLE_PERMISSIONS[role] || []).includes(action as PermissionAction);
@@ -18,6 +18,7 @@ export interface ScoringRules {
   setTimeLimit?: number; // minutes
   restPeriod: number; // minutes between games
   deuceRules: 'sudden_death' | 'advantage' | 'standard';
+  requireConfirmation: boolean; // Scores wait for the opposing team or organizer to confirm
 }
 
 export interface EquipmentRequirements {
@@ -112,6 +113,20 @@ export interface GameRules {
   lineJudgesRequired: boolean;
 }
 
+export interface FairnessWeights {
+  gamesPlayed: number;
+  partnershipDiversity: number;
+  winLossBalance: number;
+  recentPlay: number;
+  opponentDiversity: number; // Avoid facing the same opponents again
+  lateArrival: number; // Prioritise players who joined the session late
+}
+
+export interface RotationSettings {
+  weights: Partial<FairnessWeights>; // Missing weights fall back to the rotation defaults
+  allowSingles: boolean; // Fill spare courts with singles games
+}
+
 export interface SessionConfiguration {
   // Court Configuration
   courtSurface?: CourtConfiguration['surface'];
@@ -124,6 +139,7 @@ export interface SessionConfiguration {
   gameTimeLimit?: ScoringRules['gameTimeLimit'];
   setTimeLimit?: ScoringRules['setTimeLimit'];
   restPeriod: ScoringRules['restPeriod'];
+  requireScoreConfirmation?: ScoringRules['requireConfirmation'];
 
   // Equipment Requirements
   racketRequired: EquipmentRequirements['racketRequired'];
@@ -138,6 +154,10 @@ export interface SessionConfiguration {
   genderPreference?: PlayerRestrictions['genderPreference'];
   maxSkillGap?: PlayerRestrictions['maxSkillGap'];
 
+  // Rotation
+  rotationWeights?: RotationSettings['weights'];
+  allowSingles?: RotationSettings['allowSingles'];
+
   // Advanced Scheduling
   setupTime: AdvancedScheduling['setupTime'];
   bufferTime: AdvancedScheduling['bufferTime'];
@@ -201,6 +221,7 @@ export type ConfigurationSection =
   | 'scoring'
   | 'equipment'
   | 'playerRestrictions'
+  | 'rotation'
   | 'scheduling'
   | 'cost'
   | 'notifications'